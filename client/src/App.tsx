@@ -1,35 +1,49 @@
 import { useState, useEffect, useCallback } from 'react';
-import { trpc } from '@/utils/trpc';
+import { trpc, storeSession, clearSession, hasSession, getAccessToken } from '@/utils/trpc';
 import { AuthForm } from '@/components/AuthForm';
-import { ChatInterface } from '@/components/ChatInterface';
+import { ChatInterface, type ChannelJump } from '@/components/ChatInterface';
+import { NotificationBell } from '@/components/NotificationBell';
+import { InvitePreview } from '@/components/InvitePreview';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import type { PublicUser, AuthResponse } from '../../server/src/schema';
+import type { PublicUser, AuthResponse, Notification } from '../../server/src/schema';
+
+// Invite links look like /invite/<code>
+const INVITE_PATH = /^\/invite\/([\w-]+)$/;
 
 function App() {
   const [currentUser, setCurrentUser] = useState<PublicUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [authToken, setAuthToken] = useState<string>('');
+  // Where the chat should navigate to after a notification is opened
+  const [jumpTarget, setJumpTarget] = useState<ChannelJump | null>(null);
+  // Kept through login so the invite is shown once the user is signed in
+  const [inviteCode, setInviteCode] = useState<string | null>(
+    () => window.location.pathname.match(INVITE_PATH)?.[1] ?? null
+  );
 
   const loadCurrentUser = useCallback(async () => {
-    const token = localStorage.getItem('auth_token');
-    if (!token) {
+    if (!hasSession()) {
       setIsLoading(false);
       return;
     }
     
     try {
+      const token = await getAccessToken();
+      if (!token) {
+        throw new Error('Session could not be refreshed');
+      }
       setAuthToken(token);
       const user = await trpc.auth.getCurrentUser.query();
       if (user) {
         setCurrentUser(user);
       } else {
-        localStorage.removeItem('auth_token');
+        clearSession();
         setAuthToken('');
       }
     } catch (error) {
       console.error('Failed to load current user:', error);
-      localStorage.removeItem('auth_token');
+      clearSession();
       setAuthToken('');
       setError('Session expired. Please log in again.');
     } finally {
@@ -45,13 +59,27 @@ function App() {
     if (response.success && response.user && response.token) {
       setCurrentUser(response.user);
       setAuthToken(response.token);
-      localStorage.setItem('auth_token', response.token);
+      storeSession(response.token, response.refresh_token);
       setError('');
     } else {
       setError(response.message);
     }
   };
 
+  const handleOpenNotification = (notification: Notification) => {
+    setJumpTarget({ channel_id: notification.channel_id, message_id: notification.message_id });
+  };
+
+  const closeInvite = () => {
+    setInviteCode(null);
+    window.history.replaceState(null, '', '/');
+  };
+
+  const handleInviteJoined = (channelId: number) => {
+    closeInvite();
+    setJumpTarget({ channel_id: channelId, message_id: null });
+  };
+
   const handleLogout = async () => {
     try {
       await trpc.auth.logout.mutate();
@@ -60,7 +88,7 @@ function App() {
     } finally {
       setCurrentUser(null);
       setAuthToken('');
-      localStorage.removeItem('auth_token');
+      clearSession();
     }
   };
 
@@ -95,8 +123,9 @@ function App() {
           </h1>
           {currentUser && (
             <div className="flex items-center gap-4">
+              <NotificationBell onOpenNotification={handleOpenNotification} />
               <span className="text-sm">
-                [{currentUser.is_online ? 'ONLINE' : 'OFFLINE'}] {currentUser.username}
+                [{currentUser.status.toUpperCase()}] {currentUser.username}
               </span>
               <button
                 onClick={handleLogout}
@@ -121,10 +150,17 @@ function App() {
         {!currentUser ? (
           <AuthForm onAuth={handleAuth} />
         ) : (
-          <ChatInterface 
-            currentUser={currentUser}
-            onLogout={handleLogout}
-          />
+          <>
+            {inviteCode && (
+              <InvitePreview code={inviteCode} onJoined={handleInviteJoined} onDismiss={closeInvite} />
+            )}
+            <ChatInterface 
+              currentUser={currentUser}
+              onLogout={handleLogout}
+              jumpTarget={jumpTarget}
+              onCurrentUserChange={setCurrentUser}
+            />
+          </>
         )}
       </div>
 
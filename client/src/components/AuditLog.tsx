@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { AuditAction, AuditEvent, ChannelMemberWithUser } from '../../../server/src/schema';
+
+interface AuditLogProps {
+  channelId: number;
+}
+
+const ANY = 'any';
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  channel_created: 'created the channel',
+  channel_renamed: 'renamed the channel',
+  channel_updated: 'changed the settings',
+  channel_archived: 'archived the channel',
+  channel_unarchived: 'restored the channel',
+  member_joined: 'joined',
+  member_left: 'left',
+  member_added: 'added',
+  member_removed: 'removed',
+  member_banned: 'banned',
+  member_unbanned: 'unbanned',
+  member_muted: 'muted',
+  member_unmuted: 'unmuted',
+  role_changed: 'changed the role of',
+  invite_created: 'created an invite',
+  invite_revoked: 'revoked an invite',
+  message_deleted: 'deleted a message by',
+  message_restored: 'restored a message by',
+  channel_deleted: 'deleted the channel',
+};
+
+const PERIOD_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Any time', value: ANY },
+  { label: 'Last hour', value: String(60) },
+  { label: 'Last day', value: String(60 * 24) },
+  { label: 'Last week', value: String(60 * 24 * 7) },
+  { label: 'Last 30 days', value: String(60 * 24 * 30) },
+];
+
+const formatTimestamp = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(new Date(date));
+};
+
+const formatDetails = (event: AuditEvent): string | null => {
+  if (!event.details) return null;
+  if (event.action === 'channel_renamed' || event.action === 'role_changed') {
+    return `${event.details['from']} → ${event.details['to']}`;
+  }
+  return Object.entries(event.details)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ') || null;
+};
+
+// The channel's audit log for the settings dialog; only owners and admins get here
+export function AuditLog({ channelId }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [members, setMembers] = useState<ChannelMemberWithUser[]>([]);
+  const [actorId, setActorId] = useState(ANY);
+  const [action, setAction] = useState(ANY);
+  const [period, setPeriod] = useState(ANY);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (before?: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await trpc.channels.getAuditLog.query({
+        channel_id: channelId,
+        actor_id: actorId === ANY ? undefined : Number(actorId),
+        actions: action === ANY ? undefined : [action as AuditAction],
+        since: period === ANY ? undefined : new Date(Date.now() - Number(period) * 60 * 1000),
+        limit: PAGE_SIZE,
+        before
+      });
+      setEvents((prev: AuditEvent[]) => (before === undefined ? page.events : [...prev, ...page.events]));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [channelId, actorId, action, period]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  // Filtering by actor only offers current members; former members still show up in the unfiltered log
+  useEffect(() => {
+    trpc.channels.getMembers.query({ channelId })
+      .then(setMembers)
+      .catch((error: unknown) => console.error('Failed to load members:', error));
+  }, [channelId]);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <Select value={actorId} onValueChange={setActorId}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            <SelectItem value={ANY} className="font-mono text-green-400 focus:bg-green-900">Anyone</SelectItem>
+            {members.map((member: ChannelMemberWithUser) => (
+              <SelectItem key={member.id} value={String(member.id)} className="font-mono text-green-400 focus:bg-green-900">
+                {member.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            <SelectItem value={ANY} className="font-mono text-green-400 focus:bg-green-900">All actions</SelectItem>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((value: AuditAction) => (
+              <SelectItem key={value} value={value} className="font-mono text-green-400 focus:bg-green-900">
+                {value.replace(/_/g, ' ')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            {PERIOD_OPTIONS.map(({ label, value }) => (
+              <SelectItem key={value} value={value} className="font-mono text-green-400 focus:bg-green-900">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+
+      <div className="max-h-80 overflow-y-auto scrollbar-thin space-y-1">
+        {events.length === 0 && !isLoading && (
+          <p className="text-xs font-mono text-green-600">Nothing recorded yet.</p>
+        )}
+        {events.map((event: AuditEvent) => {
+          const details = formatDetails(event);
+          return (
+            <div key={event.id} className="text-xs font-mono border-l-2 border-green-800 pl-2 py-0.5">
+              <span className="text-green-600">{formatTimestamp(event.created_at)}</span>{' '}
+              <span className="text-green-300">{event.actor.username}</span>{' '}
+              <span className="text-green-500">{ACTION_LABELS[event.action]}</span>
+              {event.target_user && <span className="text-green-300"> {event.target_user.username}</span>}
+              {details && <span className="text-green-600"> ({details})</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      {nextCursor !== null && (
+        <Button
+          type="button"
+          onClick={() => loadEvents(nextCursor)}
+          disabled={isLoading}
+          className="w-full h-7 bg-green-800 hover:bg-green-700 text-green-100 font-mono text-xs"
+        >
+          {isLoading ? 'LOADING...' : 'LOAD OLDER'}
+        </Button>
+      )}
+    </div>
+  );
+}
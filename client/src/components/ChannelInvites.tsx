@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { ChannelInvite } from '../../../server/src/schema';
+
+interface ChannelInvitesProps {
+  channelId: number;
+}
+
+const NO_LIMIT = 'none';
+const COPIED_FEEDBACK_MS = 1500;
+
+const MAX_USES_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Unlimited uses', value: NO_LIMIT },
+  { label: '1 use', value: '1' },
+  { label: '5 uses', value: '5' },
+  { label: '25 uses', value: '25' },
+];
+
+const EXPIRY_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Never expires', value: NO_LIMIT },
+  { label: 'Expires in 1 hour', value: String(60) },
+  { label: 'Expires in 1 day', value: String(60 * 24) },
+  { label: 'Expires in 1 week', value: String(60 * 24 * 7) },
+];
+
+const inviteLink = (code: string): string => `${window.location.origin}/invite/${code}`;
+
+const optionalNumber = (value: string): number | undefined => value === NO_LIMIT ? undefined : Number(value);
+
+// Invite links for the channel settings dialog; only owners and admins get here
+export function ChannelInvites({ channelId }: ChannelInvitesProps) {
+  const [invites, setInvites] = useState<ChannelInvite[]>([]);
+  const [maxUses, setMaxUses] = useState(NO_LIMIT);
+  const [expiry, setExpiry] = useState(String(60 * 24));
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await trpc.channels.listInvites.query({ channelId }));
+    } catch (error) {
+      console.error('Failed to load invites:', error);
+    }
+  }, [channelId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(code));
+      setCopiedCode(code);
+      setTimeout(() => setCopiedCode(null), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const invite = await trpc.channels.createInvite.mutate({
+        channel_id: channelId,
+        max_uses: optionalNumber(maxUses),
+        expires_in_minutes: optionalNumber(expiry)
+      });
+      setInvites((prev: ChannelInvite[]) => [invite, ...prev]);
+      handleCopy(invite.code);
+    } catch (error) {
+      console.error('Failed to create invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create invite');
+    }
+  };
+
+  const handleRevoke = async (code: string) => {
+    setError(null);
+    try {
+      await trpc.channels.revokeInvite.mutate({ code });
+      setInvites((prev: ChannelInvite[]) => prev.filter((invite: ChannelInvite) => invite.code !== code));
+    } catch (error) {
+      console.error('Failed to revoke invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke invite');
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-green-800 pt-4">
+      <div className="text-sm font-mono">INVITE LINKS:</div>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={maxUses} onValueChange={setMaxUses}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            {MAX_USES_OPTIONS.map(({ label, value }) => (
+              <SelectItem key={value} value={value} className="font-mono text-green-400 focus:bg-green-900">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            {EXPIRY_OPTIONS.map(({ label, value }) => (
+              <SelectItem key={value} value={value} className="font-mono text-green-400 focus:bg-green-900">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        type="button"
+        onClick={handleCreate}
+        className="w-full h-7 bg-green-800 hover:bg-green-700 text-green-100 font-mono text-xs"
+      >
+        CREATE INVITE LINK
+      </Button>
+      {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+
+      <div className="max-h-40 overflow-y-auto scrollbar-thin">
+        {invites.map((invite: ChannelInvite) => (
+          <div key={invite.code} className="flex items-center gap-2 py-1 text-xs font-mono">
+            <span className="text-green-300 truncate flex-1" title={inviteLink(invite.code)}>
+              {invite.code}
+            </span>
+            <span className="text-green-600">
+              {invite.max_uses === null ? `${invite.use_count} uses` : `${invite.use_count}/${invite.max_uses}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => handleCopy(invite.code)}
+              className="text-green-600 hover:text-green-300"
+            >
+              {copiedCode === invite.code ? 'COPIED' : 'COPY'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRevoke(invite.code)}
+              className="text-red-500 hover:text-red-300"
+            >
+              REVOKE
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,9 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { UnreadBadge } from '@/components/UnreadBadge';
 import { trpc } from '@/utils/trpc';
-import type { ChannelWithMembers, PublicUser, CreateChannelInput } from '../../../server/src/schema';
+import type { ChannelWithMembers, PublicUser, CreateChannelInput, UnreadCount } from '../../../server/src/schema';
 
 interface ChannelListProps {
   publicChannels: ChannelWithMembers[];
@@ -14,6 +15,7 @@ interface ChannelListProps {
   onChannelSelect: (channel: ChannelWithMembers) => void;
   onJoinChannel: (channelId: number) => void;
   currentUser: PublicUser;
+  unreadCounts: Record<number, UnreadCount>;
 }
 
 export function ChannelList({
@@ -22,7 +24,8 @@ export function ChannelList({
   activeChannel,
   onChannelSelect,
   onJoinChannel,
-  currentUser
+  currentUser,
+  unreadCounts
 }: ChannelListProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -174,12 +177,15 @@ export function ChannelList({
                   <span className="flex items-center gap-2">
                     {channel.is_private ? '🔒' : '#'}{channel.name}
                   </span>
-                  <Badge 
-                    variant="outline" 
-                    className="text-xs border-green-600 text-green-500"
-                  >
-                    {channel.member_count}
-                  </Badge>
+                  <span className="flex items-center gap-1">
+                    <UnreadBadge count={unreadCounts[channel.id]} />
+                    <Badge 
+                      variant="outline" 
+                      className="text-xs border-green-600 text-green-500"
+                    >
+                      {channel.member_count}
+                    </Badge>
+                  </span>
                 </div>
                 {channel.description && (
                   <p className="text-xs text-green-600 truncate mt-1">
@@ -0,0 +1,221 @@
+import { useState, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { trpc } from '@/utils/trpc';
+import { PRESENCE_DOT_CLASSES } from '@/lib/presence';
+import type { PublicUser, ChannelMemberWithUser, ChannelBan, MemberRole } from '../../../server/src/schema';
+
+interface ChannelMembersProps {
+  channelId: number;
+  memberCount: number;
+  currentUser: PublicUser;
+  onMembersChanged: () => void;
+}
+
+const ROLE_RANK: Record<MemberRole, number> = { owner: 3, admin: 2, member: 1 };
+
+const MUTE_DURATIONS: { label: string; minutes: number }[] = [
+  { label: '10 minutes', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 60 * 24 },
+];
+
+// Without minutes the ban is permanent
+const BAN_DURATIONS: { label: string; minutes?: number }[] = [
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 60 * 24 },
+  { label: '1 week', minutes: 60 * 24 * 7 },
+  { label: 'Permanently' },
+];
+
+const formatUntil = (date: Date): string =>
+  new Date(date).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Member count in the channel header; opens the member list, where moderators right-click members for actions
+export function ChannelMembers({ channelId, memberCount, currentUser, onMembersChanged }: ChannelMembersProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [members, setMembers] = useState<ChannelMemberWithUser[]>([]);
+  const [bans, setBans] = useState<ChannelBan[]>([]);
+  const [outcome, setOutcome] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const ownRole = members.find((member: ChannelMemberWithUser) => member.id === currentUser.id)?.role ?? 'member';
+  const isModerator = ownRole !== 'member';
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const result = await trpc.channels.getMembers.query({ channelId });
+      setMembers(result);
+      const me = result.find((member: ChannelMemberWithUser) => member.id === currentUser.id);
+      setBans(me && me.role !== 'member' ? await trpc.channels.getBans.query({ channelId }) : []);
+    } catch (error) {
+      console.error('Failed to load channel members:', error);
+    }
+  }, [channelId, currentUser.id]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    setOutcome(null);
+    if (open) {
+      loadMembers();
+    }
+  };
+
+  const moderate = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    try {
+      const result = await action();
+      setOutcome({ text: result.message, isError: !result.success });
+      if (result.success) {
+        loadMembers();
+        onMembersChanged();
+      }
+    } catch (error) {
+      console.error('Moderation failed:', error);
+      setOutcome({ text: 'Moderation failed', isError: true });
+    }
+  };
+
+  const renderActions = (member: ChannelMemberWithUser) => {
+    const target = { channel_id: channelId, user_id: member.id };
+
+    return (
+      <ContextMenuContent className="bg-gray-800 border-green-700 font-mono text-green-400">
+        {ownRole === 'owner' && member.role === 'member' && (
+          <ContextMenuItem onSelect={() => moderate(() => trpc.channels.setRole.mutate({ ...target, role: 'admin' }))}>
+            Promote to admin
+          </ContextMenuItem>
+        )}
+        {ownRole === 'owner' && member.role === 'admin' && (
+          <ContextMenuItem onSelect={() => moderate(() => trpc.channels.setRole.mutate({ ...target, role: 'member' }))}>
+            Demote to member
+          </ContextMenuItem>
+        )}
+        {ownRole === 'owner' && <ContextMenuSeparator className="bg-green-900" />}
+        {member.muted_until ? (
+          <ContextMenuItem onSelect={() => moderate(() => trpc.channels.unmute.mutate(target))}>
+            Unmute
+          </ContextMenuItem>
+        ) : (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>Mute for</ContextMenuSubTrigger>
+            <ContextMenuSubContent className="bg-gray-800 border-green-700 font-mono text-green-400">
+              {MUTE_DURATIONS.map(({ label, minutes }) => (
+                <ContextMenuItem
+                  key={label}
+                  onSelect={() => moderate(() => trpc.channels.mute.mutate({ ...target, duration_minutes: minutes }))}
+                >
+                  {label}
+                </ContextMenuItem>
+              ))}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+        <ContextMenuItem onSelect={() => moderate(() => trpc.channels.kick.mutate(target))}>
+          Kick
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger className="text-red-400">Ban</ContextMenuSubTrigger>
+          <ContextMenuSubContent className="bg-gray-800 border-green-700 font-mono text-green-400">
+            {BAN_DURATIONS.map(({ label, minutes }) => (
+              <ContextMenuItem
+                key={label}
+                onSelect={() => moderate(() => trpc.channels.ban.mutate({ ...target, duration_minutes: minutes }))}
+              >
+                {label}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+      </ContextMenuContent>
+    );
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge
+            variant="outline"
+            className="border-green-600 text-green-400 font-mono hover:bg-green-900/40"
+          >
+            {memberCount} members
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0 bg-gray-800 border-green-700 font-mono">
+        <div className="border-b border-green-800 px-3 py-2 text-xs text-green-300 uppercase tracking-wider">
+          Members
+        </div>
+        <div className="max-h-80 overflow-y-auto scrollbar-thin">
+          {members.map((member: ChannelMemberWithUser) => {
+            const row = (
+              <div className="flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-gray-700/50">
+                <span className={`w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[member.status]}`}></span>
+                <span className="text-green-300 truncate flex-1">
+                  {member.username}
+                  {member.id === currentUser.id && <span className="text-green-600"> (you)</span>}
+                </span>
+                {member.muted_until && (
+                  <span className="text-yellow-500" title={`Muted until ${formatUntil(member.muted_until)}`}>MUTED</span>
+                )}
+                {member.role !== 'member' && (
+                  <span className={member.role === 'owner' ? 'text-yellow-400' : 'text-blue-400'}>
+                    {member.role.toUpperCase()}
+                  </span>
+                )}
+              </div>
+            );
+
+            // Only members the current user outranks get a menu
+            if (ROLE_RANK[ownRole] <= ROLE_RANK[member.role]) {
+              return <div key={member.id}>{row}</div>;
+            }
+            return (
+              <ContextMenu key={member.id}>
+                <ContextMenuTrigger asChild>{row}</ContextMenuTrigger>
+                {renderActions(member)}
+              </ContextMenu>
+            );
+          })}
+
+          {bans.length > 0 && (
+            <>
+              <div className="border-t border-green-800 px-3 py-2 text-xs text-red-400 uppercase tracking-wider">
+                Banned
+              </div>
+              {bans.map((ban: ChannelBan) => (
+                <div key={ban.user.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                  <span className="text-green-300 truncate flex-1">{ban.user.username}</span>
+                  <span className="text-green-600">
+                    {ban.expires_at ? `until ${formatUntil(ban.expires_at)}` : 'permanent'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => moderate(() => trpc.channels.unban.mutate({ channel_id: channelId, user_id: ban.user.id }))}
+                    className="text-green-600 hover:text-green-300"
+                  >
+                    UNBAN
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+        {(outcome || isModerator) && (
+          <div className={`border-t border-green-800 px-3 py-2 text-xs ${outcome?.isError ? 'text-red-400' : 'text-green-600'}`}>
+            {outcome ? outcome.text : 'Right-click a member to moderate'}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ChannelInvites } from '@/components/ChannelInvites';
+import { AuditLog } from '@/components/AuditLog';
+import { trpc } from '@/utils/trpc';
+import type { ChatChannel, MemberRole } from '../../../server/src/schema';
+
+interface ChannelSettingsProps {
+  channel: ChatChannel;
+  role: MemberRole; // The current user's role; only owners and admins see the dialog
+  onChannelChanged: (channel: ChatChannel) => void;
+  onChannelDeleted: (channelId: number) => void;
+}
+
+interface SettingsForm {
+  name: string;
+  description: string;
+  topic: string;
+  is_private: boolean;
+}
+
+const toForm = (channel: ChatChannel): SettingsForm => ({
+  name: channel.name,
+  description: channel.description ?? '',
+  topic: channel.topic ?? '',
+  is_private: channel.is_private
+});
+
+export function ChannelSettings({ channel, role, onChannelChanged, onChannelDeleted }: ChannelSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<SettingsForm>(toForm(channel));
+
+  const isOwner = role === 'owner';
+  const isArchived = channel.archived_at !== null;
+  const isDirectChat = channel.kind === 'dm' || channel.kind === 'group_dm';
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setForm(toForm(channel));
+      setError(null);
+    }
+  };
+
+  // Runs a settings change, keeping the dialog open with the reason when it fails
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to change channel settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change channel settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const updated = await trpc.channels.update.mutate({
+        channel_id: channel.id,
+        name: form.name,
+        description: form.description.trim() || null,
+        topic: form.topic.trim() || null,
+        // Admins cannot change visibility, and DMs have none to change, so they must not send it
+        is_private: isOwner && !isDirectChat ? form.is_private : undefined
+      });
+      onChannelChanged(updated);
+      setIsOpen(false);
+    });
+  };
+
+  const handleArchive = () => run(async () => {
+    const updated = await trpc.channels.archive.mutate({ channel_id: channel.id, archived: !isArchived });
+    onChannelChanged(updated);
+    setIsOpen(false);
+  });
+
+  const handleDelete = () => run(async () => {
+    await trpc.channels.delete.mutate({ channelId: channel.id });
+    setIsOpen(false);
+    onChannelDeleted(channel.id);
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="text-xs font-mono text-green-600 hover:text-green-300"
+          title="Channel settings"
+        >
+          ⚙ SETTINGS
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-gray-800 border-green-800 text-green-400">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-green-300">
+            CHANNEL SETTINGS
+          </DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="settings">
+          <TabsList className="grid w-full grid-cols-2 bg-gray-700 border border-green-800">
+            <TabsTrigger
+              value="settings"
+              className="font-mono text-xs data-[state=active]:bg-green-900 data-[state=active]:text-green-200"
+            >
+              SETTINGS
+            </TabsTrigger>
+            <TabsTrigger
+              value="audit"
+              className="font-mono text-xs data-[state=active]:bg-green-900 data-[state=active]:text-green-200"
+            >
+              AUDIT LOG
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="settings" className="space-y-4">
+            <form onSubmit={handleSave} className="space-y-4">
+              <fieldset disabled={isArchived} className="space-y-4">
+                <div>
+                  <label className="text-sm font-mono block mb-1">CHANNEL NAME:</label>
+                  <Input
+                    value={form.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setForm((prev: SettingsForm) => ({ ...prev, name: e.target.value }))
+                    }
+                    className="bg-gray-700 border-green-700 text-green-300 placeholder-green-600 font-mono"
+                    maxLength={100}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-mono block mb-1">DESCRIPTION:</label>
+                  <Input
+                    value={form.description}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setForm((prev: SettingsForm) => ({ ...prev, description: e.target.value }))
+                    }
+                    placeholder="What the channel is for"
+                    className="bg-gray-700 border-green-700 text-green-300 placeholder-green-600 font-mono"
+                    maxLength={500}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-mono block mb-1">TOPIC:</label>
+                  <Input
+                    value={form.topic}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setForm((prev: SettingsForm) => ({ ...prev, topic: e.target.value }))
+                    }
+                    placeholder="What is being discussed right now"
+                    className="bg-gray-700 border-green-700 text-green-300 placeholder-green-600 font-mono"
+                    maxLength={250}
+                  />
+                </div>
+                {isOwner && !isDirectChat && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="settings-is-private"
+                      checked={form.is_private}
+                      onCheckedChange={(checked: boolean) =>
+                        setForm((prev: SettingsForm) => ({ ...prev, is_private: checked }))
+                      }
+                      className="border-green-700 data-[state=checked]:bg-green-800 data-[state=checked]:border-green-600"
+                    />
+                    <label htmlFor="settings-is-private" className="text-sm font-mono text-green-400">
+                      PRIVATE CHANNEL
+                    </label>
+                  </div>
+                )}
+              </fieldset>
+
+              {isArchived && (
+                <p className="text-xs font-mono text-yellow-500">
+                  This channel is archived. Restore it to edit its settings.
+                </p>
+              )}
+              {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsOpen(false)}
+                  className="flex-1 border-gray-600 text-gray-400 hover:bg-gray-700 font-mono"
+                >
+                  CANCEL
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading || isArchived}
+                  className="flex-1 bg-green-800 hover:bg-green-700 text-green-100 font-mono"
+                >
+                  {isLoading ? 'SAVING...' : 'SAVE'}
+                </Button>
+              </div>
+            </form>
+
+            {!isArchived && !isDirectChat && <ChannelInvites channelId={channel.id} />}
+
+            {isOwner && (
+              <div className="flex gap-2 border-t border-green-800 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleArchive}
+                  disabled={isLoading}
+                  className="flex-1 border-yellow-700 text-yellow-400 hover:bg-yellow-900/40 font-mono"
+                >
+                  {isArchived ? 'RESTORE' : 'ARCHIVE'}
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={isLoading}
+                      className="flex-1 border-red-700 text-red-400 hover:bg-red-900/40 font-mono"
+                    >
+                      DELETE
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="bg-gray-800 border-red-800 text-green-400">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle className="font-mono text-red-400">DELETE #{channel.name}?</AlertDialogTitle>
+                      <AlertDialogDescription className="font-mono text-green-500">
+                        Every message, reaction and file in this channel is deleted for all members. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel className="border-gray-600 text-gray-400 hover:bg-gray-700 font-mono">
+                        CANCEL
+                      </AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleDelete}
+                        className="bg-red-800 hover:bg-red-700 text-red-100 font-mono"
+                      >
+                        DELETE CHANNEL
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditLog channelId={channel.id} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,29 +1,65 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
 import { ChannelList } from '@/components/ChannelList';
+import { ChannelMembers } from '@/components/ChannelMembers';
+import { ChannelSettings } from '@/components/ChannelSettings';
 import { ChatMessages } from '@/components/ChatMessages';
 import { MessageInput } from '@/components/MessageInput';
 import { OnlineUsers } from '@/components/OnlineUsers';
 import { PrivateChatList } from '@/components/PrivateChatList';
+import { SearchPanel } from '@/components/SearchPanel';
+import { ThreadPanel } from '@/components/ThreadPanel';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import type { PublicUser, ChannelWithMembers, MessageWithUser } from '../../../server/src/schema';
+import { getConnectionId } from '@/lib/presence';
+import { applyReactionEvent, mergeBroadcastReactions } from '@/lib/reactions';
+import type { PublicUser, ChannelWithMembers, MessageWithUser, MessageSearchHit, ReactionEvent, UnreadCount, CommandResult, UserChannel, ChatChannel } from '../../../server/src/schema';
+
+// Heartbeats must arrive well within the server's 90s presence timeout
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const MESSAGE_PAGE_SIZE = 50;
+
+// A channel to open, at a specific message when message_id is set
+export interface ChannelJump {
+  channel_id: number;
+  message_id: number | null;
+}
 
 interface ChatInterfaceProps {
   currentUser: PublicUser;
   onLogout: () => void;
+  jumpTarget?: ChannelJump | null;
+  onCurrentUserChange?: (user: PublicUser) => void;
 }
 
-export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
+export function ChatInterface({ currentUser, onLogout, jumpTarget, onCurrentUserChange }: ChatInterfaceProps) {
   const [activeChannel, setActiveChannel] = useState<ChannelWithMembers | null>(null);
   const [messages, setMessages] = useState<MessageWithUser[]>([]);
   const [publicChannels, setPublicChannels] = useState<ChannelWithMembers[]>([]);
-  const [userChannels, setUserChannels] = useState<ChannelWithMembers[]>([]);
+  const [userChannels, setUserChannels] = useState<UserChannel[]>([]);
   const [onlineUsers, setOnlineUsers] = useState<PublicUser[]>([]);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  // Id to page back from; null once the start of the channel is loaded
+  const [historyCursor, setHistoryCursor] = useState<number | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // Set when jumping to a search hit; the view then shows that message in context instead of the latest page
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  // Id to page forward from when the loaded window does not reach the latest message
+  const [newerCursor, setNewerCursor] = useState<number | null>(null);
+  const newerCursorRef = useRef<number | null>(null);
+  // Any message of the thread shown in the side panel
+  const [threadMessageId, setThreadMessageId] = useState<number | null>(null);
+  // Unread state of every channel the user belongs to, by channel id
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, UnreadCount>>({});
+  const activeChannelIdRef = useRef<number | null>(null);
+  // The loaded messages as of the last render, for subscription handlers
+  const messagesRef = useRef<MessageWithUser[]>([]);
+  // Newest message id already reported read, by channel id
+  const lastMarkedReadRef = useRef<Record<number, number>>({});
+  const lastActivityRef = useRef<number>(Date.now());
 
   // Load public channels
   const loadPublicChannels = useCallback(async () => {
@@ -44,6 +80,9 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
     try {
       const channels = await trpc.channels.getUserChannels.query();
       setUserChannels(channels);
+      setUnreadCounts(Object.fromEntries(channels.map(({ id, unread_count, mention_count }) =>
+        [id, { channel_id: id, unread_count, mention_count }]
+      )));
     } catch (error) {
       console.error('Failed to load user channels:', error);
     }
@@ -64,20 +103,227 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
     if (!activeChannel) return;
     
     setIsLoadingMessages(true);
+    setHistoryCursor(null);
     try {
-      const channelMessages = await trpc.messages.get.query({
-        channel_id: activeChannel.id,
-        limit: 50,
-        offset: 0
-      });
-      setMessages(channelMessages);
+      if (focusMessageId === null) {
+        const page = await trpc.messages.get.query({
+          channel_id: activeChannel.id,
+          limit: MESSAGE_PAGE_SIZE
+        });
+        setMessages(page.messages);
+        setHistoryCursor(page.nextCursor);
+        setNewerCursor(null);
+        newerCursorRef.current = null;
+      } else {
+        // The focused message and what led up to it, plus the page that follows
+        const [older, newer] = await Promise.all([
+          trpc.messages.get.query({
+            channel_id: activeChannel.id,
+            limit: MESSAGE_PAGE_SIZE,
+            before: focusMessageId + 1
+          }),
+          trpc.messages.get.query({
+            channel_id: activeChannel.id,
+            limit: MESSAGE_PAGE_SIZE,
+            after: focusMessageId
+          })
+        ]);
+        setMessages([...older.messages, ...newer.messages]);
+        setHistoryCursor(older.nextCursor);
+        setNewerCursor(newer.nextCursor);
+        newerCursorRef.current = newer.nextCursor;
+      }
     } catch (error) {
       console.error('Failed to load messages:', error);
     } finally {
       setIsLoadingMessages(false);
     }
+  }, [activeChannel, focusMessageId]);
+
+  // Prepend the page before the oldest loaded message
+  const loadOlderMessages = useCallback(async () => {
+    if (!activeChannel || historyCursor === null || isLoadingHistory) return;
+    const channelId = activeChannel.id;
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await trpc.messages.get.query({
+        channel_id: channelId,
+        limit: MESSAGE_PAGE_SIZE,
+        before: historyCursor
+      });
+      setMessages((prev: MessageWithUser[]) =>
+        // Ignore the page if the user switched channels meanwhile
+        prev.length > 0 && prev[0].channel_id !== channelId ? prev : [...page.messages, ...prev]
+      );
+      setHistoryCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [activeChannel, historyCursor, isLoadingHistory]);
+
+  const sendHeartbeat = useCallback(async () => {
+    const isIdle = document.hidden || Date.now() - lastActivityRef.current > IDLE_AFTER_MS;
+    try {
+      await trpc.presence.heartbeat.mutate({ connection_id: getConnectionId(), is_idle: isIdle });
+    } catch (error) {
+      console.error('Presence heartbeat failed:', error);
+    }
+  }, []);
+
+  // Keep this tab registered as a live device while the chat is open
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener('mousemove', markActive);
+    window.addEventListener('keydown', markActive);
+    document.addEventListener('visibilitychange', sendHeartbeat);
+
+    sendHeartbeat();
+    const interval = window.setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('mousemove', markActive);
+      window.removeEventListener('keydown', markActive);
+      document.removeEventListener('visibilitychange', sendHeartbeat);
+      trpc.presence.disconnect.mutate({ connection_id: getConnectionId() }).catch((error: unknown) => {
+        console.error('Presence disconnect failed:', error);
+      });
+    };
+  }, [sendHeartbeat]);
+
+  // Live presence changes for the users list
+  useEffect(() => {
+    const subscription = trpc.presence.onChange.subscribe(undefined, {
+      onData: (user: PublicUser) => {
+        setOnlineUsers((prev: PublicUser[]) => [...prev.filter((u: PublicUser) => u.id !== user.id), user]);
+      },
+      onError: (error) => console.error('Presence subscription failed:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Live updates for the active channel
+  useEffect(() => {
+    if (!activeChannel) return;
+    const channelId = activeChannel.id;
+
+    const onNew = trpc.messages.onNew.subscribe({ channelId }, {
+      onData: (message: MessageWithUser) => {
+        // Appending past a gap would put the message next to unrelated history
+        if (newerCursorRef.current !== null) return;
+        setMessages((prev: MessageWithUser[]) =>
+          prev.some((m: MessageWithUser) => m.id === message.id) ? prev : [...prev, message]
+        );
+      },
+      onError: (error) => console.error('New message subscription failed:', error),
+    });
+
+    // Our reactions went with the tombstone, so a restored message is fetched again to learn which are ours
+    const reloadReactions = (messageId: number) => {
+      trpc.messages.getThread.query({ message_id: messageId })
+        .then(({ root, replies }: { root: MessageWithUser; replies: MessageWithUser[] }) => {
+          const reloaded = [root, ...replies].find((m: MessageWithUser) => m.id === messageId);
+          if (!reloaded) return;
+          setMessages((prev: MessageWithUser[]) =>
+            prev.map((m: MessageWithUser) => (m.id === messageId ? { ...m, reactions: reloaded.reactions } : m))
+          );
+        })
+        .catch((error: unknown) => console.error('Failed to reload restored message:', error));
+    };
+
+    const onUpdate = trpc.messages.onUpdate.subscribe({ channelId }, {
+      onData: (message: MessageWithUser) => {
+        const current = messagesRef.current.find((m: MessageWithUser) => m.id === message.id);
+        setMessages((prev: MessageWithUser[]) =>
+          prev.map((m: MessageWithUser) =>
+            m.id === message.id ? { ...message, reactions: mergeBroadcastReactions(m.reactions, message.reactions) } : m
+          )
+        );
+        if (current?.deleted_at && !message.deleted_at && message.reactions.length > 0) {
+          reloadReactions(message.id);
+        }
+      },
+      onError: (error) => console.error('Message update subscription failed:', error),
+    });
+
+    const onDelete = trpc.messages.onDelete.subscribe({ channelId }, {
+      onData: ({ id }: { id: number }) => {
+        setMessages((prev: MessageWithUser[]) => prev.filter((m: MessageWithUser) => m.id !== id));
+      },
+      onError: (error) => console.error('Message delete subscription failed:', error),
+    });
+
+    const onReaction = trpc.messages.onReaction.subscribe({ channelId }, {
+      onData: (event: ReactionEvent) => {
+        setMessages((prev: MessageWithUser[]) =>
+          prev.map((m: MessageWithUser) =>
+            m.id === event.message_id ? { ...m, reactions: applyReactionEvent(m.reactions, event, currentUser.id) } : m
+          )
+        );
+      },
+      onError: (error) => console.error('Reaction subscription failed:', error),
+    });
+
+    return () => {
+      onNew.unsubscribe();
+      onUpdate.unsubscribe();
+      onDelete.unsubscribe();
+      onReaction.unsubscribe();
+    };
+  }, [activeChannel, currentUser.id]);
+
+  useEffect(() => {
+    activeChannelIdRef.current = activeChannel?.id ?? null;
   }, [activeChannel]);
 
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Whatever is loaded in the active channel counts as read while the tab is visible
+  const markActiveChannelRead = useCallback(() => {
+    if (!activeChannel || document.hidden || messages.length === 0) return;
+    const channelId = activeChannel.id;
+    const latestId = messages[messages.length - 1].id;
+    // Messages can still belong to the previous channel right after switching; only members have a read position
+    if (messages[messages.length - 1].channel_id !== channelId) return;
+    if (!userChannels.some((channel: ChannelWithMembers) => channel.id === channelId)) return;
+    if (latestId <= (lastMarkedReadRef.current[channelId] ?? 0)) return;
+
+    lastMarkedReadRef.current[channelId] = latestId;
+    setUnreadCounts((prev: Record<number, UnreadCount>) => ({
+      ...prev,
+      [channelId]: { channel_id: channelId, unread_count: 0, mention_count: 0 }
+    }));
+    trpc.channels.markRead.mutate({ channel_id: channelId, message_id: latestId }).catch((error: unknown) => {
+      console.error('Failed to mark channel read:', error);
+    });
+  }, [activeChannel, messages, userChannels]);
+
+  useEffect(() => {
+    markActiveChannelRead();
+    document.addEventListener('visibilitychange', markActiveChannelRead);
+    return () => document.removeEventListener('visibilitychange', markActiveChannelRead);
+  }, [markActiveChannelRead]);
+
+  // Live unread counts for the other channels
+  useEffect(() => {
+    const subscription = trpc.channels.onUnread.subscribe(undefined, {
+      onData: (count: UnreadCount) => {
+        // The visible active channel is marked read as its messages arrive
+        if (count.channel_id === activeChannelIdRef.current && !document.hidden) return;
+        setUnreadCounts((prev: Record<number, UnreadCount>) => ({ ...prev, [count.channel_id]: count }));
+      },
+      onError: (error) => console.error('Unread subscription failed:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   // Initial data loading
   useEffect(() => {
     loadPublicChannels();
@@ -91,11 +337,109 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
   }, [loadMessages]);
 
   const handleChannelSelect = (channel: ChannelWithMembers) => {
+    setFocusMessageId(null);
+    setThreadMessageId(null);
     setActiveChannel(channel);
   };
 
+  const jumpTo = useCallback(async ({ channel_id, message_id }: ChannelJump) => {
+    let channel = userChannels.find((c: ChannelWithMembers) => c.id === channel_id);
+    if (!channel) {
+      // Joined since the channel list was last loaded
+      try {
+        const channels = await trpc.channels.getUserChannels.query();
+        setUserChannels(channels);
+        channel = channels.find((c: ChannelWithMembers) => c.id === channel_id);
+      } catch (error) {
+        console.error('Failed to load user channels:', error);
+      }
+    }
+    if (!channel) return;
+
+    setFocusMessageId(message_id);
+    if (channel.id !== activeChannel?.id) {
+      setThreadMessageId(null);
+      setActiveChannel(channel);
+    }
+  }, [userChannels, activeChannel]);
+
+  const handleSearchHit = (hit: MessageSearchHit) => {
+    jumpTo({ channel_id: hit.channel_id, message_id: hit.id });
+  };
+
+  // Each jump requested by the parent is followed once, even as jumpTo changes
+  const handledJumpRef = useRef<ChannelJump | null>(null);
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget === handledJumpRef.current) return;
+    handledJumpRef.current = jumpTarget;
+    jumpTo(jumpTarget);
+  }, [jumpTarget, jumpTo]);
+
   const handleMessageSent = (newMessage: MessageWithUser) => {
-    setMessages((prev: MessageWithUser[]) => [...prev, newMessage]);
+    if (newerCursorRef.current !== null) {
+      // Bring the view back to the present so the sent message is visible
+      setFocusMessageId(null);
+      return;
+    }
+    // The subscription may already have delivered this message
+    setMessages((prev: MessageWithUser[]) =>
+      prev.some((m: MessageWithUser) => m.id === newMessage.id) ? prev : [...prev, newMessage]
+    );
+  };
+
+  const handleCommandResult = async (result: CommandResult) => {
+    if (result.user) {
+      onCurrentUserChange?.(result.user);
+    }
+    if (result.open_channel_id !== null) {
+      jumpTo({ channel_id: result.open_channel_id, message_id: null });
+    }
+    if (result.left_channel_id !== null) {
+      loadPublicChannels();
+      try {
+        const channels = await trpc.channels.getUserChannels.query();
+        setUserChannels(channels);
+        if (activeChannelIdRef.current === result.left_channel_id) {
+          setFocusMessageId(null);
+          setThreadMessageId(null);
+          setActiveChannel(channels[0] ?? null);
+        }
+      } catch (error) {
+        console.error('Failed to load user channels:', error);
+      }
+    }
+  };
+
+  // Null while the current user is not a member of the active channel
+  const activeChannelRole = userChannels.find((channel: UserChannel) => channel.id === activeChannel?.id)?.role ?? null;
+
+  const handleChannelChanged = (channel: ChatChannel) => {
+    setActiveChannel((prev: ChannelWithMembers | null) => (prev && prev.id === channel.id ? { ...prev, ...channel } : prev));
+    loadPublicChannels();
+    loadUserChannels();
+  };
+
+  const handleChannelDeleted = (channelId: number) => {
+    if (activeChannelIdRef.current === channelId) {
+      setFocusMessageId(null);
+      setThreadMessageId(null);
+      setActiveChannel(null);
+    }
+    loadPublicChannels();
+    loadUserChannels();
+  };
+
+  const handleToggleReaction = async (messageId: number, emoji: string, reacted: boolean) => {
+    try {
+      const reactions = reacted
+        ? await trpc.messages.unreact.mutate({ message_id: messageId, emoji })
+        : await trpc.messages.react.mutate({ message_id: messageId, emoji });
+      setMessages((prev: MessageWithUser[]) =>
+        prev.map((m: MessageWithUser) => (m.id === messageId ? { ...m, reactions } : m))
+      );
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+    }
   };
 
   const handleJoinChannel = async (channelId: number) => {
@@ -114,7 +458,7 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
       {/* Left Sidebar - Channels and Users */}
       <Card className="col-span-3 bg-gray-800 border-green-800 p-4 overflow-hidden">
         <Tabs defaultValue="channels" className="h-full">
-          <TabsList className="grid w-full grid-cols-3 bg-gray-700 border border-green-800 mb-4">
+          <TabsList className="grid w-full grid-cols-4 bg-gray-700 border border-green-800 mb-4">
             <TabsTrigger 
               value="channels" 
               className="font-mono text-xs data-[state=active]:bg-green-900 data-[state=active]:text-green-200"
@@ -133,6 +477,12 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
             >
               USERS
             </TabsTrigger>
+            <TabsTrigger 
+              value="search"
+              className="font-mono text-xs data-[state=active]:bg-green-900 data-[state=active]:text-green-200"
+            >
+              SEARCH
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="channels" className="h-full overflow-y-auto">
@@ -143,6 +493,7 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
               onChannelSelect={handleChannelSelect}
               onJoinChannel={handleJoinChannel}
               currentUser={currentUser}
+              unreadCounts={unreadCounts}
             />
           </TabsContent>
 
@@ -151,6 +502,7 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
               currentUser={currentUser}
               activeChannel={activeChannel}
               onChannelSelect={handleChannelSelect}
+              unreadCounts={unreadCounts}
             />
           </TabsContent>
 
@@ -162,6 +514,15 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
                 // This will be handled by PrivateChatList component
                 console.log('Starting private chat with:', otherUser.username);
               }}
+              onOpenChannel={(channelId: number) => jumpTo({ channel_id: channelId, message_id: null })}
+            />
+          </TabsContent>
+
+          <TabsContent value="search" className="h-full overflow-y-auto">
+            <SearchPanel
+              channels={userChannels}
+              users={onlineUsers}
+              onSelectHit={handleSearchHit}
             />
           </TabsContent>
         </Tabs>
@@ -177,10 +538,13 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
                 <div>
                   <h2 className="text-lg font-mono text-green-300">
                     #{activeChannel.name}
+                    {activeChannel.archived_at && (
+                      <span className="ml-2 text-xs text-yellow-500">[ARCHIVED]</span>
+                    )}
                   </h2>
-                  {activeChannel.description && (
-                    <p className="text-sm text-green-600 font-mono">
-                      {activeChannel.description}
+                  {(activeChannel.topic || activeChannel.description) && (
+                    <p className="text-sm text-green-600 font-mono" title={activeChannel.description ?? undefined}>
+                      {activeChannel.topic ?? activeChannel.description}
                     </p>
                   )}
                 </div>
@@ -191,54 +555,97 @@ export function ChatInterface({ currentUser, onLogout }: ChatInterfaceProps) {
               )}
             </div>
             {activeChannel && (
-              <Badge 
-                variant="outline" 
-                className="border-green-600 text-green-400 font-mono"
-              >
-                {activeChannel.member_count} members
-              </Badge>
+              <div className="flex items-center gap-3">
+                {activeChannelRole && activeChannelRole !== 'member' && (
+                  <ChannelSettings
+                    channel={activeChannel}
+                    role={activeChannelRole}
+                    onChannelChanged={handleChannelChanged}
+                    onChannelDeleted={handleChannelDeleted}
+                  />
+                )}
+                <ChannelMembers
+                  channelId={activeChannel.id}
+                  memberCount={activeChannel.member_count}
+                  currentUser={currentUser}
+                  onMembersChanged={loadUserChannels}
+                />
+              </div>
             )}
           </div>
         </div>
 
-        {/* Messages Area */}
-        <div className="flex-1 overflow-hidden">
-          {activeChannel ? (
-            <ChatMessages
-              messages={messages}
-              currentUser={currentUser}
-              isLoading={isLoadingMessages}
-              channelId={activeChannel.id}
-            />
-          ) : (
-            <div className="h-full flex items-center justify-center">
-              <div className="text-center text-green-600 font-mono">
-                <div className="text-6xl mb-4 matrix-text">🖥️</div>
-                <div className="text-xl mb-2 text-green-400">WELCOME TO TERMINAL_CHAT</div>
-                <p className="text-sm">Secure • Anonymous • Real-time</p>
-                <div className="mt-4 space-y-2 text-xs">
-                  <p>📡 Select a channel to join the conversation</p>
-                  <p>🔒 Start private chats with other users</p>
-                  <p>🌍 Connect with hackers worldwide</p>
-                </div>
-                <div className="mt-6">
-                  <span className="cursor-blink text-green-300">█</span>
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col min-w-0">
+            {/* Messages Area */}
+            <div className="flex-1 overflow-hidden">
+              {activeChannel ? (
+                <ChatMessages
+                  messages={messages}
+                  currentUser={currentUser}
+                  isLoading={isLoadingMessages}
+                  channelId={activeChannel.id}
+                  hasMoreHistory={historyCursor !== null}
+                  isLoadingHistory={isLoadingHistory}
+                  onLoadHistory={loadOlderMessages}
+                  focusMessageId={focusMessageId}
+                  hasNewerMessages={newerCursor !== null}
+                  onJumpToLatest={() => setFocusMessageId(null)}
+                  onOpenThread={setThreadMessageId}
+                  onToggleReaction={handleToggleReaction}
+                  canRestore={activeChannelRole === 'owner' || activeChannelRole === 'admin'}
+                  // Direct messages are the two-member private channels
+                  showReadReceipts={activeChannel.kind === 'dm'}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <div className="text-center text-green-600 font-mono">
+                    <div className="text-6xl mb-4 matrix-text">🖥️</div>
+                    <div className="text-xl mb-2 text-green-400">WELCOME TO TERMINAL_CHAT</div>
+                    <p className="text-sm">Secure • Anonymous • Real-time</p>
+                    <div className="mt-4 space-y-2 text-xs">
+                      <p>📡 Select a channel to join the conversation</p>
+                      <p>🔒 Start private chats with other users</p>
+                      <p>🌍 Connect with hackers worldwide</p>
+                    </div>
+                    <div className="mt-6">
+                      <span className="cursor-blink text-green-300">█</span>
+                    </div>
+                  </div>
                 </div>
+              )}
+            </div>
+
+            {/* Message Input */}
+            {activeChannel?.archived_at && (
+              <div className="border-t border-green-800 p-4 text-xs font-mono text-yellow-500 text-center">
+                This channel is archived and read-only
               </div>
+            )}
+            {activeChannel && !activeChannel.archived_at && (
+              <div className="border-t border-green-800 p-4">
+                <MessageInput
+                  channelId={activeChannel.id}
+                  currentUser={currentUser}
+                  onMessageSent={handleMessageSent}
+                  onCommandResult={handleCommandResult}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Thread Panel */}
+          {activeChannel && threadMessageId !== null && (
+            <div className="w-96 border-l border-green-800">
+              <ThreadPanel
+                messageId={threadMessageId}
+                channelId={activeChannel.id}
+                currentUser={currentUser}
+                onClose={() => setThreadMessageId(null)}
+              />
             </div>
           )}
         </div>
-
-        {/* Message Input */}
-        {activeChannel && (
-          <div className="border-t border-green-800 p-4">
-            <MessageInput
-              channelId={activeChannel.id}
-              currentUser={currentUser}
-              onMessageSent={handleMessageSent}
-            />
-          </div>
-        )}
       </Card>
     </div>
   );
@@ -1,26 +1,164 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Card } from '@/components/ui/card';
-import type { MessageWithUser, PublicUser } from '../../../server/src/schema';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ReplyQuote } from '@/components/ReplyQuote';
+import { MessageContent } from '@/components/MessageContent';
+import { LinkPreviews } from '@/components/LinkPreviews';
+import { EditHistory } from '@/components/EditHistory';
+import { mentionsUser } from '@/lib/mentions';
+import { PRESENCE_LABELS } from '@/lib/presence';
+import { QUICK_REACTIONS } from '@/lib/reactions';
+import { uploadUrl } from '@/lib/uploads';
+import { trpc } from '@/utils/trpc';
+import type { MessageWithUser, PublicUser, ReactionSummary, ReadReceipt, TypingEvent } from '../../../server/src/schema';
+
+// Slightly longer than the server TTL, in case the "stopped typing" event is lost
+const TYPING_DISPLAY_MS = 6000;
+// How close to the top the user must scroll before older history is requested
+const LOAD_HISTORY_THRESHOLD_PX = 80;
+
+interface TypingUser {
+  user_id: number;
+  username: string;
+  expires_at: number;
+}
 
 interface ChatMessagesProps {
   messages: MessageWithUser[];
   currentUser: PublicUser;
   isLoading: boolean;
   channelId: number;
+  hasMoreHistory: boolean;
+  isLoadingHistory: boolean;
+  onLoadHistory: () => void;
+  focusMessageId: number | null;
+  hasNewerMessages: boolean;
+  onJumpToLatest: () => void;
+  onOpenThread: (messageId: number) => void;
+  onToggleReaction: (messageId: number, emoji: string, reacted: boolean) => void;
+  canRestore: boolean; // Channel owners and admins can bring back deleted messages
+  showReadReceipts: boolean; // "Seen by" under the latest message, for direct messages
 }
 
-export function ChatMessages({ messages, currentUser, isLoading, channelId }: ChatMessagesProps) {
+export function ChatMessages({
+  messages,
+  currentUser,
+  isLoading,
+  channelId,
+  hasMoreHistory,
+  isLoadingHistory,
+  onLoadHistory,
+  focusMessageId,
+  hasNewerMessages,
+  onJumpToLatest,
+  onOpenThread,
+  onToggleReaction,
+  canRestore,
+  showReadReceipts
+}: ChatMessagesProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Scroll geometry captured when history is requested, so the view can be re-anchored after the prepend
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastMessageIdRef = useRef<number | null>(null);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+
+  // Who else is composing a message in this channel
+  useEffect(() => {
+    const subscription = trpc.channels.onTyping.subscribe({ channelId }, {
+      onData: (event: TypingEvent) => {
+        setTypingUsers((prev: TypingUser[]) => {
+          const others = prev.filter((user: TypingUser) => user.user_id !== event.user_id);
+          return event.is_typing
+            ? [...others, { user_id: event.user_id, username: event.username, expires_at: Date.now() + TYPING_DISPLAY_MS }]
+            : others;
+        });
+      },
+      onError: (error) => console.error('Typing subscription failed:', error),
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      setTypingUsers([]);
+    };
+  }, [channelId]);
+
+  // How far the other members have read
+  useEffect(() => {
+    if (!showReadReceipts) return;
+
+    trpc.channels.getReadReceipts.query({ channelId })
+      .then(setReadReceipts)
+      .catch((error: unknown) => console.error('Failed to load read receipts:', error));
+
+    const subscription = trpc.channels.onRead.subscribe({ channelId }, {
+      onData: (receipt: ReadReceipt) => {
+        setReadReceipts((prev: ReadReceipt[]) => [
+          ...prev.filter((r: ReadReceipt) => r.user_id !== receipt.user_id),
+          receipt
+        ]);
+      },
+      onError: (error) => console.error('Read receipt subscription failed:', error),
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      setReadReceipts([]);
+    };
+  }, [channelId, showReadReceipts]);
+
+  // Drop entries whose refresh never arrived
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+      setTypingUsers((prev: TypingUser[]) => prev.filter((user: TypingUser) => user.expires_at > now));
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [typingUsers.length]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  // Runs before paint so prepended history never visibly pushes the content down
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (container && anchor) {
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      scrollAnchorRef.current = null;
+    }
+
+    // Only follow the conversation when something new arrives at the bottom
+    const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (lastMessageId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastMessageId;
+      if (focusMessageId === null) {
+        scrollToBottom();
+      }
+    }
+  }, [messages, focusMessageId]);
+
+  // Bring a message opened from search into view once it has loaded
+  useLayoutEffect(() => {
+    if (focusMessageId === null) return;
+    const target = containerRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`);
+    target?.scrollIntoView({ block: 'center' });
+  }, [focusMessageId, isLoading]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container || !hasMoreHistory || isLoadingHistory) return;
+
+    if (container.scrollTop < LOAD_HISTORY_THRESHOLD_PX) {
+      scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      onLoadHistory();
+    }
+  };
 
   const formatTime = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -45,13 +183,48 @@ export function ChatMessages({ messages, currentUser, isLoading, channelId }: Ch
     }
   };
 
+  const handleRestore = async (messageId: number) => {
+    try {
+      await trpc.messages.restore.mutate({ messageId });
+    } catch (error) {
+      console.error('Failed to restore message:', error);
+    }
+  };
+
+  // Deleted messages keep their place so replies to them still make sense
+  const renderTombstone = (message: MessageWithUser) => (
+    <div
+      key={message.id}
+      data-message-id={message.id}
+      className="flex items-center gap-3 px-3 py-2 text-xs font-mono text-green-700 italic"
+    >
+      <span>[message deleted]</span>
+      <span className="not-italic">{formatTime(message.created_at)}</span>
+      {canRestore && (
+        <button
+          type="button"
+          onClick={() => handleRestore(message.id)}
+          className="not-italic text-green-600 hover:text-green-300"
+        >
+          RESTORE
+        </button>
+      )}
+    </div>
+  );
+
   const renderMessage = (message: MessageWithUser) => {
+    if (message.deleted_at) {
+      return renderTombstone(message);
+    }
+
     const isCurrentUser = message.user_id === currentUser.id;
+    const isMentioned = mentionsUser(message, currentUser.id);
 
     return (
       <div
         key={message.id}
-        className={`flex gap-3 p-3 message-fade-in ${isCurrentUser ? 'bg-green-900/20' : ''} hover:bg-gray-700/30 transition-colors`}
+        data-message-id={message.id}
+        className={`group flex gap-3 p-3 message-fade-in ${isCurrentUser ? 'bg-green-900/20' : ''} ${isMentioned ? 'bg-yellow-900/20 border-l-2 border-yellow-500' : ''} ${message.id === focusMessageId ? 'ring-1 ring-yellow-500 rounded' : ''} hover:bg-gray-700/30 transition-colors`}
       >
         <Avatar className="w-8 h-8 border border-green-700">
           <AvatarImage src={message.user.avatar_url || undefined} />
@@ -61,6 +234,9 @@ export function ChatMessages({ messages, currentUser, isLoading, channelId }: Ch
         </Avatar>
 
         <div className="flex-1 min-w-0">
+          {message.reply_to_message_id !== null && (
+            <ReplyQuote replyTo={message.reply_to} onClick={() => onOpenThread(message.id)} />
+          )}
           <div className="flex items-center gap-2 mb-1">
             <span className="font-mono text-sm text-green-300 font-semibold">
               {message.user.username}
@@ -70,83 +246,126 @@ export function ChatMessages({ messages, currentUser, isLoading, channelId }: Ch
                 variant="outline" 
                 className="text-xs border-green-600 text-green-500 px-1 py-0"
               >
-                ONLINE
+                {PRESENCE_LABELS[message.user.status].toUpperCase()}
               </Badge>
             )}
             <span className="text-xs text-green-600 font-mono">
               {formatTime(message.created_at)}
             </span>
-            {message.is_edited && (
-              <span className="text-xs text-yellow-600 font-mono">(edited)</span>
-            )}
+            {message.is_edited && <EditHistory message={message} />}
+            <div className="ml-auto flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="text-xs font-mono text-green-600 hover:text-green-300"
+                  >
+                    + REACT
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-auto p-1 bg-gray-800 border-green-700">
+                  <div className="flex gap-1">
+                    {QUICK_REACTIONS.map((emoji: string) => {
+                      const reacted = message.reactions.some(
+                        (reaction: ReactionSummary) => reaction.emoji === emoji && reaction.reacted
+                      );
+                      return (
+                        <button
+                          key={emoji}
+                          type="button"
+                          onClick={() => onToggleReaction(message.id, emoji, reacted)}
+                          className={`w-8 h-8 rounded hover:bg-green-900 ${reacted ? 'bg-green-900/60' : ''}`}
+                        >
+                          {emoji}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </PopoverContent>
+              </Popover>
+              <button
+                type="button"
+                onClick={() => onOpenThread(message.id)}
+                className="text-xs font-mono text-green-600 hover:text-green-300"
+              >
+                ↳ REPLY
+              </button>
+            </div>
           </div>
 
           <div className="text-green-100 text-sm font-mono break-words">
-            {message.message_type === 'text' && (
-              <p className="whitespace-pre-wrap">{message.content}</p>
+            {(message.message_type === 'text' || message.message_type === 'link') && (
+              <MessageContent message={message} className="space-y-1" />
             )}
 
-            {message.message_type === 'image' && (
-              <div className="space-y-2">
-                {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
-                {message.image_url && (
-                  <img
-                    src={message.image_url}
-                    alt="Shared image"
-                    className="max-w-md rounded border border-green-700 hover:border-green-500 transition-colors"
-                  />
-                )}
+            {message.message_type === 'action' && (
+              <div className="flex gap-1 italic text-green-300">
+                <span className="shrink-0">* {message.user.username}</span>
+                <MessageContent message={message} className="space-y-1" />
               </div>
             )}
 
-            {message.message_type === 'link' && (
+            {message.message_type === 'image' && (
               <div className="space-y-2">
-                {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
-                {message.link_preview && (
-                  <Card className="bg-gray-700 border-green-700 p-3 max-w-md">
-                    {message.link_preview.image && (
-                      <img
-                        src={message.link_preview.image}
-                        alt="Link preview"
-                        className="w-full h-32 object-cover rounded mb-2"
-                      />
-                    )}
-                    <div className="space-y-1">
-                      {message.link_preview.title && (
-                        <h4 className="font-semibold text-green-300 text-sm">
-                          {message.link_preview.title}
-                        </h4>
-                      )}
-                      {message.link_preview.description && (
-                        <p className="text-green-200 text-xs line-clamp-2">
-                          {message.link_preview.description}
-                        </p>
-                      )}
-                      <a
-                        href={message.link_preview.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-green-400 hover:text-green-300 underline text-xs break-all"
-                      >
-                        {message.link_preview.url}
-                      </a>
-                    </div>
-                  </Card>
+                {message.content && <MessageContent message={message} className="space-y-1" />}
+                {message.attachment && (
+                  <a href={uploadUrl(message.attachment.url)} target="_blank" rel="noopener noreferrer" className="block w-fit">
+                    <img
+                      src={uploadUrl(message.attachment.thumbnail_url)}
+                      alt={message.attachment.filename}
+                      className="max-w-md rounded border border-green-700 hover:border-green-500 transition-colors"
+                    />
+                  </a>
                 )}
               </div>
             )}
+
+            <LinkPreviews message={message} canRemove={message.user_id === currentUser.id} />
           </div>
 
-          {message.reply_to_message_id && (
-            <div className="mt-2 pl-3 border-l-2 border-green-700 text-xs text-green-500">
-              <span className="font-mono">↳ Replying to message</span>
+          {message.reactions.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {message.reactions.map((reaction: ReactionSummary) => (
+                <button
+                  key={reaction.emoji}
+                  type="button"
+                  onClick={() => onToggleReaction(message.id, reaction.emoji, reaction.reacted)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs font-mono transition-colors ${
+                    reaction.reacted
+                      ? 'border-green-500 bg-green-900/60 text-green-200'
+                      : 'border-gray-600 bg-gray-700 text-green-400 hover:border-green-700'
+                  }`}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span>{reaction.count}</span>
+                </button>
+              ))}
             </div>
           )}
+
+          {message.reply_count > 0 && (
+            <button
+              type="button"
+              onClick={() => onOpenThread(message.id)}
+              className="mt-2 text-xs font-mono text-green-400 hover:text-green-300 hover:underline"
+            >
+              💬 {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+              {message.last_reply_at && (
+                <span className="text-green-600"> • last {formatTime(message.last_reply_at)}</span>
+              )}
+            </button>
+          )}
         </div>
       </div>
     );
   };
 
+  // Only our own latest message needs a receipt; the others' later messages already show they read it
+  const latestMessage = messages.length > 0 ? messages[messages.length - 1] : null;
+  const seenBy = showReadReceipts && !hasNewerMessages && latestMessage !== null && latestMessage.user_id === currentUser.id
+    ? readReceipts.filter((receipt: ReadReceipt) => receipt.last_read_message_id >= latestMessage.id)
+    : [];
+
   if (isLoading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -158,7 +377,17 @@ export function ChatMessages({ messages, currentUser, isLoading, channelId }: Ch
   }
 
   return (
-    <div className="h-full overflow-y-auto p-4 space-y-1 scrollbar-thin">
+    <div ref={containerRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4 space-y-1 scrollbar-thin">
+      {isLoadingHistory && (
+        <div className="text-center text-green-600 font-mono text-xs py-2 animate-pulse">
+          {'>'} Loading older messages...
+        </div>
+      )}
+      {!hasMoreHistory && messages.length > 0 && (
+        <div className="text-center text-green-700 font-mono text-xs py-2">
+          -- beginning of channel history --
+        </div>
+      )}
       {messages.length === 0 ? (
         <div className="h-full flex items-center justify-center">
           <div className="text-center text-green-600 font-mono">
@@ -189,6 +418,36 @@ export function ChatMessages({ messages, currentUser, isLoading, channelId }: Ch
           })}
         </>
       )}
+      {seenBy.length > 0 && (
+        <div className="px-3 pb-1 text-right text-xs text-green-600 font-mono">
+          ✓ Seen by {seenBy.map((receipt: ReadReceipt) => receipt.username).join(', ')}
+        </div>
+      )}
+      {hasNewerMessages && (
+        <div className="flex justify-center py-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onJumpToLatest}
+            className="text-xs border-green-700 text-green-400 hover:bg-green-900 font-mono"
+          >
+            ↓ JUMP TO LATEST
+          </Button>
+        </div>
+      )}
+      {typingUsers.length > 0 && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-green-500 font-mono">
+          <div className="flex gap-1">
+            <div className="w-1.5 h-1.5 bg-green-400 rounded-full typing-dots"></div>
+            <div className="w-1.5 h-1.5 bg-green-400 rounded-full typing-dots" style={{ animationDelay: '0.2s' }}></div>
+            <div className="w-1.5 h-1.5 bg-green-400 rounded-full typing-dots" style={{ animationDelay: '0.4s' }}></div>
+          </div>
+          <span>
+            {typingUsers.map((user: TypingUser) => user.username).join(', ')}{' '}
+            {typingUsers.length === 1 ? 'is' : 'are'} typing…
+          </span>
+        </div>
+      )}
       <div ref={messagesEndRef} />
     </div>
   );
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MessageContent } from '@/components/MessageContent';
+import { trpc } from '@/utils/trpc';
+import type { MessageVersion, MessageWithUser } from '../../../server/src/schema';
+
+interface EditHistoryProps {
+  message: MessageWithUser;
+}
+
+const formatTimestamp = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(new Date(date));
+};
+
+// The "(edited)" marker; opens the earlier versions, which only the author and channel admins may see
+export function EditHistory({ message }: EditHistoryProps) {
+  const [versions, setVersions] = useState<MessageVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Loaded on every open, since the message may have been edited again in the meantime
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) {
+      return;
+    }
+    setError(null);
+    try {
+      const history = await trpc.messages.getHistory.query({ messageId: message.id });
+      setVersions(history.versions);
+    } catch (error) {
+      console.error('Failed to load edit history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load edit history');
+    }
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="text-xs text-yellow-600 hover:text-yellow-400 font-mono">
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 max-h-80 overflow-y-auto scrollbar-thin bg-gray-800 border-green-700 font-mono">
+        <div className="text-xs text-green-500 mb-2">EDIT HISTORY</div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {!error && !versions && <div className="text-xs text-green-600 animate-pulse">Loading...</div>}
+        {!error && versions && (
+          <div className="space-y-3">
+            {versions.map((version: MessageVersion, index: number) => (
+              <div key={index} className="border-l-2 border-green-800 pl-2">
+                <div className="text-xs text-green-600">
+                  {formatTimestamp(version.written_at)}
+                  {index === 0 ? ' | original' : ''}
+                  {version.is_current ? ' | current' : ''}
+                </div>
+                <MessageContent
+                  message={{ ...message, content: version.content, formatted_content: version.formatted_content }}
+                  className="text-green-100 text-sm break-words space-y-1"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { InvitePreview as InvitePreviewData } from '../../../server/src/schema';
+
+interface InvitePreviewProps {
+  code: string;
+  onJoined: (channelId: number) => void;
+  onDismiss: () => void;
+}
+
+// Shown for /invite/:code links; previews the channel before joining it
+export function InvitePreview({ code, onJoined, onDismiss }: InvitePreviewProps) {
+  const [preview, setPreview] = useState<InvitePreviewData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    trpc.channels.previewInvite.query({ code })
+      .then(setPreview)
+      .catch((error) => {
+        console.error('Failed to load invite:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load invite');
+      });
+  }, [code]);
+
+  const handleJoin = async () => {
+    if (!preview) return;
+    if (preview.is_member) {
+      onJoined(preview.channel.id);
+      return;
+    }
+
+    setIsJoining(true);
+    setError(null);
+    try {
+      const channel = await trpc.channels.acceptInvite.mutate({ code });
+      onJoined(channel.id);
+    } catch (error) {
+      console.error('Failed to accept invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to accept invite');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4 bg-gray-800 border-green-700 font-mono">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-green-300 text-sm">
+          {preview ? `${preview.inviter} invited you to join` : 'CHANNEL INVITE'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {preview && (
+          <div>
+            <div className="text-lg text-green-300">
+              {preview.channel.is_private ? '🔒' : '#'} {preview.channel.name}
+            </div>
+            {(preview.channel.topic ?? preview.channel.description) && (
+              <div className="text-sm text-green-500">{preview.channel.topic ?? preview.channel.description}</div>
+            )}
+            <div className="text-xs text-green-600 mt-1">
+              {preview.channel.member_count} members
+              {preview.expires_at && ` | invite expires ${new Date(preview.expires_at).toLocaleString()}`}
+            </div>
+          </div>
+        )}
+        {!preview && !error && <div className="text-sm text-green-600 animate-pulse">Loading invite...</div>}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onDismiss}
+            className="border-gray-600 text-gray-400 hover:bg-gray-700 font-mono"
+          >
+            DISMISS
+          </Button>
+          {preview && (
+            <Button
+              type="button"
+              onClick={handleJoin}
+              disabled={isJoining}
+              className="bg-green-800 hover:bg-green-700 text-green-100 font-mono"
+            >
+              {preview.is_member ? 'OPEN CHANNEL' : isJoining ? 'JOINING...' : 'JOIN CHANNEL'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
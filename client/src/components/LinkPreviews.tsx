@@ -0,0 +1,74 @@
+import { Card } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { LinkPreview, MessageWithUser } from '../../../server/src/schema';
+
+interface LinkPreviewsProps {
+  message: MessageWithUser;
+  canRemove: boolean; // Only the author may remove previews
+}
+
+// Previews arrive after the message itself, through the message update subscription
+export function LinkPreviews({ message, canRemove }: LinkPreviewsProps) {
+  if (message.link_previews.length === 0) {
+    return null;
+  }
+
+  const handleRemove = async (url: string) => {
+    try {
+      await trpc.messages.removeLinkPreview.mutate({ message_id: message.id, url });
+    } catch (error) {
+      console.error('Failed to remove link preview:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2 mt-2">
+      {message.link_previews.map((preview: LinkPreview) => (
+        <Card key={preview.url} className="relative bg-gray-700 border-green-700 p-3 max-w-md">
+          {canRemove && (
+            <button
+              type="button"
+              onClick={() => handleRemove(preview.url)}
+              title="Remove preview"
+              className="absolute top-1 right-2 text-xs text-green-600 hover:text-red-400"
+            >
+              ✕
+            </button>
+          )}
+          {preview.image && (
+            <img
+              src={preview.image}
+              alt="Link preview"
+              className="w-full h-32 object-cover rounded mb-2"
+            />
+          )}
+          <div className="space-y-1">
+            {preview.site_name && (
+              <div className="text-green-500 text-xs uppercase">
+                {preview.site_name}
+              </div>
+            )}
+            {preview.title && (
+              <h4 className="font-semibold text-green-300 text-sm">
+                {preview.title}
+              </h4>
+            )}
+            {preview.description && (
+              <p className="text-green-200 text-xs line-clamp-2">
+                {preview.description}
+              </p>
+            )}
+            <a
+              href={preview.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-green-400 hover:text-green-300 underline text-xs break-all"
+            >
+              {preview.url}
+            </a>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
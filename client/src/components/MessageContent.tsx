@@ -0,0 +1,93 @@
+import { useState, useMemo } from 'react';
+import { highlightCode } from '@/lib/highlight';
+import { splitMentions } from '@/lib/mentions';
+import type { BlockNode, InlineNode, MessageWithUser } from '../../../server/src/schema';
+
+const COPIED_FEEDBACK_MS = 2000;
+
+interface MessageContentProps {
+  message: MessageWithUser;
+  className?: string;
+}
+
+function CodeBlock({ code, language }: { code: string; language: string | null }) {
+  const [copied, setCopied] = useState(false);
+  const highlighted = useMemo(() => highlightCode(code, language), [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="my-1 rounded border border-green-800 bg-gray-950 max-w-full">
+      <div className="flex items-center justify-between border-b border-green-900 px-2 py-0.5 text-xs text-green-600">
+        <span>{language ?? 'code'}</span>
+        <button type="button" onClick={handleCopy} className="hover:text-green-300">
+          {copied ? 'COPIED' : 'COPY'}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-2 text-xs leading-relaxed">
+        {highlighted !== null ? (
+          <code className="hljs !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: highlighted }} />
+        ) : (
+          <code>{code}</code>
+        )}
+      </pre>
+    </div>
+  );
+}
+
+// Message content rendered from the server's parsed Markdown; nothing in it is interpreted as HTML
+export function MessageContent({ message, className }: MessageContentProps) {
+  // Messages from before formatting existed are shown as they were written
+  const blocks: BlockNode[] = message.formatted_content
+    ?? [{ type: 'paragraph', children: [{ type: 'text', text: message.content }] }];
+
+  const renderInline = (nodes: InlineNode[]) => nodes.map((node: InlineNode, index: number) => {
+    switch (node.type) {
+      case 'text':
+        return splitMentions(node.text, message).map((segment, segmentIndex) =>
+          segment.mention ? (
+            <span key={`${index}-${segmentIndex}`} className="px-0.5 rounded bg-yellow-900/60 text-yellow-300">{segment.text}</span>
+          ) : (
+            segment.text
+          )
+        );
+      case 'code':
+        return <code key={index} className="px-1 rounded bg-gray-950 text-green-300">{node.text}</code>;
+      case 'strong':
+        return <strong key={index} className="text-green-50">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={node.url} target="_blank" rel="noopener noreferrer nofollow" className="text-cyan-400 underline hover:text-cyan-300 break-all">
+            {node.url}
+          </a>
+        );
+    }
+  });
+
+  const renderBlocks = (nodes: BlockNode[]) => nodes.map((node: BlockNode, index: number) => {
+    switch (node.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap">{renderInline(node.children)}</p>;
+      case 'code_block':
+        return <CodeBlock key={index} code={node.code} language={node.language} />;
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="my-1 border-l-2 border-green-700 pl-3 text-green-300">
+            {renderBlocks(node.children)}
+          </blockquote>
+        );
+    }
+  });
+
+  return <div className={className}>{renderBlocks(blocks)}</div>;
+}
@@ -3,53 +3,146 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
-import type { PublicUser, SendMessageInput, MessageWithUser } from '../../../server/src/schema';
+import { uploadImage, uploadUrl } from '@/lib/uploads';
+import type { PublicUser, SendMessageInput, MessageWithUser, Attachment, CommandInfo, CommandResult } from '../../../server/src/schema';
+
+// Minimum gap between "still typing" signals; the server forgets them after 5s
+const TYPING_THROTTLE_MS = 2000;
 
 interface MessageInputProps {
   channelId: number;
   currentUser: PublicUser;
   onMessageSent: (message: MessageWithUser) => void;
+  threadRootId?: number; // Posts every message as a reply in this thread
+  onCommandResult?: (result: CommandResult) => void; // Slash commands are only run when given
 }
 
-export function MessageInput({ channelId, currentUser, onMessageSent }: MessageInputProps) {
+// Shown while typing the command name, before the first space
+const COMMAND_NAME_PATTERN = /^\/(\S*)$/;
+
+// Command list from the server, fetched once for all inputs
+let commandsPromise: Promise<CommandInfo[]> | null = null;
+
+function loadCommands(): Promise<CommandInfo[]> {
+  commandsPromise ??= trpc.commands.list.query().catch((error: unknown) => {
+    console.error('Failed to load commands:', error);
+    commandsPromise = null;
+    return [];
+  });
+  return commandsPromise;
+}
+
+export function MessageInput({ channelId, currentUser, onMessageSent, threadRootId, onCommandResult }: MessageInputProps) {
   const [messageData, setMessageData] = useState<SendMessageInput>({
     channel_id: channelId,
     content: '',
     message_type: 'text',
-    image_url: undefined,
+    attachment_id: undefined,
     reply_to_message_id: undefined
   });
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentRef = useRef<number>(0);
+  const [commands, setCommands] = useState<CommandInfo[]>([]);
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  // Reply to the last command, or why the last command or message failed
+  const [feedback, setFeedback] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const commandNameMatch = onCommandResult ? messageData.content.match(COMMAND_NAME_PATTERN) : null;
+  const suggestions = commandNameMatch
+    ? commands.filter((command: CommandInfo) => command.name.startsWith(commandNameMatch[1].toLowerCase()))
+    : [];
+
+  const resetForm = () => {
+    setMessageData({
+      channel_id: channelId,
+      content: '',
+      message_type: 'text',
+      attachment_id: undefined,
+      reply_to_message_id: undefined
+    });
+    setAttachment(null);
+  };
+
+  const runCommand = async (text: string) => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.commands.execute.mutate({ channel_id: channelId, text });
+      setFeedback(result.feedback ? { text: result.feedback, isError: false } : null);
+      resetForm();
+      onCommandResult?.(result);
+    } catch (error) {
+      console.error('Command failed:', error);
+      setFeedback({ text: error instanceof Error ? error.message : 'Command failed', isError: true });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendTyping = (isTyping: boolean) => {
+    trpc.channels.typing.mutate({ channel_id: channelId, is_typing: isTyping }).catch((error: unknown) => {
+      console.error('Failed to send typing status:', error);
+    });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!messageData.content.trim() && !messageData.image_url) return;
+    // Image messages need their attachment and may skip the caption; other types must not carry one
+    const isImage = messageData.message_type === 'image';
+    if (isImage ? !attachment : !messageData.content.trim()) return;
+
+    // A doubled slash sends the text with one slash instead of running a command
+    const content = messageData.content;
+    if (onCommandResult && !isImage && content.startsWith('/') && !content.startsWith('//')) {
+      await runCommand(content);
+      return;
+    }
 
     setIsLoading(true);
     try {
       const newMessage = await trpc.messages.send.mutate({
         ...messageData,
-        channel_id: channelId
+        content: onCommandResult && content.startsWith('//') ? content.slice(1) : content,
+        channel_id: channelId,
+        attachment_id: isImage ? attachment?.id : undefined,
+        reply_to_message_id: messageData.reply_to_message_id ?? threadRootId
       });
       
       onMessageSent(newMessage);
+      // Sending ends the typing signal on the server
+      lastTypingSentRef.current = 0;
       
-      // Reset form
-      setMessageData({
-        channel_id: channelId,
-        content: '',
-        message_type: 'text',
-        image_url: undefined,
-        reply_to_message_id: undefined
-      });
+      resetForm();
     } catch (error) {
       console.error('Failed to send message:', error);
+      setFeedback({ text: error instanceof Error ? error.message : 'Failed to send message', isError: true });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const completeCommand = (command: CommandInfo) => {
+    setMessageData((prev: SendMessageInput) => ({ ...prev, content: `/${command.name} ` }));
+    setSelectedSuggestion(0);
+  };
+
+  // Arrow keys move through the command suggestions, Tab takes the highlighted one
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedSuggestion((index: number) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      completeCommand(suggestions[Math.min(selectedSuggestion, suggestions.length - 1)]);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -61,15 +154,21 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // In a real app, you would upload the file to a cloud storage service
-    // For now, we'll create a placeholder URL
-    const placeholderImageUrl = `https://via.placeholder.com/400x300?text=Image+${file.name}`;
-    
-    setMessageData((prev: SendMessageInput) => ({
-      ...prev,
-      message_type: 'image',
-      image_url: placeholderImageUrl
-    }));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const uploaded = await uploadImage(file);
+      setAttachment(uploaded);
+      setMessageData((prev: SendMessageInput) => ({ ...prev, message_type: 'image' }));
+    } catch (error) {
+      console.error('Failed to upload image:', error);
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
   };
 
   const detectMessageType = (content: string): 'text' | 'image' | 'link' => {
@@ -82,11 +181,34 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
   };
 
   const handleContentChange = (value: string) => {
+    setFeedback(null);
+    if (onCommandResult && value.startsWith('/')) {
+      if (commands.length === 0) {
+        loadCommands().then(setCommands);
+      }
+      // Commands are not messages, so they do not count as typing
+      setSelectedSuggestion(0);
+      setMessageData((prev: SendMessageInput) => ({ ...prev, content: value }));
+      return;
+    }
+
+    const now = Date.now();
+    if (!value.trim()) {
+      if (lastTypingSentRef.current > 0) {
+        lastTypingSentRef.current = 0;
+        sendTyping(false);
+      }
+    } else if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(true);
+    }
+
     const messageType = detectMessageType(value);
     setMessageData((prev: SendMessageInput) => ({
       ...prev,
       content: value,
-      message_type: messageType
+      // A caption never turns an image message into text
+      message_type: prev.message_type === 'image' ? 'image' : messageType
     }));
   };
 
@@ -123,14 +245,15 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
               variant="outline"
               size="sm"
               onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
               className="border-green-700 text-green-400 hover:bg-green-900 font-mono text-xs"
             >
-              UPLOAD
+              {isUploading ? 'UPLOADING...' : 'UPLOAD'}
             </Button>
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/jpeg,image/png,image/gif,image/webp"
               onChange={handleImageUpload}
               className="hidden"
             />
@@ -139,10 +262,14 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
       </div>
 
       {/* Image Preview */}
-      {messageData.message_type === 'image' && messageData.image_url && (
-        <div className="relative">
+      {messageData.message_type === 'image' && uploadError && (
+        <div className="text-xs text-red-400 font-mono">{uploadError}</div>
+      )}
+
+      {messageData.message_type === 'image' && attachment && (
+        <div className="relative w-fit">
           <img
-            src={messageData.image_url}
+            src={uploadUrl(attachment.thumbnail_url)}
             alt="Preview"
             className="max-h-32 rounded border border-green-700"
           />
@@ -150,7 +277,7 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
             type="button"
             variant="outline"
             size="sm"
-            onClick={() => setMessageData((prev: SendMessageInput) => ({ ...prev, image_url: undefined }))}
+            onClick={() => setAttachment(null)}
             className="absolute top-1 right-1 bg-red-900 hover:bg-red-800 border-red-600 text-red-200 text-xs"
           >
             ✕
@@ -160,15 +287,34 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
 
       {/* Message Input */}
       <div className="flex gap-2">
-        <div className="flex-1">
+        <div className="flex-1 relative">
+          {suggestions.length > 0 && (
+            <div className="absolute bottom-full mb-1 w-full max-h-64 overflow-y-auto rounded border border-green-700 bg-gray-800 font-mono text-xs z-10">
+              {suggestions.map((command: CommandInfo, index: number) => (
+                <button
+                  key={command.name}
+                  type="button"
+                  onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                  onClick={() => completeCommand(command)}
+                  className={`block w-full text-left px-3 py-1.5 hover:bg-green-900/60 ${index === selectedSuggestion ? 'bg-green-900/60' : ''}`}
+                >
+                  <span className="text-green-300">{command.usage}</span>
+                  <span className="text-green-600"> - {command.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
           <Input
             value={messageData.content}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
               handleContentChange(e.target.value)
             }
+            onKeyDown={handleKeyDown}
             onKeyPress={handleKeyPress}
             placeholder={
-              messageData.message_type === 'image'
+              threadRootId !== undefined
+                ? 'Reply in thread...'
+                : messageData.message_type === 'image'
                 ? 'Add a caption (optional)...'
                 : messageData.message_type === 'link'
                 ? 'Paste a link or add text...'
@@ -180,7 +326,10 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
         </div>
         <Button
           type="submit"
-          disabled={isLoading || (!messageData.content.trim() && !messageData.image_url)}
+          disabled={
+            isLoading || isUploading
+            || (messageData.message_type === 'image' ? !attachment : !messageData.content.trim())
+          }
           className="bg-green-800 hover:bg-green-700 text-green-100 font-mono px-6"
         >
           {isLoading ? '>>>' : 'SEND'}
@@ -188,10 +337,17 @@ export function MessageInput({ channelId, currentUser, onMessageSent }: MessageI
       </div>
 
       {/* Help Text */}
-      <div className="text-xs text-green-600 font-mono">
-        💡 Press Enter to send • Shift+Enter for new line
-        {messageData.message_type === 'link' && ' • Links will be auto-detected and unfurled'}
-      </div>
+      {feedback ? (
+        <div className={`text-xs font-mono whitespace-pre-wrap ${feedback.isError ? 'text-red-400' : 'text-green-400'}`}>
+          {feedback.text}
+        </div>
+      ) : (
+        <div className="text-xs text-green-600 font-mono">
+          💡 Press Enter to send • Shift+Enter for new line
+          {onCommandResult && ' • Type / for commands'}
+          {messageData.message_type === 'link' && ' • Links will be auto-detected and unfurled'}
+        </div>
+      )}
     </form>
   );
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { trpc } from '@/utils/trpc';
+import type { Notification } from '../../../server/src/schema';
+
+const NOTIFICATION_PAGE_SIZE = 20;
+
+interface NotificationBellProps {
+  onOpenNotification: (notification: Notification) => void;
+}
+
+function describe(notification: Notification): string {
+  const where = notification.channel_name ? `#${notification.channel_name}` : 'a direct message';
+  switch (notification.type) {
+    case 'mention':
+      return `mentioned you in ${where}`;
+    case 'reply':
+      return `replied to you in ${where}`;
+    case 'dm_invite':
+      return 'added you to a direct message';
+  }
+}
+
+// Unread notification count in the header, with the inbox in a popover
+export function NotificationBell({ onOpenNotification }: NotificationBellProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadNotifications = useCallback(async (before?: number) => {
+    setIsLoading(true);
+    try {
+      const page = await trpc.notifications.list.query({ limit: NOTIFICATION_PAGE_SIZE, before });
+      setNotifications((prev: Notification[]) => before === undefined ? page.notifications : [...prev, ...page.notifications]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    trpc.notifications.unreadCount.query()
+      .then(setUnreadCount)
+      .catch((error) => console.error('Failed to load notification count:', error));
+
+    const subscription = trpc.notifications.onNew.subscribe(undefined, {
+      onData: (notification: Notification) => {
+        setUnreadCount((count: number) => count + 1);
+        setNotifications((prev: Notification[]) => [notification, ...prev]);
+      },
+      onError: (error) => console.error('Notification subscription failed:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      loadNotifications();
+    }
+  };
+
+  const markRead = async (ids?: number[]) => {
+    try {
+      const result = await trpc.notifications.markRead.mutate({ ids });
+      setUnreadCount(result.unread_count);
+      setNotifications((prev: Notification[]) => prev.map((notification: Notification) =>
+        ids === undefined || ids.includes(notification.id) ? { ...notification, is_read: true } : notification
+      ));
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.is_read) {
+      markRead([notification.id]);
+    }
+    setIsOpen(false);
+    onOpenNotification(notification);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="relative px-2 py-1 text-sm hover:text-green-200 transition-colors"
+          title="Notifications"
+        >
+          🔔
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-700 text-red-100 text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-gray-800 border-green-700 font-mono">
+        <div className="flex items-center justify-between border-b border-green-800 px-3 py-2">
+          <span className="text-xs text-green-300 uppercase tracking-wider">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => markRead()}
+              className="text-xs text-green-600 hover:text-green-300"
+            >
+              MARK ALL READ
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto scrollbar-thin">
+          {notifications.length === 0 && !isLoading && (
+            <div className="px-3 py-6 text-center text-xs text-green-600">No notifications</div>
+          )}
+          {notifications.map((notification: Notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => handleSelect(notification)}
+              className={`block w-full text-left px-3 py-2 border-b border-green-900 hover:bg-gray-700/50 ${notification.is_read ? 'opacity-60' : ''}`}
+            >
+              <div className="text-xs text-green-400">
+                {!notification.is_read && <span className="text-yellow-400">● </span>}
+                <span className="text-green-300">{notification.actor.username}</span> {describe(notification)}
+              </div>
+              {notification.excerpt && (
+                <div className="text-xs text-green-200 truncate mt-1">{notification.excerpt}</div>
+              )}
+            </button>
+          ))}
+          {nextCursor !== null && (
+            <button
+              type="button"
+              onClick={() => loadNotifications(nextCursor)}
+              disabled={isLoading}
+              className="block w-full px-3 py-2 text-xs text-green-600 hover:text-green-300"
+            >
+              {isLoading ? 'LOADING...' : 'LOAD MORE'}
+            </button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,17 +2,43 @@ import { useState } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/utils/trpc';
-import type { PublicUser } from '../../../server/src/schema';
+import { PRESENCE_DOT_CLASSES, PRESENCE_LABELS } from '@/lib/presence';
+import type { PublicUser, PreferredStatus, PresenceStatus } from '../../../server/src/schema';
 
 interface OnlineUsersProps {
   onlineUsers: PublicUser[];
   currentUser: PublicUser;
   onStartPrivateChat: (otherUser: PublicUser) => void;
+  onOpenChannel: (channelId: number) => void;
 }
 
-export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: OnlineUsersProps) {
+// Matches the server's limit, counting the current user
+const MAX_GROUP_CHAT_PARTICIPANTS = 9;
+
+export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat, onOpenChannel }: OnlineUsersProps) {
   const [isStartingChat, setIsStartingChat] = useState<number | null>(null);
+  // Users ticked for a group DM
+  const [groupUserIds, setGroupUserIds] = useState<number[]>([]);
+  const [isStartingGroup, setIsStartingGroup] = useState(false);
+  const [preferredStatus, setPreferredStatus] = useState<PreferredStatus>(
+    currentUser.status === 'offline' ? 'invisible' : currentUser.status
+  );
+
+  // Presence events keep the list current, including our own derived status
+  const ownStatus: PresenceStatus =
+    onlineUsers.find((user: PublicUser) => user.id === currentUser.id)?.status ?? currentUser.status;
+
+  const handleStatusChange = async (status: PreferredStatus) => {
+    setPreferredStatus(status);
+    try {
+      await trpc.users.updateStatus.mutate({ status });
+    } catch (error) {
+      console.error('Failed to update status:', error);
+    }
+  };
 
   const handleStartPrivateChat = async (otherUser: PublicUser) => {
     if (otherUser.id === currentUser.id) return;
@@ -30,6 +56,23 @@ export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: On
     }
   };
 
+  const toggleGroupUser = (userId: number, checked: boolean) => {
+    setGroupUserIds((prev: number[]) => checked ? [...prev, userId] : prev.filter((id: number) => id !== userId));
+  };
+
+  const handleStartGroupChat = async () => {
+    setIsStartingGroup(true);
+    try {
+      const chat = await trpc.privateChats.createGroup.mutate({ userIds: groupUserIds });
+      setGroupUserIds([]);
+      onOpenChannel(chat.id);
+    } catch (error) {
+      console.error('Failed to create group chat:', error);
+    } finally {
+      setIsStartingGroup(false);
+    }
+  };
+
   const formatLastSeen = (lastSeen: Date | null): string => {
     if (!lastSeen) return 'Never';
     
@@ -88,11 +131,32 @@ export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: On
               </Badge>
             </div>
             <div className="flex items-center gap-1 text-xs text-green-500 font-mono">
-              <span className="w-2 h-2 bg-green-400 rounded-full status-online"></span>
-              Online
+              <span className={`w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[ownStatus]}`}></span>
+              {PRESENCE_LABELS[ownStatus]}
             </div>
           </div>
         </div>
+        <div className="mt-2">
+          <Select value={preferredStatus} onValueChange={(value: PreferredStatus) => handleStatusChange(value)}>
+            <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-green-700">
+              <SelectItem value="online" className="font-mono text-green-400 focus:bg-green-900">
+                ● ONLINE
+              </SelectItem>
+              <SelectItem value="away" className="font-mono text-yellow-400 focus:bg-green-900">
+                ◐ AWAY
+              </SelectItem>
+              <SelectItem value="dnd" className="font-mono text-red-400 focus:bg-green-900">
+                ⊘ DO NOT DISTURB
+              </SelectItem>
+              <SelectItem value="invisible" className="font-mono text-gray-400 focus:bg-green-900">
+                ○ INVISIBLE
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Other Users */}
@@ -109,6 +173,13 @@ export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: On
               className="p-2 bg-gray-700 hover:bg-gray-600 rounded border border-gray-600 transition-colors"
             >
               <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={groupUserIds.includes(user.id)}
+                  onCheckedChange={(checked: boolean) => toggleGroupUser(user.id, checked)}
+                  disabled={!groupUserIds.includes(user.id) && groupUserIds.length >= MAX_GROUP_CHAT_PARTICIPANTS - 1}
+                  title="Add to group DM"
+                  className="border-green-700 data-[state=checked]:bg-green-800 data-[state=checked]:border-green-600"
+                />
                 <Avatar className="w-8 h-8 border border-green-700">
                   <AvatarImage src={user.avatar_url || undefined} />
                   <AvatarFallback className="bg-green-800 text-green-200 text-xs font-mono">
@@ -124,8 +195,8 @@ export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: On
                   <div className="flex items-center gap-1 text-xs font-mono">
                     {user.is_online ? (
                       <>
-                        <span className="w-2 h-2 bg-green-400 rounded-full status-online"></span>
-                        <span className="text-green-500">Online</span>
+                        <span className={`w-2 h-2 rounded-full ${PRESENCE_DOT_CLASSES[user.status]}`}></span>
+                        <span className="text-green-500">{PRESENCE_LABELS[user.status]}</span>
                       </>
                     ) : (
                       <>
@@ -152,9 +223,19 @@ export function OnlineUsers({ onlineUsers, currentUser, onStartPrivateChat }: On
         )}
       </div>
 
-      <div className="text-xs text-green-600 font-mono text-center pt-2 border-t border-green-800">
-        💬 Click DM to start a private conversation
-      </div>
+      {groupUserIds.length >= 2 ? (
+        <Button
+          onClick={handleStartGroupChat}
+          disabled={isStartingGroup}
+          className="w-full bg-green-800 hover:bg-green-700 text-green-100 font-mono text-xs"
+        >
+          {isStartingGroup ? 'STARTING...' : `START GROUP DM (${groupUserIds.length + 1})`}
+        </Button>
+      ) : (
+        <div className="text-xs text-green-600 font-mono text-center pt-2 border-t border-green-800">
+          💬 Click DM to start a private conversation, or tick users for a group DM
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
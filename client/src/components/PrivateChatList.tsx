@@ -2,17 +2,24 @@ import { useState, useEffect, useCallback } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { UnreadBadge } from '@/components/UnreadBadge';
 import { trpc } from '@/utils/trpc';
-import type { PublicUser, ChannelWithMembers } from '../../../server/src/schema';
+import type { PublicUser, ChannelWithMembers, UnreadCount, PrivateChat as PrivateChatListing } from '../../../server/src/schema';
 
 interface PrivateChatListProps {
   currentUser: PublicUser;
   activeChannel: ChannelWithMembers | null;
   onChannelSelect: (channel: ChannelWithMembers) => void;
+  unreadCounts: Record<number, UnreadCount>; // Live counts; the list's own counts are used until one arrives
 }
 
-export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }: PrivateChatListProps) {
-  const [privateChats, setPrivateChats] = useState<ChannelWithMembers[]>([]);
+type PrivateChat = ChannelWithMembers & { unread_count: number; mention_count: number };
+
+// Group DMs show this many overlapping avatars
+const STACKED_AVATARS = 3;
+
+export function PrivateChatList({ currentUser, activeChannel, onChannelSelect, unreadCounts }: PrivateChatListProps) {
+  const [privateChats, setPrivateChats] = useState<PrivateChat[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   const loadPrivateChats = useCallback(async () => {
@@ -20,16 +27,21 @@ export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }:
     try {
       const chats = await trpc.privateChats.get.query();
       // Transform the API response to match ChannelWithMembers structure
-      const transformedChats: ChannelWithMembers[] = chats.map((chat: any) => ({
+      const transformedChats: PrivateChat[] = chats.map((chat: PrivateChatListing) => ({
         id: chat.id,
-        name: chat.name || chat.otherUser?.username || 'Private Chat',
+        name: chat.display_name,
         description: chat.description,
+        topic: chat.topic,
         is_private: chat.is_private,
+        kind: chat.kind,
+        archived_at: chat.archived_at,
         created_by: chat.created_by,
         created_at: chat.created_at,
         updated_at: chat.updated_at,
-        members: chat.otherUser ? [chat.otherUser] : [],
-        member_count: 2 // Always 2 for direct private chats
+        members: chat.participants,
+        member_count: chat.member_count,
+        unread_count: chat.unread_count,
+        mention_count: chat.mention_count
       }));
       setPrivateChats(transformedChats);
     } catch (error) {
@@ -49,6 +61,11 @@ export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }:
   };
 
   const getChatDisplayName = (channel: ChannelWithMembers): string => {
+    // Group DMs come named after their participants
+    if (channel.member_count > 2) {
+      return channel.name;
+    }
+
     const otherUser = getOtherUser(channel);
     if (otherUser) {
       return otherUser.username;
@@ -58,6 +75,15 @@ export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }:
     return channel.name || 'Unknown Chat';
   };
 
+  const renderAvatar = (user: PublicUser, className: string) => (
+    <Avatar key={user.id} className={className}>
+      <AvatarImage src={user.avatar_url || undefined} />
+      <AvatarFallback className="bg-green-800 text-green-200 text-xs font-mono">
+        {user.username.slice(0, 2).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -92,9 +118,10 @@ export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }:
             </p>
           </div>
         ) : (
-          privateChats.map((chat: ChannelWithMembers) => {
+          privateChats.map((chat: PrivateChat) => {
             const otherUser = getOtherUser(chat);
             const displayName = getChatDisplayName(chat);
+            const isGroup = chat.member_count > 2;
             
             return (
               <button
@@ -107,33 +134,44 @@ export function PrivateChatList({ currentUser, activeChannel, onChannelSelect }:
                 }`}
               >
                 <div className="flex items-center gap-3">
-                  <Avatar className="w-8 h-8 border border-green-700">
-                    <AvatarImage src={otherUser?.avatar_url || undefined} />
-                    <AvatarFallback className="bg-green-800 text-green-200 text-xs font-mono">
-                      {displayName.slice(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
+                  {isGroup ? (
+                    <div className="flex -space-x-3 shrink-0">
+                      {chat.members.slice(0, STACKED_AVATARS).map((member: PublicUser) =>
+                        renderAvatar(member, 'w-7 h-7 border border-gray-800')
+                      )}
+                    </div>
+                  ) : (
+                    <Avatar className="w-8 h-8 border border-green-700">
+                      <AvatarImage src={otherUser?.avatar_url || undefined} />
+                      <AvatarFallback className="bg-green-800 text-green-200 text-xs font-mono">
+                        {displayName.slice(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  )}
                   
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className="font-semibold truncate">
                         {displayName}
                       </span>
-                      {otherUser?.is_online && (
+                      {!isGroup && otherUser?.is_online && (
                         <span className="w-2 h-2 bg-green-400 rounded-full status-online"></span>
                       )}
                     </div>
                     
                     <div className="flex items-center justify-between text-xs">
                       <span className="text-green-600">
-                        Private conversation
+                        {isGroup ? 'Group conversation' : 'Private conversation'}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <UnreadBadge count={unreadCounts[chat.id] ?? { channel_id: chat.id, unread_count: chat.unread_count, mention_count: chat.mention_count }} />
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs border-green-600 text-green-500"
+                        >
+                          {chat.member_count}
+                        </Badge>
                       </span>
-                      <Badge 
-                        variant="outline" 
-                        className="text-xs border-green-600 text-green-500"
-                      >
-                        {chat.member_count}
-                      </Badge>
                     </div>
                   </div>
                 </div>
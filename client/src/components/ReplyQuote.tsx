@@ -0,0 +1,29 @@
+import type { ReplyPreview } from '../../../server/src/schema';
+
+interface ReplyQuoteProps {
+  replyTo: ReplyPreview | null;
+  onClick?: () => void;
+}
+
+// Quoted preview of the message a reply answers
+export function ReplyQuote({ replyTo, onClick }: ReplyQuoteProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className="w-full text-left mb-1 pl-3 border-l-2 border-green-700 text-xs font-mono text-green-500 hover:text-green-300 hover:border-green-500 disabled:hover:text-green-500 disabled:hover:border-green-700 transition-colors"
+    >
+      {replyTo ? (
+        <span className="block truncate">
+          ↳ <span className="text-green-400">@{replyTo.username}</span>{' '}
+          {replyTo.is_deleted
+            ? <span className="italic">[message deleted]</span>
+            : replyTo.message_type === 'image' && !replyTo.content ? '[image]' : replyTo.content}
+        </span>
+      ) : (
+        <span className="italic">↳ Original message was deleted</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type {
+  ChannelWithMembers,
+  MessageSearchHit,
+  PublicUser,
+  SearchMessagesInput,
+  SnippetSegment
+} from '../../../server/src/schema';
+
+const ALL = 'all';
+
+interface SearchPanelProps {
+  channels: ChannelWithMembers[];
+  users: PublicUser[];
+  onSelectHit: (hit: MessageSearchHit) => void;
+}
+
+export function SearchPanel({ channels, users, onSelectHit }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [channelFilter, setChannelFilter] = useState<string>(ALL);
+  const [authorFilter, setAuthorFilter] = useState<string>(ALL);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const buildInput = (before?: number): Omit<SearchMessagesInput, 'limit'> => ({
+    query: query.trim(),
+    channel_id: channelFilter === ALL ? undefined : Number(channelFilter),
+    user_id: authorFilter === ALL ? undefined : Number(authorFilter),
+    message_type: typeFilter === ALL ? undefined : (typeFilter as SearchMessagesInput['message_type']),
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    // Inclusive of the whole end day
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    before
+  });
+
+  const runSearch = async (before?: number) => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const result = await trpc.messages.search.query(buildInput(before));
+      setHits((prev: MessageSearchHit[]) => (before === undefined ? result.hits : [...prev, ...result.hits]));
+      setNextCursor(result.nextCursor);
+      setHasSearched(true);
+    } catch (error) {
+      console.error('Message search failed:', error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
+  const formatTimestamp = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    }).format(new Date(date));
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-mono text-green-600 uppercase tracking-wider">
+        Search Messages
+      </h3>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input
+          value={query}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+          placeholder='grep "deploy" -lunch'
+          className="bg-gray-700 border-green-700 text-green-300 font-mono text-xs placeholder:text-green-700"
+        />
+
+        <Select value={channelFilter} onValueChange={setChannelFilter}>
+          <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-green-700">
+            <SelectItem value={ALL} className="font-mono text-green-400 focus:bg-green-900">
+              All channels
+            </SelectItem>
+            {channels.map((channel: ChannelWithMembers) => (
+              <SelectItem key={channel.id} value={String(channel.id)} className="font-mono text-green-400 focus:bg-green-900">
+                #{channel.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={authorFilter} onValueChange={setAuthorFilter}>
+            <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-green-700">
+              <SelectItem value={ALL} className="font-mono text-green-400 focus:bg-green-900">
+                Anyone
+              </SelectItem>
+              {users.map((user: PublicUser) => (
+                <SelectItem key={user.id} value={String(user.id)} className="font-mono text-green-400 focus:bg-green-900">
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-green-700">
+              <SelectItem value={ALL} className="font-mono text-green-400 focus:bg-green-900">Any type</SelectItem>
+              <SelectItem value="text" className="font-mono text-green-400 focus:bg-green-900">Text</SelectItem>
+              <SelectItem value="image" className="font-mono text-green-400 focus:bg-green-900">Image</SelectItem>
+              <SelectItem value="link" className="font-mono text-green-400 focus:bg-green-900">Link</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)}
+            aria-label="From date"
+            className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs"
+          />
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToDate(e.target.value)}
+            aria-label="To date"
+            className="h-7 bg-gray-700 border-green-700 text-green-400 font-mono text-xs"
+          />
+        </div>
+
+        <Button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="w-full h-7 bg-green-800 hover:bg-green-700 text-green-100 font-mono text-xs"
+        >
+          {isSearching ? 'SEARCHING...' : 'SEARCH'}
+        </Button>
+      </form>
+
+      <div className="space-y-1">
+        {hasSearched && hits.length === 0 && (
+          <div className="text-center text-green-600 font-mono text-sm py-4">
+            <p>No matches</p>
+          </div>
+        )}
+
+        {hits.map((hit: MessageSearchHit) => (
+          <button
+            key={hit.id}
+            type="button"
+            onClick={() => onSelectHit(hit)}
+            className="w-full text-left p-2 bg-gray-700 hover:bg-gray-600 rounded border border-gray-600 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2 text-xs font-mono">
+              <span className="text-green-400 truncate">#{hit.channel_name}</span>
+              <span className="text-green-600 shrink-0">{formatTimestamp(hit.created_at)}</span>
+            </div>
+            <div className="text-xs font-mono text-green-300">{hit.user.username}</div>
+            <p className="text-xs font-mono text-green-100 break-words line-clamp-3">
+              {hit.snippet.map((segment: SnippetSegment, index: number) =>
+                segment.highlight ? (
+                  <mark key={index} className="bg-yellow-600/40 text-yellow-200 rounded px-0.5">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </p>
+          </button>
+        ))}
+
+        {nextCursor !== null && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isSearching}
+            onClick={() => runSearch(nextCursor)}
+            className="w-full text-xs border-green-700 text-green-400 hover:bg-green-900 font-mono"
+          >
+            {isSearching ? '...' : 'MORE RESULTS'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
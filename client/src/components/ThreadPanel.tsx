@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { MessageInput } from '@/components/MessageInput';
+import { ReplyQuote } from '@/components/ReplyQuote';
+import { MessageContent } from '@/components/MessageContent';
+import { EditHistory } from '@/components/EditHistory';
+import { trpc } from '@/utils/trpc';
+import { uploadUrl } from '@/lib/uploads';
+import type { PublicUser, MessageWithUser, MessageThread } from '../../../server/src/schema';
+
+interface ThreadPanelProps {
+  messageId: number;
+  channelId: number;
+  currentUser: PublicUser;
+  onClose: () => void;
+}
+
+export function ThreadPanel({ messageId, channelId, currentUser, onClose }: ThreadPanelProps) {
+  const [thread, setThread] = useState<MessageThread | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadThread = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.messages.getThread.query({ message_id: messageId });
+      setThread(result);
+    } catch (error) {
+      console.error('Failed to load thread:', error);
+      setThread(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [messageId]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  const addReply = useCallback((message: MessageWithUser) => {
+    setThread((prev: MessageThread | null) => {
+      if (!prev || message.thread_root_id !== prev.root.id) return prev;
+      if (prev.replies.some((reply: MessageWithUser) => reply.id === message.id)) return prev;
+      return { ...prev, replies: [...prev.replies, message] };
+    });
+  }, []);
+
+  // Keep the open thread live
+  useEffect(() => {
+    const onNew = trpc.messages.onNew.subscribe({ channelId }, {
+      onData: addReply,
+      onError: (error) => console.error('Thread reply subscription failed:', error),
+    });
+
+    const onUpdate = trpc.messages.onUpdate.subscribe({ channelId }, {
+      onData: (message: MessageWithUser) => {
+        setThread((prev: MessageThread | null) => {
+          if (!prev) return prev;
+          if (message.id === prev.root.id) return { ...prev, root: message };
+          return {
+            ...prev,
+            replies: prev.replies.map((reply: MessageWithUser) => (reply.id === message.id ? message : reply))
+          };
+        });
+      },
+      onError: (error) => console.error('Thread update subscription failed:', error),
+    });
+
+    const onDelete = trpc.messages.onDelete.subscribe({ channelId }, {
+      onData: ({ id }: { id: number }) => {
+        setThread((prev: MessageThread | null) => {
+          if (!prev || id === prev.root.id) return null;
+          return { ...prev, replies: prev.replies.filter((reply: MessageWithUser) => reply.id !== id) };
+        });
+      },
+      onError: (error) => console.error('Thread delete subscription failed:', error),
+    });
+
+    return () => {
+      onNew.unsubscribe();
+      onUpdate.unsubscribe();
+      onDelete.unsubscribe();
+    };
+  }, [channelId, addReply]);
+
+  const formatTime = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    }).format(new Date(date));
+  };
+
+  const renderMessage = (message: MessageWithUser, rootId: number) => (
+    <div key={message.id} className="flex gap-2 p-2 hover:bg-gray-700/30 transition-colors">
+      <Avatar className="w-6 h-6 border border-green-700">
+        <AvatarImage src={message.user.avatar_url || undefined} />
+        <AvatarFallback className="bg-green-800 text-green-200 text-[10px] font-mono">
+          {message.user.username.slice(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        {/* Replies to the root are implied by the thread itself */}
+        {message.reply_to_message_id !== null && message.reply_to_message_id !== rootId && (
+          <ReplyQuote replyTo={message.reply_to} />
+        )}
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-xs text-green-300 font-semibold">{message.user.username}</span>
+          <span className="text-xs text-green-600 font-mono">{formatTime(message.created_at)}</span>
+          {message.is_edited && !message.deleted_at && <EditHistory message={message} />}
+        </div>
+        {message.deleted_at && (
+          <div className="text-xs font-mono text-green-700 italic">[message deleted]</div>
+        )}
+        {message.content && (
+          <MessageContent
+            message={message}
+            className={`text-green-100 text-sm font-mono break-words space-y-1 ${message.message_type === 'action' ? 'italic' : ''}`}
+          />
+        )}
+        {message.attachment && (
+          <a href={uploadUrl(message.attachment.url)} target="_blank" rel="noopener noreferrer" className="block w-fit">
+            <img
+              src={uploadUrl(message.attachment.thumbnail_url)}
+              alt={message.attachment.filename}
+              className="max-w-full rounded border border-green-700 mt-1"
+            />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between border-b border-green-800 p-3">
+        <h3 className="text-sm font-mono text-green-300">THREAD</h3>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onClose}
+          className="text-xs border-green-700 text-green-400 hover:bg-green-900 font-mono px-2 py-1"
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin">
+        {isLoading && !thread ? (
+          <div className="p-4 text-green-400 font-mono text-sm animate-pulse">
+            {'>'} Loading thread...
+          </div>
+        ) : thread ? (
+          <>
+            <div className="border-b border-green-900">{renderMessage(thread.root, thread.root.id)}</div>
+            <div className="px-3 py-2 text-xs font-mono text-green-600">
+              {thread.replies.length} {thread.replies.length === 1 ? 'reply' : 'replies'}
+            </div>
+            {thread.replies.map((reply: MessageWithUser) => renderMessage(reply, thread.root.id))}
+          </>
+        ) : (
+          <div className="p-4 text-center text-green-600 font-mono text-sm">
+            Thread unavailable
+          </div>
+        )}
+      </div>
+
+      {thread && (
+        <div className="border-t border-green-800 p-3">
+          <MessageInput
+            channelId={channelId}
+            currentUser={currentUser}
+            onMessageSent={addReply}
+            threadRootId={thread.root.id}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import type { UnreadCount } from '../../../server/src/schema';
+
+interface UnreadBadgeProps {
+  count: UnreadCount | undefined;
+}
+
+// Unread messages in a channel, highlighted when some of them mention the user
+export function UnreadBadge({ count }: UnreadBadgeProps) {
+  if (!count || count.unread_count === 0) return null;
+
+  return (
+    <Badge
+      className={`text-xs font-mono ${
+        count.mention_count > 0
+          ? 'bg-red-700 hover:bg-red-700 text-red-100'
+          : 'bg-green-700 hover:bg-green-700 text-green-100'
+      }`}
+      title={count.mention_count > 0 ? `${count.mention_count} mentioning you` : undefined}
+    >
+      {count.mention_count > 0 && '@'}
+      {count.unread_count > 99 ? '99+' : count.unread_count}
+    </Badge>
+  );
+}
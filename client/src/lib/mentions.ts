@@ -0,0 +1,46 @@
+import type { MessageWithUser } from '../../../server/src/schema';
+
+export interface TextSegment {
+  text: string;
+  mention: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Same boundaries as the server: "@name" not glued to other word characters
+function mentionRegExp(names: string[]): RegExp {
+  const alternatives = names
+    .sort((a: string, b: string) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])(@(?:${alternatives}))(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+// Splits content into plain text and the mentions the server recorded, plus @channel and @here
+export function splitMentions(content: string, message: Pick<MessageWithUser, 'mentions'>): TextSegment[] {
+  const pattern = mentionRegExp(['channel', 'here', ...message.mentions.map(({ username }) => username)]);
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  for (const match of content.matchAll(pattern)) {
+    const start = match.index + match[1].length;
+    if (start > position) {
+      segments.push({ text: content.slice(position, start), mention: false });
+    }
+    segments.push({ text: match[2], mention: true });
+    position = start + match[2].length;
+  }
+  if (position < content.length) {
+    segments.push({ text: content.slice(position), mention: false });
+  }
+  return segments;
+}
+
+// Whether the message addresses the user by name or through @channel/@here
+export function mentionsUser(message: MessageWithUser, userId: number): boolean {
+  if (message.user_id === userId) return false;
+  return message.mentions.some(({ user_id }) => user_id === userId)
+    || splitMentions(message.content, { mentions: [] }).some(({ mention }) => mention);
+}
@@ -0,0 +1,27 @@
+import type { PresenceStatus } from '../../../server/src/schema';
+
+const CONNECTION_ID_KEY = 'presence_connection_id';
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  dnd: 'Do not disturb',
+  offline: 'Offline'
+};
+
+export const PRESENCE_DOT_CLASSES: Record<PresenceStatus, string> = {
+  online: 'bg-green-400 status-online',
+  away: 'bg-yellow-400',
+  dnd: 'bg-red-500',
+  offline: 'bg-gray-500'
+};
+
+// One id per browser tab, so each tab counts as its own device on the server
+export function getConnectionId(): string {
+  let connectionId = sessionStorage.getItem(CONNECTION_ID_KEY);
+  if (!connectionId) {
+    connectionId = crypto.randomUUID();
+    sessionStorage.setItem(CONNECTION_ID_KEY, connectionId);
+  }
+  return connectionId;
+}
@@ -0,0 +1,23 @@
+import type { ReactionEvent, ReactionSummary } from '../../../server/src/schema';
+
+// Offered by the reaction picker
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '🔥', '👀', '🚀', '😮'];
+
+// Reaction events carry counts for everyone; whether we reacted is only known locally, except for our own change
+export function applyReactionEvent(current: ReactionSummary[], event: ReactionEvent, currentUserId: number): ReactionSummary[] {
+  return event.reactions.map(({ emoji, count }) => {
+    const reacted = event.user_id === currentUserId && event.emoji === emoji
+      ? event.added
+      : current.some((reaction: ReactionSummary) => reaction.emoji === emoji && reaction.reacted);
+    return { emoji, count, reacted };
+  });
+}
+
+// Broadcast messages carry everyone's counts but never mark anything as ours; that is carried over from what we have
+export function mergeBroadcastReactions(current: ReactionSummary[], broadcast: ReactionSummary[]): ReactionSummary[] {
+  return broadcast.map(({ emoji, count }) => ({
+    emoji,
+    count,
+    reacted: current.some((reaction: ReactionSummary) => reaction.emoji === emoji && reaction.reacted)
+  }));
+}
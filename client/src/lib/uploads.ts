@@ -0,0 +1,27 @@
+import superjson from 'superjson';
+import { getAccessToken } from '@/utils/trpc';
+import type { Attachment } from '../../../server/src/schema';
+
+// Upload routes live on the API server next to tRPC, behind the same /api prefix
+const API_BASE = '/api';
+
+// Attachment urls are server paths
+export function uploadUrl(path: string): string {
+  return `${API_BASE}${path}`;
+}
+
+// Stores the file on the server; send the returned attachment's id with the message
+export async function uploadImage(file: File): Promise<Attachment> {
+  const token = await getAccessToken();
+  const response = await fetch(`${API_BASE}/uploads?filename=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: file
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Upload failed with status ${response.status}`);
+  }
+  return superjson.parse<Attachment>(await response.text());
+}
@@ -1,10 +1,103 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+// Refresh slightly early so a request never leaves with a token that expires in flight
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+// Bare client for the refresh call itself, so it never waits on its own token lookup
+const authClient = createTRPCClient<AppRouter>({
+  links: [httpBatchLink({ url: '/api', transformer: superjson })],
+});
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+export function storeSession(token: string, refreshToken?: string) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+export function hasSession(): boolean {
+  return localStorage.getItem(ACCESS_TOKEN_KEY) !== null || localStorage.getItem(REFRESH_TOKEN_KEY) !== null;
+}
+
+function tokenExpiresAt(token: string): number {
+  try {
+    const body = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(body));
+    return payload.exp * 1000;
+  } catch {
+    return 0;
+  }
+}
+
+async function refreshAccessToken(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  try {
+    const response = await authClient.auth.refresh.mutate({ refresh_token: refreshToken });
+    if (response.success && response.token) {
+      storeSession(response.token, response.refresh_token);
+      return response.token;
+    }
+  } catch (error) {
+    console.error('Failed to refresh session:', error);
+  }
+  clearSession();
+  return null;
+}
+
+// Returns a usable access token, refreshing it first when it is missing or about to expire
+export async function getAccessToken(): Promise<string | null> {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token && tokenExpiresAt(token) - REFRESH_MARGIN_MS > Date.now()) {
+    return token;
+  }
+  // Share one refresh between concurrent requests; refresh tokens are single-use
+  if (!pendingRefresh) {
+    pendingRefresh = refreshAccessToken().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// Subscriptions travel over a WebSocket that is only open while something is subscribed;
+// each (re)connect sends a fresh token because sockets cannot carry an Authorization header
+const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api`,
+  lazy: { enabled: true, closeMs: 0 },
+  async connectionParams() {
+    const token = await getAccessToken();
+    return token ? { token } : null;
+  },
+});
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        // Attach the session token so authenticated procedures know the caller
+        async headers() {
+          const token = await getAccessToken();
+          return token ? { Authorization: `Bearer ${token}` } : {};
+        },
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
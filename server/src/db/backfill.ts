@@ -0,0 +1,107 @@
+import { db } from '.';
+import { chatChannelsTable, channelMembersTable, chatMessagesTable, messageLinkPreviewsTable } from './schema';
+import { type LinkPreview } from '../schema';
+import { eq, and, inArray, isNotNull, sql } from 'drizzle-orm';
+
+// Channels created before the kind column existed are pushed as 'public'. Private ones are sorted out here:
+// named ones are invite-only channels, unnamed ones DMs by member count. Only rows still inconsistent change,
+// so running it on every start is safe.
+export async function backfillChannelKinds(): Promise<number> {
+  try {
+    const memberCount = sql`(select count(*) from ${channelMembersTable} where ${channelMembersTable.channel_id} = ${chatChannelsTable.id})`;
+
+    const updated = await db.update(chatChannelsTable)
+      .set({
+        kind: sql`case
+          when ${chatChannelsTable.name} <> '' then 'private'
+          when ${memberCount} > 2 then 'group_dm'
+          else 'dm'
+        end::channel_kind`
+      })
+      .where(and(eq(chatChannelsTable.is_private, true), eq(chatChannelsTable.kind, 'public')))
+      .returning({ id: chatChannelsTable.id })
+      .execute();
+
+    return updated.length;
+  } catch (error) {
+    console.error('Channel kind backfill failed:', error);
+    throw error;
+  }
+}
+
+// Messages used to keep a single preview as JSON on the message itself. Previews with anything to show move to
+// message_link_previews and the column is cleared, so each message is only handled once.
+export async function backfillLinkPreviews(): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const legacy = await tx.select({ id: chatMessagesTable.id, link_preview: chatMessagesTable.link_preview })
+        .from(chatMessagesTable)
+        .where(isNotNull(chatMessagesTable.link_preview))
+        .execute();
+
+      if (legacy.length === 0) {
+        return 0;
+      }
+
+      const previews = legacy
+        .map(row => ({ message_id: row.id, ...(JSON.parse(row.link_preview!) as Omit<LinkPreview, 'site_name'>) }))
+        .filter(preview => preview.title || preview.description || preview.image);
+
+      if (previews.length > 0) {
+        await tx.insert(messageLinkPreviewsTable)
+          .values(previews.map(({ message_id, url, title, description, image }) => ({ message_id, url, position: 0, title, description, image })))
+          .onConflictDoNothing()
+          .execute();
+      }
+
+      await tx.update(chatMessagesTable)
+        .set({ link_preview: null })
+        .where(inArray(chatMessagesTable.id, legacy.map(row => row.id)))
+        .execute();
+
+      return previews.length;
+    });
+  } catch (error) {
+    console.error('Link preview backfill failed:', error);
+    throw error;
+  }
+}
+
+// Nothing used to stop a user joining a channel twice at the same moment. The unique constraint on channel_members
+// cannot be added while such pairs exist, so this runs before the schema is pushed: each pair keeps its oldest row,
+// with the highest role and the latest read of the duplicates. A database without the table yet has nothing to do.
+export async function dedupeChannelMembers(): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const table = await tx.execute<{ exists: boolean }>(sql`select to_regclass('channel_members') is not null as exists`);
+      if (!table.rows[0].exists) {
+        return 0;
+      }
+
+      await tx.execute(sql`
+        update channel_members kept
+        set role = duplicates.role, last_read_message_id = duplicates.last_read_message_id
+        from (
+          select min(id) as id, min(role) as role, max(last_read_message_id) as last_read_message_id
+          from channel_members
+          group by channel_id, user_id
+          having count(*) > 1
+        ) duplicates
+        where kept.id = duplicates.id
+      `);
+
+      const deleted = await tx.execute(sql`
+        delete from channel_members duplicate
+        using channel_members kept
+        where duplicate.channel_id = kept.channel_id
+          and duplicate.user_id = kept.user_id
+          and duplicate.id > kept.id
+      `);
+
+      return deleted.rowCount ?? 0;
+    });
+  } catch (error) {
+    console.error('Channel member dedupe failed:', error);
+    throw error;
+  }
+}
@@ -3,7 +3,8 @@ import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
 import * as schema from './schema';
 
-const pool = new Pool({
+// Exported so one-off scripts can close it and exit
+export const pool = new Pool({
   connectionString: process.env['APP_DATABASE_URL']!,
 });
 
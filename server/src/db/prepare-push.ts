@@ -0,0 +1,16 @@
+import { pool } from '.';
+import { dedupeChannelMembers } from './backfill';
+
+// Run by db:push before drizzle-kit, for data that would stop the new schema from applying.
+// A failure exits non-zero so the push does not go ahead.
+try {
+  const removed = await dedupeChannelMembers();
+  if (removed > 0) {
+    console.log(`Removed ${removed} duplicate channel memberships`);
+  }
+} catch {
+  // Already logged by dedupeChannelMembers
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -1,9 +1,33 @@
-import { serial, text, pgTable, timestamp, boolean, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, boolean, integer, pgEnum, unique, index, customType } from 'drizzle-orm/pg-core';
+import { relations, sql, type SQL } from 'drizzle-orm';
 
 // Enums
-export const messageTypeEnum = pgEnum('message_type', ['text', 'image', 'link']);
+// 'action' is an IRC-style /me message, shown as something the author did
+export const messageTypeEnum = pgEnum('message_type', ['text', 'image', 'link', 'action']);
 export const memberRoleEnum = pgEnum('member_role', ['owner', 'admin', 'member']);
+// What other users see, derived by the presence subsystem
+export const presenceStatusEnum = pgEnum('presence_status', ['online', 'away', 'dnd', 'offline']);
+// What the user asked for; 'invisible' is shown to others as offline
+export const preferredStatusEnum = pgEnum('preferred_status', ['online', 'away', 'dnd', 'invisible']);
+// How a member came to be mentioned: by name, or through @channel/@here
+export const mentionKindEnum = pgEnum('mention_kind', ['user', 'channel', 'here']);
+export const notificationTypeEnum = pgEnum('notification_type', ['mention', 'reply', 'dm_invite']);
+// Named channels are public or invite-only; DMs are unnamed, between two ('dm') or 3 to 9 ('group_dm') users
+export const channelKindEnum = pgEnum('channel_kind', ['public', 'private', 'dm', 'group_dm']);
+// Everything recorded in a channel's audit log
+export const auditActionEnum = pgEnum('audit_action', [
+  'channel_created', 'channel_renamed', 'channel_updated', 'channel_archived', 'channel_unarchived',
+  'member_joined', 'member_left', 'member_added', 'member_removed', 'member_banned', 'member_unbanned',
+  'member_muted', 'member_unmuted', 'role_changed', 'invite_created', 'invite_revoked',
+  'message_deleted', 'message_restored', 'channel_deleted'
+]);
+
+// Full-text search document; drizzle has no built-in tsvector type
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -12,7 +36,9 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   password_hash: text('password_hash').notNull(),
   avatar_url: text('avatar_url'), // Nullable by default
-  is_online: boolean('is_online').notNull().default(false),
+  is_online: boolean('is_online').notNull().default(false), // Kept in sync with status by the presence subsystem
+  status: presenceStatusEnum('status').notNull().default('offline'),
+  preferred_status: preferredStatusEnum('preferred_status').notNull().default('online'),
   last_seen: timestamp('last_seen'), // Nullable by default
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -23,7 +49,10 @@ export const chatChannelsTable = pgTable('chat_channels', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'), // Nullable by default
-  is_private: boolean('is_private').notNull().default(false),
+  topic: text('topic'), // Short current subject shown in the header; nullable by default
+  is_private: boolean('is_private').notNull().default(false), // Kept in step with kind: false only for 'public'
+  kind: channelKindEnum('kind').notNull().default('public'),
+  archived_at: timestamp('archived_at'), // Archived channels are read-only; null while active
   created_by: integer('created_by').notNull().references(() => usersTable.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -35,14 +64,28 @@ export const chatMessagesTable = pgTable('chat_messages', {
   channel_id: integer('channel_id').notNull().references(() => chatChannelsTable.id),
   user_id: integer('user_id').notNull().references(() => usersTable.id),
   content: text('content').notNull(),
+  formatted_content: text('formatted_content'), // Parsed Markdown as JSON, nullable by default
   message_type: messageTypeEnum('message_type').notNull().default('text'),
-  image_url: text('image_url'), // Nullable by default
-  link_preview: text('link_preview'), // JSON stored as text, nullable by default
+  link_preview: text('link_preview'), // Legacy single preview as JSON; moved to message_link_previews at startup
   reply_to_message_id: integer('reply_to_message_id'),
+  thread_root_id: integer('thread_root_id'), // Top-level message of the thread a reply belongs to, null for top-level messages
   is_edited: boolean('is_edited').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+  // Deleted messages stay as tombstones until the purge job removes them after the retention period
+  deleted_at: timestamp('deleted_at'), // Nullable by default
+  deleted_by: integer('deleted_by').references(() => usersTable.id), // The author or a channel moderator
+  // Maintained by Postgres from content; the search handler must use the same 'english' configuration
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    (): SQL => sql`to_tsvector('english', ${chatMessagesTable.content})`
+  ),
+}, (table) => [
+  // History is paged by message id within a channel
+  index('chat_messages_channel_id_id_idx').on(table.channel_id, table.id),
+  index('chat_messages_search_vector_idx').using('gin', table.search_vector),
+  index('chat_messages_thread_root_id_idx').on(table.thread_root_id),
+  index('chat_messages_deleted_at_idx').on(table.deleted_at),
+]);
 
 // Channel members table (for managing who can access which channels)
 export const channelMembersTable = pgTable('channel_members', {
@@ -50,14 +93,192 @@ export const channelMembersTable = pgTable('channel_members', {
   channel_id: integer('channel_id').notNull().references(() => chatChannelsTable.id),
   user_id: integer('user_id').notNull().references(() => usersTable.id),
   role: memberRoleEnum('role').notNull().default('member'),
+  last_read_message_id: integer('last_read_message_id'), // Newest message the member has seen, null before the first read
+  muted_until: timestamp('muted_until'), // The member cannot post before this time; null when not muted
   joined_at: timestamp('joined_at').defaultNow().notNull(),
+}, (table) => [
+  // Channel listings gather members per channel, and a user's channels per user
+  index('channel_members_channel_id_idx').on(table.channel_id),
+  index('channel_members_user_id_idx').on(table.user_id),
+  // Concurrent joins cannot make someone a member twice; see dedupeChannelMembers for older rows
+  unique().on(table.channel_id, table.user_id),
+]);
+
+// Sessions table (one row per login; holds the hashed refresh token)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  refresh_token_hash: text('refresh_token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Nullable by default
+  last_used_at: timestamp('last_used_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Presence connections table (one row per open client tab/device, refreshed by heartbeats)
+export const presenceConnectionsTable = pgTable('presence_connections', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  session_id: integer('session_id').references(() => sessionsTable.id), // Nullable by default
+  connection_id: text('connection_id').notNull(),
+  is_idle: boolean('is_idle').notNull().default(false),
+  last_heartbeat_at: timestamp('last_heartbeat_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.user_id, table.connection_id),
+]);
+
+// Message reactions table (one row per user and emoji on a message)
+export const messageReactionsTable = pgTable('message_reactions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => chatMessagesTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  emoji: text('emoji').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.message_id, table.user_id, table.emoji),
+]);
+
+// Uploaded files; message_id stays null until the upload is sent in a message
+export const attachmentsTable = pgTable('attachments', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id), // Uploader
+  message_id: integer('message_id').unique().references(() => chatMessagesTable.id), // A message has at most one attachment
+  storage_key: text('storage_key').notNull().unique(),
+  thumbnail_key: text('thumbnail_key').notNull().unique(),
+  filename: text('filename').notNull(),
+  content_type: text('content_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Members addressed by a message, one row each; @channel and @here are expanded to the members they reached
+export const messageMentionsTable = pgTable('message_mentions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => chatMessagesTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  kind: mentionKindEnum('kind').notNull().default('user'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.message_id, table.user_id),
+]);
+
+// Earlier versions of edited messages, one row per edit holding the text the edit replaced
+export const messageRevisionsTable = pgTable('message_revisions', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => chatMessagesTable.id),
+  content: text('content').notNull(),
+  formatted_content: text('formatted_content'), // Parsed Markdown as JSON, nullable by default
+  written_at: timestamp('written_at').notNull(), // When this version was sent or saved
+  created_at: timestamp('created_at').defaultNow().notNull(), // When it was replaced
+}, (table) => [
+  index('message_revisions_message_id_idx').on(table.message_id),
+]);
+
+// Previews of the links in a message, unfurled after it is saved. Removed previews are kept so edits do not bring them back.
+export const messageLinkPreviewsTable = pgTable('message_link_previews', {
+  id: serial('id').primaryKey(),
+  message_id: integer('message_id').notNull().references(() => chatMessagesTable.id),
+  url: text('url').notNull(), // As written in the message
+  position: integer('position').notNull(), // Order of the link within the message
+  title: text('title'), // Nullable by default
+  description: text('description'), // Nullable by default
+  image: text('image'), // Nullable by default
+  site_name: text('site_name'), // Nullable by default
+  removed_at: timestamp('removed_at'), // Set when the author removes the preview
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.message_id, table.url),
+]);
+
+// Per-user inbox of mentions, replies and direct message invites
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id), // Recipient
+  type: notificationTypeEnum('type').notNull(),
+  actor_id: integer('actor_id').notNull().references(() => usersTable.id), // Who caused it
+  channel_id: integer('channel_id').notNull().references(() => chatChannelsTable.id),
+  message_id: integer('message_id').references(() => chatMessagesTable.id), // Null for invites
+  read_at: timestamp('read_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  // The inbox is paged by id per recipient
+  index('notifications_user_id_id_idx').on(table.user_id, table.id),
+]);
+
+// Users banned from a channel; a ban without expiry lasts until lifted
+export const channelBansTable = pgTable('channel_bans', {
+  id: serial('id').primaryKey(),
+  channel_id: integer('channel_id').notNull().references(() => chatChannelsTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  banned_by: integer('banned_by').notNull().references(() => usersTable.id),
+  expires_at: timestamp('expires_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.channel_id, table.user_id),
+]);
+
+// Shareable links that let anyone holding the code join a channel
+export const channelInvitesTable = pgTable('channel_invites', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(),
+  channel_id: integer('channel_id').notNull().references(() => chatChannelsTable.id),
+  created_by: integer('created_by').notNull().references(() => usersTable.id),
+  max_uses: integer('max_uses'), // Null for unlimited
+  use_count: integer('use_count').notNull().default(0),
+  expires_at: timestamp('expires_at'), // Nullable by default
+  revoked_at: timestamp('revoked_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Cached unfurl results keyed by normalized URL. Failed fetches are cached as well, with a shorter lifetime.
+export const linkPreviewsTable = pgTable('link_previews', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull().unique(),
+  title: text('title'), // Nullable by default
+  description: text('description'), // Nullable by default
+  image: text('image'), // Nullable by default
+  site_name: text('site_name'), // Nullable by default
+  fetched_at: timestamp('fetched_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+});
+
+// Append-only record of what happened in a channel and who did it; it is kept when the channel is deleted
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  channel_id: integer('channel_id').notNull(), // No foreign key: the log outlives the deleted channel
+  actor_id: integer('actor_id').notNull().references(() => usersTable.id),
+  action: auditActionEnum('action').notNull(),
+  target_user_id: integer('target_user_id').references(() => usersTable.id), // Member the action was about, if any
+  message_id: integer('message_id'), // No foreign key: the entry outlives the purged message
+  details: text('details'), // JSON object of action-specific values, e.g. the old and new role
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  // The log is paged by id per channel
+  index('audit_events_channel_id_id_idx').on(table.channel_id, table.id),
+]);
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
   createdChannels: many(chatChannelsTable),
   messages: many(chatMessagesTable),
   channelMemberships: many(channelMembersTable),
+  sessions: many(sessionsTable),
+  presenceConnections: many(presenceConnectionsTable),
+  reactions: many(messageReactionsTable),
+  attachments: many(attachmentsTable),
+  mentions: many(messageMentionsTable),
+  linkPreviews: many(messageLinkPreviewsTable),
+  revisions: many(messageRevisionsTable),
+  notifications: many(notificationsTable, { relationName: 'notificationRecipient' }),
+  causedNotifications: many(notificationsTable, { relationName: 'notificationActor' }),
+  channelBans: many(channelBansTable, { relationName: 'bannedUser' }),
+  issuedBans: many(channelBansTable, { relationName: 'banIssuer' }),
+  createdInvites: many(channelInvitesTable),
+  auditEvents: many(auditEventsTable, { relationName: 'auditActor' }),
+  auditedEvents: many(auditEventsTable, { relationName: 'auditTarget' }),
 }));
 
 export const chatChannelsRelations = relations(chatChannelsTable, ({ one, many }) => ({
@@ -67,6 +288,9 @@ export const chatChannelsRelations = relations(chatChannelsTable, ({ one, many }
   }),
   messages: many(chatMessagesTable),
   members: many(channelMembersTable),
+  bans: many(channelBansTable),
+  invites: many(channelInvitesTable),
+  auditEvents: many(auditEventsTable),
 }));
 
 export const chatMessagesRelations = relations(chatMessagesTable, ({ one, many }) => ({
@@ -86,6 +310,18 @@ export const chatMessagesRelations = relations(chatMessagesTable, ({ one, many }
   replies: many(chatMessagesTable, {
     relationName: 'messageReplies',
   }),
+  threadRoot: one(chatMessagesTable, {
+    fields: [chatMessagesTable.thread_root_id],
+    references: [chatMessagesTable.id],
+    relationName: 'threadReplies',
+  }),
+  threadReplies: many(chatMessagesTable, {
+    relationName: 'threadReplies',
+  }),
+  reactions: many(messageReactionsTable),
+  attachments: many(attachmentsTable),
+  mentions: many(messageMentionsTable),
+  notifications: many(notificationsTable),
 }));
 
 export const channelMembersRelations = relations(channelMembersTable, ({ one }) => ({
@@ -99,6 +335,137 @@ export const channelMembersRelations = relations(channelMembersTable, ({ one })
   }),
 }));
 
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const presenceConnectionsRelations = relations(presenceConnectionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [presenceConnectionsTable.user_id],
+    references: [usersTable.id],
+  }),
+  session: one(sessionsTable, {
+    fields: [presenceConnectionsTable.session_id],
+    references: [sessionsTable.id],
+  }),
+}));
+
+export const messageReactionsRelations = relations(messageReactionsTable, ({ one }) => ({
+  message: one(chatMessagesTable, {
+    fields: [messageReactionsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [messageReactionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachmentsTable, ({ one }) => ({
+  uploader: one(usersTable, {
+    fields: [attachmentsTable.user_id],
+    references: [usersTable.id],
+  }),
+  message: one(chatMessagesTable, {
+    fields: [attachmentsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+}));
+
+export const messageMentionsRelations = relations(messageMentionsTable, ({ one }) => ({
+  message: one(chatMessagesTable, {
+    fields: [messageMentionsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [messageMentionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const messageRevisionsRelations = relations(messageRevisionsTable, ({ one }) => ({
+  message: one(chatMessagesTable, {
+    fields: [messageRevisionsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+}));
+
+export const messageLinkPreviewsRelations = relations(messageLinkPreviewsTable, ({ one }) => ({
+  message: one(chatMessagesTable, {
+    fields: [messageLinkPreviewsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [notificationsTable.user_id],
+    references: [usersTable.id],
+    relationName: 'notificationRecipient',
+  }),
+  actor: one(usersTable, {
+    fields: [notificationsTable.actor_id],
+    references: [usersTable.id],
+    relationName: 'notificationActor',
+  }),
+  channel: one(chatChannelsTable, {
+    fields: [notificationsTable.channel_id],
+    references: [chatChannelsTable.id],
+  }),
+  message: one(chatMessagesTable, {
+    fields: [notificationsTable.message_id],
+    references: [chatMessagesTable.id],
+  }),
+}));
+
+export const channelBansRelations = relations(channelBansTable, ({ one }) => ({
+  channel: one(chatChannelsTable, {
+    fields: [channelBansTable.channel_id],
+    references: [chatChannelsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [channelBansTable.user_id],
+    references: [usersTable.id],
+    relationName: 'bannedUser',
+  }),
+  bannedBy: one(usersTable, {
+    fields: [channelBansTable.banned_by],
+    references: [usersTable.id],
+    relationName: 'banIssuer',
+  }),
+}));
+
+export const channelInvitesRelations = relations(channelInvitesTable, ({ one }) => ({
+  channel: one(chatChannelsTable, {
+    fields: [channelInvitesTable.channel_id],
+    references: [chatChannelsTable.id],
+  }),
+  creator: one(usersTable, {
+    fields: [channelInvitesTable.created_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEventsTable, ({ one }) => ({
+  channel: one(chatChannelsTable, {
+    fields: [auditEventsTable.channel_id],
+    references: [chatChannelsTable.id],
+  }),
+  actor: one(usersTable, {
+    fields: [auditEventsTable.actor_id],
+    references: [usersTable.id],
+    relationName: 'auditActor',
+  }),
+  targetUser: one(usersTable, {
+    fields: [auditEventsTable.target_user_id],
+    references: [usersTable.id],
+    relationName: 'auditTarget',
+  }),
+}));
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
@@ -112,10 +479,58 @@ export type NewChatMessage = typeof chatMessagesTable.$inferInsert;
 export type ChannelMember = typeof channelMembersTable.$inferSelect;
 export type NewChannelMember = typeof channelMembersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type PresenceConnection = typeof presenceConnectionsTable.$inferSelect;
+export type NewPresenceConnection = typeof presenceConnectionsTable.$inferInsert;
+
+export type MessageReaction = typeof messageReactionsTable.$inferSelect;
+export type NewMessageReaction = typeof messageReactionsTable.$inferInsert;
+
+export type Attachment = typeof attachmentsTable.$inferSelect;
+export type NewAttachment = typeof attachmentsTable.$inferInsert;
+
+export type MessageMention = typeof messageMentionsTable.$inferSelect;
+export type NewMessageMention = typeof messageMentionsTable.$inferInsert;
+
+export type MessageRevision = typeof messageRevisionsTable.$inferSelect;
+export type NewMessageRevision = typeof messageRevisionsTable.$inferInsert;
+
+export type MessageLinkPreview = typeof messageLinkPreviewsTable.$inferSelect;
+export type NewMessageLinkPreview = typeof messageLinkPreviewsTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
+export type ChannelBan = typeof channelBansTable.$inferSelect;
+export type NewChannelBan = typeof channelBansTable.$inferInsert;
+
+export type ChannelInvite = typeof channelInvitesTable.$inferSelect;
+export type NewChannelInvite = typeof channelInvitesTable.$inferInsert;
+
+export type LinkPreview = typeof linkPreviewsTable.$inferSelect;
+export type NewLinkPreview = typeof linkPreviewsTable.$inferInsert;
+
+export type AuditEvent = typeof auditEventsTable.$inferSelect;
+export type NewAuditEvent = typeof auditEventsTable.$inferInsert;
+
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
   chatChannels: chatChannelsTable,
   chatMessages: chatMessagesTable,
   channelMembers: channelMembersTable,
+  sessions: sessionsTable,
+  presenceConnections: presenceConnectionsTable,
+  messageReactions: messageReactionsTable,
+  attachments: attachmentsTable,
+  messageMentions: messageMentionsTable,
+  messageLinkPreviews: messageLinkPreviewsTable,
+  messageRevisions: messageRevisionsTable,
+  notifications: notificationsTable,
+  channelBans: channelBansTable,
+  channelInvites: channelInvitesTable,
+  linkPreviews: linkPreviewsTable,
+  auditEvents: auditEventsTable,
 };
\ No newline at end of file
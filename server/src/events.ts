@@ -0,0 +1,102 @@
+import { EventEmitter, on } from 'events';
+import { db } from './db';
+import { channelMembersTable } from './db/schema';
+import { eq, and } from 'drizzle-orm';
+import { type MessageWithUser, type Notification, type PublicUser, type ReactionEvent, type ReadReceipt, type TypingEvent } from './schema';
+
+// Payloads for every event published on the in-process bus
+export interface ChatEvents {
+  messageCreated: MessageWithUser;
+  messageUpdated: MessageWithUser;
+  messageDeleted: { id: number; channel_id: number };
+  reactionChanged: ReactionEvent;
+  presenceChanged: PublicUser;
+  typing: TypingEvent;
+  readReceipt: ReadReceipt;
+  unreadChanged: { channel_id: number; user_ids: number[] };
+  notificationCreated: { user_id: number; notification: Notification };
+  sessionRevoked: { session_id: number };
+  memberRemoved: { channel_id: number; user_id: number };
+}
+
+// Events that belong to a single channel
+export type ChannelEvent = { [K in keyof ChatEvents]: ChatEvents[K] extends { channel_id: number } ? K : never }[keyof ChatEvents];
+
+const emitter = new EventEmitter();
+// Every open subscription adds a listener, so the default cap of 10 is far too low
+emitter.setMaxListeners(0);
+
+export function publish<K extends keyof ChatEvents>(event: K, payload: ChatEvents[K]): void {
+  emitter.emit(event, payload);
+}
+
+// Starts listening immediately and buffers payloads until they are consumed; call return() to stop
+export function subscribe<K extends keyof ChatEvents>(event: K, signal?: AbortSignal): AsyncIterableIterator<[ChatEvents[K]]> {
+  return on(emitter, event, { signal }) as AsyncIterableIterator<[ChatEvents[K]]>;
+}
+
+// Like subscribe, but also ends, without an error, once the user leaves or is removed from the channel
+export function subscribeAsMember<K extends keyof ChatEvents>(event: K, channelId: number, userId: number, signal?: AbortSignal): AsyncIterableIterator<[ChatEvents[K]]> {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  const onMemberRemoved = (payload: ChatEvents['memberRemoved']) => {
+    if (payload.channel_id === channelId && payload.user_id === userId) {
+      stop();
+    }
+  };
+  signal?.addEventListener('abort', stop, { once: true });
+  emitter.on('memberRemoved', onMemberRemoved);
+  controller.signal.addEventListener('abort', () => {
+    signal?.removeEventListener('abort', stop);
+    emitter.off('memberRemoved', onMemberRemoved);
+  }, { once: true });
+
+  const events = subscribe(event, controller.signal);
+  return {
+    async next() {
+      try {
+        return await events.next();
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return { done: true, value: undefined };
+        }
+        throw error;
+      }
+    },
+    async return() {
+      stop();
+      return await events.return?.() ?? { done: true, value: undefined };
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
+
+// A member's stream of one channel's events. It listens before checking membership, so nothing published during the
+// check is missed, throws for non-members, and ends once the user leaves or is removed.
+export async function* channelEvents<K extends ChannelEvent>(event: K, channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<ChatEvents[K]> {
+  const events = subscribeAsMember(event, channelId, userId, signal);
+  try {
+    const membership = await db.select({ id: channelMembersTable.id })
+      .from(channelMembersTable)
+      .where(and(
+        eq(channelMembersTable.channel_id, channelId),
+        eq(channelMembersTable.user_id, userId)
+      ))
+      .limit(1)
+      .execute();
+
+    if (membership.length === 0) {
+      throw new Error('User does not have access to this channel');
+    }
+
+    for await (const [payload] of events) {
+      if (payload.channel_id === channelId) {
+        yield payload;
+      }
+    }
+  } finally {
+    await events.return?.();
+  }
+}
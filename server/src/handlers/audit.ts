@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { auditEventsTable, channelMembersTable, usersTable } from '../db/schema';
+import { type AuditAction, type AuditDetails, type AuditEvent, type AuditLogPage, type GetAuditLogInput } from '../schema';
+import { eq, and, desc, gte, lt, lte, inArray, SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+// Works with db itself or inside the transaction of the action being recorded
+type Executor = Pick<typeof db, 'insert'>;
+
+export interface AuditEntry {
+  channel_id: number;
+  actor_id: number;
+  action: AuditAction;
+  target_user_id?: number;
+  message_id?: number;
+  details?: AuditDetails;
+}
+
+const targetUsersTable = alias(usersTable, 'target_user');
+
+// Appends to the channel's audit log. There is deliberately no way to edit or remove entries.
+export async function recordAuditEvent(entry: AuditEntry, executor: Executor = db): Promise<void> {
+  await executor.insert(auditEventsTable)
+    .values({
+      channel_id: entry.channel_id,
+      actor_id: entry.actor_id,
+      action: entry.action,
+      target_user_id: entry.target_user_id ?? null,
+      message_id: entry.message_id ?? null,
+      details: entry.details ? JSON.stringify(entry.details) : null
+    })
+    .execute();
+}
+
+// The channel's log, newest first; visible to owners and admins only
+export async function getAuditLog(input: GetAuditLogInput, userId: number): Promise<AuditLogPage> {
+  try {
+    const membership = await db.select({ role: channelMembersTable.role })
+      .from(channelMembersTable)
+      .where(and(
+        eq(channelMembersTable.channel_id, input.channel_id),
+        eq(channelMembersTable.user_id, userId)
+      ))
+      .limit(1)
+      .execute();
+
+    if (membership.length === 0 || membership[0].role === 'member') {
+      throw new Error('Only channel owners and admins can see the audit log');
+    }
+
+    const conditions: SQL<unknown>[] = [eq(auditEventsTable.channel_id, input.channel_id)];
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditEventsTable.actor_id, input.actor_id));
+    }
+    if (input.actions !== undefined) {
+      conditions.push(inArray(auditEventsTable.action, input.actions));
+    }
+    if (input.since !== undefined) {
+      conditions.push(gte(auditEventsTable.created_at, input.since));
+    }
+    if (input.until !== undefined) {
+      conditions.push(lte(auditEventsTable.created_at, input.until));
+    }
+    if (input.before !== undefined) {
+      conditions.push(lt(auditEventsTable.id, input.before));
+    }
+
+    const rows = await db.select({
+      id: auditEventsTable.id,
+      channel_id: auditEventsTable.channel_id,
+      action: auditEventsTable.action,
+      actor: {
+        id: usersTable.id,
+        username: usersTable.username,
+        avatar_url: usersTable.avatar_url
+      },
+      target_user: {
+        id: targetUsersTable.id,
+        username: targetUsersTable.username,
+        avatar_url: targetUsersTable.avatar_url
+      },
+      message_id: auditEventsTable.message_id,
+      details: auditEventsTable.details,
+      created_at: auditEventsTable.created_at
+    })
+      .from(auditEventsTable)
+      .innerJoin(usersTable, eq(auditEventsTable.actor_id, usersTable.id))
+      .leftJoin(targetUsersTable, eq(auditEventsTable.target_user_id, targetUsersTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditEventsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const events: AuditEvent[] = rows.slice(0, input.limit).map(row => ({
+      ...row,
+      details: row.details ? JSON.parse(row.details) : null
+    }));
+    const nextCursor = rows.length > input.limit ? events[events.length - 1].id : null;
+
+    return { events, nextCursor };
+  } catch (error) {
+    console.error('Failed to get audit log:', error);
+    throw error;
+  }
+}
@@ -1,14 +1,41 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type SignupInput, type LoginInput, type AuthResponse, type PublicUser } from '../schema';
-import { eq, or } from 'drizzle-orm';
-import { createHash, randomBytes, pbkdf2Sync } from 'crypto';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type SignupInput, type LoginInput, type RefreshTokenInput, type AuthResponse, type PublicUser } from '../schema';
+import { disconnectSession } from './presence';
+import { publish } from '../events';
+import { eq, or, and, gt, isNull } from 'drizzle-orm';
+import { createHash, createHmac, randomBytes, pbkdf2Sync, timingSafeEqual } from 'crypto';
 
-const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key-here';
+const IS_PRODUCTION = process.env['NODE_ENV'] === 'production';
+// Without a configured secret an ephemeral one is used, never a guessable default; see assertAuthConfigured
+const JWT_SECRET = process.env['JWT_SECRET'] || randomBytes(32).toString('hex');
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 const SALT_LENGTH = 32;
 const ITERATIONS = 10000;
 const KEY_LENGTH = 64;
 
+interface TokenPayload {
+  userId: number;
+  username: string;
+  sessionId: number;
+}
+
+interface VerifiedToken extends TokenPayload {
+  expiresAt: Date;
+}
+
+// Refuse to run a production server whose tokens could be forged with a default key
+function assertAuthConfigured(): void {
+  if (process.env['JWT_SECRET']) {
+    return;
+  }
+  if (IS_PRODUCTION) {
+    throw new Error('JWT_SECRET must be set when NODE_ENV=production');
+  }
+  console.warn('JWT_SECRET is not set: using an ephemeral secret, access tokens will not survive a restart');
+}
+
 // Simple password hashing using PBKDF2
 function hashPassword(password: string): string {
   const salt = randomBytes(SALT_LENGTH).toString('hex');
@@ -22,35 +49,80 @@ function verifyPassword(password: string, hashedPassword: string): boolean {
   return hash === verifyHash;
 }
 
-// Simple JWT-like token creation using HMAC
-function createToken(payload: { userId: number; username: string }): string {
-  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'HS256' })).toString('base64url');
-  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + 24 * 60 * 60 * 1000 })).toString('base64url');
-  const signature = createHash('sha256').update(`${header}.${body}.${JWT_SECRET}`).digest('base64url');
+function sign(data: string): Buffer {
+  return createHmac('sha256', JWT_SECRET).update(data).digest();
+}
+
+// HS256 JWT access token (RFC 7519), exp/iat in seconds
+function createToken(payload: TokenPayload, expiresInSeconds: number = ACCESS_TOKEN_TTL_SECONDS): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify({
+    sub: String(payload.userId),
+    username: payload.username,
+    sid: payload.sessionId,
+    iat: now,
+    exp: now + expiresInSeconds
+  })).toString('base64url');
+  const signature = sign(`${header}.${body}`).toString('base64url');
   return `${header}.${body}.${signature}`;
 }
 
-function verifyToken(token: string): { userId: number; username: string } | null {
+function verifyToken(token: string): VerifiedToken | null {
   try {
-    const [header, body, signature] = token.split('.');
-    const expectedSignature = createHash('sha256').update(`${header}.${body}.${JWT_SECRET}`).digest('base64url');
-    
-    if (signature !== expectedSignature) {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
       return null;
     }
-    
+    const [header, body, signature] = parts;
+
+    const headerData = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (headerData.alg !== 'HS256') {
+      return null;
+    }
+
+    const expectedSignature = sign(`${header}.${body}`);
+    const actualSignature = Buffer.from(signature, 'base64url');
+    if (actualSignature.length !== expectedSignature.length || !timingSafeEqual(actualSignature, expectedSignature)) {
+      return null;
+    }
+
     const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
-    
-    if (payload.exp < Date.now()) {
+
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
       return null;
     }
-    
-    return { userId: payload.userId, username: payload.username };
+
+    return {
+      userId: Number(payload.sub),
+      username: payload.username,
+      sessionId: payload.sid,
+      expiresAt: new Date(payload.exp * 1000)
+    };
   } catch {
     return null;
   }
 }
 
+// Refresh tokens are opaque; only their hash is stored so a database leak does not expose live sessions
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+async function createSession(userId: number): Promise<{ sessionId: number; refreshToken: string }> {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const result = await db.insert(sessionsTable)
+    .values({
+      user_id: userId,
+      refresh_token_hash: hashRefreshToken(refreshToken),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    })
+    .returning()
+    .execute();
+
+  return { sessionId: result[0].id, refreshToken };
+}
+
 export async function signup(input: SignupInput): Promise<AuthResponse> {
   try {
     // Check if username or email already exists
@@ -87,17 +159,20 @@ export async function signup(input: SignupInput): Promise<AuthResponse> {
         username: input.username,
         email: input.email,
         password_hash: passwordHash,
-        is_online: true
+        is_online: true,
+        status: 'online'
       })
       .returning()
       .execute();
 
     const newUser = result[0];
 
-    // Generate token
+    // Open a session and generate tokens
+    const session = await createSession(newUser.id);
     const token = createToken({
       userId: newUser.id,
-      username: newUser.username
+      username: newUser.username,
+      sessionId: session.sessionId
     });
 
     // Return success response with public user data
@@ -109,9 +184,11 @@ export async function signup(input: SignupInput): Promise<AuthResponse> {
         username: newUser.username,
         avatar_url: newUser.avatar_url,
         is_online: newUser.is_online,
+        status: newUser.status,
         last_seen: newUser.last_seen
       },
-      token
+      token,
+      refresh_token: session.refreshToken
     };
   } catch (error) {
     console.error('Signup failed:', error);
@@ -145,10 +222,11 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
       };
     }
 
-    // Update user's online status and last_seen
+    // Show the user as online (unless invisible) until the presence sweep finds no heartbeating client
     const updatedUsers = await db.update(usersTable)
       .set({
-        is_online: true,
+        is_online: user.preferred_status !== 'invisible',
+        status: user.preferred_status === 'invisible' ? 'offline' : user.preferred_status,
         last_seen: new Date(),
         updated_at: new Date()
       })
@@ -158,10 +236,12 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
 
     const updatedUser = updatedUsers[0];
 
-    // Generate token
+    // Open a session and generate tokens
+    const session = await createSession(user.id);
     const token = createToken({
       userId: user.id,
-      username: user.username
+      username: user.username,
+      sessionId: session.sessionId
     });
 
     return {
@@ -172,9 +252,11 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
         username: updatedUser.username,
         avatar_url: updatedUser.avatar_url,
         is_online: updatedUser.is_online,
+        status: updatedUser.status,
         last_seen: updatedUser.last_seen
       },
-      token
+      token,
+      refresh_token: session.refreshToken
     };
   } catch (error) {
     console.error('Login failed:', error);
@@ -182,18 +264,100 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
   }
 }
 
-export async function logout(userId: number): Promise<{ success: boolean; message: string }> {
+export async function refresh(input: RefreshTokenInput): Promise<AuthResponse> {
   try {
-    // Update user's online status to false and set last_seen
-    await db.update(usersTable)
+    // Find a live session for this refresh token
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.refresh_token_hash, hashRefreshToken(input.refresh_token)),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    if (sessions.length === 0) {
+      return {
+        success: false,
+        message: 'Invalid or expired refresh token'
+      };
+    }
+
+    const { sessions: session, users: user } = sessions[0];
+
+    // Rotate the refresh token so a stolen copy stops working after its next use.
+    // Matching the old hash again means only one of two concurrent refreshes with the same token wins.
+    const refreshToken = randomBytes(32).toString('base64url');
+    const rotated = await db.update(sessionsTable)
       .set({
-        is_online: false,
-        last_seen: new Date(),
-        updated_at: new Date()
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        last_used_at: new Date()
       })
-      .where(eq(usersTable.id, userId))
+      .where(and(
+        eq(sessionsTable.id, session.id),
+        eq(sessionsTable.refresh_token_hash, session.refresh_token_hash),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning({ id: sessionsTable.id })
       .execute();
 
+    if (rotated.length === 0) {
+      return {
+        success: false,
+        message: 'Invalid or expired refresh token'
+      };
+    }
+
+    const token = createToken({
+      userId: user.id,
+      username: user.username,
+      sessionId: session.id
+    });
+
+    return {
+      success: true,
+      message: 'Token refreshed',
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar_url: user.avatar_url,
+        is_online: user.is_online,
+        status: user.status,
+        last_seen: user.last_seen
+      },
+      token,
+      refresh_token: refreshToken
+    };
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function logout(userId: number, sessionId: number): Promise<{ success: boolean; message: string }> {
+  try {
+    // Revoke the session so its refresh token can no longer be used
+    const revoked = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    // Open sockets authenticated by this session are closed rather than left running until their token expires
+    if (revoked.length > 0) {
+      publish('sessionRevoked', { session_id: sessionId });
+    }
+
+    // Close this device's presence; the user stays online if other devices are still connected
+    await disconnectSession(sessionId, userId);
+
     return {
       success: true,
       message: 'Logout successful'
@@ -204,6 +368,20 @@ export async function logout(userId: number): Promise<{ success: boolean; messag
   }
 }
 
+// An access token outlives a logout by up to its TTL, so long-lived connections check the session itself
+async function isSessionActive(sessionId: number): Promise<boolean> {
+  const sessions = await db.select({ id: sessionsTable.id })
+    .from(sessionsTable)
+    .where(and(
+      eq(sessionsTable.id, sessionId),
+      isNull(sessionsTable.revoked_at),
+      gt(sessionsTable.expires_at, new Date())
+    ))
+    .limit(1)
+    .execute();
+  return sessions.length > 0;
+}
+
 export async function getCurrentUser(userId: number): Promise<PublicUser | null> {
   try {
     const users = await db.select({
@@ -211,6 +389,7 @@ export async function getCurrentUser(userId: number): Promise<PublicUser | null>
       username: usersTable.username,
       avatar_url: usersTable.avatar_url,
       is_online: usersTable.is_online,
+      status: usersTable.status,
       last_seen: usersTable.last_seen
     })
       .from(usersTable)
@@ -229,4 +408,4 @@ export async function getCurrentUser(userId: number): Promise<PublicUser | null>
 }
 
 // Export utility functions for testing
-export { hashPassword, verifyPassword, createToken, verifyToken };
\ No newline at end of file
+export { assertAuthConfigured, hashPassword, verifyPassword, createToken, verifyToken, isSessionActive };
\ No newline at end of file
@@ -1,7 +1,65 @@
 import { db } from '../db';
-import { chatChannelsTable, channelMembersTable, usersTable } from '../db/schema';
-import { type CreateChannelInput, type ChatChannel, type ChannelWithMembers, type JoinChannelInput, type PublicUser } from '../schema';
-import { eq, and, count, desc, ne, asc, sql, SQL } from 'drizzle-orm';
+import { chatChannelsTable, channelMembersTable, usersTable, chatMessagesTable, messageReactionsTable, messageMentionsTable, messageLinkPreviewsTable, messageRevisionsTable, notificationsTable, attachmentsTable, channelBansTable, channelInvitesTable } from '../db/schema';
+import { type CreateChannelInput, type ChatChannel, type ChannelWithMembers, type UserChannel, type JoinChannelInput, type PublicUser, type ChannelMemberWithUser, type UpdateChannelInput, type ArchiveChannelInput, type ChannelKind, type AuditDetails } from '../schema';
+import { getUnreadCounts } from './read-receipts';
+import { isBanned } from './moderation';
+import { recordAuditEvent } from './audit';
+import { deleteStoredFiles } from './uploads';
+import { publish } from '../events';
+import { eq, and, count, desc, ne, asc, lte, inArray, isNull, sql, SQL } from 'drizzle-orm';
+
+// Works with db itself or inside a transaction
+type Executor = Pick<typeof db, 'select' | 'insert' | 'delete'>;
+
+// DMs and group DMs, as opposed to named channels
+export const DIRECT_CHAT_KINDS: ChannelKind[] = ['dm', 'group_dm'];
+
+// Channel listings show up to this many members of each channel
+const SAMPLE_MEMBER_COUNT = 5;
+
+// Counted per listed channel through the channel_id index; the subquery's channel_members shadows any outer join
+function memberCount() {
+  return sql<number>`(select count(*) from ${channelMembersTable} where ${channelMembersTable.channel_id} = ${chatChannelsTable.id})`.mapWith(Number);
+}
+
+// Members of all the given channels in one query, in the order they joined, with at most `limit` per channel
+export async function getMembersByChannel(channelIds: number[], limit?: number, excludeUserId?: number): Promise<Map<number, PublicUser[]>> {
+  const membersByChannel = new Map<number, PublicUser[]>();
+  if (channelIds.length === 0) {
+    return membersByChannel;
+  }
+
+  const ranked = db.select({
+    channel_id: channelMembersTable.channel_id,
+    id: usersTable.id,
+    username: usersTable.username,
+    avatar_url: usersTable.avatar_url,
+    is_online: usersTable.is_online,
+    status: usersTable.status,
+    last_seen: usersTable.last_seen,
+    position: sql<number>`row_number() over (partition by ${channelMembersTable.channel_id} order by ${channelMembersTable.id})`.as('position')
+  })
+    .from(channelMembersTable)
+    .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
+    .where(and(
+      inArray(channelMembersTable.channel_id, channelIds),
+      excludeUserId === undefined ? undefined : ne(channelMembersTable.user_id, excludeUserId)
+    ))
+    .as('ranked');
+
+  const rows = await db.select()
+    .from(ranked)
+    .where(limit === undefined ? undefined : lte(ranked.position, limit))
+    .orderBy(asc(ranked.channel_id), asc(ranked.position))
+    .execute();
+
+  for (const { channel_id, position: _position, ...member } of rows) {
+    const members = membersByChannel.get(channel_id) ?? [];
+    members.push(member);
+    membersByChannel.set(channel_id, members);
+  }
+  return membersByChannel;
+}
 
 export async function createChannel(input: CreateChannelInput, creatorUserId: number): Promise<ChatChannel> {
   try {
@@ -21,6 +79,7 @@ export async function createChannel(input: CreateChannelInput, creatorUserId: nu
         name: input.name,
         description: input.description || null,
         is_private: input.is_private,
+        kind: input.is_private ? 'private' : 'public',
         created_by: creatorUserId
       })
       .returning()
@@ -37,6 +96,8 @@ export async function createChannel(input: CreateChannelInput, creatorUserId: nu
       })
       .execute();
 
+    await recordAuditEvent({ channel_id: newChannel.id, actor_id: creatorUserId, action: 'channel_created', details: { name: newChannel.name } });
+
     // If private channel and member_user_ids provided, add those members
     if (input.is_private && input.member_user_ids && input.member_user_ids.length > 0) {
       // Verify all member users exist
@@ -65,6 +126,10 @@ export async function createChannel(input: CreateChannelInput, creatorUserId: nu
         await db.insert(channelMembersTable)
           .values(memberInserts)
           .execute();
+
+        for (const userId of validMemberIds) {
+          await recordAuditEvent({ channel_id: newChannel.id, actor_id: creatorUserId, action: 'member_added', target_user_id: userId });
+        }
       }
     }
 
@@ -82,7 +147,10 @@ export async function getPublicChannels(): Promise<ChannelWithMembers[]> {
       id: chatChannelsTable.id,
       name: chatChannelsTable.name,
       description: chatChannelsTable.description,
+      topic: chatChannelsTable.topic,
       is_private: chatChannelsTable.is_private,
+      kind: chatChannelsTable.kind,
+      archived_at: chatChannelsTable.archived_at,
       created_by: chatChannelsTable.created_by,
       created_at: chatChannelsTable.created_at,
       updated_at: chatChannelsTable.updated_at,
@@ -90,12 +158,15 @@ export async function getPublicChannels(): Promise<ChannelWithMembers[]> {
     })
       .from(chatChannelsTable)
       .leftJoin(channelMembersTable, eq(chatChannelsTable.id, channelMembersTable.channel_id))
-      .where(eq(chatChannelsTable.is_private, false))
+      .where(and(eq(chatChannelsTable.kind, 'public'), isNull(chatChannelsTable.archived_at)))
       .groupBy(
         chatChannelsTable.id,
         chatChannelsTable.name,
         chatChannelsTable.description,
+        chatChannelsTable.topic,
         chatChannelsTable.is_private,
+        chatChannelsTable.kind,
+        chatChannelsTable.archived_at,
         chatChannelsTable.created_by,
         chatChannelsTable.created_at,
         chatChannelsTable.updated_at
@@ -103,35 +174,13 @@ export async function getPublicChannels(): Promise<ChannelWithMembers[]> {
       .orderBy(desc(chatChannelsTable.created_at))
       .execute();
 
-    // Get sample members for each channel (up to 5 members)
-    const channelsWithMembers: ChannelWithMembers[] = [];
-    
-    for (const channel of channelsWithCounts) {
-      const members = await db.select({
-        id: usersTable.id,
-        username: usersTable.username,
-        avatar_url: usersTable.avatar_url,
-        is_online: usersTable.is_online,
-        last_seen: usersTable.last_seen
-      })
-        .from(channelMembersTable)
-        .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
-        .where(eq(channelMembersTable.channel_id, channel.id))
-        .limit(5)
-        .execute();
+    const membersByChannel = await getMembersByChannel(channelsWithCounts.map(channel => channel.id), SAMPLE_MEMBER_COUNT);
 
-      channelsWithMembers.push({
-        id: channel.id,
-        name: channel.name,
-        description: channel.description,
-        is_private: channel.is_private,
-        created_by: channel.created_by,
-        created_at: channel.created_at,
-        updated_at: channel.updated_at,
-        members: members as PublicUser[],
-        member_count: Number(channel.member_count)
-      });
-    }
+    const channelsWithMembers: ChannelWithMembers[] = channelsWithCounts.map(channel => ({
+      ...channel,
+      members: membersByChannel.get(channel.id) ?? [],
+      member_count: Number(channel.member_count)
+    }));
 
     return channelsWithMembers;
   } catch (error) {
@@ -140,7 +189,7 @@ export async function getPublicChannels(): Promise<ChannelWithMembers[]> {
   }
 }
 
-export async function getUserChannels(userId: number): Promise<ChannelWithMembers[]> {
+export async function getUserChannels(userId: number): Promise<UserChannel[]> {
   try {
     // Verify user exists
     const user = await db.select()
@@ -152,15 +201,21 @@ export async function getUserChannels(userId: number): Promise<ChannelWithMember
       throw new Error('User not found');
     }
 
-    // Get channels where user is a member
+    // Get channels where user is a member, each with its member count
     const userChannels = await db.select({
       id: chatChannelsTable.id,
       name: chatChannelsTable.name,
       description: chatChannelsTable.description,
+      topic: chatChannelsTable.topic,
       is_private: chatChannelsTable.is_private,
+      kind: chatChannelsTable.kind,
+      archived_at: chatChannelsTable.archived_at,
       created_by: chatChannelsTable.created_by,
       created_at: chatChannelsTable.created_at,
-      updated_at: chatChannelsTable.updated_at
+      updated_at: chatChannelsTable.updated_at,
+      role: channelMembersTable.role,
+      last_read_message_id: channelMembersTable.last_read_message_id,
+      member_count: memberCount()
     })
       .from(chatChannelsTable)
       .innerJoin(channelMembersTable, eq(chatChannelsTable.id, channelMembersTable.channel_id))
@@ -168,51 +223,16 @@ export async function getUserChannels(userId: number): Promise<ChannelWithMember
       .orderBy(desc(chatChannelsTable.updated_at))
       .execute();
 
-    // Get member counts for each channel
-    const channelsWithCounts = [];
-    for (const channel of userChannels) {
-      const memberCountResult = await db.select({
-        count: count(channelMembersTable.id)
-      })
-        .from(channelMembersTable)
-        .where(eq(channelMembersTable.channel_id, channel.id))
-        .execute();
+    const channelIds = userChannels.map(channel => channel.id);
+    const unreadCounts = await getUnreadCounts(userId, channelIds);
+    const membersByChannel = await getMembersByChannel(channelIds, SAMPLE_MEMBER_COUNT);
 
-      channelsWithCounts.push({
-        ...channel,
-        member_count: Number(memberCountResult[0].count)
-      });
-    }
-
-    // Get sample members for each channel
-    const channelsWithMembers: ChannelWithMembers[] = [];
-    
-    for (const channel of channelsWithCounts) {
-      const members = await db.select({
-        id: usersTable.id,
-        username: usersTable.username,
-        avatar_url: usersTable.avatar_url,
-        is_online: usersTable.is_online,
-        last_seen: usersTable.last_seen
-      })
-        .from(channelMembersTable)
-        .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
-        .where(eq(channelMembersTable.channel_id, channel.id))
-        .limit(5)
-        .execute();
-
-      channelsWithMembers.push({
-        id: channel.id,
-        name: channel.name,
-        description: channel.description,
-        is_private: channel.is_private,
-        created_by: channel.created_by,
-        created_at: channel.created_at,
-        updated_at: channel.updated_at,
-        members: members as PublicUser[],
-        member_count: Number(channel.member_count)
-      });
-    }
+    const channelsWithMembers: UserChannel[] = userChannels.map(channel => ({
+      ...channel,
+      members: membersByChannel.get(channel.id) ?? [],
+      unread_count: unreadCounts.get(channel.id)?.unread_count ?? 0,
+      mention_count: unreadCounts.get(channel.id)?.mention_count ?? 0
+    }));
 
     return channelsWithMembers;
   } catch (error) {
@@ -246,38 +266,47 @@ export async function joinChannel(input: JoinChannelInput, userId: number): Prom
       };
     }
 
-    if (channel[0].is_private) {
+    if (channel[0].kind !== 'public') {
       return {
         success: false,
         message: 'Cannot join private channel without invitation'
       };
     }
 
-    // Check if user is already a member
-    const existingMembership = await db.select()
-      .from(channelMembersTable)
-      .where(and(
-        eq(channelMembersTable.channel_id, input.channel_id),
-        eq(channelMembersTable.user_id, userId)
-      ))
-      .execute();
+    if (channel[0].archived_at) {
+      return {
+        success: false,
+        message: 'Cannot join an archived channel'
+      };
+    }
 
-    if (existingMembership.length > 0) {
+    if (await isBanned(input.channel_id, userId)) {
       return {
         success: false,
-        message: 'Already a member of this channel'
+        message: 'You are banned from this channel'
       };
     }
 
-    // Add user to channel
-    await db.insert(channelMembersTable)
+    // Add user to channel; a membership that already exists, even one created concurrently, inserts nothing
+    const inserted = await db.insert(channelMembersTable)
       .values({
         channel_id: input.channel_id,
         user_id: userId,
         role: 'member'
       })
+      .onConflictDoNothing()
+      .returning({ id: channelMembersTable.id })
       .execute();
 
+    if (inserted.length === 0) {
+      return {
+        success: false,
+        message: 'Already a member of this channel'
+      };
+    }
+
+    await recordAuditEvent({ channel_id: input.channel_id, actor_id: userId, action: 'member_joined' });
+
     return {
       success: true,
       message: 'Successfully joined channel'
@@ -308,33 +337,49 @@ export async function leaveChannel(channelId: number, userId: number): Promise<{
 
     const userRole = membership[0].role;
 
-    // If user is the owner, check if there are other members
+    const allMembers = await db.select()
+      .from(channelMembersTable)
+      .where(eq(channelMembersTable.channel_id, channelId))
+      .execute();
+
+    // The last member to leave takes the channel with them
+    if (allMembers.length === 1) {
+      const purged = await db.transaction(tx => purgeChannel(tx, channelId, userId));
+      await deleteStoredFiles(purged.attachments);
+      publish('memberRemoved', { channel_id: channelId, user_id: userId });
+
+      return {
+        success: true,
+        message: 'Successfully left channel'
+      };
+    }
+
+    // Transfer ownership to the oldest admin, or oldest member if no admins
     if (userRole === 'owner') {
-      const allMembers = await db.select()
+      const nextOwner = await db.select()
         .from(channelMembersTable)
-        .where(eq(channelMembersTable.channel_id, channelId))
+        .where(and(
+          eq(channelMembersTable.channel_id, channelId),
+          ne(channelMembersTable.user_id, userId)
+        ))
+        .orderBy(channelMembersTable.role, channelMembersTable.joined_at)
+        .limit(1)
         .execute();
 
-      if (allMembers.length > 1) {
-        // Transfer ownership to the oldest admin, or oldest member if no admins
-        const nextOwner = await db.select()
-          .from(channelMembersTable)
-          .where(and(
-            eq(channelMembersTable.channel_id, channelId),
-            ne(channelMembersTable.user_id, userId)
-          ))
-          .orderBy(channelMembersTable.role, channelMembersTable.joined_at)
-          .limit(1)
+      if (nextOwner.length > 0) {
+        await db.update(channelMembersTable)
+          .set({ role: 'owner' })
+          .where(eq(channelMembersTable.id, nextOwner[0].id))
           .execute();
 
-        if (nextOwner.length > 0) {
-          await db.update(channelMembersTable)
-            .set({ role: 'owner' })
-            .where(eq(channelMembersTable.id, nextOwner[0].id))
-            .execute();
-        }
+        await recordAuditEvent({
+          channel_id: channelId,
+          actor_id: userId,
+          action: 'role_changed',
+          target_user_id: nextOwner[0].user_id,
+          details: { from: nextOwner[0].role, to: 'owner' }
+        });
       }
-      // If owner is the only member, the channel will effectively become inaccessible
     }
 
     // Remove user from channel
@@ -345,6 +390,9 @@ export async function leaveChannel(channelId: number, userId: number): Promise<{
       ))
       .execute();
 
+    await recordAuditEvent({ channel_id: channelId, actor_id: userId, action: 'member_left' });
+    publish('memberRemoved', { channel_id: channelId, user_id: userId });
+
     return {
       success: true,
       message: 'Successfully left channel'
@@ -355,7 +403,7 @@ export async function leaveChannel(channelId: number, userId: number): Promise<{
   }
 }
 
-export async function getChannelMembers(channelId: number, userId: number): Promise<{ id: number; username: string; avatar_url: string | null; is_online: boolean; role: string }[]> {
+export async function getChannelMembers(channelId: number, userId: number): Promise<ChannelMemberWithUser[]> {
   try {
     // Verify user has access to the channel (must be a member)
     const userMembership = await db.select()
@@ -376,7 +424,9 @@ export async function getChannelMembers(channelId: number, userId: number): Prom
       username: usersTable.username,
       avatar_url: usersTable.avatar_url,
       is_online: usersTable.is_online,
-      role: channelMembersTable.role
+      status: usersTable.status,
+      role: channelMembersTable.role,
+      muted_until: channelMembersTable.muted_until
     })
       .from(channelMembersTable)
       .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
@@ -388,9 +438,233 @@ export async function getChannelMembers(channelId: number, userId: number): Prom
       )
       .execute();
 
-    return members;
+    // Expired mutes are left in place and just no longer shown
+    const now = new Date();
+    return members.map(member => ({
+      ...member,
+      muted_until: member.muted_until && member.muted_until > now ? member.muted_until : null
+    }));
   } catch (error) {
     console.error('Failed to get channel members:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Throws unless the channel exists and is not archived; archived channels are read-only
+export async function assertChannelWritable(channelId: number): Promise<void> {
+  const channels = await db.select({ archived_at: chatChannelsTable.archived_at })
+    .from(chatChannelsTable)
+    .where(eq(chatChannelsTable.id, channelId))
+    .limit(1)
+    .execute();
+
+  if (channels.length === 0) {
+    throw new Error('Channel not found');
+  }
+  if (channels[0].archived_at) {
+    throw new Error('This channel is archived and read-only');
+  }
+}
+
+export async function getChannelKind(channelId: number): Promise<ChannelKind> {
+  const channels = await db.select({ kind: chatChannelsTable.kind })
+    .from(chatChannelsTable)
+    .where(eq(chatChannelsTable.id, channelId))
+    .limit(1)
+    .execute();
+
+  if (channels.length === 0) {
+    throw new Error('Channel not found');
+  }
+  return channels[0].kind;
+}
+
+export async function getMemberRole(channelId: number, userId: number) {
+  const membership = await db.select({ role: channelMembersTable.role })
+    .from(channelMembersTable)
+    .where(and(
+      eq(channelMembersTable.channel_id, channelId),
+      eq(channelMembersTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  if (membership.length === 0) {
+    throw new Error('User does not have access to this channel');
+  }
+  return membership[0].role;
+}
+
+// Owners and admins edit the name, description and topic; only the owner changes visibility
+export async function updateChannel(input: UpdateChannelInput, userId: number): Promise<ChatChannel> {
+  try {
+    const role = await getMemberRole(input.channel_id, userId);
+    if (role === 'member') {
+      throw new Error('Only channel owners and admins can edit channel settings');
+    }
+    if (input.is_private !== undefined && role !== 'owner') {
+      throw new Error('Only the channel owner can change channel visibility');
+    }
+    await assertChannelWritable(input.channel_id);
+
+    let kind: ChannelKind | undefined;
+    if (input.is_private !== undefined) {
+      if (DIRECT_CHAT_KINDS.includes(await getChannelKind(input.channel_id))) {
+        throw new Error('Direct messages are always private');
+      }
+      kind = input.is_private ? 'private' : 'public';
+    }
+
+    const previous = await db.select()
+      .from(chatChannelsTable)
+      .where(eq(chatChannelsTable.id, input.channel_id))
+      .limit(1)
+      .execute();
+
+    const result = await db.update(chatChannelsTable)
+      .set({
+        name: input.name,
+        description: input.description,
+        topic: input.topic,
+        is_private: input.is_private,
+        kind,
+        updated_at: new Date()
+      })
+      .where(eq(chatChannelsTable.id, input.channel_id))
+      .returning()
+      .execute();
+
+    await recordChannelChanges(previous[0], result[0], userId);
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to update channel:', error);
+    throw error;
+  }
+}
+
+// Renames get their own entry; the other settings that changed are recorded together with their new values
+async function recordChannelChanges(before: ChatChannel, after: ChatChannel, userId: number): Promise<void> {
+  if (before.name !== after.name) {
+    await recordAuditEvent({ channel_id: after.id, actor_id: userId, action: 'channel_renamed', details: { from: before.name, to: after.name } });
+  }
+
+  const changes: AuditDetails = {};
+  if (before.description !== after.description) {
+    changes['description'] = after.description;
+  }
+  if (before.topic !== after.topic) {
+    changes['topic'] = after.topic;
+  }
+  if (before.is_private !== after.is_private) {
+    changes['is_private'] = after.is_private;
+  }
+  if (Object.keys(changes).length > 0) {
+    await recordAuditEvent({ channel_id: after.id, actor_id: userId, action: 'channel_updated', details: changes });
+  }
+}
+
+// Archiving hides a public channel from the directory and makes it read-only; members can still read it
+export async function archiveChannel(input: ArchiveChannelInput, userId: number): Promise<ChatChannel> {
+  try {
+    const role = await getMemberRole(input.channel_id, userId);
+    if (role !== 'owner') {
+      throw new Error('Only the channel owner can archive the channel');
+    }
+
+    const result = await db.update(chatChannelsTable)
+      .set({ archived_at: input.archived ? new Date() : null, updated_at: new Date() })
+      .where(eq(chatChannelsTable.id, input.channel_id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({ channel_id: input.channel_id, actor_id: userId, action: input.archived ? 'channel_archived' : 'channel_unarchived' });
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to archive channel:', error);
+    throw error;
+  }
+}
+
+export async function deleteChannel(channelId: number, userId: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const role = await getMemberRole(channelId, userId);
+    if (role !== 'owner') {
+      throw new Error('Only the channel owner can delete the channel');
+    }
+
+    const purged = await db.transaction(tx => purgeChannel(tx, channelId, userId));
+    await deleteStoredFiles(purged.attachments);
+    for (const memberId of purged.memberIds) {
+      publish('memberRemoved', { channel_id: channelId, user_id: memberId });
+    }
+
+    return {
+      success: true,
+      message: 'Channel deleted successfully'
+    };
+  } catch (error) {
+    console.error('Failed to delete channel:', error);
+    throw error;
+  }
+}
+
+// Deletes the channel and every row that belongs to it except its audit log, which records the deletion.
+// Returns the attachments whose files should go too and the members who were in it.
+async function purgeChannel(executor: Executor, channelId: number, userId: number) {
+  const channelMessages = executor.select({ id: chatMessagesTable.id })
+    .from(chatMessagesTable)
+    .where(eq(chatMessagesTable.channel_id, channelId));
+
+  await executor.delete(messageReactionsTable)
+    .where(inArray(messageReactionsTable.message_id, channelMessages))
+    .execute();
+
+  await executor.delete(messageMentionsTable)
+    .where(inArray(messageMentionsTable.message_id, channelMessages))
+    .execute();
+
+  await executor.delete(messageLinkPreviewsTable)
+    .where(inArray(messageLinkPreviewsTable.message_id, channelMessages))
+    .execute();
+
+  await executor.delete(messageRevisionsTable)
+    .where(inArray(messageRevisionsTable.message_id, channelMessages))
+    .execute();
+
+  await executor.delete(notificationsTable)
+    .where(eq(notificationsTable.channel_id, channelId))
+    .execute();
+
+  const attachments = await executor.delete(attachmentsTable)
+    .where(inArray(attachmentsTable.message_id, channelMessages))
+    .returning({ storage_key: attachmentsTable.storage_key, thumbnail_key: attachmentsTable.thumbnail_key })
+    .execute();
+
+  await executor.delete(chatMessagesTable)
+    .where(eq(chatMessagesTable.channel_id, channelId))
+    .execute();
+
+  await executor.delete(channelBansTable)
+    .where(eq(channelBansTable.channel_id, channelId))
+    .execute();
+
+  await executor.delete(channelInvitesTable)
+    .where(eq(channelInvitesTable.channel_id, channelId))
+    .execute();
+
+  const members = await executor.delete(channelMembersTable)
+    .where(eq(channelMembersTable.channel_id, channelId))
+    .returning({ user_id: channelMembersTable.user_id })
+    .execute();
+
+  const channels = await executor.delete(chatChannelsTable)
+    .where(eq(chatChannelsTable.id, channelId))
+    .returning({ name: chatChannelsTable.name })
+    .execute();
+
+  await recordAuditEvent({ channel_id: channelId, actor_id: userId, action: 'channel_deleted', details: { name: channels[0].name } }, executor);
+
+  return { attachments, memberIds: members.map(member => member.user_id) };
+}
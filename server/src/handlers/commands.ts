@@ -0,0 +1,315 @@
+import { db } from '../db';
+import { chatChannelsTable, channelMembersTable, usersTable } from '../db/schema';
+import { signupInputSchema, updateChannelInputSchema, type CommandInfo, type CommandResult, type ExecuteCommandInput } from '../schema';
+import { joinChannel, leaveChannel, updateChannel } from './channels';
+import { removeChannelMember } from './moderation';
+import { createPrivateChat, addUserToPrivateChat } from './private-chat';
+import { updateUserProfile, updateUserStatus } from './users';
+import { sendMessage } from './messages';
+import { eq, and, ne, asc, sql } from 'drizzle-orm';
+
+interface CommandArgument {
+  name: string;
+  optional?: boolean;
+  rest?: boolean; // Takes the remainder of the line, spaces included; only valid last
+}
+
+type CommandArguments = Record<string, string | undefined>;
+
+interface CommandContext {
+  userId: number;
+  channelId: number; // Where the command was typed
+}
+
+interface Command {
+  name: string;
+  description: string;
+  arguments: CommandArgument[];
+  run(args: CommandArguments, context: CommandContext): Promise<CommandResult>;
+}
+
+function result(feedback: string | null, changes: Partial<CommandResult> = {}): CommandResult {
+  return { feedback, open_channel_id: null, left_channel_id: null, user: null, ...changes };
+}
+
+function usage(command: Command): string {
+  const args = command.arguments.map(arg => arg.optional ? `[${arg.name}]` : `<${arg.name}>`);
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+// Handlers that report failure as { success: false } end the command with their message
+function assertSucceeded(outcome: { success: boolean; message: string }): void {
+  if (!outcome.success) {
+    throw new Error(outcome.message);
+  }
+}
+
+async function findUserByName(name: string): Promise<{ id: number; username: string }> {
+  const username = name.replace(/^@/, '');
+  const users = await db.select({ id: usersTable.id, username: usersTable.username })
+    .from(usersTable)
+    .where(eq(usersTable.username, username))
+    .limit(1)
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`No user named ${username}`);
+  }
+  return users[0];
+}
+
+async function findChannel(channelId: number) {
+  const channels = await db.select()
+    .from(chatChannelsTable)
+    .where(eq(chatChannelsTable.id, channelId))
+    .limit(1)
+    .execute();
+
+  if (channels.length === 0) {
+    throw new Error('Channel not found');
+  }
+  return channels[0];
+}
+
+const commands: Command[] = [
+  {
+    name: 'join',
+    description: 'Join a public channel and switch to it',
+    arguments: [{ name: '#channel' }],
+    async run(args, { userId }) {
+      const name = args['#channel']!.replace(/^#/, '');
+      // Names are not unique; the oldest channel keeps the name
+      const channels = await db.select({ id: chatChannelsTable.id, name: chatChannelsTable.name })
+        .from(chatChannelsTable)
+        .where(and(
+          eq(chatChannelsTable.kind, 'public'),
+          sql`lower(${chatChannelsTable.name}) = lower(${name})`
+        ))
+        .orderBy(asc(chatChannelsTable.id))
+        .limit(1)
+        .execute();
+
+      if (channels.length === 0) {
+        throw new Error(`No public channel named #${name}`);
+      }
+
+      const channel = channels[0];
+      const membership = await db.select({ id: channelMembersTable.id })
+        .from(channelMembersTable)
+        .where(and(
+          eq(channelMembersTable.channel_id, channel.id),
+          eq(channelMembersTable.user_id, userId)
+        ))
+        .limit(1)
+        .execute();
+
+      if (membership.length > 0) {
+        return result(null, { open_channel_id: channel.id });
+      }
+
+      assertSucceeded(await joinChannel({ channel_id: channel.id }, userId));
+      return result(`Joined #${channel.name}`, { open_channel_id: channel.id });
+    }
+  },
+  {
+    name: 'leave',
+    description: 'Leave the current channel',
+    arguments: [],
+    async run(_args, { userId, channelId }) {
+      assertSucceeded(await leaveChannel(channelId, userId));
+      return result('Left the channel', { left_channel_id: channelId });
+    }
+  },
+  {
+    name: 'me',
+    description: 'Describe what you are doing, e.g. /me waves',
+    arguments: [{ name: 'action', rest: true }],
+    async run(args, { userId, channelId }) {
+      await sendMessage({ channel_id: channelId, content: args['action']!, message_type: 'action' }, userId);
+      return result(null);
+    }
+  },
+  {
+    name: 'msg',
+    description: 'Send a direct message to a user',
+    arguments: [{ name: 'user' }, { name: 'text', rest: true }],
+    async run(args, { userId }) {
+      const target = await findUserByName(args['user']!);
+      if (target.id === userId) {
+        throw new Error('You cannot message yourself');
+      }
+      const chat = await createPrivateChat(userId, target.id);
+      await sendMessage({ channel_id: chat.id, content: args['text']!, message_type: 'text' }, userId);
+      return result(null, { open_channel_id: chat.id });
+    }
+  },
+  {
+    name: 'topic',
+    description: 'Show the channel topic, or set it as an owner or admin',
+    arguments: [{ name: 'topic', optional: true, rest: true }],
+    async run(args, { userId, channelId }) {
+      const topic = args['topic'];
+      if (topic === undefined) {
+        const membership = await db.select({ id: channelMembersTable.id })
+          .from(channelMembersTable)
+          .where(and(
+            eq(channelMembersTable.channel_id, channelId),
+            eq(channelMembersTable.user_id, userId)
+          ))
+          .limit(1)
+          .execute();
+
+        if (membership.length === 0) {
+          throw new Error('User does not have access to this channel');
+        }
+        const channel = await findChannel(channelId);
+        return result(channel.topic ? `Topic: ${channel.topic}` : 'No topic is set');
+      }
+
+      if (!updateChannelInputSchema.shape.topic.safeParse(topic).success) {
+        throw new Error('Topics must be at most 250 characters long');
+      }
+      await updateChannel({ channel_id: channelId, topic }, userId);
+      return result(`Topic set to: ${topic}`);
+    }
+  },
+  {
+    name: 'nick',
+    description: 'Change your username',
+    arguments: [{ name: 'name' }],
+    async run(args, { userId }) {
+      const parsed = signupInputSchema.shape.username.safeParse(args['name']);
+      if (!parsed.success) {
+        throw new Error('Usernames must be 3 to 30 characters long');
+      }
+
+      const taken = await db.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(and(eq(usersTable.username, parsed.data), ne(usersTable.id, userId)))
+        .limit(1)
+        .execute();
+
+      if (taken.length > 0) {
+        throw new Error(`${parsed.data} is already taken`);
+      }
+
+      const user = await updateUserProfile(userId, { username: parsed.data });
+      return result(`You are now known as ${user.username}`, { user });
+    }
+  },
+  {
+    name: 'away',
+    description: 'Mark yourself away, or back when you already are',
+    arguments: [],
+    async run(_args, { userId }) {
+      const current = await db.select({ preferred_status: usersTable.preferred_status })
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .limit(1)
+        .execute();
+
+      const away = current[0]?.preferred_status !== 'away';
+      const { user } = await updateUserStatus({ status: away ? 'away' : 'online' }, userId);
+      return result(away ? 'You are marked as away' : 'You are no longer away', { user });
+    }
+  },
+  {
+    name: 'invite',
+    description: 'Add a user to the current private conversation',
+    arguments: [{ name: 'user' }],
+    async run(args, { userId, channelId }) {
+      const channel = await findChannel(channelId);
+      if (channel.kind === 'public') {
+        throw new Error(`#${channel.name} is public; anyone can /join it`);
+      }
+      const target = await findUserByName(args['user']!);
+      const outcome = await addUserToPrivateChat(channelId, userId, target.id);
+      assertSucceeded(outcome);
+      // Inviting into a 1:1 DM moves everyone to a new group DM
+      if (outcome.channel_id !== undefined && outcome.channel_id !== channelId) {
+        return result(`Started a group DM with ${target.username}`, { open_channel_id: outcome.channel_id });
+      }
+      return result(`Added ${target.username} to the conversation`);
+    }
+  },
+  {
+    name: 'kick',
+    description: 'Remove a member from the current channel',
+    arguments: [{ name: 'user' }],
+    async run(args, { userId, channelId }) {
+      const target = await findUserByName(args['user']!);
+      assertSucceeded(await removeChannelMember(channelId, userId, target.id));
+      return result(`Removed ${target.username} from the channel`);
+    }
+  },
+  {
+    name: 'help',
+    description: 'List commands, or explain one',
+    arguments: [{ name: 'command', optional: true }],
+    async run(args) {
+      const name = args['command']?.replace(/^\//, '');
+      if (name !== undefined) {
+        const command = findCommand(name);
+        return result(`${usage(command)} - ${command.description}`);
+      }
+      return result(commands.map(command => `${usage(command)} - ${command.description}`).join('\n'));
+    }
+  }
+];
+
+function findCommand(name: string): Command {
+  const command = commands.find(candidate => candidate.name === name.toLowerCase());
+  if (!command) {
+    throw new Error(`Unknown command /${name}. Type /help for a list of commands`);
+  }
+  return command;
+}
+
+// Splits the line after the command name into its declared arguments
+function parseArguments(command: Command, line: string): CommandArguments {
+  const args: CommandArguments = {};
+  let remaining = line.trim();
+
+  for (const argument of command.arguments) {
+    if (remaining === '') {
+      if (!argument.optional) {
+        throw new Error(`Usage: ${usage(command)}`);
+      }
+      continue;
+    }
+    if (argument.rest) {
+      args[argument.name] = remaining;
+      remaining = '';
+      continue;
+    }
+    const [word] = remaining.split(/\s/, 1);
+    args[argument.name] = word;
+    remaining = remaining.slice(word.length).trim();
+  }
+
+  if (remaining !== '') {
+    throw new Error(`Usage: ${usage(command)}`);
+  }
+  return args;
+}
+
+// For autocomplete in the message input
+export function listCommands(): CommandInfo[] {
+  return commands.map(command => ({ name: command.name, usage: usage(command), description: command.description }));
+}
+
+export async function executeCommand(input: ExecuteCommandInput, userId: number): Promise<CommandResult> {
+  try {
+    const match = input.text.match(/^\/(\S+)(.*)$/s);
+    if (!match) {
+      throw new Error('Commands start with / followed by a name. Type /help for a list of commands');
+    }
+
+    const command = findCommand(match[1]);
+    const args = parseArguments(command, match[2]);
+    return await command.run(args, { userId, channelId: input.channel_id });
+  } catch (error) {
+    console.error('Command failed:', error);
+    throw error;
+  }
+}
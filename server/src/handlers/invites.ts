@@ -0,0 +1,259 @@
+import { randomBytes } from 'node:crypto';
+import { db } from '../db';
+import { channelInvitesTable, chatChannelsTable, channelMembersTable, usersTable } from '../db/schema';
+import { type CreateInviteInput, type InviteCodeInput, type ChannelInvite, type InvitePreview, type ChatChannel } from '../schema';
+import { assertChannelWritable, getMemberRole, getChannelKind, DIRECT_CHAT_KINDS } from './channels';
+import { isBanned } from './moderation';
+import { recordAuditEvent } from './audit';
+import { eq, and, or, gt, lt, isNull, count, desc, sql } from 'drizzle-orm';
+
+// One message for every unusable code, so guessing codes tells nothing about which ones existed
+const INVALID_INVITE = 'This invite is invalid or has expired';
+
+// 72 random bits, URL-safe
+function generateCode(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+// Not revoked, not expired and not used up
+function usableInviteCondition() {
+  return and(
+    isNull(channelInvitesTable.revoked_at),
+    or(isNull(channelInvitesTable.expires_at), gt(channelInvitesTable.expires_at, new Date())),
+    or(isNull(channelInvitesTable.max_uses), lt(channelInvitesTable.use_count, channelInvitesTable.max_uses))
+  );
+}
+
+const inviteColumns = {
+  code: channelInvitesTable.code,
+  channel_id: channelInvitesTable.channel_id,
+  creator_id: usersTable.id,
+  creator_username: usersTable.username,
+  max_uses: channelInvitesTable.max_uses,
+  use_count: channelInvitesTable.use_count,
+  expires_at: channelInvitesTable.expires_at,
+  created_at: channelInvitesTable.created_at
+};
+
+interface InviteRow extends Omit<ChannelInvite, 'creator'> {
+  creator_id: number;
+  creator_username: string;
+}
+
+function toChannelInvite({ creator_id, creator_username, ...invite }: InviteRow): ChannelInvite {
+  return { ...invite, creator: { id: creator_id, username: creator_username } };
+}
+
+async function assertCanManageInvites(channelId: number, userId: number): Promise<void> {
+  const role = await getMemberRole(channelId, userId);
+  if (role === 'member') {
+    throw new Error('Only channel owners and admins can manage invites');
+  }
+}
+
+async function findUsableInvite(code: string) {
+  const invites = await db.select({
+    id: channelInvitesTable.id,
+    code: channelInvitesTable.code,
+    expires_at: channelInvitesTable.expires_at,
+    inviter: usersTable.username,
+    channel: chatChannelsTable
+  })
+    .from(channelInvitesTable)
+    .innerJoin(chatChannelsTable, eq(channelInvitesTable.channel_id, chatChannelsTable.id))
+    .innerJoin(usersTable, eq(channelInvitesTable.created_by, usersTable.id))
+    .where(and(eq(channelInvitesTable.code, code), usableInviteCondition()))
+    .limit(1)
+    .execute();
+
+  if (invites.length === 0 || invites[0].channel.archived_at) {
+    throw new Error(INVALID_INVITE);
+  }
+  return invites[0];
+}
+
+async function isMember(channelId: number, userId: number): Promise<boolean> {
+  const membership = await db.select({ id: channelMembersTable.id })
+    .from(channelMembersTable)
+    .where(and(
+      eq(channelMembersTable.channel_id, channelId),
+      eq(channelMembersTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  return membership.length > 0;
+}
+
+export async function createInvite(input: CreateInviteInput, userId: number): Promise<ChannelInvite> {
+  try {
+    await assertCanManageInvites(input.channel_id, userId);
+    await assertChannelWritable(input.channel_id);
+    if (DIRECT_CHAT_KINDS.includes(await getChannelKind(input.channel_id))) {
+      throw new Error('Direct messages cannot have invite links');
+    }
+
+    const inserted = await db.insert(channelInvitesTable)
+      .values({
+        code: generateCode(),
+        channel_id: input.channel_id,
+        created_by: userId,
+        max_uses: input.max_uses ?? null,
+        expires_at: input.expires_in_minutes === undefined
+          ? null
+          : new Date(Date.now() + input.expires_in_minutes * 60 * 1000)
+      })
+      .returning({ id: channelInvitesTable.id, code: channelInvitesTable.code })
+      .execute();
+
+    await recordAuditEvent({
+      channel_id: input.channel_id,
+      actor_id: userId,
+      action: 'invite_created',
+      details: { code: inserted[0].code, max_uses: input.max_uses ?? null, expires_in_minutes: input.expires_in_minutes ?? null }
+    });
+
+    const invites = await db.select(inviteColumns)
+      .from(channelInvitesTable)
+      .innerJoin(usersTable, eq(channelInvitesTable.created_by, usersTable.id))
+      .where(eq(channelInvitesTable.id, inserted[0].id))
+      .execute();
+
+    return toChannelInvite(invites[0]);
+  } catch (error) {
+    console.error('Invite creation failed:', error);
+    throw error;
+  }
+}
+
+// Invites that can still be used, newest first
+export async function listInvites(channelId: number, userId: number): Promise<ChannelInvite[]> {
+  try {
+    await assertCanManageInvites(channelId, userId);
+
+    const invites = await db.select(inviteColumns)
+      .from(channelInvitesTable)
+      .innerJoin(usersTable, eq(channelInvitesTable.created_by, usersTable.id))
+      .where(and(eq(channelInvitesTable.channel_id, channelId), usableInviteCondition()))
+      .orderBy(desc(channelInvitesTable.created_at), desc(channelInvitesTable.id))
+      .execute();
+
+    return invites.map(toChannelInvite);
+  } catch (error) {
+    console.error('Failed to list invites:', error);
+    throw error;
+  }
+}
+
+// The creator of an invite, and the channel's owners and admins, can revoke it
+export async function revokeInvite(input: InviteCodeInput, userId: number): Promise<{ success: boolean; message: string }> {
+  try {
+    const invites = await db.select()
+      .from(channelInvitesTable)
+      .where(and(eq(channelInvitesTable.code, input.code), isNull(channelInvitesTable.revoked_at)))
+      .limit(1)
+      .execute();
+
+    if (invites.length === 0) {
+      throw new Error('Invite not found');
+    }
+
+    const invite = invites[0];
+    if (invite.created_by !== userId) {
+      await assertCanManageInvites(invite.channel_id, userId);
+    }
+
+    await db.update(channelInvitesTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(channelInvitesTable.id, invite.id))
+      .execute();
+
+    await recordAuditEvent({ channel_id: invite.channel_id, actor_id: userId, action: 'invite_revoked', details: { code: invite.code } });
+
+    return {
+      success: true,
+      message: 'Invite revoked'
+    };
+  } catch (error) {
+    console.error('Invite revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function getInvitePreview(input: InviteCodeInput, userId: number): Promise<InvitePreview> {
+  try {
+    const invite = await findUsableInvite(input.code);
+
+    const memberCount = await db.select({ count: count(channelMembersTable.id) })
+      .from(channelMembersTable)
+      .where(eq(channelMembersTable.channel_id, invite.channel.id))
+      .execute();
+
+    return {
+      code: invite.code,
+      channel: {
+        id: invite.channel.id,
+        name: invite.channel.name,
+        description: invite.channel.description,
+        topic: invite.channel.topic,
+        is_private: invite.channel.is_private,
+        member_count: Number(memberCount[0].count)
+      },
+      inviter: invite.inviter,
+      expires_at: invite.expires_at,
+      is_member: await isMember(invite.channel.id, userId)
+    };
+  } catch (error) {
+    console.error('Failed to preview invite:', error);
+    throw error;
+  }
+}
+
+// Joins the invite's channel; members who accept again are not counted as another use
+export async function acceptInvite(input: InviteCodeInput, userId: number): Promise<ChatChannel> {
+  try {
+    const invite = await findUsableInvite(input.code);
+
+    if (await isMember(invite.channel.id, userId)) {
+      return invite.channel;
+    }
+    if (await isBanned(invite.channel.id, userId)) {
+      throw new Error('You are banned from this channel');
+    }
+
+    await db.transaction(async (tx) => {
+      // Joined concurrently, by this invite or another way; that is not another use
+      const joined = await tx.insert(channelMembersTable)
+        .values({
+          channel_id: invite.channel.id,
+          user_id: userId,
+          role: 'member'
+        })
+        .onConflictDoNothing()
+        .returning({ id: channelMembersTable.id })
+        .execute();
+
+      if (joined.length === 0) {
+        return;
+      }
+
+      // Counting the use in the same statement that checks the limit keeps concurrent accepts within max_uses
+      const claimed = await tx.update(channelInvitesTable)
+        .set({ use_count: sql`${channelInvitesTable.use_count} + 1` })
+        .where(and(eq(channelInvitesTable.id, invite.id), usableInviteCondition()))
+        .returning({ id: channelInvitesTable.id })
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error(INVALID_INVITE);
+      }
+
+      await recordAuditEvent({ channel_id: invite.channel.id, actor_id: userId, action: 'member_joined', details: { invite: invite.code } }, tx);
+    });
+
+    return invite.channel;
+  } catch (error) {
+    console.error('Failed to accept invite:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { chatMessagesTable, messageLinkPreviewsTable } from '../db/schema';
+import { type BlockNode, type InlineNode } from '../schema';
+import { unfurlLink } from './unfurl';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+
+// Links past this many get no preview, so one message cannot fan out into dozens of fetches
+export const MAX_LINK_PREVIEWS = 5;
+
+// Links in the order they appear, each once. Code is never parsed into links, so code samples get no previews.
+export function extractLinks(blocks: BlockNode[]): string[] {
+  const links = new Set<string>();
+  const visit = (nodes: (BlockNode | InlineNode)[]) => {
+    for (const node of nodes) {
+      if (node.type === 'link') {
+        links.add(node.url);
+      } else if ('children' in node) {
+        visit(node.children);
+      }
+    }
+  };
+  visit(blocks);
+  return [...links].slice(0, MAX_LINK_PREVIEWS);
+}
+
+// Works with db itself or inside a transaction
+type Executor = Pick<typeof db, 'select'>;
+
+// The links in the message as stored, or null once it is deleted. Inside a transaction the row stays locked,
+// so an edit waits until the transaction ends.
+async function readLinks(executor: Executor, messageId: number): Promise<string[] | null> {
+  const messages = await executor.select({ formatted_content: chatMessagesTable.formatted_content })
+    .from(chatMessagesTable)
+    .where(and(eq(chatMessagesTable.id, messageId), isNull(chatMessagesTable.deleted_at)))
+    .limit(1)
+    .for('update')
+    .execute();
+
+  if (messages.length === 0) {
+    return null;
+  }
+  const formatted = messages[0].formatted_content;
+  return formatted ? extractLinks(JSON.parse(formatted)) : [];
+}
+
+// Brings the stored previews in line with the links now in the message: links that are gone lose their previews,
+// new ones are unfurled and the rest keep their place in the link order. Links without anything to show get no preview.
+// Returns whether the visible previews changed.
+export async function refreshLinkPreviews(messageId: number): Promise<boolean> {
+  const links = await readLinks(db, messageId);
+
+  // Deleted before its links were unfurled
+  if (links === null) {
+    return false;
+  }
+
+  const existing = await db.select({ url: messageLinkPreviewsTable.url })
+    .from(messageLinkPreviewsTable)
+    .where(eq(messageLinkPreviewsTable.message_id, messageId))
+    .execute();
+
+  const known = new Set(existing.map(preview => preview.url));
+  const unfurled = await Promise.all(links.filter(url => !known.has(url)).map(url => unfurlLink(url)));
+  const found = unfurled.filter(preview => preview.title || preview.description || preview.image);
+
+  // The message may have been edited or deleted while the links were fetched, so the previews are matched
+  // against its content as it is now
+  return await db.transaction(async (tx) => {
+    const current = await readLinks(tx, messageId);
+    if (current === null) {
+      return false;
+    }
+
+    const stored = await tx.select({
+      id: messageLinkPreviewsTable.id,
+      url: messageLinkPreviewsTable.url,
+      position: messageLinkPreviewsTable.position,
+      removed_at: messageLinkPreviewsTable.removed_at
+    })
+      .from(messageLinkPreviewsTable)
+      .where(eq(messageLinkPreviewsTable.message_id, messageId))
+      .execute();
+
+    const dropped = stored.filter(preview => !current.includes(preview.url));
+    if (dropped.length > 0) {
+      await tx.delete(messageLinkPreviewsTable)
+        .where(inArray(messageLinkPreviewsTable.id, dropped.map(preview => preview.id)))
+        .execute();
+    }
+
+    const moved = stored.filter(preview => current.includes(preview.url) && preview.position !== current.indexOf(preview.url));
+    for (const preview of moved) {
+      await tx.update(messageLinkPreviewsTable)
+        .set({ position: current.indexOf(preview.url) })
+        .where(eq(messageLinkPreviewsTable.id, preview.id))
+        .execute();
+    }
+
+    const added = found.filter(preview => current.includes(preview.url));
+    let inserted = 0;
+    if (added.length > 0) {
+      const rows = await tx.insert(messageLinkPreviewsTable)
+        .values(added.map(preview => ({ message_id: messageId, position: current.indexOf(preview.url), ...preview })))
+        .onConflictDoNothing()
+        .returning({ id: messageLinkPreviewsTable.id })
+        .execute();
+      inserted = rows.length;
+    }
+
+    return inserted > 0 || [...dropped, ...moved].some(preview => preview.removed_at === null);
+  });
+}
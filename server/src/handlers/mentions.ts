@@ -0,0 +1,90 @@
+import { db } from '../db';
+import { channelMembersTable, messageMentionsTable, usersTable } from '../db/schema';
+import { type PresenceStatus } from '../schema';
+import { eq, and, inArray, notInArray } from 'drizzle-orm';
+
+type MentionKind = 'user' | 'channel' | 'here';
+
+interface ChannelMember {
+  id: number;
+  username: string;
+  status: PresenceStatus;
+}
+
+// Works with db itself or inside a transaction
+type Executor = Pick<typeof db, 'select' | 'insert' | 'delete'>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "@name" counts only when it is not glued to other word characters, so e-mail addresses and longer names do not match
+function mentionPattern(name: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])@${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'iu');
+}
+
+// Members addressed by content, by user id. A mention by name wins over @channel/@here.
+// The sender is never mentioned by their own message.
+export function parseMentions(content: string, members: ChannelMember[], senderId: number): Map<number, MentionKind> {
+  const mentions = new Map<number, MentionKind>();
+  const others = members.filter(member => member.id !== senderId);
+
+  if (mentionPattern('channel').test(content)) {
+    others.forEach(member => mentions.set(member.id, 'channel'));
+  } else if (mentionPattern('here').test(content)) {
+    others
+      .filter(member => member.status !== 'offline')
+      .forEach(member => mentions.set(member.id, 'here'));
+  }
+
+  for (const member of others) {
+    if (mentionPattern(member.username).test(content)) {
+      mentions.set(member.id, 'user');
+    }
+  }
+  return mentions;
+}
+
+// Brings the stored mentions of a message in line with its content and returns the members newly mentioned
+export async function recordMentions(executor: Executor, messageId: number, channelId: number, senderId: number, content: string): Promise<number[]> {
+  const members = await executor.select({
+    id: usersTable.id,
+    username: usersTable.username,
+    status: usersTable.status
+  })
+    .from(channelMembersTable)
+    .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
+    .where(eq(channelMembersTable.channel_id, channelId))
+    .execute();
+
+  const mentions = parseMentions(content, members, senderId);
+  const mentionedIds = [...mentions.keys()];
+
+  // Edits can take mentions away
+  await executor.delete(messageMentionsTable)
+    .where(mentionedIds.length > 0
+      ? and(eq(messageMentionsTable.message_id, messageId), notInArray(messageMentionsTable.user_id, mentionedIds))
+      : eq(messageMentionsTable.message_id, messageId))
+    .execute();
+
+  if (mentionedIds.length === 0) {
+    return [];
+  }
+
+  const existing = await executor.select({ user_id: messageMentionsTable.user_id })
+    .from(messageMentionsTable)
+    .where(and(
+      eq(messageMentionsTable.message_id, messageId),
+      inArray(messageMentionsTable.user_id, mentionedIds)
+    ))
+    .execute();
+  const alreadyMentioned = new Set(existing.map(row => row.user_id));
+
+  const added = mentionedIds.filter(id => !alreadyMentioned.has(id));
+  if (added.length > 0) {
+    await executor.insert(messageMentionsTable)
+      .values(added.map(userId => ({ message_id: messageId, user_id: userId, kind: mentions.get(userId)! })))
+      .execute();
+  }
+  return added;
+}
@@ -1,10 +1,256 @@
 import { db } from '../db';
-import { chatMessagesTable, channelMembersTable, usersTable, chatChannelsTable } from '../db/schema';
-import { type SendMessageInput, type GetMessagesInput, type UpdateMessageInput, type MessageWithUser } from '../schema';
-import { eq, and, desc, SQL } from 'drizzle-orm';
+import { chatMessagesTable, channelMembersTable, usersTable, chatChannelsTable, messageReactionsTable, attachmentsTable, messageMentionsTable, messageLinkPreviewsTable, messageRevisionsTable, notificationsTable, type NewNotification } from '../db/schema';
+import {
+  type SendMessageInput,
+  type GetMessagesInput,
+  type UpdateMessageInput,
+  type RemoveLinkPreviewInput,
+  type MessageWithUser,
+  type MessagePage,
+  type MessageThread,
+  type MessageHistory,
+  type ReactInput,
+  type ReactionEvent,
+  type ReactionSummary,
+  type Mention,
+  type LinkPreview,
+  type SearchMessagesInput,
+  type MessageSearchResult,
+  type SnippetSegment
+} from '../schema';
+import { publish, channelEvents, type ChatEvents } from '../events';
+import { clearTyping } from './typing';
+import { toAttachment, deleteStoredFiles } from './uploads';
+import { recordMentions } from './mentions';
+import { notify } from './notifications';
+import { publishUnreadChanged } from './read-receipts';
+import { assertChannelWritable, getMemberRole } from './channels';
+import { refreshLinkPreviews } from './link-previews';
+import { recordAuditEvent } from './audit';
+import { normalizeContent, parseMarkdown } from '../markdown';
+import { eq, and, asc, desc, gt, gte, lt, lte, inArray, notInArray, isNull, isNotNull, sql, SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+const DEFAULT_DELETED_MESSAGE_RETENTION_DAYS = 30;
+// Bounds each purge transaction; anything left over goes in the next run
+const PURGE_BATCH_SIZE = 500;
+
+// The quoted parent of a reply is another chat message, so its side of the join needs aliases
+const parentMessagesTable = alias(chatMessagesTable, 'parent_message');
+const parentUsersTable = alias(usersTable, 'parent_user');
+
+// Everything needed to build a MessageWithUser; only valid with the joins in selectMessagesWithUsers.
+// `reacted` in the reaction summaries is relative to viewerId.
+function messageWithUserColumns(viewerId: number | null) {
+  return {
+    id: chatMessagesTable.id,
+    channel_id: chatMessagesTable.channel_id,
+    user_id: chatMessagesTable.user_id,
+    content: chatMessagesTable.content,
+    formatted_content: chatMessagesTable.formatted_content,
+    message_type: chatMessagesTable.message_type,
+    reply_to_message_id: chatMessagesTable.reply_to_message_id,
+    thread_root_id: chatMessagesTable.thread_root_id,
+    is_edited: chatMessagesTable.is_edited,
+    created_at: chatMessagesTable.created_at,
+    updated_at: chatMessagesTable.updated_at,
+    deleted_at: chatMessagesTable.deleted_at,
+    deleted_by: chatMessagesTable.deleted_by,
+    reply_count: sql<number>`(select count(*) from ${chatMessagesTable} as thread_reply where thread_reply.thread_root_id = ${chatMessagesTable.id})`
+      .mapWith(Number),
+    last_reply_at: sql<Date | null>`(select max(thread_reply.created_at) from ${chatMessagesTable} as thread_reply where thread_reply.thread_root_id = ${chatMessagesTable.id})`
+      .mapWith(chatMessagesTable.created_at),
+    reactions: sql<ReactionSummary[]>`(
+      select coalesce(json_agg(json_build_object('emoji', r.emoji, 'count', r.count, 'reacted', r.reacted) order by r.first_reacted_at), '[]'::json)
+      from (
+        select emoji, count(*)::int as count, coalesce(bool_or(user_id = ${viewerId}), false) as reacted, min(created_at) as first_reacted_at
+        from ${messageReactionsTable}
+        where message_id = ${chatMessagesTable.id}
+        group by emoji
+      ) r
+    )`,
+    // Only mentions by name; @channel and @here are visible in the content
+    mentions: sql<Mention[]>`(
+      select coalesce(json_agg(json_build_object('user_id', mu.id, 'username', mu.username) order by mm.id), '[]'::json)
+      from ${messageMentionsTable} mm
+      join ${usersTable} mu on mu.id = mm.user_id
+      where mm.message_id = ${chatMessagesTable.id} and mm.kind = 'user'
+    )`,
+    // Previews the author removed are left out
+    link_previews: sql<LinkPreview[]>`(
+      select coalesce(json_agg(json_build_object('url', lp.url, 'title', lp.title, 'description', lp.description, 'image', lp.image, 'site_name', lp.site_name) order by lp.position, lp.id), '[]'::json)
+      from ${messageLinkPreviewsTable} lp
+      where lp.message_id = ${chatMessagesTable.id} and lp.removed_at is null
+    )`,
+    // User fields
+    user_id_field: usersTable.id,
+    username: usersTable.username,
+    avatar_url: usersTable.avatar_url,
+    is_online: usersTable.is_online,
+    status: usersTable.status,
+    last_seen: usersTable.last_seen,
+    // Null when the message has no attachment
+    attachment: {
+      id: attachmentsTable.id,
+      filename: attachmentsTable.filename,
+      content_type: attachmentsTable.content_type,
+      size_bytes: attachmentsTable.size_bytes,
+      width: attachmentsTable.width,
+      height: attachmentsTable.height,
+      storage_key: attachmentsTable.storage_key,
+      thumbnail_key: attachmentsTable.thumbnail_key,
+      created_at: attachmentsTable.created_at
+    },
+    // Parent fields, null unless the parent of a reply still exists
+    parent_id: parentMessagesTable.id,
+    parent_user_id: parentMessagesTable.user_id,
+    parent_username: parentUsersTable.username,
+    parent_content: parentMessagesTable.content,
+    parent_message_type: parentMessagesTable.message_type,
+    parent_deleted_at: parentMessagesTable.deleted_at
+  };
+}
+
+function selectMessagesWithUsers(viewerId: number | null) {
+  return db.select(messageWithUserColumns(viewerId))
+    .from(chatMessagesTable)
+    .innerJoin(usersTable, eq(chatMessagesTable.user_id, usersTable.id))
+    .leftJoin(attachmentsTable, eq(attachmentsTable.message_id, chatMessagesTable.id))
+    .leftJoin(parentMessagesTable, eq(chatMessagesTable.reply_to_message_id, parentMessagesTable.id))
+    .leftJoin(parentUsersTable, eq(parentMessagesTable.user_id, parentUsersTable.id))
+    .$dynamic();
+}
+
+type MessageWithUserRow = Awaited<ReturnType<typeof selectMessagesWithUsers>>[number];
+
+function toMessageWithUser(row: MessageWithUserRow): MessageWithUser {
+  const message: MessageWithUser = {
+    id: row.id,
+    channel_id: row.channel_id,
+    user_id: row.user_id,
+    content: row.content,
+    formatted_content: row.formatted_content ? JSON.parse(row.formatted_content) : null,
+    message_type: row.message_type,
+    link_previews: row.link_previews,
+    reply_to_message_id: row.reply_to_message_id,
+    thread_root_id: row.thread_root_id,
+    is_edited: row.is_edited,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at,
+    deleted_by: row.deleted_by,
+    reply_count: row.reply_count,
+    last_reply_at: row.last_reply_at,
+    reactions: row.reactions,
+    mentions: row.mentions,
+    user: {
+      id: row.user_id_field,
+      username: row.username,
+      avatar_url: row.avatar_url,
+      is_online: row.is_online,
+      status: row.status,
+      last_seen: row.last_seen
+    },
+    attachment: row.attachment ? toAttachment(row.attachment) : null,
+    reply_to: row.parent_id !== null && row.parent_user_id !== null && row.parent_username !== null
+      && row.parent_content !== null && row.parent_message_type !== null
+      ? {
+        id: row.parent_id,
+        user_id: row.parent_user_id,
+        username: row.parent_username,
+        content: row.parent_deleted_at === null ? row.parent_content : '',
+        message_type: row.parent_message_type,
+        is_deleted: row.parent_deleted_at !== null
+      }
+      : null
+  };
+
+  // Tombstones keep their place, author and thread, but nothing of what was said
+  return row.deleted_at === null
+    ? message
+    : { ...message, content: '', formatted_content: [], link_previews: [], reactions: [], mentions: [], attachment: null };
+}
+
+async function findMessageWithUser(messageId: number, viewerId: number | null): Promise<MessageWithUser | null> {
+  const rows = await selectMessagesWithUsers(viewerId)
+    .where(eq(chatMessagesTable.id, messageId))
+    .limit(1)
+    .execute();
+
+  return rows.length > 0 ? toMessageWithUser(rows[0]) : null;
+}
+
+// Every subscriber gets the same payload, loaded for no viewer, so reactions[].reacted is always false there;
+// clients keep track of their own reactions. Only a mutation's response is loaded for the caller.
+async function publishMessageUpdate(messageId: number): Promise<void> {
+  const message = await findMessageWithUser(messageId, null);
+  if (message) {
+    publish('messageUpdated', message);
+  }
+}
+
+// A thread root's reply count and last reply time change with its replies
+async function publishThreadRootUpdate(threadRootId: number | null): Promise<void> {
+  if (threadRootId !== null) {
+    await publishMessageUpdate(threadRootId);
+  }
+}
+
+// MESSAGE_EDIT_WINDOW_MINUTES limits how long after sending a message can be edited; unset or 0 allows edits at any time
+function editWindowMinutes(): number | null {
+  const minutes = Number(process.env['MESSAGE_EDIT_WINDOW_MINUTES'] || 0);
+  return minutes > 0 ? minutes : null;
+}
+
+// DELETED_MESSAGE_RETENTION_DAYS is how long tombstones can be restored before they are purged
+function deletedMessageRetentionDays(): number {
+  const days = Number(process.env['DELETED_MESSAGE_RETENTION_DAYS'] || DEFAULT_DELETED_MESSAGE_RETENTION_DAYS);
+  return days > 0 ? days : DEFAULT_DELETED_MESSAGE_RETENTION_DAYS;
+}
+
+// Unfurls still running after their request returned; see settleBackgroundUnfurls
+const backgroundUnfurls = new Set<Promise<void>>();
+
+// Slow sites must not hold up sending, so links are unfurled once the message is saved and the previews pushed as an update
+function unfurlInBackground(messageId: number): void {
+  const unfurl = refreshLinkPreviews(messageId)
+    .then(async (changed) => {
+      if (changed) {
+        await publishMessageUpdate(messageId);
+      }
+    })
+    .catch((error) => console.error('Link unfurling failed:', error))
+    .finally(() => backgroundUnfurls.delete(unfurl));
+  backgroundUnfurls.add(unfurl);
+}
+
+// Resolves once every unfurl started so far has finished, so nothing touches the database after a test tears it down
+export async function settleBackgroundUnfurls(): Promise<void> {
+  await Promise.all(backgroundUnfurls);
+}
+
+// The message is already saved, so failing to notify about it must not fail the request
+async function notifyQuietly(notifications: NewNotification[]): Promise<void> {
+  try {
+    await notify(notifications);
+  } catch (error) {
+    console.error('Sending notifications failed:', error);
+  }
+}
+
+// Clients render the stored form, so content is normalized and parsed once, when it is written
+function formatContent(rawContent: string, allowEmpty: boolean): { content: string; formatted_content: string } {
+  const content = normalizeContent(rawContent);
+  if (content.length === 0 && !allowEmpty) {
+    throw new Error('Message content is required');
+  }
+  return { content, formatted_content: JSON.stringify(parseMarkdown(content)) };
+}
 
 export async function sendMessage(input: SendMessageInput, userId: number): Promise<MessageWithUser> {
   try {
+    const { content, formatted_content } = formatContent(input.content, input.attachment_id !== undefined);
+
     // 1. Verify user is a member of the channel
     const membership = await db.select()
       .from(channelMembersTable)
@@ -19,30 +265,27 @@ export async function sendMessage(input: SendMessageInput, userId: number): Prom
       throw new Error('User is not a member of this channel');
     }
 
-    // 2. Process link preview if message is of type 'link'
-    let linkPreviewData = null;
-    if (input.message_type === 'link') {
-      // Extract URLs from content for link preview
-      const urlRegex = /(https?:\/\/[^\s]+)/g;
-      const urls = input.content.match(urlRegex);
-      if (urls && urls.length > 0) {
-        try {
-          const preview = await unfurlLink(urls[0]);
-          linkPreviewData = JSON.stringify(preview);
-        } catch (error) {
-          console.error('Link unfurling failed:', error);
-          // Continue without link preview if unfurling fails
-        }
-      }
+    const mutedUntil = membership[0].muted_until;
+    if (mutedUntil && mutedUntil > new Date()) {
+      throw new Error(`You are muted in this channel until ${mutedUntil.toISOString()}`);
     }
+    await assertChannelWritable(input.channel_id);
 
-    // 3. If replying to a message, verify the parent message exists in the same channel
+    // 2. If replying to a message, verify the parent message exists in the same channel.
+    // Replies to a reply join the parent's thread, so threads stay one level deep.
+    let threadRootId: number | null = null;
+    let parentAuthorId: number | null = null;
     if (input.reply_to_message_id) {
-      const parentMessage = await db.select()
+      const parentMessage = await db.select({
+        id: chatMessagesTable.id,
+        user_id: chatMessagesTable.user_id,
+        thread_root_id: chatMessagesTable.thread_root_id
+      })
         .from(chatMessagesTable)
         .where(and(
           eq(chatMessagesTable.id, input.reply_to_message_id),
-          eq(chatMessagesTable.channel_id, input.channel_id)
+          eq(chatMessagesTable.channel_id, input.channel_id),
+          isNull(chatMessagesTable.deleted_at)
         ))
         .limit(1)
         .execute();
@@ -50,53 +293,88 @@ export async function sendMessage(input: SendMessageInput, userId: number): Prom
       if (parentMessage.length === 0) {
         throw new Error('Reply target message not found in this channel');
       }
+
+      threadRootId = parentMessage[0].thread_root_id ?? parentMessage[0].id;
+      parentAuthorId = parentMessage[0].user_id;
     }
 
-    // 4. Save message to database
-    const messageResult = await db.insert(chatMessagesTable)
-      .values({
-        channel_id: input.channel_id,
-        user_id: userId,
-        content: input.content,
-        message_type: input.message_type || 'text',
-        image_url: input.image_url || null,
-        link_preview: linkPreviewData,
-        reply_to_message_id: input.reply_to_message_id || null,
-        is_edited: false
-      })
-      .returning()
-      .execute();
+    // 3. Save message to database with its mentions, claiming the attachment in the same transaction.
+    // Only the uploader can attach a file, and only to one message.
+    const { messageId, mentionedIds } = await db.transaction(async (tx) => {
+      const messageResult = await tx.insert(chatMessagesTable)
+        .values({
+          channel_id: input.channel_id,
+          user_id: userId,
+          content,
+          formatted_content,
+          message_type: input.message_type || 'text',
+          reply_to_message_id: input.reply_to_message_id || null,
+          thread_root_id: threadRootId,
+          is_edited: false
+        })
+        .returning({ id: chatMessagesTable.id })
+        .execute();
 
-    const message = messageResult[0];
+      if (input.attachment_id !== undefined) {
+        const claimed = await tx.update(attachmentsTable)
+          .set({ message_id: messageResult[0].id })
+          .where(and(
+            eq(attachmentsTable.id, input.attachment_id),
+            eq(attachmentsTable.user_id, userId),
+            isNull(attachmentsTable.message_id)
+          ))
+          .returning({ id: attachmentsTable.id })
+          .execute();
 
-    // 5. Get user information for the response
-    const userResult = await db.select({
-      id: usersTable.id,
-      username: usersTable.username,
-      avatar_url: usersTable.avatar_url,
-      is_online: usersTable.is_online,
-      last_seen: usersTable.last_seen
-    })
-      .from(usersTable)
-      .where(eq(usersTable.id, userId))
-      .limit(1)
-      .execute();
+        if (claimed.length === 0) {
+          throw new Error('Attachment not found or already used');
+        }
+      }
 
-    const user = userResult[0];
+      const mentionedIds = await recordMentions(tx, messageResult[0].id, input.channel_id, userId, content);
+      return { messageId: messageResult[0].id, mentionedIds };
+    });
 
-    // 6. Return message with user information
-    return {
-      ...message,
-      link_preview: message.link_preview ? JSON.parse(message.link_preview) : null,
-      user: user
-    };
+    // 4. Load the message with user and parent information for the response
+    const messageWithUser = await findMessageWithUser(messageId, userId);
+    if (!messageWithUser) {
+      throw new Error('Message not found after insert');
+    }
+
+    // 5. Notify channel subscribers, then unfurl the links in the message
+    clearTyping(input.channel_id, userId);
+    publish('messageCreated', messageWithUser);
+    await publishUnreadChanged(input.channel_id, userId);
+    await publishThreadRootUpdate(threadRootId);
+    unfurlInBackground(messageId);
+
+    // 6. Notify mentioned members and the author of the message replied to; a mention already covers the reply
+    const notifications: NewNotification[] = mentionedIds.map(mentionedId => ({
+      user_id: mentionedId,
+      type: 'mention' as const,
+      actor_id: userId,
+      channel_id: input.channel_id,
+      message_id: messageId
+    }));
+    if (parentAuthorId !== null && parentAuthorId !== userId && !mentionedIds.includes(parentAuthorId)) {
+      notifications.push({
+        user_id: parentAuthorId,
+        type: 'reply',
+        actor_id: userId,
+        channel_id: input.channel_id,
+        message_id: messageId
+      });
+    }
+    await notifyQuietly(notifications);
+
+    return messageWithUser;
   } catch (error) {
     console.error('Message sending failed:', error);
     throw error;
   }
 }
 
-export async function getMessages(input: GetMessagesInput, userId: number): Promise<MessageWithUser[]> {
+export async function getMessages(input: GetMessagesInput, userId: number): Promise<MessagePage> {
   try {
     // 1. Verify user has access to the channel
     const membership = await db.select()
@@ -112,58 +390,166 @@ export async function getMessages(input: GetMessagesInput, userId: number): Prom
       throw new Error('User does not have access to this channel');
     }
 
-    // 2. Fetch messages with pagination and user information
-    const results = await db.select({
-      // Message fields
+    // 2. Fetch one extra row past the page to know whether another page follows.
+    // Ids only grow, so paging by id is stable while new messages arrive.
+    const forward = input.after !== undefined;
+    const conditions: SQL<unknown>[] = [eq(chatMessagesTable.channel_id, input.channel_id)];
+    if (input.before !== undefined) {
+      conditions.push(lt(chatMessagesTable.id, input.before));
+    }
+    if (input.after !== undefined) {
+      conditions.push(gt(chatMessagesTable.id, input.after));
+    }
+
+    const rows = await selectMessagesWithUsers(userId)
+      .where(and(...conditions))
+      .orderBy(forward ? asc(chatMessagesTable.id) : desc(chatMessagesTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const hasMore = rows.length > input.limit;
+    const results = rows.slice(0, input.limit);
+    // Backward pages are fetched newest first; callers always get chronological order
+    if (!forward) {
+      results.reverse();
+    }
+
+    let nextCursor: number | null = null;
+    if (hasMore) {
+      nextCursor = forward ? results[results.length - 1].id : results[0].id;
+    }
+
+    // 3. Transform results to MessageWithUser format
+    return { messages: results.map(toMessageWithUser), nextCursor };
+  } catch (error) {
+    console.error('Message fetching failed:', error);
+    throw error;
+  }
+}
+
+export async function getThread(messageId: number, userId: number): Promise<MessageThread> {
+  try {
+    // 1. Resolve the thread root of the given message
+    const messageResult = await db.select({
       id: chatMessagesTable.id,
       channel_id: chatMessagesTable.channel_id,
-      user_id: chatMessagesTable.user_id,
-      content: chatMessagesTable.content,
-      message_type: chatMessagesTable.message_type,
-      image_url: chatMessagesTable.image_url,
-      link_preview: chatMessagesTable.link_preview,
-      reply_to_message_id: chatMessagesTable.reply_to_message_id,
-      is_edited: chatMessagesTable.is_edited,
-      created_at: chatMessagesTable.created_at,
-      updated_at: chatMessagesTable.updated_at,
-      // User fields
-      user_id_field: usersTable.id,
-      username: usersTable.username,
-      avatar_url: usersTable.avatar_url,
-      is_online: usersTable.is_online,
-      last_seen: usersTable.last_seen
+      thread_root_id: chatMessagesTable.thread_root_id
+    })
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.id, messageId))
+      .limit(1)
+      .execute();
+
+    if (messageResult.length === 0) {
+      throw new Error('Message not found');
+    }
+
+    const message = messageResult[0];
+    const rootId = message.thread_root_id ?? message.id;
+
+    // 2. Verify user has access to the channel
+    const membership = await db.select()
+      .from(channelMembersTable)
+      .where(and(
+        eq(channelMembersTable.channel_id, message.channel_id),
+        eq(channelMembersTable.user_id, userId)
+      ))
+      .limit(1)
+      .execute();
+
+    if (membership.length === 0) {
+      throw new Error('User does not have access to this channel');
+    }
+
+    // 3. Load the root and its replies
+    const root = await findMessageWithUser(rootId, userId);
+    if (!root) {
+      throw new Error('Thread root message not found');
+    }
+
+    const replies = await selectMessagesWithUsers(userId)
+      .where(eq(chatMessagesTable.thread_root_id, rootId))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    return { root, replies: replies.map(toMessageWithUser) };
+  } catch (error) {
+    console.error('Thread fetching failed:', error);
+    throw error;
+  }
+}
+
+// Private-use characters delimit highlighted terms in ts_headline output; they are stripped before responding
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=10`;
+
+function toSnippetSegments(headline: string): SnippetSegment[] {
+  // The capture group keeps highlighted terms at the odd indices
+  return headline
+    .split(/\uE000([^\uE001]*)\uE001/)
+    .map((text, index) => ({ text, highlight: index % 2 === 1 }))
+    .filter(segment => segment.text.length > 0);
+}
+
+export async function searchMessages(input: SearchMessagesInput, userId: number): Promise<MessageSearchResult> {
+  try {
+    // websearch_to_tsquery accepts free-form user input ("quoted phrases", -exclusions) without syntax errors
+    const tsQuery = sql`websearch_to_tsquery('english', ${input.query})`;
+
+    const conditions: SQL<unknown>[] = [sql`${chatMessagesTable.search_vector} @@ ${tsQuery}`, isNull(chatMessagesTable.deleted_at)];
+    if (input.channel_id !== undefined) {
+      conditions.push(eq(chatMessagesTable.channel_id, input.channel_id));
+    }
+    if (input.user_id !== undefined) {
+      conditions.push(eq(chatMessagesTable.user_id, input.user_id));
+    }
+    if (input.message_type !== undefined) {
+      conditions.push(eq(chatMessagesTable.message_type, input.message_type));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(chatMessagesTable.created_at, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(chatMessagesTable.created_at, input.to));
+    }
+    if (input.before !== undefined) {
+      conditions.push(lt(chatMessagesTable.id, input.before));
+    }
+
+    // Joining on the caller's membership limits hits to channels they can read
+    const rows = await db.select({
+      ...messageWithUserColumns(userId),
+      channel_name: chatChannelsTable.name,
+      headline: sql<string>`ts_headline('english', ${chatMessagesTable.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`
     })
       .from(chatMessagesTable)
+      .innerJoin(channelMembersTable, and(
+        eq(channelMembersTable.channel_id, chatMessagesTable.channel_id),
+        eq(channelMembersTable.user_id, userId)
+      ))
+      .innerJoin(chatChannelsTable, eq(chatMessagesTable.channel_id, chatChannelsTable.id))
       .innerJoin(usersTable, eq(chatMessagesTable.user_id, usersTable.id))
-      .where(eq(chatMessagesTable.channel_id, input.channel_id))
-      .orderBy(desc(chatMessagesTable.created_at))
-      .limit(input.limit)
-      .offset(input.offset)
+      .leftJoin(attachmentsTable, eq(attachmentsTable.message_id, chatMessagesTable.id))
+      .leftJoin(parentMessagesTable, eq(chatMessagesTable.reply_to_message_id, parentMessagesTable.id))
+      .leftJoin(parentUsersTable, eq(parentMessagesTable.user_id, parentUsersTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(chatMessagesTable.id))
+      .limit(input.limit + 1)
       .execute();
 
-    // 3. Transform results to MessageWithUser format
-    return results.map(result => ({
-      id: result.id,
-      channel_id: result.channel_id,
-      user_id: result.user_id,
-      content: result.content,
-      message_type: result.message_type,
-      image_url: result.image_url,
-      link_preview: result.link_preview ? JSON.parse(result.link_preview) : null,
-      reply_to_message_id: result.reply_to_message_id,
-      is_edited: result.is_edited,
-      created_at: result.created_at,
-      updated_at: result.updated_at,
-      user: {
-        id: result.user_id_field,
-        username: result.username,
-        avatar_url: result.avatar_url,
-        is_online: result.is_online,
-        last_seen: result.last_seen
-      }
+    const results = rows.slice(0, input.limit);
+    const nextCursor = rows.length > input.limit ? results[results.length - 1].id : null;
+
+    const hits = results.map(result => ({
+      ...toMessageWithUser(result),
+      channel_name: result.channel_name,
+      snippet: toSnippetSegments(result.headline)
     }));
+
+    return { hits, nextCursor };
   } catch (error) {
-    console.error('Message fetching failed:', error);
+    console.error('Message search failed:', error);
     throw error;
   }
 }
@@ -175,7 +561,8 @@ export async function updateMessage(input: UpdateMessageInput, userId: number):
       .from(chatMessagesTable)
       .where(and(
         eq(chatMessagesTable.id, input.message_id),
-        eq(chatMessagesTable.user_id, userId)
+        eq(chatMessagesTable.user_id, userId),
+        isNull(chatMessagesTable.deleted_at)
       ))
       .limit(1)
       .execute();
@@ -183,47 +570,173 @@ export async function updateMessage(input: UpdateMessageInput, userId: number):
     if (existingMessage.length === 0) {
       throw new Error('Message not found or user does not have permission to edit');
     }
+    await assertChannelWritable(existingMessage[0].channel_id);
 
-    // 2. Update message content and set edited flag
-    const updateResult = await db.update(chatMessagesTable)
-      .set({
-        content: input.content,
-        is_edited: true,
-        updated_at: new Date()
-      })
-      .where(eq(chatMessagesTable.id, input.message_id))
-      .returning()
-      .execute();
+    const editWindow = editWindowMinutes();
+    if (editWindow !== null && Date.now() - existingMessage[0].created_at.getTime() > editWindow * 60 * 1000) {
+      throw new Error(`Messages can only be edited within ${editWindow} minutes of sending`);
+    }
 
-    const message = updateResult[0];
+    // 2. Keep the replaced text as a revision, then update message content and set edited flag,
+    // keeping its mentions in line with the new content
+    const { content, formatted_content } = formatContent(input.content, false);
+    const mentionedIds = await db.transaction(async (tx) => {
+      await tx.insert(messageRevisionsTable)
+        .values({
+          message_id: input.message_id,
+          content: existingMessage[0].content,
+          formatted_content: existingMessage[0].formatted_content,
+          written_at: existingMessage[0].updated_at
+        })
+        .execute();
+
+      await tx.update(chatMessagesTable)
+        .set({
+          content,
+          formatted_content,
+          is_edited: true,
+          updated_at: new Date()
+        })
+        .where(eq(chatMessagesTable.id, input.message_id))
+        .execute();
 
-    // 3. Get user information for the response
-    const userResult = await db.select({
-      id: usersTable.id,
-      username: usersTable.username,
-      avatar_url: usersTable.avatar_url,
-      is_online: usersTable.is_online,
-      last_seen: usersTable.last_seen
+      return recordMentions(tx, input.message_id, existingMessage[0].channel_id, userId, content);
+    });
+
+    // 3. Load the message with user and parent information for the response
+    const messageWithUser = await findMessageWithUser(input.message_id, userId);
+    if (!messageWithUser) {
+      throw new Error('Message not found after update');
+    }
+
+    // 4. Notify channel subscribers and members mentioned by the edit, then return updated message with user information.
+    // Previews follow the links in the new content.
+    await publishMessageUpdate(input.message_id);
+    unfurlInBackground(input.message_id);
+    await notifyQuietly(mentionedIds.map(mentionedId => ({
+      user_id: mentionedId,
+      type: 'mention' as const,
+      actor_id: userId,
+      channel_id: existingMessage[0].channel_id,
+      message_id: input.message_id
+    })));
+    return messageWithUser;
+  } catch (error) {
+    console.error('Message update failed:', error);
+    throw error;
+  }
+}
+
+// Moderators need to see what an edit changed, so channel owners and admins get the history as well as the author
+export async function getMessageHistory(messageId: number, userId: number): Promise<MessageHistory> {
+  try {
+    const messageResult = await db.select({
+      user_id: chatMessagesTable.user_id,
+      channel_id: chatMessagesTable.channel_id,
+      content: chatMessagesTable.content,
+      formatted_content: chatMessagesTable.formatted_content,
+      updated_at: chatMessagesTable.updated_at
     })
-      .from(usersTable)
-      .where(eq(usersTable.id, userId))
+      .from(chatMessagesTable)
+      .where(and(eq(chatMessagesTable.id, messageId), isNull(chatMessagesTable.deleted_at)))
       .limit(1)
       .execute();
 
-    const user = userResult[0];
+    if (messageResult.length === 0) {
+      throw new Error('Message not found');
+    }
+
+    const message = messageResult[0];
+    if (message.user_id !== userId) {
+      const membership = await db.select({ role: channelMembersTable.role })
+        .from(channelMembersTable)
+        .where(and(
+          eq(channelMembersTable.channel_id, message.channel_id),
+          eq(channelMembersTable.user_id, userId)
+        ))
+        .limit(1)
+        .execute();
+
+      if (membership.length === 0 || membership[0].role === 'member') {
+        throw new Error('Only the author and channel admins can view the edit history');
+      }
+    }
+
+    const revisions = await db.select()
+      .from(messageRevisionsTable)
+      .where(eq(messageRevisionsTable.message_id, messageId))
+      .orderBy(asc(messageRevisionsTable.id))
+      .execute();
 
-    // 4. Return updated message with user information
     return {
-      ...message,
-      link_preview: message.link_preview ? JSON.parse(message.link_preview) : null,
-      user: user
+      message_id: messageId,
+      versions: [
+        ...revisions.map(revision => ({
+          content: revision.content,
+          formatted_content: revision.formatted_content ? JSON.parse(revision.formatted_content) : null,
+          written_at: revision.written_at,
+          is_current: false
+        })),
+        {
+          content: message.content,
+          formatted_content: message.formatted_content ? JSON.parse(message.formatted_content) : null,
+          written_at: message.updated_at,
+          is_current: true
+        }
+      ]
     };
   } catch (error) {
-    console.error('Message update failed:', error);
+    console.error('Message history fetching failed:', error);
+    throw error;
+  }
+}
+
+// Only the author may remove a preview; it stays removed when the message is edited
+export async function removeLinkPreview(input: RemoveLinkPreviewInput, userId: number): Promise<MessageWithUser> {
+  try {
+    const existingMessage = await db.select({ channel_id: chatMessagesTable.channel_id })
+      .from(chatMessagesTable)
+      .where(and(
+        eq(chatMessagesTable.id, input.message_id),
+        eq(chatMessagesTable.user_id, userId),
+        isNull(chatMessagesTable.deleted_at)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existingMessage.length === 0) {
+      throw new Error('Message not found or user does not have permission to edit');
+    }
+    await assertChannelWritable(existingMessage[0].channel_id);
+
+    const removed = await db.update(messageLinkPreviewsTable)
+      .set({ removed_at: new Date() })
+      .where(and(
+        eq(messageLinkPreviewsTable.message_id, input.message_id),
+        eq(messageLinkPreviewsTable.url, input.url),
+        isNull(messageLinkPreviewsTable.removed_at)
+      ))
+      .returning({ id: messageLinkPreviewsTable.id })
+      .execute();
+
+    if (removed.length === 0) {
+      throw new Error('Link preview not found');
+    }
+
+    const messageWithUser = await findMessageWithUser(input.message_id, userId);
+    if (!messageWithUser) {
+      throw new Error('Message not found after update');
+    }
+
+    await publishMessageUpdate(input.message_id);
+    return messageWithUser;
+  } catch (error) {
+    console.error('Link preview removal failed:', error);
     throw error;
   }
 }
 
+// Soft deletion: the row stays as a tombstone, so replies keep their place and moderators can restore it
 export async function deleteMessage(messageId: number, userId: number): Promise<{ success: boolean; message: string }> {
   try {
     // 1. Verify user owns the message or has admin privileges in the channel
@@ -232,7 +745,7 @@ export async function deleteMessage(messageId: number, userId: number): Promise<
       channel_id: chatMessagesTable.channel_id
     })
       .from(chatMessagesTable)
-      .where(eq(chatMessagesTable.id, messageId))
+      .where(and(eq(chatMessagesTable.id, messageId), isNull(chatMessagesTable.deleted_at)))
       .limit(1)
       .execute();
 
@@ -263,12 +776,25 @@ export async function deleteMessage(messageId: number, userId: number): Promise<
     if (!canDelete) {
       throw new Error('User does not have permission to delete this message');
     }
+    await assertChannelWritable(messageData.channel_id);
 
-    // 2. Delete message from database
-    await db.delete(chatMessagesTable)
+    // 2. Mark the message deleted; purgeDeletedMessages removes it and everything attached after the retention period
+    await db.update(chatMessagesTable)
+      .set({ deleted_at: new Date(), deleted_by: userId })
       .where(eq(chatMessagesTable.id, messageId))
       .execute();
 
+    await recordAuditEvent({
+      channel_id: messageData.channel_id,
+      actor_id: userId,
+      action: 'message_deleted',
+      target_user_id: messageData.message_user_id,
+      message_id: messageId
+    });
+
+    // 3. Subscribers replace the message with its tombstone
+    await publishMessageUpdate(messageId);
+
     return {
       success: true,
       message: 'Message deleted successfully'
@@ -279,82 +805,268 @@ export async function deleteMessage(messageId: number, userId: number): Promise<
   }
 }
 
-export async function unfurlLink(url: string): Promise<{ title: string | null; description: string | null; image: string | null; url: string }> {
+// Channel owners and admins can bring back a deleted message until it is purged
+export async function restoreMessage(messageId: number, userId: number): Promise<MessageWithUser> {
   try {
-    // Basic URL validation
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      throw new Error('Invalid URL format');
-    }
-
-    // Fetch the webpage
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; ChatApp/1.0; Link Preview Bot)'
-      },
-      // Set timeout to avoid hanging requests
-      signal: AbortSignal.timeout(10000)
+    const messageResult = await db.select({ channel_id: chatMessagesTable.channel_id, user_id: chatMessagesTable.user_id })
+      .from(chatMessagesTable)
+      .where(and(eq(chatMessagesTable.id, messageId), isNotNull(chatMessagesTable.deleted_at)))
+      .limit(1)
+      .execute();
+
+    if (messageResult.length === 0) {
+      throw new Error('Deleted message not found');
+    }
+
+    const role = await getMemberRole(messageResult[0].channel_id, userId);
+    if (role === 'member') {
+      throw new Error('Only channel owners and admins can restore messages');
+    }
+    await assertChannelWritable(messageResult[0].channel_id);
+
+    await db.update(chatMessagesTable)
+      .set({ deleted_at: null, deleted_by: null })
+      .where(eq(chatMessagesTable.id, messageId))
+      .execute();
+
+    await recordAuditEvent({
+      channel_id: messageResult[0].channel_id,
+      actor_id: userId,
+      action: 'message_restored',
+      target_user_id: messageResult[0].user_id,
+      message_id: messageId
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const messageWithUser = await findMessageWithUser(messageId, userId);
+    if (!messageWithUser) {
+      throw new Error('Message not found after restore');
     }
 
-    const html = await response.text();
+    await publishMessageUpdate(messageId);
+    return messageWithUser;
+  } catch (error) {
+    console.error('Message restore failed:', error);
+    throw error;
+  }
+}
 
-    // Extract Open Graph and standard meta tags
-    let title = null;
-    let description = null;
-    let image = null;
+// Hard-deletes messages deleted longer ago than the retention period, with everything attached to them.
+// Replies to a purged message keep their place and lose the quote. Runs in batches; returns how many were purged.
+export async function purgeDeletedMessages(): Promise<number> {
+  try {
+    const cutoff = new Date(Date.now() - deletedMessageRetentionDays() * 24 * 60 * 60 * 1000);
+    const expired = await db.select({ id: chatMessagesTable.id, channel_id: chatMessagesTable.channel_id })
+      .from(chatMessagesTable)
+      .where(lt(chatMessagesTable.deleted_at, cutoff))
+      .orderBy(asc(chatMessagesTable.id))
+      .limit(PURGE_BATCH_SIZE)
+      .execute();
 
-    // Extract title (Open Graph first, then standard title)
-    const ogTitleMatch = html.match(/<meta[^>]*property=["\']og:title["\'][^>]*content=["\']([^"\']*)["\'][^>]*>/i);
-    if (ogTitleMatch) {
-      title = ogTitleMatch[1];
-    } else {
-      const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-      if (titleMatch) {
-        title = titleMatch[1].trim();
-      }
+    if (expired.length === 0) {
+      return 0;
     }
 
-    // Extract description (Open Graph first, then standard meta description)
-    const ogDescMatch = html.match(/<meta[^>]*property=["\']og:description["\'][^>]*content=["\']([^"\']*)["\'][^>]*>/i);
-    if (ogDescMatch) {
-      description = ogDescMatch[1];
-    } else {
-      const descMatch = html.match(/<meta[^>]*name=["\']description["\'][^>]*content=["\']([^"\']*)["\'][^>]*>/i);
-      if (descMatch) {
-        description = descMatch[1];
+    const messageIds = expired.map(message => message.id);
+    const { attachments: deletedAttachments, newRootIds } = await db.transaction(async (tx) => {
+      // Replies outlive their purged thread root: the earliest takes its place and the others move under it
+      const orphanedReplies = await tx.select({ id: chatMessagesTable.id, thread_root_id: chatMessagesTable.thread_root_id })
+        .from(chatMessagesTable)
+        .where(and(inArray(chatMessagesTable.thread_root_id, messageIds), notInArray(chatMessagesTable.id, messageIds)))
+        .orderBy(asc(chatMessagesTable.id))
+        .execute();
+
+      const newRoots = new Map<number, number>();
+      for (const reply of orphanedReplies) {
+        if (!newRoots.has(reply.thread_root_id!)) {
+          newRoots.set(reply.thread_root_id!, reply.id);
+        }
+      }
+      for (const [purgedRootId, newRootId] of newRoots) {
+        await tx.update(chatMessagesTable)
+          .set({ thread_root_id: null })
+          .where(eq(chatMessagesTable.id, newRootId))
+          .execute();
+        await tx.update(chatMessagesTable)
+          .set({ thread_root_id: newRootId })
+          .where(eq(chatMessagesTable.thread_root_id, purgedRootId))
+          .execute();
       }
+
+      // Replies to a purged message just lose the quote
+      await tx.update(chatMessagesTable)
+        .set({ reply_to_message_id: null })
+        .where(inArray(chatMessagesTable.reply_to_message_id, messageIds))
+        .execute();
+
+      await tx.delete(messageReactionsTable)
+        .where(inArray(messageReactionsTable.message_id, messageIds))
+        .execute();
+
+      await tx.delete(messageLinkPreviewsTable)
+        .where(inArray(messageLinkPreviewsTable.message_id, messageIds))
+        .execute();
+
+      await tx.delete(messageRevisionsTable)
+        .where(inArray(messageRevisionsTable.message_id, messageIds))
+        .execute();
+
+      await tx.delete(messageMentionsTable)
+        .where(inArray(messageMentionsTable.message_id, messageIds))
+        .execute();
+
+      await tx.delete(notificationsTable)
+        .where(inArray(notificationsTable.message_id, messageIds))
+        .execute();
+
+      const attachments = await tx.delete(attachmentsTable)
+        .where(inArray(attachmentsTable.message_id, messageIds))
+        .returning({ storage_key: attachmentsTable.storage_key, thumbnail_key: attachmentsTable.thumbnail_key })
+        .execute();
+
+      await tx.delete(chatMessagesTable)
+        .where(inArray(chatMessagesTable.id, messageIds))
+        .execute();
+
+      return { attachments, newRootIds: [...newRoots.values()] };
+    });
+    await deleteStoredFiles(deletedAttachments);
+
+    for (const message of expired) {
+      publish('messageDeleted', { id: message.id, channel_id: message.channel_id });
     }
+    for (const rootId of newRootIds) {
+      await publishThreadRootUpdate(rootId);
+    }
+    return expired.length;
+  } catch (error) {
+    console.error('Purging deleted messages failed:', error);
+    throw error;
+  }
+}
 
-    // Extract image (Open Graph)
-    const ogImageMatch = html.match(/<meta[^>]*property=["\']og:image["\'][^>]*content=["\']([^"\']*)["\'][^>]*>/i);
-    if (ogImageMatch) {
-      let imageUrl = ogImageMatch[1];
-      // Handle relative URLs
-      if (imageUrl.startsWith('/')) {
-        const urlObj = new URL(url);
-        imageUrl = `${urlObj.protocol}//${urlObj.host}${imageUrl}`;
-      }
-      image = imageUrl;
+async function summarizeReactions(messageId: number, viewerId: number | null): Promise<ReactionSummary[]> {
+  return db.select({
+    emoji: messageReactionsTable.emoji,
+    count: sql<number>`count(*)`.mapWith(Number),
+    reacted: sql<boolean>`coalesce(bool_or(${messageReactionsTable.user_id} = ${viewerId}), false)`
+  })
+    .from(messageReactionsTable)
+    .where(eq(messageReactionsTable.message_id, messageId))
+    .groupBy(messageReactionsTable.emoji)
+    .orderBy(sql`min(${messageReactionsTable.created_at})`)
+    .execute();
+}
+
+// Finds a message the user can see, for reacting to it
+async function findChannelMessage(messageId: number, userId: number): Promise<{ id: number; channel_id: number }> {
+  const messageResult = await db.select({
+    id: chatMessagesTable.id,
+    channel_id: chatMessagesTable.channel_id
+  })
+    .from(chatMessagesTable)
+    .innerJoin(channelMembersTable, and(
+      eq(channelMembersTable.channel_id, chatMessagesTable.channel_id),
+      eq(channelMembersTable.user_id, userId)
+    ))
+    .where(and(eq(chatMessagesTable.id, messageId), isNull(chatMessagesTable.deleted_at)))
+    .limit(1)
+    .execute();
+
+  if (messageResult.length === 0) {
+    throw new Error('Message not found or user does not have access to this channel');
+  }
+
+  return messageResult[0];
+}
+
+function publishReactionChange(message: { id: number; channel_id: number }, userId: number, emoji: string, added: boolean, reactions: ReactionSummary[]): void {
+  const event: ReactionEvent = {
+    message_id: message.id,
+    channel_id: message.channel_id,
+    user_id: userId,
+    emoji,
+    added,
+    reactions: reactions.map(({ emoji, count }) => ({ emoji, count }))
+  };
+  publish('reactionChanged', event);
+}
+
+export async function addReaction(input: ReactInput, userId: number): Promise<ReactionSummary[]> {
+  try {
+    const message = await findChannelMessage(input.message_id, userId);
+    await assertChannelWritable(message.channel_id);
+
+    // Reacting twice with the same emoji is a no-op
+    const inserted = await db.insert(messageReactionsTable)
+      .values({
+        message_id: message.id,
+        user_id: userId,
+        emoji: input.emoji
+      })
+      .onConflictDoNothing()
+      .returning({ id: messageReactionsTable.id })
+      .execute();
+
+    const reactions = await summarizeReactions(message.id, userId);
+    if (inserted.length > 0) {
+      publishReactionChange(message, userId, input.emoji, true, reactions);
     }
+    return reactions;
+  } catch (error) {
+    console.error('Adding reaction failed:', error);
+    throw error;
+  }
+}
 
-    return {
-      title: title || null,
-      description: description || null,
-      image: image || null,
-      url: url
-    };
+export async function removeReaction(input: ReactInput, userId: number): Promise<ReactionSummary[]> {
+  try {
+    const message = await findChannelMessage(input.message_id, userId);
+    await assertChannelWritable(message.channel_id);
+
+    const removed = await db.delete(messageReactionsTable)
+      .where(and(
+        eq(messageReactionsTable.message_id, message.id),
+        eq(messageReactionsTable.user_id, userId),
+        eq(messageReactionsTable.emoji, input.emoji)
+      ))
+      .returning({ id: messageReactionsTable.id })
+      .execute();
+
+    const reactions = await summarizeReactions(message.id, userId);
+    if (removed.length > 0) {
+      publishReactionChange(message, userId, input.emoji, false, reactions);
+    }
+    return reactions;
   } catch (error) {
-    console.error('Link unfurling failed:', error);
-    // Return basic URL info if unfurling fails
-    return {
-      title: null,
-      description: null,
-      image: null,
-      url: url
-    };
+    console.error('Removing reaction failed:', error);
+    throw error;
+  }
+}
+
+type MessageEvent = 'messageCreated' | 'messageUpdated' | 'messageDeleted' | 'reactionChanged';
+
+// Streams one kind of message event for a channel until the user stops being a member
+async function* channelMessageEvents<K extends MessageEvent>(event: K, channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<ChatEvents[K]> {
+  try {
+    yield* channelEvents(event, channelId, userId, signal);
+  } catch (error) {
+    console.error('Message subscription failed:', error);
+    throw error;
   }
-}
\ No newline at end of file
+}
+
+export function onNewMessage(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<MessageWithUser> {
+  return channelMessageEvents('messageCreated', channelId, userId, signal);
+}
+
+export function onMessageUpdated(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<MessageWithUser> {
+  return channelMessageEvents('messageUpdated', channelId, userId, signal);
+}
+
+export function onMessageDeleted(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<ChatEvents['messageDeleted']> {
+  return channelMessageEvents('messageDeleted', channelId, userId, signal);
+}
+
+export function onReactionChanged(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<ReactionEvent> {
+  return channelMessageEvents('reactionChanged', channelId, userId, signal);
+}
@@ -0,0 +1,354 @@
+import { db } from '../db';
+import { channelMembersTable, channelBansTable, usersTable } from '../db/schema';
+import { type MemberRole, type ModerateMemberInput, type SetMemberRoleInput, type BanMemberInput, type MuteMemberInput, type ChannelBan } from '../schema';
+import { recordAuditEvent } from './audit';
+import { publish } from '../events';
+import { eq, and, or, gt, isNull, inArray, desc } from 'drizzle-orm';
+
+type ModerationResult = { success: boolean; message: string };
+
+interface Membership {
+  user_id: number;
+  role: MemberRole;
+}
+
+const ROLE_RANK: Record<MemberRole, number> = { owner: 3, admin: 2, member: 1 };
+
+async function getMemberships(channelId: number, userId: number, targetUserId: number): Promise<{ actor?: Membership; target?: Membership }> {
+  const memberships = await db.select({ user_id: channelMembersTable.user_id, role: channelMembersTable.role })
+    .from(channelMembersTable)
+    .where(and(
+      eq(channelMembersTable.channel_id, channelId),
+      inArray(channelMembersTable.user_id, [userId, targetUserId])
+    ))
+    .execute();
+
+  return {
+    actor: memberships.find(membership => membership.user_id === userId),
+    target: memberships.find(membership => membership.user_id === targetUserId)
+  };
+}
+
+// Owners and admins moderate members ranked below them; returns why the action is refused, if it is
+function refusal(actor: Membership | undefined, target: Membership | undefined, verb: string): string | null {
+  if (!actor || actor.role === 'member') {
+    return `You do not have permission to ${verb} members of this channel`;
+  }
+  if (target && ROLE_RANK[target.role] >= ROLE_RANK[actor.role]) {
+    return `You cannot ${verb} a member with an equal or higher role`;
+  }
+  return null;
+}
+
+function activeBanCondition() {
+  return or(isNull(channelBansTable.expires_at), gt(channelBansTable.expires_at, new Date()));
+}
+
+export async function isBanned(channelId: number, userId: number): Promise<boolean> {
+  const bans = await db.select({ id: channelBansTable.id })
+    .from(channelBansTable)
+    .where(and(
+      eq(channelBansTable.channel_id, channelId),
+      eq(channelBansTable.user_id, userId),
+      activeBanCondition()
+    ))
+    .limit(1)
+    .execute();
+
+  return bans.length > 0;
+}
+
+// Owners can remove anyone else; admins can remove plain members only
+export async function removeChannelMember(channelId: number, userId: number, targetUserId: number): Promise<ModerationResult> {
+  try {
+    if (targetUserId === userId) {
+      return {
+        success: false,
+        message: 'Use leave to remove yourself from a channel'
+      };
+    }
+
+    const { actor, target } = await getMemberships(channelId, userId, targetUserId);
+    const refused = refusal(actor, target, 'remove');
+    if (refused) {
+      return { success: false, message: refused };
+    }
+    if (!target) {
+      return {
+        success: false,
+        message: 'User is not a member of this channel'
+      };
+    }
+
+    await db.delete(channelMembersTable)
+      .where(and(
+        eq(channelMembersTable.channel_id, channelId),
+        eq(channelMembersTable.user_id, targetUserId)
+      ))
+      .execute();
+
+    await recordAuditEvent({ channel_id: channelId, actor_id: userId, action: 'member_removed', target_user_id: targetUserId });
+    publish('memberRemoved', { channel_id: channelId, user_id: targetUserId });
+
+    return {
+      success: true,
+      message: 'Member removed from channel'
+    };
+  } catch (error) {
+    console.error('Failed to remove channel member:', error);
+    throw error;
+  }
+}
+
+// Only the owner promotes members to admin and demotes them again
+export async function setMemberRole(input: SetMemberRoleInput, userId: number): Promise<ModerationResult> {
+  try {
+    const { actor, target } = await getMemberships(input.channel_id, userId, input.user_id);
+
+    if (!actor || actor.role !== 'owner') {
+      return {
+        success: false,
+        message: 'Only the channel owner can change member roles'
+      };
+    }
+    if (!target) {
+      return {
+        success: false,
+        message: 'User is not a member of this channel'
+      };
+    }
+    if (target.role === 'owner') {
+      return {
+        success: false,
+        message: 'The owner role is handed over by leaving the channel'
+      };
+    }
+
+    await db.update(channelMembersTable)
+      .set({ role: input.role })
+      .where(and(
+        eq(channelMembersTable.channel_id, input.channel_id),
+        eq(channelMembersTable.user_id, input.user_id)
+      ))
+      .execute();
+
+    if (target.role !== input.role) {
+      await recordAuditEvent({
+        channel_id: input.channel_id,
+        actor_id: userId,
+        action: 'role_changed',
+        target_user_id: input.user_id,
+        details: { from: target.role, to: input.role }
+      });
+    }
+
+    return {
+      success: true,
+      message: input.role === 'admin' ? 'Member promoted to admin' : 'Admin demoted to member'
+    };
+  } catch (error) {
+    console.error('Failed to set member role:', error);
+    throw error;
+  }
+}
+
+// Removes the user if they are a member and keeps them from joining again until the ban expires
+export async function banMember(input: BanMemberInput, userId: number): Promise<ModerationResult> {
+  try {
+    if (input.user_id === userId) {
+      return {
+        success: false,
+        message: 'You cannot ban yourself'
+      };
+    }
+
+    const { actor, target } = await getMemberships(input.channel_id, userId, input.user_id);
+    const refused = refusal(actor, target, 'ban');
+    if (refused) {
+      return { success: false, message: refused };
+    }
+
+    const targetUser = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (targetUser.length === 0) {
+      return {
+        success: false,
+        message: 'Target user not found'
+      };
+    }
+
+    const expiresAt = input.duration_minutes === undefined
+      ? null
+      : new Date(Date.now() + input.duration_minutes * 60 * 1000);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(channelBansTable)
+        .values({
+          channel_id: input.channel_id,
+          user_id: input.user_id,
+          banned_by: userId,
+          expires_at: expiresAt
+        })
+        .onConflictDoUpdate({
+          target: [channelBansTable.channel_id, channelBansTable.user_id],
+          set: { banned_by: userId, expires_at: expiresAt, created_at: new Date() }
+        })
+        .execute();
+
+      await tx.delete(channelMembersTable)
+        .where(and(
+          eq(channelMembersTable.channel_id, input.channel_id),
+          eq(channelMembersTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      await recordAuditEvent({
+        channel_id: input.channel_id,
+        actor_id: userId,
+        action: 'member_banned',
+        target_user_id: input.user_id,
+        details: { duration_minutes: input.duration_minutes ?? null }
+      }, tx);
+    });
+    publish('memberRemoved', { channel_id: input.channel_id, user_id: input.user_id });
+
+    return {
+      success: true,
+      message: 'User banned from channel'
+    };
+  } catch (error) {
+    console.error('Failed to ban member:', error);
+    throw error;
+  }
+}
+
+export async function unbanMember(input: ModerateMemberInput, userId: number): Promise<ModerationResult> {
+  try {
+    const { actor } = await getMemberships(input.channel_id, userId, input.user_id);
+    const refused = refusal(actor, undefined, 'unban');
+    if (refused) {
+      return { success: false, message: refused };
+    }
+
+    const deleted = await db.delete(channelBansTable)
+      .where(and(
+        eq(channelBansTable.channel_id, input.channel_id),
+        eq(channelBansTable.user_id, input.user_id),
+        activeBanCondition()
+      ))
+      .returning({ id: channelBansTable.id })
+      .execute();
+
+    if (deleted.length === 0) {
+      return {
+        success: false,
+        message: 'User is not banned from this channel'
+      };
+    }
+
+    await recordAuditEvent({ channel_id: input.channel_id, actor_id: userId, action: 'member_unbanned', target_user_id: input.user_id });
+
+    return {
+      success: true,
+      message: 'User unbanned from channel'
+    };
+  } catch (error) {
+    console.error('Failed to unban member:', error);
+    throw error;
+  }
+}
+
+// Muted members stay in the channel and can read it, but cannot post until the mute runs out
+export async function muteMember(input: MuteMemberInput, userId: number): Promise<ModerationResult> {
+  return setMutedUntil(input, userId, new Date(Date.now() + input.duration_minutes * 60 * 1000), input.duration_minutes);
+}
+
+export async function unmuteMember(input: ModerateMemberInput, userId: number): Promise<ModerationResult> {
+  return setMutedUntil(input, userId, null);
+}
+
+async function setMutedUntil(input: ModerateMemberInput, userId: number, mutedUntil: Date | null, durationMinutes?: number): Promise<ModerationResult> {
+  const verb = mutedUntil ? 'mute' : 'unmute';
+  try {
+    if (input.user_id === userId) {
+      return {
+        success: false,
+        message: `You cannot ${verb} yourself`
+      };
+    }
+
+    const { actor, target } = await getMemberships(input.channel_id, userId, input.user_id);
+    const refused = refusal(actor, target, verb);
+    if (refused) {
+      return { success: false, message: refused };
+    }
+    if (!target) {
+      return {
+        success: false,
+        message: 'User is not a member of this channel'
+      };
+    }
+
+    await db.update(channelMembersTable)
+      .set({ muted_until: mutedUntil })
+      .where(and(
+        eq(channelMembersTable.channel_id, input.channel_id),
+        eq(channelMembersTable.user_id, input.user_id)
+      ))
+      .execute();
+
+    await recordAuditEvent({
+      channel_id: input.channel_id,
+      actor_id: userId,
+      action: mutedUntil ? 'member_muted' : 'member_unmuted',
+      target_user_id: input.user_id,
+      details: mutedUntil ? { duration_minutes: durationMinutes ?? null } : undefined
+    });
+
+    return {
+      success: true,
+      message: mutedUntil ? 'Member muted' : 'Member unmuted'
+    };
+  } catch (error) {
+    console.error(`Failed to ${verb} member:`, error);
+    throw error;
+  }
+}
+
+// Active bans, newest first; visible to owners and admins only
+export async function getChannelBans(channelId: number, userId: number): Promise<ChannelBan[]> {
+  try {
+    const { actor } = await getMemberships(channelId, userId, userId);
+    if (!actor || actor.role === 'member') {
+      throw new Error('Only channel owners and admins can see bans');
+    }
+
+    const bans = await db.select({
+      id: usersTable.id,
+      username: usersTable.username,
+      avatar_url: usersTable.avatar_url,
+      banned_by: channelBansTable.banned_by,
+      expires_at: channelBansTable.expires_at,
+      created_at: channelBansTable.created_at
+    })
+      .from(channelBansTable)
+      .innerJoin(usersTable, eq(channelBansTable.user_id, usersTable.id))
+      .where(and(eq(channelBansTable.channel_id, channelId), activeBanCondition()))
+      .orderBy(desc(channelBansTable.created_at), desc(channelBansTable.id))
+      .execute();
+
+    return bans.map(ban => ({
+      user: { id: ban.id, username: ban.username, avatar_url: ban.avatar_url },
+      banned_by: ban.banned_by,
+      expires_at: ban.expires_at,
+      created_at: ban.created_at
+    }));
+  } catch (error) {
+    console.error('Failed to get channel bans:', error);
+    throw error;
+  }
+}
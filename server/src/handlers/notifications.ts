@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { notificationsTable, usersTable, chatChannelsTable, chatMessagesTable, type NewNotification } from '../db/schema';
+import { type Notification, type NotificationPage, type ListNotificationsInput, type MarkNotificationsReadInput } from '../schema';
+import { publish, subscribe } from '../events';
+import { eq, and, desc, lt, inArray, isNull, isNotNull, notExists, sql, SQL } from 'drizzle-orm';
+
+// Long messages are cut down to this many characters in the inbox
+const EXCERPT_LENGTH = 140;
+
+// Notifications of deleted messages are hidden until the message is restored or purged
+const notDeletedMessage = notExists(
+  db.select({ id: chatMessagesTable.id })
+    .from(chatMessagesTable)
+    .where(and(eq(chatMessagesTable.id, notificationsTable.message_id), isNotNull(chatMessagesTable.deleted_at)))
+);
+
+function selectNotifications() {
+  return db.select({
+    id: notificationsTable.id,
+    type: notificationsTable.type,
+    actor: {
+      id: usersTable.id,
+      username: usersTable.username,
+      avatar_url: usersTable.avatar_url
+    },
+    channel_id: notificationsTable.channel_id,
+    channel_name: chatChannelsTable.name,
+    message_id: notificationsTable.message_id,
+    excerpt: sql<string | null>`left(${chatMessagesTable.content}, ${EXCERPT_LENGTH})`,
+    is_read: sql<boolean>`${notificationsTable.read_at} is not null`,
+    created_at: notificationsTable.created_at
+  })
+    .from(notificationsTable)
+    .innerJoin(usersTable, eq(notificationsTable.actor_id, usersTable.id))
+    .innerJoin(chatChannelsTable, eq(notificationsTable.channel_id, chatChannelsTable.id))
+    .leftJoin(chatMessagesTable, eq(notificationsTable.message_id, chatMessagesTable.id))
+    .$dynamic();
+}
+
+// Stores notifications and pushes them to their recipients' open subscriptions
+export async function notify(entries: NewNotification[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const inserted = await db.insert(notificationsTable)
+    .values(entries)
+    .returning({ id: notificationsTable.id, user_id: notificationsTable.user_id })
+    .execute();
+
+  const notifications = await selectNotifications()
+    .where(inArray(notificationsTable.id, inserted.map(row => row.id)))
+    .execute();
+  const byId = new Map(notifications.map(notification => [notification.id, notification]));
+
+  for (const { id, user_id } of inserted) {
+    const notification = byId.get(id);
+    if (notification) {
+      publish('notificationCreated', { user_id, notification });
+    }
+  }
+}
+
+export async function getUnreadNotificationCount(userId: number): Promise<number> {
+  try {
+    const result = await db.select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(notificationsTable)
+      .where(and(
+        eq(notificationsTable.user_id, userId),
+        isNull(notificationsTable.read_at),
+        notDeletedMessage
+      ))
+      .execute();
+
+    return result[0].count;
+  } catch (error) {
+    console.error('Failed to count unread notifications:', error);
+    throw error;
+  }
+}
+
+// The user's inbox, newest first
+export async function listNotifications(input: ListNotificationsInput, userId: number): Promise<NotificationPage> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(notificationsTable.user_id, userId), notDeletedMessage];
+    if (input.before !== undefined) {
+      conditions.push(lt(notificationsTable.id, input.before));
+    }
+    if (input.unread_only) {
+      conditions.push(isNull(notificationsTable.read_at));
+    }
+
+    const rows = await selectNotifications()
+      .where(and(...conditions))
+      .orderBy(desc(notificationsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const notifications = rows.slice(0, input.limit);
+    const nextCursor = rows.length > input.limit ? notifications[notifications.length - 1].id : null;
+
+    return { notifications, nextCursor };
+  } catch (error) {
+    console.error('Failed to list notifications:', error);
+    throw error;
+  }
+}
+
+// Ids of other users' notifications are ignored
+export async function markNotificationsRead(input: MarkNotificationsReadInput, userId: number): Promise<{ unread_count: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(notificationsTable.user_id, userId),
+      isNull(notificationsTable.read_at)
+    ];
+    if (input.ids !== undefined) {
+      conditions.push(inArray(notificationsTable.id, input.ids));
+    }
+
+    await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(...conditions))
+      .execute();
+
+    return { unread_count: await getUnreadNotificationCount(userId) };
+  } catch (error) {
+    console.error('Marking notifications read failed:', error);
+    throw error;
+  }
+}
+
+// Streams the user's new notifications as they are created
+export async function* onNotification(userId: number, signal?: AbortSignal): AsyncGenerator<Notification> {
+  const events = subscribe('notificationCreated', signal);
+  try {
+    for await (const [{ user_id, notification }] of events) {
+      if (user_id === userId) {
+        yield notification;
+      }
+    }
+  } finally {
+    await events.return?.();
+  }
+}
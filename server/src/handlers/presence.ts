@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { usersTable, presenceConnectionsTable } from '../db/schema';
+import { type HeartbeatInput, type PresenceStatus, type PreferredStatus, type PublicUser } from '../schema';
+import { publish, subscribe } from '../events';
+import { eq, and, gte, lt, or, isNull, notExists } from 'drizzle-orm';
+
+// A connection that has not sent a heartbeat for this long is considered closed
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+function liveCutoff(): Date {
+  return new Date(Date.now() - PRESENCE_TIMEOUT_MS);
+}
+
+function resolveStatus(preferred: PreferredStatus, liveConnections: { is_idle: boolean }[]): PresenceStatus {
+  if (liveConnections.length === 0 || preferred === 'invisible') {
+    return 'offline';
+  }
+  // Someone who is nominally online but idle on every device shows as away
+  if (preferred === 'online' && liveConnections.every(connection => connection.is_idle)) {
+    return 'away';
+  }
+  return preferred;
+}
+
+// Recomputes a user's visible status from their live connections and broadcasts it when it changes
+export async function refreshPresence(userId: number): Promise<PublicUser | null> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      return null;
+    }
+
+    const user = users[0];
+
+    const liveConnections = await db.select()
+      .from(presenceConnectionsTable)
+      .where(and(
+        eq(presenceConnectionsTable.user_id, userId),
+        gte(presenceConnectionsTable.last_heartbeat_at, liveCutoff())
+      ))
+      .execute();
+
+    const status = resolveStatus(user.preferred_status, liveConnections);
+    const publicUser: PublicUser = {
+      id: user.id,
+      username: user.username,
+      avatar_url: user.avatar_url,
+      is_online: status !== 'offline',
+      status,
+      last_seen: user.last_seen
+    };
+
+    if (status === user.status && publicUser.is_online === user.is_online) {
+      return publicUser;
+    }
+
+    const now = new Date();
+    await db.update(usersTable)
+      .set({
+        status,
+        is_online: publicUser.is_online,
+        last_seen: now,
+        updated_at: now
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    publicUser.last_seen = now;
+    publish('presenceChanged', publicUser);
+    return publicUser;
+  } catch (error) {
+    console.error('Presence refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function heartbeat(input: HeartbeatInput, userId: number, sessionId: number | null): Promise<PublicUser | null> {
+  try {
+    const now = new Date();
+    await db.insert(presenceConnectionsTable)
+      .values({
+        user_id: userId,
+        session_id: sessionId,
+        connection_id: input.connection_id,
+        is_idle: input.is_idle,
+        last_heartbeat_at: now
+      })
+      .onConflictDoUpdate({
+        target: [presenceConnectionsTable.user_id, presenceConnectionsTable.connection_id],
+        set: {
+          session_id: sessionId,
+          is_idle: input.is_idle,
+          last_heartbeat_at: now
+        }
+      })
+      .execute();
+
+    return await refreshPresence(userId);
+  } catch (error) {
+    console.error('Presence heartbeat failed:', error);
+    throw error;
+  }
+}
+
+// Explicit goodbye from a closing tab, so it does not linger until the timeout
+export async function disconnect(connectionId: string, userId: number): Promise<PublicUser | null> {
+  try {
+    await db.delete(presenceConnectionsTable)
+      .where(and(
+        eq(presenceConnectionsTable.user_id, userId),
+        eq(presenceConnectionsTable.connection_id, connectionId)
+      ))
+      .execute();
+
+    return await refreshPresence(userId);
+  } catch (error) {
+    console.error('Presence disconnect failed:', error);
+    throw error;
+  }
+}
+
+// Drops every connection opened under a session, e.g. on logout
+export async function disconnectSession(sessionId: number, userId: number): Promise<PublicUser | null> {
+  try {
+    await db.delete(presenceConnectionsTable)
+      .where(and(
+        eq(presenceConnectionsTable.user_id, userId),
+        eq(presenceConnectionsTable.session_id, sessionId)
+      ))
+      .execute();
+
+    return await refreshPresence(userId);
+  } catch (error) {
+    console.error('Presence session disconnect failed:', error);
+    throw error;
+  }
+}
+
+// Periodic sweep: removes timed-out connections and takes their users offline.
+// Also catches users still flagged online without any live connection (e.g. logged in, then never heartbeated).
+export async function expireStalePresence(): Promise<PublicUser[]> {
+  try {
+    const cutoff = liveCutoff();
+
+    const expired = await db.delete(presenceConnectionsTable)
+      .where(lt(presenceConnectionsTable.last_heartbeat_at, cutoff))
+      .returning({ user_id: presenceConnectionsTable.user_id })
+      .execute();
+
+    const orphaned = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.is_online, true),
+        or(isNull(usersTable.last_seen), lt(usersTable.last_seen, cutoff)),
+        notExists(
+          db.select()
+            .from(presenceConnectionsTable)
+            .where(eq(presenceConnectionsTable.user_id, usersTable.id))
+        )
+      ))
+      .execute();
+
+    const userIds = [...new Set([
+      ...expired.map(row => row.user_id),
+      ...orphaned.map(row => row.id)
+    ])];
+
+    const refreshed: PublicUser[] = [];
+    for (const userId of userIds) {
+      const user = await refreshPresence(userId);
+      if (user) {
+        refreshed.push(user);
+      }
+    }
+
+    return refreshed;
+  } catch (error) {
+    console.error('Presence sweep failed:', error);
+    throw error;
+  }
+}
+
+export async function* onPresenceChange(signal?: AbortSignal): AsyncGenerator<PublicUser> {
+  const events = subscribe('presenceChanged', signal);
+  try {
+    for await (const [user] of events) {
+      yield user;
+    }
+  } finally {
+    await events.return?.();
+  }
+}
@@ -1,96 +1,115 @@
 import { db } from '../db';
 import { chatChannelsTable, channelMembersTable, chatMessagesTable, usersTable } from '../db/schema';
-import { type ChatChannel, type PublicUser } from '../schema';
-import { eq, and, or, desc, ne, SQL } from 'drizzle-orm';
+import { type ChatChannel, type PublicUser, type PrivateChat, type CreateGroupChatInput, MAX_GROUP_CHAT_PARTICIPANTS } from '../schema';
+import { eq, and, or, desc, ne, inArray, isNull, sql } from 'drizzle-orm';
+import { getUnreadCounts } from './read-receipts';
+import { recordAuditEvent } from './audit';
+import { notify } from './notifications';
+import { isBanned } from './moderation';
+import { assertChannelWritable, getMembersByChannel, DIRECT_CHAT_KINDS } from './channels';
 
-export async function createPrivateChat(userId: number, otherUserId: number): Promise<ChatChannel> {
-  try {
-    // Check if private chat already exists between these two users
-    const existingChat = await db.select({
-      channel: chatChannelsTable
-    })
+// Display names list this many usernames before summarising the rest as "+N"
+const DISPLAY_NAME_USERNAMES = 3;
+
+// The DM whose members are exactly the given users, if there is one
+async function findChatWithParticipants(participantIds: number[]): Promise<ChatChannel | null> {
+  const chats = await db.select({ channel: chatChannelsTable })
     .from(chatChannelsTable)
-    .innerJoin(
-      channelMembersTable, 
-      eq(chatChannelsTable.id, channelMembersTable.channel_id)
-    )
-    .where(
-      and(
-        eq(chatChannelsTable.is_private, true),
-        or(
-          eq(channelMembersTable.user_id, userId),
-          eq(channelMembersTable.user_id, otherUserId)
-        )
-      )
-    )
+    .innerJoin(channelMembersTable, eq(chatChannelsTable.id, channelMembersTable.channel_id))
+    .where(eq(chatChannelsTable.kind, participantIds.length === 2 ? 'dm' : 'group_dm'))
+    .groupBy(chatChannelsTable.id)
+    .having(and(
+      sql`count(*) = ${participantIds.length}`,
+      sql`count(*) filter (where ${inArray(channelMembersTable.user_id, participantIds)}) = ${participantIds.length}`
+    ))
+    .limit(1)
     .execute();
 
-    // Group by channel and check if both users are members
-    const channelCounts = new Map<number, Set<number>>();
-    existingChat.forEach(result => {
-      const channelId = result.channel.id;
-      if (!channelCounts.has(channelId)) {
-        channelCounts.set(channelId, new Set());
-      }
-      // Get the user_id from the members table by querying again
-    });
+  return chats.length > 0 ? chats[0].channel : null;
+}
 
-    // Find existing private chat with both users
-    for (const result of existingChat) {
-      const channelId = result.channel.id;
-      const members = await db.select()
-        .from(channelMembersTable)
-        .where(eq(channelMembersTable.channel_id, channelId))
-        .execute();
-
-      const memberIds = new Set(members.map(m => m.user_id));
-      if (memberIds.has(userId) && memberIds.has(otherUserId) && memberIds.size === 2) {
-        return result.channel;
-      }
-    }
+// Finds or creates the DM between the creator and the other users; only new DMs notify anyone
+async function findOrCreateChat(creatorId: number, otherUserIds: number[]): Promise<ChatChannel> {
+  const existingChat = await findChatWithParticipants([creatorId, ...otherUserIds]);
+  if (existingChat) {
+    return existingChat;
+  }
 
-    // Create new private channel if none exists
-    const newChannelResult = await db.insert(chatChannelsTable)
+  const newChannel = await db.transaction(async (tx) => {
+    const newChannelResult = await tx.insert(chatChannelsTable)
       .values({
-        name: '', // Private chats typically don't have names
+        name: '', // DMs are named after their participants when listed
         description: null,
         is_private: true,
-        created_by: userId
+        kind: otherUserIds.length === 1 ? 'dm' : 'group_dm',
+        created_by: creatorId
       })
       .returning()
       .execute();
 
-    const newChannel = newChannelResult[0];
-
-    // Add both users as members
-    await db.insert(channelMembersTable)
+    await tx.insert(channelMembersTable)
       .values([
-        {
-          channel_id: newChannel.id,
-          user_id: userId,
-          role: 'owner'
-        },
-        {
-          channel_id: newChannel.id,
-          user_id: otherUserId,
-          role: 'member'
-        }
+        { channel_id: newChannelResult[0].id, user_id: creatorId, role: 'owner' as const },
+        ...otherUserIds.map(user_id => ({ channel_id: newChannelResult[0].id, user_id, role: 'member' as const }))
       ])
       .execute();
 
-    return newChannel;
+    await recordAuditEvent({ channel_id: newChannelResult[0].id, actor_id: creatorId, action: 'channel_created' }, tx);
+
+    return newChannelResult[0];
+  });
+
+  await notify(otherUserIds.map(user_id => ({ user_id, type: 'dm_invite' as const, actor_id: creatorId, channel_id: newChannel.id })));
+
+  return newChannel;
+}
+
+function chatDisplayName(usernames: string[]): string {
+  const named = usernames.slice(0, DISPLAY_NAME_USERNAMES).join(', ');
+  const rest = usernames.length - DISPLAY_NAME_USERNAMES;
+  return rest > 0 ? `${named} +${rest}` : named;
+}
+
+export async function createPrivateChat(userId: number, otherUserId: number): Promise<ChatChannel> {
+  try {
+    return await findOrCreateChat(userId, [otherUserId]);
   } catch (error) {
     console.error('Private chat creation failed:', error);
     throw error;
   }
 }
 
-export async function getPrivateChats(userId: number): Promise<Array<ChatChannel & { otherUser: PublicUser; lastMessage?: { content: string; created_at: Date } }>> {
+// Starts a group DM, or returns the one these exact participants already share
+export async function createGroupChat(input: CreateGroupChatInput, userId: number): Promise<ChatChannel> {
+  try {
+    const otherUserIds = [...new Set(input.userIds)].filter(id => id !== userId);
+    const participantCount = otherUserIds.length + 1;
+
+    if (participantCount < 3 || participantCount > MAX_GROUP_CHAT_PARTICIPANTS) {
+      throw new Error(`A group DM needs 3 to ${MAX_GROUP_CHAT_PARTICIPANTS} participants`);
+    }
+
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(inArray(usersTable.id, otherUserIds))
+      .execute();
+
+    if (users.length !== otherUserIds.length) {
+      throw new Error('User not found');
+    }
+
+    return await findOrCreateChat(userId, otherUserIds);
+  } catch (error) {
+    console.error('Group chat creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getPrivateChats(userId: number): Promise<PrivateChat[]> {
   try {
     // Get all private channels where user is a member
     const privateChannels = await db.select({
-      channel: chatChannelsTable,
-      member: channelMembersTable
+      channel: chatChannelsTable
     })
     .from(chatChannelsTable)
     .innerJoin(
@@ -99,60 +118,46 @@ export async function getPrivateChats(userId: number): Promise<Array<ChatChannel
     )
     .where(
       and(
-        eq(chatChannelsTable.is_private, true),
+        inArray(chatChannelsTable.kind, DIRECT_CHAT_KINDS),
         eq(channelMembersTable.user_id, userId)
       )
     )
     .execute();
 
+    const channelIds = privateChannels.map(({ channel }) => channel.id);
+    const unreadCounts = await getUnreadCounts(userId, channelIds);
+    const participantsByChannel = await getMembersByChannel(channelIds, undefined, userId);
+
+    // The newest message of every chat in one query
+    const lastMessages = channelIds.length === 0 ? [] : await db.selectDistinctOn([chatMessagesTable.channel_id], {
+      channel_id: chatMessagesTable.channel_id,
+      content: chatMessagesTable.content,
+      created_at: chatMessagesTable.created_at
+    })
+      .from(chatMessagesTable)
+      .where(and(inArray(chatMessagesTable.channel_id, channelIds), isNull(chatMessagesTable.deleted_at)))
+      .orderBy(chatMessagesTable.channel_id, desc(chatMessagesTable.id))
+      .execute();
+    const lastMessageByChannel = new Map(lastMessages.map(({ channel_id, ...message }) => [channel_id, message]));
+
     const result = [];
 
     for (const { channel } of privateChannels) {
-      // Get the other user in this private chat
-      const otherMembers = await db.select({
-        user: usersTable,
-        member: channelMembersTable
-      })
-      .from(channelMembersTable)
-      .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
-      .where(
-        and(
-          eq(channelMembersTable.channel_id, channel.id),
-          ne(channelMembersTable.user_id, userId)
-        )
-      )
-      .execute();
+      const participants = (participantsByChannel.get(channel.id) ?? [])
+        .sort((a, b) => a.username.localeCompare(b.username));
 
       // Skip if no other user found (shouldn't happen in valid private chats)
-      if (otherMembers.length === 0) continue;
-
-      const otherUser: PublicUser = {
-        id: otherMembers[0].user.id,
-        username: otherMembers[0].user.username,
-        avatar_url: otherMembers[0].user.avatar_url,
-        is_online: otherMembers[0].user.is_online,
-        last_seen: otherMembers[0].user.last_seen
-      };
-
-      // Get the last message from this chat
-      const lastMessages = await db.select()
-        .from(chatMessagesTable)
-        .where(eq(chatMessagesTable.channel_id, channel.id))
-        .orderBy(desc(chatMessagesTable.created_at))
-        .limit(1)
-        .execute();
-
-      const lastMessage = lastMessages.length > 0 
-        ? {
-            content: lastMessages[0].content,
-            created_at: lastMessages[0].created_at
-          }
-        : undefined;
+      if (participants.length === 0) continue;
 
       result.push({
         ...channel,
-        otherUser,
-        lastMessage
+        display_name: channel.name || chatDisplayName(participants.map(user => user.username)),
+        participants,
+        otherUser: participants[0],
+        member_count: participants.length + 1,
+        lastMessage: lastMessageByChannel.get(channel.id),
+        unread_count: unreadCounts.get(channel.id)?.unread_count ?? 0,
+        mention_count: unreadCounts.get(channel.id)?.mention_count ?? 0
       });
     }
 
@@ -170,7 +175,7 @@ export async function getPrivateChats(userId: number): Promise<Array<ChatChannel
 
 export async function getPrivateChatUsers(channelId: number, currentUserId: number): Promise<PublicUser[]> {
   try {
-    // Verify the channel is private and user has access
+    // Verify the channel is a DM and user has access
     const channelAccess = await db.select()
       .from(chatChannelsTable)
       .innerJoin(
@@ -180,7 +185,7 @@ export async function getPrivateChatUsers(channelId: number, currentUserId: numb
       .where(
         and(
           eq(chatChannelsTable.id, channelId),
-          eq(chatChannelsTable.is_private, true),
+          inArray(chatChannelsTable.kind, DIRECT_CHAT_KINDS),
           eq(channelMembersTable.user_id, currentUserId)
         )
       )
@@ -210,6 +215,7 @@ export async function getPrivateChatUsers(channelId: number, currentUserId: numb
       username: user.username,
       avatar_url: user.avatar_url,
       is_online: user.is_online,
+      status: user.status,
       last_seen: user.last_seen
     }));
   } catch (error) {
@@ -218,7 +224,8 @@ export async function getPrivateChatUsers(channelId: number, currentUserId: numb
   }
 }
 
-export async function addUserToPrivateChat(channelId: number, userId: number, targetUserId: number): Promise<{ success: boolean; message: string }> {
+// Adding someone to a 1:1 DM starts a group DM with all three instead; channel_id is where the user ended up
+export async function addUserToPrivateChat(channelId: number, userId: number, targetUserId: number): Promise<{ success: boolean; message: string; channel_id?: number }> {
   try {
     // Verify user has permission to add others (is owner/admin)
     const userPermission = await db.select()
@@ -228,7 +235,7 @@ export async function addUserToPrivateChat(channelId: number, userId: number, ta
         and(
           eq(channelMembersTable.channel_id, channelId),
           eq(channelMembersTable.user_id, userId),
-          eq(chatChannelsTable.is_private, true),
+          ne(chatChannelsTable.kind, 'public'),
           or(
             eq(channelMembersTable.role, 'owner'),
             eq(channelMembersTable.role, 'admin')
@@ -264,6 +271,15 @@ export async function addUserToPrivateChat(channelId: number, userId: number, ta
       };
     }
 
+    await assertChannelWritable(channelId);
+
+    if (await isBanned(channelId, targetUserId)) {
+      return {
+        success: false,
+        message: 'User is banned from this chat'
+      };
+    }
+
     // Verify target user exists
     const targetUser = await db.select()
       .from(usersTable)
@@ -278,6 +294,28 @@ export async function addUserToPrivateChat(channelId: number, userId: number, ta
       };
     }
 
+    const members = await db.select({ user_id: channelMembersTable.user_id })
+      .from(channelMembersTable)
+      .where(eq(channelMembersTable.channel_id, channelId))
+      .execute();
+
+    const kind = userPermission[0].chat_channels.kind;
+    if (kind === 'dm') {
+      const otherUserIds = members.map(member => member.user_id).filter(id => id !== userId);
+      const groupChat = await findOrCreateChat(userId, [...otherUserIds, targetUserId]);
+      return {
+        success: true,
+        message: 'Started a group DM',
+        channel_id: groupChat.id
+      };
+    }
+    if (kind === 'group_dm' && members.length >= MAX_GROUP_CHAT_PARTICIPANTS) {
+      return {
+        success: false,
+        message: `Group DMs are limited to ${MAX_GROUP_CHAT_PARTICIPANTS} participants`
+      };
+    }
+
     // Add target user to channel_members table
     await db.insert(channelMembersTable)
       .values({
@@ -287,9 +325,14 @@ export async function addUserToPrivateChat(channelId: number, userId: number, ta
       })
       .execute();
 
+    await recordAuditEvent({ channel_id: channelId, actor_id: userId, action: 'member_added', target_user_id: targetUserId });
+
+    await notify([{ user_id: targetUserId, type: 'dm_invite', actor_id: userId, channel_id: channelId }]);
+
     return {
       success: true,
-      message: 'User added to private chat successfully'
+      message: 'User added to private chat successfully',
+      channel_id: channelId
     };
   } catch (error) {
     console.error('Failed to add user to private chat:', error);
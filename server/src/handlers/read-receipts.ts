@@ -0,0 +1,181 @@
+import { db } from '../db';
+import { channelMembersTable, chatMessagesTable, messageMentionsTable, usersTable } from '../db/schema';
+import { type MarkReadInput, type ReadReceipt, type UnreadCount } from '../schema';
+import { publish, subscribe, channelEvents } from '../events';
+import { eq, and, ne, gt, desc, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+
+async function findMembership(channelId: number, userId: number) {
+  const membership = await db.select({
+    id: channelMembersTable.id,
+    last_read_message_id: channelMembersTable.last_read_message_id,
+    username: usersTable.username
+  })
+    .from(channelMembersTable)
+    .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
+    .where(and(
+      eq(channelMembersTable.channel_id, channelId),
+      eq(channelMembersTable.user_id, userId)
+    ))
+    .limit(1)
+    .execute();
+
+  if (membership.length === 0) {
+    throw new Error('User does not have access to this channel');
+  }
+  return membership[0];
+}
+
+// Read positions only move forward, so a late call from a stale tab cannot mark messages unread again
+export async function markRead(input: MarkReadInput, userId: number): Promise<ReadReceipt | null> {
+  try {
+    const membership = await findMembership(input.channel_id, userId);
+
+    const target = await db.select({ id: chatMessagesTable.id })
+      .from(chatMessagesTable)
+      .where(input.message_id !== undefined
+        ? and(eq(chatMessagesTable.id, input.message_id), eq(chatMessagesTable.channel_id, input.channel_id))
+        : eq(chatMessagesTable.channel_id, input.channel_id))
+      .orderBy(desc(chatMessagesTable.id))
+      .limit(1)
+      .execute();
+
+    if (target.length === 0) {
+      if (input.message_id !== undefined) {
+        throw new Error('Message not found in this channel');
+      }
+      return null; // Nothing to read yet
+    }
+
+    const result = await db.update(channelMembersTable)
+      .set({
+        last_read_message_id: sql`greatest(coalesce(${channelMembersTable.last_read_message_id}, 0), ${target[0].id})`
+      })
+      .where(eq(channelMembersTable.id, membership.id))
+      .returning({ last_read_message_id: channelMembersTable.last_read_message_id })
+      .execute();
+
+    const receipt: ReadReceipt = {
+      channel_id: input.channel_id,
+      user_id: userId,
+      username: membership.username,
+      last_read_message_id: result[0].last_read_message_id!
+    };
+
+    if (receipt.last_read_message_id !== membership.last_read_message_id) {
+      publish('readReceipt', receipt);
+    }
+    return receipt;
+  } catch (error) {
+    console.error('Marking channel read failed:', error);
+    throw error;
+  }
+}
+
+// Unread and mention counts for userId in each of channelIds they belong to, in one query.
+// Mentions come from message_mentions, so @channel and @here count too.
+export async function getUnreadCounts(userId: number, channelIds: number[]): Promise<Map<number, UnreadCount>> {
+  if (channelIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db.select({
+    channel_id: channelMembersTable.channel_id,
+    unread_count: sql<number>`count(${chatMessagesTable.id})`.mapWith(Number),
+    mention_count: sql<number>`count(${chatMessagesTable.id}) filter (where exists (
+      select 1 from ${messageMentionsTable}
+      where ${messageMentionsTable.message_id} = ${chatMessagesTable.id} and ${messageMentionsTable.user_id} = ${userId}
+    ))`.mapWith(Number)
+  })
+    .from(channelMembersTable)
+    .leftJoin(chatMessagesTable, and(
+      eq(chatMessagesTable.channel_id, channelMembersTable.channel_id),
+      gt(chatMessagesTable.id, sql`coalesce(${channelMembersTable.last_read_message_id}, 0)`),
+      ne(chatMessagesTable.user_id, userId),
+      isNull(chatMessagesTable.deleted_at)
+    ))
+    .where(and(
+      eq(channelMembersTable.user_id, userId),
+      inArray(channelMembersTable.channel_id, channelIds)
+    ))
+    .groupBy(channelMembersTable.channel_id)
+    .execute();
+
+  return new Map(rows.map(row => [row.channel_id, row]));
+}
+
+// How far the other members of a channel have read
+export async function getReadReceipts(channelId: number, userId: number): Promise<ReadReceipt[]> {
+  try {
+    await findMembership(channelId, userId);
+
+    const receipts = await db.select({
+      channel_id: channelMembersTable.channel_id,
+      user_id: channelMembersTable.user_id,
+      username: usersTable.username,
+      last_read_message_id: channelMembersTable.last_read_message_id
+    })
+      .from(channelMembersTable)
+      .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
+      .where(and(
+        eq(channelMembersTable.channel_id, channelId),
+        ne(channelMembersTable.user_id, userId),
+        isNotNull(channelMembersTable.last_read_message_id)
+      ))
+      .execute();
+
+    return receipts.map(receipt => ({ ...receipt, last_read_message_id: receipt.last_read_message_id! }));
+  } catch (error) {
+    console.error('Failed to get read receipts:', error);
+    throw error;
+  }
+}
+
+// Streams read position changes of other members in a channel
+export async function* onReadReceipt(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<ReadReceipt> {
+  try {
+    for await (const receipt of channelEvents('readReceipt', channelId, userId, signal)) {
+      if (receipt.user_id !== userId) {
+        yield receipt;
+      }
+    }
+  } catch (error) {
+    console.error('Read receipt subscription failed:', error);
+    throw error;
+  }
+}
+
+// Tells the channel's other members that it has a new message for them, so each subscriber can tell from
+// the event alone whether to look up its counts
+export async function publishUnreadChanged(channelId: number, authorId: number): Promise<void> {
+  try {
+    const members = await db.select({ user_id: channelMembersTable.user_id })
+      .from(channelMembersTable)
+      .where(and(eq(channelMembersTable.channel_id, channelId), ne(channelMembersTable.user_id, authorId)))
+      .execute();
+
+    publish('unreadChanged', { channel_id: channelId, user_ids: members.map(member => member.user_id) });
+  } catch (error) {
+    // The message is already saved; clients catch up on their counts when they next load the channel list
+    console.error('Publishing unread counts failed:', error);
+  }
+}
+
+// Streams fresh counts for any of the user's channels that receive a message from someone else.
+// Reads are not streamed; the client that marks a channel read already knows its count is zero.
+export async function* onUnreadChanged(userId: number, signal?: AbortSignal): AsyncGenerator<UnreadCount> {
+  const events = subscribe('unreadChanged', signal);
+  try {
+    for await (const [{ channel_id, user_ids }] of events) {
+      if (!user_ids.includes(userId)) {
+        continue;
+      }
+      const counts = await getUnreadCounts(userId, [channel_id]);
+      const count = counts.get(channel_id);
+      if (count) {
+        yield count;
+      }
+    }
+  } finally {
+    await events.return?.();
+  }
+}
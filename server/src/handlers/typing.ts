@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { channelMembersTable, usersTable } from '../db/schema';
+import { type TypingInput, type TypingEvent } from '../schema';
+import { publish, channelEvents } from '../events';
+import { eq, and } from 'drizzle-orm';
+
+// How long a "typing" signal lasts without being refreshed by the client
+export const TYPING_TTL_MS = 5 * 1000;
+
+// Pending expiry per `${channelId}:${userId}`; only lives in this process, like the event bus
+const typingTimers = new Map<string, { timer: ReturnType<typeof setTimeout>; event: TypingEvent }>();
+
+function typingKey(channelId: number, userId: number): string {
+  return `${channelId}:${userId}`;
+}
+
+// Ends a typing signal early, e.g. when the message is sent
+export function clearTyping(channelId: number, userId: number): void {
+  const key = typingKey(channelId, userId);
+  const entry = typingTimers.get(key);
+  if (!entry) {
+    return;
+  }
+  clearTimeout(entry.timer);
+  typingTimers.delete(key);
+  publish('typing', { ...entry.event, is_typing: false });
+}
+
+export async function setTyping(input: TypingInput, userId: number, ttlMs: number = TYPING_TTL_MS): Promise<{ success: boolean }> {
+  try {
+    // Only members may signal typing, and the event carries their username
+    const membership = await db.select({ username: usersTable.username })
+      .from(channelMembersTable)
+      .innerJoin(usersTable, eq(channelMembersTable.user_id, usersTable.id))
+      .where(and(
+        eq(channelMembersTable.channel_id, input.channel_id),
+        eq(channelMembersTable.user_id, userId)
+      ))
+      .limit(1)
+      .execute();
+
+    if (membership.length === 0) {
+      throw new Error('User is not a member of this channel');
+    }
+
+    if (!input.is_typing) {
+      clearTyping(input.channel_id, userId);
+      return { success: true };
+    }
+
+    const event: TypingEvent = {
+      channel_id: input.channel_id,
+      user_id: userId,
+      username: membership[0].username,
+      is_typing: true
+    };
+
+    const key = typingKey(input.channel_id, userId);
+    const existing = typingTimers.get(key);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    typingTimers.set(key, {
+      timer: setTimeout(() => clearTyping(input.channel_id, userId), ttlMs),
+      event
+    });
+
+    publish('typing', event);
+    return { success: true };
+  } catch (error) {
+    console.error('Typing update failed:', error);
+    throw error;
+  }
+}
+
+// Streams typing changes of other members in a channel
+export async function* onTyping(channelId: number, userId: number, signal?: AbortSignal): AsyncGenerator<TypingEvent> {
+  try {
+    for await (const event of channelEvents('typing', channelId, userId, signal)) {
+      if (event.user_id !== userId) {
+        yield event;
+      }
+    }
+  } catch (error) {
+    console.error('Typing subscription failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,393 @@
+import http, { type IncomingHttpHeaders } from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { db } from '../db';
+import { linkPreviewsTable, type LinkPreview as LinkPreviewRow } from '../db/schema';
+import { type LinkPreview } from '../schema';
+import { eq, and, gt } from 'drizzle-orm';
+
+export const MAX_UNFURL_REDIRECTS = 3;
+// Open Graph tags live in <head>, well within this; the rest of the page is never read
+export const MAX_UNFURL_BYTES = 512 * 1024;
+export const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+// Dead links are retried sooner than working ones are refreshed
+export const FAILED_PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+// For the whole unfurl, redirects included
+const UNFURL_TIMEOUT_MS = 5000;
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; ChatApp/1.0; Link Preview Bot)';
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface UnfurlOptions {
+  // Addresses exempt from the internal range check, such as a stand-in server in tests
+  trustedAddresses?: string[];
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges, plus the documentation networks.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 rules by BlockList itself.
+const internalRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  internalRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001::', 23], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  internalRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return internalRanges.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function isAllowedAddress(address: string, options: UnfurlOptions): boolean {
+  return !isBlockedAddress(address) || (options.trustedAddresses ?? []).includes(address);
+}
+
+// The cache key: only http(s), no credentials, and without the fragment, which never reaches the server
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https links are unfurled');
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error('Links with credentials are not unfurled');
+  }
+  parsed.hash = '';
+  // `search` reads as '' for a bare '?', and setting it drops the '?' from the href
+  if (!parsed.search) {
+    parsed.search = '';
+  }
+  return parsed.href;
+}
+
+// Checks every address a host resolves to at connect time, so a second lookup cannot swap in an internal one
+function guardedLookup(options: UnfurlOptions): LookupFunction {
+  return (hostname, lookupOptions, callback) => {
+    dns.lookup(hostname, { ...lookupOptions, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      if (addresses.length === 0 || addresses.some(({ address }) => !isAllowedAddress(address, options))) {
+        callback(new Error(`${hostname} resolves to an internal address`), '', 0);
+        return;
+      }
+      if (lookupOptions.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+interface FetchedResponse {
+  url: URL;
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// A single GET without following redirects. Bodies are only read for 2xx responses, and only up to MAX_UNFURL_BYTES.
+function requestOnce(url: URL, options: UnfurlOptions, deadline: number, accept: string): Promise<FetchedResponse> {
+  return new Promise((resolve, reject) => {
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (isIP(host) && !isAllowedAddress(host, options)) {
+      reject(new Error(`${host} is an internal address`));
+      return;
+    }
+
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request({
+      protocol: url.protocol,
+      hostname: host,
+      port: url.port || undefined,
+      path: `${url.pathname}${url.search}`,
+      method: 'GET',
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': accept,
+        // Compressed bodies would let a small response expand past the byte cap
+        'Accept-Encoding': 'identity'
+      },
+      lookup: guardedLookup(options)
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        finish({ url, status, headers: response.headers, body: Buffer.alloc(0) });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const done = () => finish({ url, status, headers: response.headers, body: Buffer.concat(chunks, size) });
+      response.on('data', (chunk: Buffer) => {
+        const room = MAX_UNFURL_BYTES - size;
+        chunks.push(chunk.length > room ? chunk.subarray(0, room) : chunk);
+        size += Math.min(chunk.length, room);
+        if (size >= MAX_UNFURL_BYTES) {
+          response.destroy();
+          done();
+        }
+      });
+      response.on('end', done);
+      response.on('error', fail);
+    });
+
+    const timer = setTimeout(() => request.destroy(new Error('Link preview timed out')), Math.max(deadline - Date.now(), 0));
+    function finish(result: FetchedResponse) {
+      clearTimeout(timer);
+      resolve(result);
+    }
+    function fail(error: Error) {
+      clearTimeout(timer);
+      reject(error);
+    }
+
+    request.on('error', fail);
+    request.end();
+  });
+}
+
+// Follows up to MAX_UNFURL_REDIRECTS redirects; every hop goes through the same address checks
+async function fetchUrl(url: string, options: UnfurlOptions, deadline: number, accept: string): Promise<FetchedResponse> {
+  let current = new URL(normalizeUrl(url));
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestOnce(current, options, deadline, accept);
+    if (!REDIRECT_STATUSES.has(response.status)) {
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`HTTP ${response.status} from ${current.href}`);
+      }
+      return response;
+    }
+
+    const location = response.headers.location;
+    if (!location) {
+      throw new Error(`Redirect without a location from ${current.href}`);
+    }
+    if (redirects >= MAX_UNFURL_REDIRECTS) {
+      throw new Error(`More than ${MAX_UNFURL_REDIRECTS} redirects from ${url}`);
+    }
+    current = new URL(normalizeUrl(new URL(location, current).href));
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…', mdash: '—',
+  ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«',
+  raquo: '»', middot: '·', bull: '•', copy: '©', reg: '®', trade: '™'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      const isValid = codePoint > 0 && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+      return isValid ? String.fromCodePoint(codePoint) : '�';
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(text: string | undefined, maxLength: number): string | null {
+  if (!text) {
+    return null;
+  }
+  const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!cleaned) {
+    return null;
+  }
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+}
+
+// Image urls may be relative to the page; anything that is not http(s) afterwards is dropped
+function resolveImage(image: string | undefined, base: URL): string | null {
+  if (!image) {
+    return null;
+  }
+  try {
+    const resolved = new URL(decodeEntities(image.trim()), base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+    const name = match[1].toLowerCase();
+    if (!attributes.has(name)) {
+      attributes.set(name, match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+}
+
+interface ParsedPage {
+  meta: Map<string, string>;
+  title: string | undefined;
+  oembedUrl: string | undefined;
+}
+
+// Reads <meta>, <link> and <title> tags in any attribute order, ignoring scripts, styles and comments
+export function parseHtml(html: string): ParsedPage {
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  const meta = new Map<string, string>();
+  let oembedUrl: string | undefined;
+  for (const match of markup.matchAll(/<(meta|link)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi)) {
+    const attributes = parseAttributes(match[2]);
+    if (match[1].toLowerCase() === 'meta') {
+      const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+      const content = attributes.get('content');
+      if (key && content !== undefined && !meta.has(key)) {
+        meta.set(key, content);
+      }
+    } else if (!oembedUrl && attributes.get('type')?.toLowerCase() === 'application/json+oembed' && attributes.get('href')) {
+      oembedUrl = decodeEntities(attributes.get('href')!);
+    }
+  }
+
+  const title = markup.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+  return { meta, title, oembedUrl };
+}
+
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset\s*=\s*["']?([\w-]+)/i)?.[1]
+    ?? body.subarray(0, 1024).toString('latin1').match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1]
+    ?? 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+interface OEmbed {
+  title?: unknown;
+  provider_name?: unknown;
+  thumbnail_url?: unknown;
+  type?: unknown;
+  url?: unknown;
+}
+
+async function fetchOEmbed(url: string, base: URL, options: UnfurlOptions, deadline: number): Promise<OEmbed> {
+  try {
+    const response = await fetchUrl(new URL(url, base).href, options, deadline, 'application/json');
+    const data: unknown = JSON.parse(response.body.toString('utf-8'));
+    return data && typeof data === 'object' ? data as OEmbed : {};
+  } catch (error) {
+    console.error('oEmbed lookup failed:', error);
+    return {};
+  }
+}
+
+const stringOrUndefined = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+type PreviewData = Omit<LinkPreview, 'url'>;
+
+// Open Graph first, then Twitter Card tags, then oEmbed (only fetched when the page left gaps), then plain HTML
+export async function fetchPreview(url: string, options: UnfurlOptions = {}): Promise<PreviewData> {
+  const deadline = Date.now() + UNFURL_TIMEOUT_MS;
+  const response = await fetchUrl(url, options, deadline, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1');
+  const contentType = String(response.headers['content-type'] ?? '').toLowerCase();
+
+  if (contentType.startsWith('image/')) {
+    return { title: null, description: null, image: response.url.href, site_name: null };
+  }
+  if (!contentType.includes('html')) {
+    return { title: null, description: null, image: null, site_name: null };
+  }
+
+  const { meta, title, oembedUrl } = parseHtml(decodeBody(response.body, contentType));
+  let preview: PreviewData = {
+    title: cleanText(meta.get('og:title') ?? meta.get('twitter:title'), MAX_TITLE_LENGTH),
+    description: cleanText(meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description'), MAX_DESCRIPTION_LENGTH),
+    image: resolveImage(meta.get('og:image') ?? meta.get('og:image:url') ?? meta.get('twitter:image') ?? meta.get('twitter:image:src'), response.url),
+    site_name: cleanText(meta.get('og:site_name'), MAX_TITLE_LENGTH)
+  };
+
+  if (oembedUrl && (!preview.title || !preview.image || !preview.site_name)) {
+    const oembed = await fetchOEmbed(oembedUrl, response.url, options, deadline);
+    const oembedImage = stringOrUndefined(oembed.thumbnail_url) ?? (oembed.type === 'photo' ? stringOrUndefined(oembed.url) : undefined);
+    preview = {
+      ...preview,
+      title: preview.title ?? cleanText(stringOrUndefined(oembed.title), MAX_TITLE_LENGTH),
+      image: preview.image ?? resolveImage(oembedImage, response.url),
+      site_name: preview.site_name ?? cleanText(stringOrUndefined(oembed.provider_name), MAX_TITLE_LENGTH)
+    };
+  }
+
+  return { ...preview, title: preview.title ?? cleanText(title, MAX_TITLE_LENGTH) };
+}
+
+function toLinkPreview(row: LinkPreviewRow, url: string): LinkPreview {
+  return { title: row.title, description: row.description, image: row.image, site_name: row.site_name, url };
+}
+
+async function fetchAndCache(key: string, options: UnfurlOptions): Promise<LinkPreviewRow> {
+  let data: PreviewData;
+  let ttl = PREVIEW_TTL_MS;
+  try {
+    data = await fetchPreview(key, options);
+  } catch (error) {
+    console.error('Link unfurling failed:', error);
+    data = { title: null, description: null, image: null, site_name: null };
+    ttl = FAILED_PREVIEW_TTL_MS;
+  }
+
+  const fetchedAt = new Date();
+  const values = { ...data, fetched_at: fetchedAt, expires_at: new Date(fetchedAt.getTime() + ttl) };
+  const rows = await db.insert(linkPreviewsTable)
+    .values({ url: key, ...values })
+    .onConflictDoUpdate({ target: linkPreviewsTable.url, set: values })
+    .returning()
+    .execute();
+
+  return rows[0];
+}
+
+// Concurrent unfurls of one link share a single fetch
+const pendingUnfurls = new Map<string, Promise<LinkPreviewRow>>();
+
+// Never throws: links that cannot be unfurled get a preview without any data
+export async function unfurlLink(url: string, options: UnfurlOptions = {}): Promise<LinkPreview> {
+  try {
+    const key = normalizeUrl(url);
+
+    const cached = await db.select()
+      .from(linkPreviewsTable)
+      .where(and(eq(linkPreviewsTable.url, key), gt(linkPreviewsTable.expires_at, new Date())))
+      .limit(1)
+      .execute();
+    if (cached.length > 0) {
+      return toLinkPreview(cached[0], url);
+    }
+
+    let pending = pendingUnfurls.get(key);
+    if (!pending) {
+      pending = fetchAndCache(key, options).finally(() => pendingUnfurls.delete(key));
+      pendingUnfurls.set(key, pending);
+    }
+    return toLinkPreview(await pending, url);
+  } catch (error) {
+    console.error('Link unfurling failed:', error);
+    return { title: null, description: null, image: null, site_name: null, url };
+  }
+}
@@ -0,0 +1,167 @@
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import sharp from 'sharp';
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { attachmentsTable, type Attachment as AttachmentRow } from '../db/schema';
+import { type Attachment, type UploadInput } from '../schema';
+import { getStorage, isValidStorageKey, type StoredObject } from '../storage';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // Matches the proxy's request body limit
+export const UPLOAD_ROUTE_PREFIX = '/uploads/';
+
+const THUMBNAIL_SIZE = 320;
+// Rejects decompression bombs before sharp allocates the decoded image
+const MAX_INPUT_PIXELS = 40_000_000;
+
+type ImageType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+const EXTENSIONS: Record<ImageType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+// The declared Content-Type and file name are client-controlled, so the type is read from the magic bytes
+function sniffImageType(data: Buffer): ImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1'))) {
+    return 'image/gif';
+  }
+  if (data.length >= 12 && data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+// Re-encoding drops EXIF/XMP/ICC metadata (sharp keeps none unless asked); orientation is applied to the pixels first
+async function sanitizeImage(data: Buffer, type: ImageType): Promise<{ data: Buffer; width: number; height: number }> {
+  const image = sharp(data, { limitInputPixels: MAX_INPUT_PIXELS, animated: type === 'image/gif' }).rotate();
+  const encoded = type === 'image/jpeg' ? image.jpeg({ quality: 90 })
+    : type === 'image/png' ? image.png()
+    : type === 'image/gif' ? image.gif()
+    : image.webp();
+  const output = await encoded.toBuffer();
+  const metadata = await sharp(output).metadata();
+  return {
+    data: output,
+    width: metadata.width ?? 0,
+    // Animated images report the height of all frames stacked
+    height: metadata.pageHeight ?? metadata.height ?? 0
+  };
+}
+
+function createThumbnail(data: Buffer): Promise<Buffer> {
+  return sharp(data)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+// Keys are random so stored files cannot be enumerated; they also serve as the public file names
+function createStorageKey(extension: string): string {
+  return `${randomBytes(16).toString('hex')}.${extension}`;
+}
+
+export function toAttachment(row: Pick<AttachmentRow, 'id' | 'filename' | 'content_type' | 'size_bytes' | 'width' | 'height' | 'storage_key' | 'thumbnail_key' | 'created_at'>): Attachment {
+  return {
+    id: row.id,
+    filename: row.filename,
+    content_type: row.content_type,
+    size_bytes: row.size_bytes,
+    width: row.width,
+    height: row.height,
+    url: `${UPLOAD_ROUTE_PREFIX}${row.storage_key}`,
+    thumbnail_url: `${UPLOAD_ROUTE_PREFIX}${row.thumbnail_key}`,
+    created_at: row.created_at
+  };
+}
+
+// Stores an image for userId to attach to a message later; see sendMessage.
+// Rejections are TRPCErrors so the upload route can answer with the matching HTTP status.
+export async function createAttachment(input: UploadInput, userId: number): Promise<Attachment> {
+  try {
+    if (input.data.length === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Uploaded file is empty' });
+    }
+    if (input.data.length > MAX_UPLOAD_BYTES) {
+      throw new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit` });
+    }
+
+    const type = sniffImageType(input.data);
+    if (!type) {
+      throw new TRPCError({
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+        message: 'Unsupported file type; only JPEG, PNG, GIF and WebP images can be uploaded'
+      });
+    }
+
+    let image: { data: Buffer; width: number; height: number };
+    let thumbnail: Buffer;
+    try {
+      image = await sanitizeImage(input.data, type);
+      thumbnail = await createThumbnail(image.data);
+    } catch (error) {
+      console.error('Image processing failed:', error);
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'File is not a valid image' });
+    }
+
+    const storageKey = createStorageKey(EXTENSIONS[type]);
+    const thumbnailKey = createStorageKey('webp');
+    const storage = getStorage();
+    await storage.putObject(storageKey, image.data, type);
+    await storage.putObject(thumbnailKey, thumbnail, 'image/webp');
+
+    const result = await db.insert(attachmentsTable)
+      .values({
+        user_id: userId,
+        storage_key: storageKey,
+        thumbnail_key: thumbnailKey,
+        // Only the base name is kept; it is shown to other users
+        filename: path.basename(input.filename.replace(/\\/g, '/')),
+        content_type: type,
+        size_bytes: image.data.length,
+        width: image.width,
+        height: image.height
+      })
+      .returning()
+      .execute();
+
+    return toAttachment(result[0]);
+  } catch (error) {
+    console.error('Attachment creation failed:', error);
+    throw error;
+  }
+}
+
+// Files are served to anyone holding the key, since <img> requests carry no bearer token
+export async function readUpload(key: string): Promise<StoredObject | null> {
+  try {
+    if (!isValidStorageKey(key)) {
+      return null;
+    }
+    return await getStorage().getObject(key);
+  } catch (error) {
+    console.error('Upload read failed:', error);
+    throw error;
+  }
+}
+
+// Called once the attachment rows are gone; a failure only leaves unreachable files behind
+export async function deleteStoredFiles(rows: Pick<AttachmentRow, 'storage_key' | 'thumbnail_key'>[]): Promise<void> {
+  const storage = getStorage();
+  for (const row of rows) {
+    try {
+      await storage.deleteObject(row.storage_key);
+      await storage.deleteObject(row.thumbnail_key);
+    } catch (error) {
+      console.error('Stored file deletion failed:', error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type PublicUser, type UpdateUserStatusInput } from '../schema';
+import { refreshPresence } from './presence';
 import { eq, ne, asc, desc, ilike, and } from 'drizzle-orm';
 
 export async function getOnlineUsers(): Promise<PublicUser[]> {
@@ -10,6 +11,7 @@ export async function getOnlineUsers(): Promise<PublicUser[]> {
             username: usersTable.username,
             avatar_url: usersTable.avatar_url,
             is_online: usersTable.is_online,
+            status: usersTable.status,
             last_seen: usersTable.last_seen
         })
         .from(usersTable)
@@ -32,6 +34,7 @@ export async function getAllUsers(currentUserId: number): Promise<PublicUser[]>
             username: usersTable.username,
             avatar_url: usersTable.avatar_url,
             is_online: usersTable.is_online,
+            status: usersTable.status,
             last_seen: usersTable.last_seen
         })
         .from(usersTable)
@@ -53,6 +56,7 @@ export async function searchUsers(query: string, currentUserId: number): Promise
             username: usersTable.username,
             avatar_url: usersTable.avatar_url,
             is_online: usersTable.is_online,
+            status: usersTable.status,
             last_seen: usersTable.last_seen
         })
         .from(usersTable)
@@ -71,22 +75,23 @@ export async function searchUsers(query: string, currentUserId: number): Promise
     }
 }
 
-export async function updateUserStatus(input: UpdateUserStatusInput, userId: number): Promise<{ success: boolean; message: string }> {
+export async function updateUserStatus(input: UpdateUserStatusInput, userId: number): Promise<{ success: boolean; message: string; user: PublicUser | null }> {
     try {
-        const now = new Date();
-        
         await db.update(usersTable)
             .set({
-                is_online: input.is_online,
-                last_seen: now,
-                updated_at: now
+                preferred_status: input.status,
+                updated_at: new Date()
             })
             .where(eq(usersTable.id, userId))
             .execute();
 
+        // The visible status also depends on which devices are connected
+        const user = await refreshPresence(userId);
+
         return {
             success: true,
-            message: 'User status updated successfully'
+            message: 'User status updated successfully',
+            user
         };
     } catch (error) {
         console.error('Failed to update user status:', error);
@@ -116,6 +121,7 @@ export async function updateUserProfile(userId: number, updates: { username?: st
                 username: usersTable.username,
                 avatar_url: usersTable.avatar_url,
                 is_online: usersTable.is_online,
+                status: usersTable.status,
                 last_seen: usersTable.last_seen
             })
             .execute();
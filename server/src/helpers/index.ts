@@ -2,8 +2,10 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { settleBackgroundUnfurls } from '../handlers/messages';
 
 export const resetDB = async () => {
+  await settleBackgroundUnfurls();
   await db.execute(sql`drop schema if exists public cascade`);
   await db.execute(sql`create schema public`);
   await db.execute(sql`drop schema if exists drizzle cascade`);
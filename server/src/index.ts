@@ -1,5 +1,7 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler, type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import { WebSocketServer, type WebSocket } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -9,30 +11,79 @@ import { z } from 'zod';
 import {
   signupInputSchema,
   loginInputSchema,
+  refreshTokenInputSchema,
   createChannelInputSchema,
   sendMessageInputSchema,
   getMessagesInputSchema,
+  getThreadInputSchema,
+  searchMessagesInputSchema,
+  reactInputSchema,
   updateMessageInputSchema,
+  removeLinkPreviewInputSchema,
   joinChannelInputSchema,
-  updateUserStatusInputSchema
+  updateUserStatusInputSchema,
+  heartbeatInputSchema,
+  typingInputSchema,
+  markReadInputSchema,
+  listNotificationsInputSchema,
+  markNotificationsReadInputSchema,
+  executeCommandInputSchema,
+  moderateMemberInputSchema,
+  setMemberRoleInputSchema,
+  banMemberInputSchema,
+  muteMemberInputSchema,
+  updateChannelInputSchema,
+  archiveChannelInputSchema,
+  createInviteInputSchema,
+  inviteCodeInputSchema,
+  createGroupChatInputSchema,
+  getAuditLogInputSchema
 } from './schema';
 
 // Import handlers
-import { signup, login, logout, getCurrentUser } from './handlers/auth';
+import { signup, login, refresh, logout, getCurrentUser, verifyToken, isSessionActive, assertAuthConfigured } from './handlers/auth';
 import { 
   createChannel, 
   getPublicChannels, 
   getUserChannels, 
   joinChannel, 
   leaveChannel, 
-  getChannelMembers 
+  getChannelMembers,
+  updateChannel,
+  archiveChannel,
+  deleteChannel
 } from './handlers/channels';
+import {
+  removeChannelMember,
+  setMemberRole,
+  banMember,
+  unbanMember,
+  muteMember,
+  unmuteMember,
+  getChannelBans
+} from './handlers/moderation';
+import { createInvite, revokeInvite, listInvites, getInvitePreview, acceptInvite } from './handlers/invites';
+import { setTyping, onTyping } from './handlers/typing';
+import { unfurlLink } from './handlers/unfurl';
+import { getAuditLog } from './handlers/audit';
+import { markRead, getReadReceipts, onReadReceipt, onUnreadChanged } from './handlers/read-receipts';
 import { 
   sendMessage, 
   getMessages, 
+  getThread,
+  getMessageHistory,
+  searchMessages,
   updateMessage, 
   deleteMessage, 
-  unfurlLink 
+  restoreMessage,
+  purgeDeletedMessages,
+  removeLinkPreview,
+  onNewMessage,
+  onMessageUpdated,
+  onMessageDeleted,
+  onReactionChanged,
+  addReaction,
+  removeReaction
 } from './handlers/messages';
 import { 
   getOnlineUsers, 
@@ -41,31 +92,112 @@ import {
   updateUserStatus, 
   updateUserProfile 
 } from './handlers/users';
+import { 
+  heartbeat, 
+  disconnect, 
+  expireStalePresence, 
+  onPresenceChange 
+} from './handlers/presence';
 import { 
   createPrivateChat, 
+  createGroupChat,
   getPrivateChats, 
   getPrivateChatUsers, 
   addUserToPrivateChat 
 } from './handlers/private-chat';
+import {
+  listNotifications,
+  markNotificationsRead,
+  getUnreadNotificationCount,
+  onNotification
+} from './handlers/notifications';
+import { listCommands, executeCommand } from './handlers/commands';
+import { isUploadRoute, handleUploadRequest } from './upload-routes';
+import { backfillChannelKinds, backfillLinkPreviews } from './db/backfill';
+import { subscribe } from './events';
+
+// Resolve the calling user from the bearer token in the Authorization header.
+// Browsers cannot set headers on a WebSocket, so socket clients send it as connectionParams.token instead.
+function createContext({ req, info }: CreateHTTPContextOptions | CreateWSSContextFnOptions) {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : info.connectionParams?.['token'] ?? null;
+  const payload = token ? verifyToken(token) : null;
+  return {
+    userId: payload ? payload.userId : null,
+    sessionId: payload ? payload.sessionId : null,
+    tokenExpiresAt: payload ? payload.expiresAt : null,
+  };
+}
+
+// A socket is authenticated once but can stay open for hours. When its token expires the client is told to
+// reconnect, which sends a fresh token, and when its session is revoked the socket is closed.
+function createWSContext(opts: CreateWSSContextFnOptions) {
+  const ctx = createContext(opts);
+  if (ctx.sessionId !== null && ctx.tokenExpiresAt !== null) {
+    const socket = opts.res;
+    const expiryTimer = setTimeout(() => {
+      socket.send(JSON.stringify({ id: null, method: 'reconnect' }));
+      socket.close();
+    }, ctx.tokenExpiresAt.getTime() - Date.now());
+    opts.info.signal.addEventListener('abort', () => clearTimeout(expiryTimer));
+    void closeOnSessionRevoked(socket, ctx.sessionId, opts.info.signal);
+  }
+  return ctx;
+}
+
+async function closeOnSessionRevoked(socket: WebSocket, sessionId: number, signal: AbortSignal) {
+  const events = subscribe('sessionRevoked', signal);
+  try {
+    for await (const [{ session_id }] of events) {
+      if (session_id === sessionId) {
+        socket.close();
+        return;
+      }
+    }
+  } catch {
+    // The socket closed first
+  } finally {
+    await events.return?.();
+  }
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
-// Mock authentication middleware - replace with proper JWT verification
-const authenticatedProcedure = publicProcedure.use(async ({ next, ctx }) => {
-  // This is a placeholder! Real implementation should:
-  // 1. Extract JWT token from Authorization header
-  // 2. Verify and decode the token
-  // 3. Add user ID to context
-  const userId = 1; // Placeholder user ID
+// Rejects requests without a valid token and narrows ctx.userId/sessionId to numbers.
+// Socket contexts live as long as the connection, so expiry is checked again here and subscriptions also check the session.
+const authenticatedProcedure = publicProcedure.use(async ({ next, ctx, type }) => {
+  if (ctx.userId === null || ctx.sessionId === null) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Missing or invalid authentication token',
+    });
+  }
+  if (ctx.tokenExpiresAt !== null && ctx.tokenExpiresAt <= new Date()) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Authentication token has expired',
+    });
+  }
+  if (type === 'subscription' && !(await isSessionActive(ctx.sessionId))) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Session is no longer active',
+    });
+  }
   return next({
     ctx: {
       ...ctx,
-      userId,
+      userId: ctx.userId,
+      sessionId: ctx.sessionId,
     },
   });
 });
@@ -86,8 +218,12 @@ const appRouter = router({
       .input(loginInputSchema)
       .mutation(({ input }) => login(input)),
     
+    refresh: publicProcedure
+      .input(refreshTokenInputSchema)
+      .mutation(({ input }) => refresh(input)),
+    
     logout: authenticatedProcedure
-      .mutation(({ ctx }) => logout(ctx.userId)),
+      .mutation(({ ctx }) => logout(ctx.userId, ctx.sessionId)),
     
     getCurrentUser: authenticatedProcedure
       .query(({ ctx }) => getCurrentUser(ctx.userId)),
@@ -112,10 +248,97 @@ const appRouter = router({
     leave: authenticatedProcedure
       .input(z.object({ channelId: z.number() }))
       .mutation(({ input, ctx }) => leaveChannel(input.channelId, ctx.userId)),
+
+    update: authenticatedProcedure
+      .input(updateChannelInputSchema)
+      .mutation(({ input, ctx }) => updateChannel(input, ctx.userId)),
+
+    archive: authenticatedProcedure
+      .input(archiveChannelInputSchema)
+      .mutation(({ input, ctx }) => archiveChannel(input, ctx.userId)),
+
+    delete: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .mutation(({ input, ctx }) => deleteChannel(input.channelId, ctx.userId)),
+
+    createInvite: authenticatedProcedure
+      .input(createInviteInputSchema)
+      .mutation(({ input, ctx }) => createInvite(input, ctx.userId)),
+
+    revokeInvite: authenticatedProcedure
+      .input(inviteCodeInputSchema)
+      .mutation(({ input, ctx }) => revokeInvite(input, ctx.userId)),
+
+    listInvites: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .query(({ input, ctx }) => listInvites(input.channelId, ctx.userId)),
+
+    previewInvite: authenticatedProcedure
+      .input(inviteCodeInputSchema)
+      .query(({ input, ctx }) => getInvitePreview(input, ctx.userId)),
+
+    acceptInvite: authenticatedProcedure
+      .input(inviteCodeInputSchema)
+      .mutation(({ input, ctx }) => acceptInvite(input, ctx.userId)),
     
     getMembers: authenticatedProcedure
       .input(z.object({ channelId: z.number() }))
       .query(({ input, ctx }) => getChannelMembers(input.channelId, ctx.userId)),
+
+    setRole: authenticatedProcedure
+      .input(setMemberRoleInputSchema)
+      .mutation(({ input, ctx }) => setMemberRole(input, ctx.userId)),
+
+    kick: authenticatedProcedure
+      .input(moderateMemberInputSchema)
+      .mutation(({ input, ctx }) => removeChannelMember(input.channel_id, ctx.userId, input.user_id)),
+
+    ban: authenticatedProcedure
+      .input(banMemberInputSchema)
+      .mutation(({ input, ctx }) => banMember(input, ctx.userId)),
+
+    unban: authenticatedProcedure
+      .input(moderateMemberInputSchema)
+      .mutation(({ input, ctx }) => unbanMember(input, ctx.userId)),
+
+    getBans: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .query(({ input, ctx }) => getChannelBans(input.channelId, ctx.userId)),
+
+    getAuditLog: authenticatedProcedure
+      .input(getAuditLogInputSchema)
+      .query(({ input, ctx }) => getAuditLog(input, ctx.userId)),
+
+    mute: authenticatedProcedure
+      .input(muteMemberInputSchema)
+      .mutation(({ input, ctx }) => muteMember(input, ctx.userId)),
+
+    unmute: authenticatedProcedure
+      .input(moderateMemberInputSchema)
+      .mutation(({ input, ctx }) => unmuteMember(input, ctx.userId)),
+    
+    typing: authenticatedProcedure
+      .input(typingInputSchema)
+      .mutation(({ input, ctx }) => setTyping(input, ctx.userId)),
+    
+    onTyping: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onTyping(input.channelId, ctx.userId, signal)),
+
+    markRead: authenticatedProcedure
+      .input(markReadInputSchema)
+      .mutation(({ input, ctx }) => markRead(input, ctx.userId)),
+
+    getReadReceipts: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .query(({ input, ctx }) => getReadReceipts(input.channelId, ctx.userId)),
+
+    onRead: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onReadReceipt(input.channelId, ctx.userId, signal)),
+
+    onUnread: authenticatedProcedure
+      .subscription(({ ctx, signal }) => onUnreadChanged(ctx.userId, signal)),
   }),
 
   // Message management routes
@@ -128,17 +351,61 @@ const appRouter = router({
       .input(getMessagesInputSchema)
       .query(({ input, ctx }) => getMessages(input, ctx.userId)),
     
+    getThread: authenticatedProcedure
+      .input(getThreadInputSchema)
+      .query(({ input, ctx }) => getThread(input.message_id, ctx.userId)),
+    
+    search: authenticatedProcedure
+      .input(searchMessagesInputSchema)
+      .query(({ input, ctx }) => searchMessages(input, ctx.userId)),
+    
     update: authenticatedProcedure
       .input(updateMessageInputSchema)
       .mutation(({ input, ctx }) => updateMessage(input, ctx.userId)),
+
+    getHistory: authenticatedProcedure
+      .input(z.object({ messageId: z.number() }))
+      .query(({ input, ctx }) => getMessageHistory(input.messageId, ctx.userId)),
+
+    removeLinkPreview: authenticatedProcedure
+      .input(removeLinkPreviewInputSchema)
+      .mutation(({ input, ctx }) => removeLinkPreview(input, ctx.userId)),
     
     delete: authenticatedProcedure
       .input(z.object({ messageId: z.number() }))
       .mutation(({ input, ctx }) => deleteMessage(input.messageId, ctx.userId)),
+
+    restore: authenticatedProcedure
+      .input(z.object({ messageId: z.number() }))
+      .mutation(({ input, ctx }) => restoreMessage(input.messageId, ctx.userId)),
+    
+    react: authenticatedProcedure
+      .input(reactInputSchema)
+      .mutation(({ input, ctx }) => addReaction(input, ctx.userId)),
+    
+    unreact: authenticatedProcedure
+      .input(reactInputSchema)
+      .mutation(({ input, ctx }) => removeReaction(input, ctx.userId)),
     
-    unfurlLink: publicProcedure
+    unfurlLink: authenticatedProcedure
       .input(z.object({ url: z.string().url() }))
       .query(({ input }) => unfurlLink(input.url)),
+
+    onNew: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onNewMessage(input.channelId, ctx.userId, signal)),
+
+    onUpdate: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onMessageUpdated(input.channelId, ctx.userId, signal)),
+
+    onDelete: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onMessageDeleted(input.channelId, ctx.userId, signal)),
+
+    onReaction: authenticatedProcedure
+      .input(z.object({ channelId: z.number() }))
+      .subscription(({ input, ctx, signal }) => onReactionChanged(input.channelId, ctx.userId, signal)),
   }),
 
   // User management routes
@@ -165,11 +432,29 @@ const appRouter = router({
       .mutation(({ input, ctx }) => updateUserProfile(ctx.userId, input)),
   }),
 
+  // Presence routes (clients heartbeat while open; the server sweeps stale connections)
+  presence: router({
+    heartbeat: authenticatedProcedure
+      .input(heartbeatInputSchema)
+      .mutation(({ input, ctx }) => heartbeat(input, ctx.userId, ctx.sessionId)),
+    
+    disconnect: authenticatedProcedure
+      .input(z.object({ connection_id: z.string().min(1) }))
+      .mutation(({ input, ctx }) => disconnect(input.connection_id, ctx.userId)),
+    
+    onChange: authenticatedProcedure
+      .subscription(({ signal }) => onPresenceChange(signal)),
+  }),
+
   // Private chat routes
   privateChats: router({
     create: authenticatedProcedure
       .input(z.object({ otherUserId: z.number() }))
       .mutation(({ input, ctx }) => createPrivateChat(ctx.userId, input.otherUserId)),
+
+    createGroup: authenticatedProcedure
+      .input(createGroupChatInputSchema)
+      .mutation(({ input, ctx }) => createGroupChat(input, ctx.userId)),
     
     get: authenticatedProcedure
       .query(({ ctx }) => getPrivateChats(ctx.userId)),
@@ -182,29 +467,96 @@ const appRouter = router({
       .input(z.object({ channelId: z.number(), targetUserId: z.number() }))
       .mutation(({ input, ctx }) => addUserToPrivateChat(input.channelId, ctx.userId, input.targetUserId)),
   }),
+
+  // Notification inbox routes
+  notifications: router({
+    list: authenticatedProcedure
+      .input(listNotificationsInputSchema)
+      .query(({ input, ctx }) => listNotifications(input, ctx.userId)),
+
+    markRead: authenticatedProcedure
+      .input(markNotificationsReadInputSchema)
+      .mutation(({ input, ctx }) => markNotificationsRead(input, ctx.userId)),
+
+    unreadCount: authenticatedProcedure
+      .query(({ ctx }) => getUnreadNotificationCount(ctx.userId)),
+
+    onNew: authenticatedProcedure
+      .subscription(({ ctx, signal }) => onNotification(ctx.userId, signal)),
+  }),
+
+  // Slash command routes
+  commands: router({
+    list: authenticatedProcedure
+      .query(() => listCommands()),
+
+    execute: authenticatedProcedure
+      .input(executeCommandInputSchema)
+      .mutation(({ input, ctx }) => executeCommand(input, ctx.userId)),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
 
+const PRESENCE_SWEEP_INTERVAL_MS = 30 * 1000;
+const DELETED_MESSAGE_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
 async function start() {
+  assertAuthConfigured();
+  const backfilled = await backfillChannelKinds();
+  if (backfilled > 0) {
+    console.log(`Set the kind of ${backfilled} channels created before channel kinds`);
+  }
+  const movedPreviews = await backfillLinkPreviews();
+  if (movedPreviews > 0) {
+    console.log(`Moved ${movedPreviews} link previews stored on their messages`);
+  }
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (isUploadRoute(req)) {
+          handleUploadRequest(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+  // Subscriptions share the HTTP port; the socket upgrade arrives on the same server
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext: createWSContext,
   });
   server.listen(port);
+  // Take users offline once their clients stop sending heartbeats
+  setInterval(() => {
+    expireStalePresence().catch(() => {
+      // Already logged by the handler; the next sweep retries
+    });
+  }, PRESENCE_SWEEP_INTERVAL_MS);
+  // Hard-delete messages once their retention period is over
+  setInterval(() => {
+    purgeDeletedMessages().catch(() => {
+      // Already logged by the handler; the next run retries
+    });
+  }, DELETED_MESSAGE_PURGE_INTERVAL_MS);
   console.log(`TRPC Chat Server listening at port: ${port}`);
   console.log('Available routes:');
-  console.log('- Authentication: /auth/signup, /auth/login, /auth/logout, /auth/getCurrentUser');
-  console.log('- Channels: /channels/create, /channels/getPublic, /channels/getUserChannels, /channels/join, /channels/leave, /channels/getMembers');
-  console.log('- Messages: /messages/send, /messages/get, /messages/update, /messages/delete, /messages/unfurlLink');
+  console.log('- Authentication: /auth/signup, /auth/login, /auth/refresh, /auth/logout, /auth/getCurrentUser');
+  console.log('- Channels: /channels/create, /channels/getPublic, /channels/getUserChannels, /channels/join, /channels/leave, /channels/update, /channels/archive, /channels/delete, /channels/createInvite, /channels/revokeInvite, /channels/listInvites, /channels/previewInvite, /channels/acceptInvite, /channels/getMembers, /channels/setRole, /channels/kick, /channels/ban, /channels/unban, /channels/getBans, /channels/getAuditLog, /channels/mute, /channels/unmute, /channels/typing, /channels/onTyping, /channels/markRead, /channels/getReadReceipts, /channels/onRead, /channels/onUnread');
+  console.log('- Messages: /messages/send, /messages/get, /messages/getThread, /messages/getHistory, /messages/search, /messages/update, /messages/delete, /messages/restore, /messages/react, /messages/unreact, /messages/removeLinkPreview, /messages/unfurlLink');
+  console.log('- Subscriptions (WebSocket): /messages/onNew, /messages/onUpdate, /messages/onDelete, /messages/onReaction');
   console.log('- Users: /users/getOnline, /users/getAll, /users/search, /users/updateStatus, /users/updateProfile');
-  console.log('- Private Chats: /privateChats/create, /privateChats/get, /privateChats/getUsers, /privateChats/addUser');
+  console.log('- Presence: /presence/heartbeat, /presence/disconnect, /presence/onChange (WebSocket)');
+  console.log('- Uploads (HTTP): POST /uploads, GET /uploads/:key');
+  console.log('- Private Chats: /privateChats/create, /privateChats/createGroup, /privateChats/get, /privateChats/getUsers, /privateChats/addUser');
+  console.log('- Notifications: /notifications/list, /notifications/markRead, /notifications/unreadCount, /notifications/onNew (WebSocket)');
+  console.log('- Commands: /commands/list, /commands/execute');
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,292 @@
+import { type BlockNode, type InlineNode } from './schema';
+
+// Quotes and emphasis nested deeper than this are kept as plain text
+const MAX_QUOTE_DEPTH = 5;
+const MAX_INLINE_DEPTH = 8;
+
+// C0 controls other than tab and newline, DEL, and the bidi overrides that can make text read differently than it is stored
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000B-\u001F\u007F\u202A-\u202E\u2066-\u2069]/g;
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})[ \t]*([\w+#.-]*)[ \t]*$/;
+const QUOTE_LINE = /^ {0,3}> ?(.*)$/;
+// Sticky, so matching at a position does not copy the rest of the text
+const URL_AT = /https?:\/\/[^\s<>]+/iy;
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+const WHITESPACE = /\s/;
+
+// Line endings, Unicode composition and trailing whitespace are made uniform, so equal-looking messages are stored equal
+export function normalizeContent(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARACTERS, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+// Parses the supported subset: **bold**, *italic* or _italic_, `code`, ``` fenced blocks ```, > quotes and http(s) links.
+// Everything else, HTML included, stays literal text.
+export function parseMarkdown(content: string): BlockNode[] {
+  return parseBlocks(content.split('\n'), 0);
+}
+
+function isQuoteLine(line: string, depth: number): boolean {
+  return depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line);
+}
+
+function isFenceClose(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return line.length - line.trimStart().length <= 3
+    && trimmed.length >= marker.length
+    && [...trimmed].every(char => char === marker[0]);
+}
+
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !isFenceClose(lines[index], fence[1])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++; // The closing fence; an unclosed block runs to the end
+      blocks.push({ type: 'code_block', language: fence[2] ? fence[2].toLowerCase() : null, code: code.join('\n') });
+      continue;
+    }
+
+    if (isQuoteLine(line, depth)) {
+      const quoted: string[] = [];
+      while (index < lines.length && isQuoteLine(lines[index], depth)) {
+        quoted.push(lines[index].match(QUOTE_LINE)![1]);
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '' && !FENCE_OPEN.test(lines[index]) && !isQuoteLine(lines[index], depth)) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), 0) });
+  }
+
+  return blocks;
+}
+
+function runLength(text: string, start: number): number {
+  let end = start;
+  while (text[end] === text[start]) {
+    end++;
+  }
+  return end - start;
+}
+
+// Searches that found nothing are remembered per parse, so unmatched delimiters cannot make parsing quadratic
+type FailedSearches = Map<string, number>;
+
+function hasFailedBefore(failed: FailedSearches, key: string, position: number): boolean {
+  const failedFrom = failed.get(key);
+  return failedFrom !== undefined && failedFrom <= position;
+}
+
+// A code span closes at the next backtick run of the same length
+function matchCodeSpan(text: string, start: number, failed: FailedSearches): { text: string; end: number } | null {
+  const length = runLength(text, start);
+  const key = '`'.repeat(length);
+  if (hasFailedBefore(failed, key, start)) {
+    return null;
+  }
+
+  let position = start + length;
+  while (position < text.length) {
+    if (text[position] !== '`') {
+      position++;
+      continue;
+    }
+    const closingLength = runLength(text, position);
+    if (closingLength === length) {
+      let code = text.slice(start + length, position);
+      // One space of padding lets a span start or end with a backtick
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') {
+        code = code.slice(1, -1);
+      }
+      return { text: code, end: position + length };
+    }
+    position += closingLength;
+  }
+
+  failed.set(key, start);
+  return null;
+}
+
+// Trailing punctuation usually ends the sentence rather than the link
+function matchUrl(text: string, start: number): string | null {
+  if (start > 0 && WORD_CHARACTER.test(text[start - 1])) {
+    return null;
+  }
+  URL_AT.lastIndex = start;
+  const match = URL_AT.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  let url = match[0];
+  for (;;) {
+    const last = url[url.length - 1];
+    const unbalancedParen = last === ')' && url.split('(').length < url.split(')').length;
+    if (!'.,:;!?\'"*_'.includes(last) && !unbalancedParen) {
+      break;
+    }
+    url = url.slice(0, -1);
+  }
+
+  try {
+    return new URL(url).host ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// `*`/`_` wrap italic and `**`/`__` bold text. Underscores inside words are literal, so snake_case stays intact.
+function matchEmphasis(text: string, start: number, depth: number, failed: FailedSearches): { node: InlineNode; end: number } | null {
+  const char = text[start];
+  const delimiterLength = Math.min(runLength(text, start), 2);
+  const innerStart = start + delimiterLength;
+  const key = char.repeat(delimiterLength);
+
+  if (depth >= MAX_INLINE_DEPTH || innerStart >= text.length || WHITESPACE.test(text[innerStart])) {
+    return null;
+  }
+  if (char === '_' && start > 0 && WORD_CHARACTER.test(text[start - 1])) {
+    return null;
+  }
+  if (hasFailedBefore(failed, key, start)) {
+    return null;
+  }
+
+  let position = innerStart;
+  while (position < text.length) {
+    const current = text[position];
+    if (current === '\\') {
+      position += 2;
+      continue;
+    }
+    if (current === '`') {
+      const span = matchCodeSpan(text, position, failed);
+      position = span ? span.end : position + runLength(text, position);
+      continue;
+    }
+    if (current !== char) {
+      position++;
+      continue;
+    }
+
+    const length = runLength(text, position);
+    const runEnd = position + length;
+    // A run of the other size belongs to nested emphasis, e.g. the ** in *a **b** c*
+    const closes = position > innerStart
+      && (delimiterLength === 1 ? length !== 2 : length >= 2)
+      && !WHITESPACE.test(text[position - 1])
+      && (char !== '_' || runEnd >= text.length || !WORD_CHARACTER.test(text[runEnd]));
+    if (closes) {
+      const innerEnd = runEnd - delimiterLength;
+      return {
+        node: {
+          type: delimiterLength === 2 ? 'strong' : 'em',
+          children: parseInline(text.slice(innerStart, innerEnd), depth + 1)
+        },
+        end: runEnd
+      };
+    }
+    position = runEnd;
+  }
+
+  failed.set(key, start);
+  return null;
+}
+
+function parseInline(text: string, depth: number): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const failed: FailedSearches = new Map();
+  let buffer = '';
+  let position = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (char === '\\' && position + 1 < text.length && ASCII_PUNCTUATION.test(text[position + 1])) {
+      buffer += text[position + 1];
+      position += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const span = matchCodeSpan(text, position, failed);
+      if (span) {
+        flush();
+        nodes.push({ type: 'code', text: span.text });
+        position = span.end;
+      } else {
+        // An unmatched run is literal as a whole, so a shorter part of it cannot open a span
+        const length = runLength(text, position);
+        buffer += text.slice(position, position + length);
+        position += length;
+      }
+      continue;
+    }
+
+    if (char === 'h' || char === 'H') {
+      const url = matchUrl(text, position);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', url });
+        position += url.length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const emphasis = matchEmphasis(text, position, depth, failed);
+      if (emphasis) {
+        flush();
+        nodes.push(emphasis.node);
+        position = emphasis.end;
+      } else {
+        const length = runLength(text, position);
+        buffer += text.slice(position, position + length);
+        position += length;
+      }
+      continue;
+    }
+
+    buffer += char;
+    position++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -1,5 +1,14 @@
 import { z } from 'zod';
 
+// Presence schemas
+export const presenceStatusSchema = z.enum(['online', 'away', 'dnd', 'offline']);
+
+export type PresenceStatus = z.infer<typeof presenceStatusSchema>;
+
+export const preferredStatusSchema = z.enum(['online', 'away', 'dnd', 'invisible']);
+
+export type PreferredStatus = z.infer<typeof preferredStatusSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -8,6 +17,8 @@ export const userSchema = z.object({
   password_hash: z.string(),
   avatar_url: z.string().nullable(),
   is_online: z.boolean(),
+  status: presenceStatusSchema,
+  preferred_status: preferredStatusSchema,
   last_seen: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -20,18 +31,26 @@ export const publicUserSchema = z.object({
   id: z.number(),
   username: z.string(),
   avatar_url: z.string().nullable(),
-  is_online: z.boolean(),
+  is_online: z.boolean(), // Same as status !== 'offline'
+  status: presenceStatusSchema,
   last_seen: z.coerce.date().nullable()
 });
 
 export type PublicUser = z.infer<typeof publicUserSchema>;
 
+// Named channels are public or invite-only; DMs are unnamed, between two ('dm') or 3 to 9 ('group_dm') users
+export const channelKindSchema = z.enum(['public', 'private', 'dm', 'group_dm']);
+export type ChannelKind = z.infer<typeof channelKindSchema>;
+
 // Chat channel schema
 export const chatChannelSchema = z.object({
   id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
-  is_private: z.boolean(),
+  topic: z.string().nullable(),
+  is_private: z.boolean(), // False only for 'public' channels
+  kind: channelKindSchema,
+  archived_at: z.coerce.date().nullable(),
   created_by: z.number(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -39,34 +58,82 @@ export const chatChannelSchema = z.object({
 
 export type ChatChannel = z.infer<typeof chatChannelSchema>;
 
+// Formatted message content: the Markdown subset messages may use, parsed once on the server.
+// There is no node for raw HTML, and links are always http(s).
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; url: string };
+
+export const inlineNodeSchema: z.ZodType<InlineNode> = z.lazy(() => z.union([
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({ type: z.literal('code'), text: z.string() }),
+  z.object({ type: z.literal('strong'), children: z.array(inlineNodeSchema) }),
+  z.object({ type: z.literal('em'), children: z.array(inlineNodeSchema) }),
+  z.object({ type: z.literal('link'), url: z.string().url() })
+]));
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code_block'; language: string | null; code: string }
+  | { type: 'blockquote'; children: BlockNode[] };
+
+export const blockNodeSchema: z.ZodType<BlockNode> = z.lazy(() => z.union([
+  z.object({ type: z.literal('paragraph'), children: z.array(inlineNodeSchema) }),
+  z.object({ type: z.literal('code_block'), language: z.string().nullable(), code: z.string() }),
+  z.object({ type: z.literal('blockquote'), children: z.array(blockNodeSchema) })
+]));
+
+// 'action' messages come from /me and read as something the author did
+export const messageTypeSchema = z.enum(['text', 'image', 'link', 'action']);
+
+export type MessageType = z.infer<typeof messageTypeSchema>;
+
+// Open Graph/Twitter Card/oEmbed data for a link; `url` is the link as written in the message
+export const linkPreviewSchema = z.object({
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  image: z.string().nullable(),
+  site_name: z.string().nullable(),
+  url: z.string()
+});
+
+export type LinkPreview = z.infer<typeof linkPreviewSchema>;
+
 // Chat message schema
 export const chatMessageSchema = z.object({
   id: z.number(),
   channel_id: z.number(),
   user_id: z.number(),
   content: z.string(),
-  message_type: z.enum(['text', 'image', 'link']),
-  image_url: z.string().nullable(),
-  link_preview: z.object({
-    title: z.string().nullable(),
-    description: z.string().nullable(),
-    image: z.string().nullable(),
-    url: z.string()
-  }).nullable(),
+  formatted_content: z.array(blockNodeSchema).nullable(), // Null for messages stored before formatting existed
+  message_type: messageTypeSchema,
+  link_previews: z.array(linkPreviewSchema), // In the order the links appear; filled in after the message is sent
   reply_to_message_id: z.number().nullable(),
+  thread_root_id: z.number().nullable(),
   is_edited: z.boolean(),
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  // Set on tombstones, which have no content, previews, reactions, mentions or attachment
+  deleted_at: z.coerce.date().nullable(),
+  deleted_by: z.number().nullable()
 });
 
 export type ChatMessage = z.infer<typeof chatMessageSchema>;
 
 // Channel member schema
+export const memberRoleSchema = z.enum(['owner', 'admin', 'member']);
+
+export type MemberRole = z.infer<typeof memberRoleSchema>;
+
 export const channelMemberSchema = z.object({
   id: z.number(),
   channel_id: z.number(),
   user_id: z.number(),
-  role: z.enum(['owner', 'admin', 'member']),
+  role: memberRoleSchema,
+  muted_until: z.coerce.date().nullable(),
   joined_at: z.coerce.date()
 });
 
@@ -88,6 +155,12 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
+
 // Input schemas for chat operations
 export const createChannelInputSchema = z.object({
   name: z.string().min(1).max(100),
@@ -98,12 +171,25 @@ export const createChannelInputSchema = z.object({
 
 export type CreateChannelInput = z.infer<typeof createChannelInputSchema>;
 
+// Raw file received by the upload endpoint; the stored format comes from the bytes, not the name
+export const uploadInputSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  data: z.instanceof(Buffer)
+});
+
+export type UploadInput = z.infer<typeof uploadInputSchema>;
+
+// Image messages carry an upload from POST /uploads; their caption may be empty
 export const sendMessageInputSchema = z.object({
   channel_id: z.number(),
-  content: z.string().min(1),
-  message_type: z.enum(['text', 'image', 'link']).default('text'),
-  image_url: z.string().optional(),
+  content: z.string(),
+  message_type: messageTypeSchema.default('text'),
+  attachment_id: z.number().optional(),
   reply_to_message_id: z.number().optional()
+}).refine(input => (input.message_type === 'image') === (input.attachment_id !== undefined), {
+  message: 'Image messages require an attachment, and only image messages may have one'
+}).refine(input => input.content.length > 0 || input.attachment_id !== undefined, {
+  message: 'Message content is required'
 });
 
 export type SendMessageInput = z.infer<typeof sendMessageInputSchema>;
@@ -115,14 +201,71 @@ export const updateMessageInputSchema = z.object({
 
 export type UpdateMessageInput = z.infer<typeof updateMessageInputSchema>;
 
+// `url` is the link as written in the message, as returned in link_previews
+export const removeLinkPreviewInputSchema = z.object({
+  message_id: z.number(),
+  url: z.string()
+});
+
+export type RemoveLinkPreviewInput = z.infer<typeof removeLinkPreviewInputSchema>;
+
+// Message ids are the cursors: `before` pages back into history, `after` catches up on newer messages.
+// Without either, the latest messages are returned.
 export const getMessagesInputSchema = z.object({
   channel_id: z.number(),
   limit: z.number().min(1).max(100).default(50),
-  offset: z.number().min(0).default(0)
+  before: z.number().optional(),
+  after: z.number().optional()
+}).refine(input => input.before === undefined || input.after === undefined, {
+  message: 'Only one of before or after may be given'
 });
 
 export type GetMessagesInput = z.infer<typeof getMessagesInputSchema>;
 
+export const reactInputSchema = z.object({
+  message_id: z.number(),
+  emoji: z.string().trim().min(1).max(32).regex(/\p{Extended_Pictographic}|\p{Regional_Indicator}/u, 'Reaction must be an emoji')
+});
+
+export type ReactInput = z.infer<typeof reactInputSchema>;
+
+// Any message of a thread may be given; the whole thread is returned
+export const getThreadInputSchema = z.object({
+  message_id: z.number()
+});
+
+export type GetThreadInput = z.infer<typeof getThreadInputSchema>;
+
+// Hits come newest first; pass the previous nextCursor as `before` for the next page
+export const searchMessagesInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  channel_id: z.number().optional(),
+  user_id: z.number().optional(),
+  message_type: messageTypeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().min(1).max(50).default(20),
+  before: z.number().optional()
+});
+
+export type SearchMessagesInput = z.infer<typeof searchMessagesInputSchema>;
+
+export const typingInputSchema = z.object({
+  channel_id: z.number(),
+  is_typing: z.boolean().default(true)
+});
+
+export type TypingInput = z.infer<typeof typingInputSchema>;
+
+export const typingEventSchema = z.object({
+  channel_id: z.number(),
+  user_id: z.number(),
+  username: z.string(),
+  is_typing: z.boolean()
+});
+
+export type TypingEvent = z.infer<typeof typingEventSchema>;
+
 export const joinChannelInputSchema = z.object({
   channel_id: z.number()
 });
@@ -134,17 +277,136 @@ export const authResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   user: publicUserSchema.optional(),
-  token: z.string().optional()
+  token: z.string().optional(), // Short-lived access token
+  refresh_token: z.string().optional()
 });
 
 export type AuthResponse = z.infer<typeof authResponseSchema>;
 
+// Enough of a parent message to quote it above a reply
+export const replyPreviewSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  username: z.string(),
+  content: z.string(), // Empty once the parent is deleted
+  message_type: messageTypeSchema,
+  is_deleted: z.boolean()
+});
+
+export type ReplyPreview = z.infer<typeof replyPreviewSchema>;
+
+// Reactions on a message grouped by emoji, in the order each emoji was first used
+export const reactionSummarySchema = z.object({
+  emoji: z.string(),
+  count: z.number().int(),
+  reacted: z.boolean() // Whether the requesting user is among the reactors
+});
+
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>;
+
+// Broadcast whenever a reaction is added or removed; `reactions` omits `reacted`, which depends on the viewer
+export const reactionEventSchema = z.object({
+  message_id: z.number(),
+  channel_id: z.number(),
+  user_id: z.number(),
+  emoji: z.string(),
+  added: z.boolean(),
+  reactions: z.array(reactionSummarySchema.omit({ reacted: true }))
+});
+
+export type ReactionEvent = z.infer<typeof reactionEventSchema>;
+
+// A stored upload; urls are paths on the API server
+export const attachmentSchema = z.object({
+  id: z.number(),
+  filename: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number().int(),
+  width: z.number().int(),
+  height: z.number().int(),
+  url: z.string(),
+  thumbnail_url: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+// A member mentioned by name; @channel and @here stay in the content
+export const mentionSchema = z.object({
+  user_id: z.number(),
+  username: z.string()
+});
+
+export type Mention = z.infer<typeof mentionSchema>;
+
 export const messageWithUserSchema = chatMessageSchema.extend({
-  user: publicUserSchema
+  user: publicUserSchema,
+  attachment: attachmentSchema.nullable(),
+  mentions: z.array(mentionSchema),
+  reactions: z.array(reactionSummarySchema),
+  reply_count: z.number().int(), // Replies in the thread this message starts
+  last_reply_at: z.coerce.date().nullable(),
+  reply_to: replyPreviewSchema.nullable() // Null when not a reply, or when the parent was purged
 });
 
 export type MessageWithUser = z.infer<typeof messageWithUserSchema>;
 
+// Messages are in chronological order; nextCursor continues in the direction requested and is null at the end
+export const messagePageSchema = z.object({
+  messages: z.array(messageWithUserSchema),
+  nextCursor: z.number().nullable()
+});
+
+export type MessagePage = z.infer<typeof messagePageSchema>;
+
+// A thread root with all of its replies in chronological order
+export const messageThreadSchema = z.object({
+  root: messageWithUserSchema,
+  replies: z.array(messageWithUserSchema)
+});
+
+export type MessageThread = z.infer<typeof messageThreadSchema>;
+
+// One version of a message's text; `written_at` is when it was sent or saved by an edit
+export const messageVersionSchema = z.object({
+  content: z.string(),
+  formatted_content: z.array(blockNodeSchema).nullable(),
+  written_at: z.coerce.date(),
+  is_current: z.boolean()
+});
+
+export type MessageVersion = z.infer<typeof messageVersionSchema>;
+
+// Every version of a message, oldest first and ending with the current text
+export const messageHistorySchema = z.object({
+  message_id: z.number(),
+  versions: z.array(messageVersionSchema)
+});
+
+export type MessageHistory = z.infer<typeof messageHistorySchema>;
+
+// Snippets are split into segments so clients never have to render server-generated markup
+export const snippetSegmentSchema = z.object({
+  text: z.string(),
+  highlight: z.boolean()
+});
+
+export type SnippetSegment = z.infer<typeof snippetSegmentSchema>;
+
+export const messageSearchHitSchema = messageWithUserSchema.extend({
+  channel_name: z.string(),
+  snippet: z.array(snippetSegmentSchema)
+});
+
+export type MessageSearchHit = z.infer<typeof messageSearchHitSchema>;
+
+export const messageSearchResultSchema = z.object({
+  hits: z.array(messageSearchHitSchema),
+  nextCursor: z.number().nullable()
+});
+
+export type MessageSearchResult = z.infer<typeof messageSearchResultSchema>;
+
 export const channelWithMembersSchema = chatChannelSchema.extend({
   members: z.array(publicUserSchema),
   member_count: z.number()
@@ -152,9 +414,330 @@ export const channelWithMembersSchema = chatChannelSchema.extend({
 
 export type ChannelWithMembers = z.infer<typeof channelWithMembersSchema>;
 
+// A channel as listed for one of its members
+export const userChannelSchema = channelWithMembersSchema.extend({
+  role: memberRoleSchema, // The member's own role
+  unread_count: z.number().int(), // Messages from others after last_read_message_id
+  mention_count: z.number().int(), // Of those, the ones that @mention the member
+  last_read_message_id: z.number().nullable()
+});
+
+export type UserChannel = z.infer<typeof userChannelSchema>;
+
+export const unreadCountSchema = z.object({
+  channel_id: z.number(),
+  unread_count: z.number().int(),
+  mention_count: z.number().int()
+});
+
+export type UnreadCount = z.infer<typeof unreadCountSchema>;
+
+// Without message_id, everything up to the latest message is marked read
+export const markReadInputSchema = z.object({
+  channel_id: z.number(),
+  message_id: z.number().optional()
+});
+
+export type MarkReadInput = z.infer<typeof markReadInputSchema>;
+
+export const readReceiptSchema = z.object({
+  channel_id: z.number(),
+  user_id: z.number(),
+  username: z.string(),
+  last_read_message_id: z.number()
+});
+
+export type ReadReceipt = z.infer<typeof readReceiptSchema>;
+
 // Update user status input
 export const updateUserStatusInputSchema = z.object({
-  is_online: z.boolean()
+  status: preferredStatusSchema
+});
+
+export type UpdateUserStatusInput = z.infer<typeof updateUserStatusInputSchema>;
+
+// Presence heartbeat input, sent periodically by every open client
+export const heartbeatInputSchema = z.object({
+  connection_id: z.string().min(1).max(100), // Stable per browser tab/device
+  is_idle: z.boolean().default(false)
+});
+
+export type HeartbeatInput = z.infer<typeof heartbeatInputSchema>;
+
+// Notification schemas
+export const notificationTypeSchema = z.enum(['mention', 'reply', 'dm_invite']);
+
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+
+export const notificationSchema = z.object({
+  id: z.number(),
+  type: notificationTypeSchema,
+  actor: z.object({
+    id: z.number(),
+    username: z.string(),
+    avatar_url: z.string().nullable()
+  }),
+  channel_id: z.number(),
+  channel_name: z.string(),
+  message_id: z.number().nullable(), // Null for invites
+  excerpt: z.string().nullable(), // Start of the message, null for invites
+  is_read: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+// Newest first; `before` is the id cursor from the previous page
+export const listNotificationsInputSchema = z.object({
+  limit: z.number().int().min(1).max(50).default(20),
+  before: z.number().optional(),
+  unread_only: z.boolean().default(false)
+});
+
+export type ListNotificationsInput = z.infer<typeof listNotificationsInputSchema>;
+
+export const notificationPageSchema = z.object({
+  notifications: z.array(notificationSchema),
+  nextCursor: z.number().nullable()
+});
+
+export type NotificationPage = z.infer<typeof notificationPageSchema>;
+
+// Without ids, every notification of the user is marked read
+export const markNotificationsReadInputSchema = z.object({
+  ids: z.array(z.number()).min(1).optional()
+});
+
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadInputSchema>;
+
+// Slash command schemas
+export const commandInfoSchema = z.object({
+  name: z.string(),
+  usage: z.string(), // e.g. "/msg <user> <text>", optional arguments in brackets
+  description: z.string()
+});
+
+export type CommandInfo = z.infer<typeof commandInfoSchema>;
+
+// `text` is the whole input line, starting with the slash; channel_id is where it was typed
+export const executeCommandInputSchema = z.object({
+  channel_id: z.number(),
+  text: z.string().trim().min(2).max(4000).startsWith('/')
+});
+
+export type ExecuteCommandInput = z.infer<typeof executeCommandInputSchema>;
+
+export const commandResultSchema = z.object({
+  feedback: z.string().nullable(), // Shown to the caller only
+  open_channel_id: z.number().nullable(), // Channel the client should switch to
+  left_channel_id: z.number().nullable(), // Channel the caller is no longer a member of
+  user: publicUserSchema.nullable() // The caller, when the command changed them
+});
+
+export type CommandResult = z.infer<typeof commandResultSchema>;
+
+// Moderation schemas
+// A member as listed in the channel's member list; muted_until is null once a mute has run out
+export const channelMemberWithUserSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  avatar_url: z.string().nullable(),
+  is_online: z.boolean(),
+  status: presenceStatusSchema,
+  role: memberRoleSchema,
+  muted_until: z.coerce.date().nullable()
+});
+
+export type ChannelMemberWithUser = z.infer<typeof channelMemberWithUserSchema>;
+
+// Kicking, unbanning and unmuting only need the member
+export const moderateMemberInputSchema = z.object({
+  channel_id: z.number(),
+  user_id: z.number()
+});
+
+export type ModerateMemberInput = z.infer<typeof moderateMemberInputSchema>;
+
+// Ownership is transferred by leaving, so only admin and member can be assigned
+export const setMemberRoleInputSchema = moderateMemberInputSchema.extend({
+  role: z.enum(['admin', 'member'])
+});
+
+export type SetMemberRoleInput = z.infer<typeof setMemberRoleInputSchema>;
+
+// Up to a year; bans without a duration are permanent
+const moderationDurationSchema = z.number().int().positive().max(60 * 24 * 365);
+
+export const banMemberInputSchema = moderateMemberInputSchema.extend({
+  duration_minutes: moderationDurationSchema.optional()
+});
+
+export type BanMemberInput = z.infer<typeof banMemberInputSchema>;
+
+export const muteMemberInputSchema = moderateMemberInputSchema.extend({
+  duration_minutes: moderationDurationSchema
+});
+
+export type MuteMemberInput = z.infer<typeof muteMemberInputSchema>;
+
+export const channelBanSchema = z.object({
+  user: z.object({
+    id: z.number(),
+    username: z.string(),
+    avatar_url: z.string().nullable()
+  }),
+  banned_by: z.number(),
+  expires_at: z.coerce.date().nullable(), // Null for permanent bans
+  created_at: z.coerce.date()
+});
+
+export type ChannelBan = z.infer<typeof channelBanSchema>;
+
+// Channel settings schemas
+// Fields left out are unchanged; null clears the description or topic
+export const updateChannelInputSchema = z.object({
+  channel_id: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  topic: z.string().max(250).nullable().optional(),
+  is_private: z.boolean().optional()
+});
+
+export type UpdateChannelInput = z.infer<typeof updateChannelInputSchema>;
+
+export const archiveChannelInputSchema = z.object({
+  channel_id: z.number(),
+  archived: z.boolean()
+});
+
+export type ArchiveChannelInput = z.infer<typeof archiveChannelInputSchema>;
+
+// Invite schemas
+// Without max_uses or expires_in_minutes the invite works until revoked
+export const createInviteInputSchema = z.object({
+  channel_id: z.number(),
+  max_uses: z.number().int().positive().max(1000).optional(),
+  expires_in_minutes: z.number().int().positive().max(60 * 24 * 30).optional()
+});
+
+export type CreateInviteInput = z.infer<typeof createInviteInputSchema>;
+
+export const inviteCodeInputSchema = z.object({
+  code: z.string().min(1).max(64)
+});
+
+export type InviteCodeInput = z.infer<typeof inviteCodeInputSchema>;
+
+export const channelInviteSchema = z.object({
+  code: z.string(),
+  channel_id: z.number(),
+  creator: z.object({
+    id: z.number(),
+    username: z.string()
+  }),
+  max_uses: z.number().int().nullable(),
+  use_count: z.number().int(),
+  expires_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ChannelInvite = z.infer<typeof channelInviteSchema>;
+
+// What someone opening an invite link sees before joining
+export const invitePreviewSchema = z.object({
+  code: z.string(),
+  channel: z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullable(),
+    topic: z.string().nullable(),
+    is_private: z.boolean(),
+    member_count: z.number()
+  }),
+  inviter: z.string(), // Username of the invite's creator
+  expires_at: z.coerce.date().nullable(),
+  is_member: z.boolean() // The viewer already belongs to the channel
+});
+
+export type InvitePreview = z.infer<typeof invitePreviewSchema>;
+
+// Direct message schemas
+// A group DM has 3 to 9 participants, counting whoever starts it
+export const MAX_GROUP_CHAT_PARTICIPANTS = 9;
+
+// Everyone but the caller; the same set of participants always gets the same group DM
+export const createGroupChatInputSchema = z.object({
+  userIds: z.array(z.number()).min(2).max(MAX_GROUP_CHAT_PARTICIPANTS - 1)
+});
+
+export type CreateGroupChatInput = z.infer<typeof createGroupChatInputSchema>;
+
+// A DM as listed for one of its participants
+export const privateChatSchema = chatChannelSchema.extend({
+  display_name: z.string(), // The channel name, or the other participants' usernames for DMs
+  participants: z.array(publicUserSchema), // Everyone but the viewer, by username
+  otherUser: publicUserSchema, // The first of the participants
+  member_count: z.number().int(),
+  lastMessage: z.object({
+    content: z.string(),
+    created_at: z.coerce.date()
+  }).optional(),
+  unread_count: z.number().int(),
+  mention_count: z.number().int()
+});
+
+export type PrivateChat = z.infer<typeof privateChatSchema>;
+
+// Audit log schemas
+export const auditActionSchema = z.enum([
+  'channel_created', 'channel_renamed', 'channel_updated', 'channel_archived', 'channel_unarchived',
+  'member_joined', 'member_left', 'member_added', 'member_removed', 'member_banned', 'member_unbanned',
+  'member_muted', 'member_unmuted', 'role_changed', 'invite_created', 'invite_revoked',
+  'message_deleted', 'message_restored', 'channel_deleted'
+]);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+// Action-specific values, e.g. { from: 'member', to: 'admin' } for role changes
+export const auditDetailsSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+export type AuditDetails = z.infer<typeof auditDetailsSchema>;
+
+const auditUserSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  avatar_url: z.string().nullable()
+});
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  channel_id: z.number(),
+  action: auditActionSchema,
+  actor: auditUserSchema,
+  target_user: auditUserSchema.nullable(), // The member the action was about, if any
+  message_id: z.number().nullable(), // For message deletions and restores
+  details: auditDetailsSchema.nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+// Newest first; every filter is optional and they combine
+export const getAuditLogInputSchema = z.object({
+  channel_id: z.number(),
+  actor_id: z.number().optional(),
+  actions: z.array(auditActionSchema).min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(100).default(50),
+  before: z.number().optional()
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
+
+export const auditLogPageSchema = z.object({
+  events: z.array(auditEventSchema),
+  nextCursor: z.number().nullable()
 });
 
-export type UpdateUserStatusInput = z.infer<typeof updateUserStatusInputSchema>;
\ No newline at end of file
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
@@ -0,0 +1,79 @@
+import 'dotenv/config';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+// Mirrors the object operations of S3-compatible stores, so a bucket-backed driver can stand in for disk
+export interface StorageBackend {
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<StoredObject | null>; // Null when the key does not exist
+  deleteObject(key: string): Promise<void>; // No-op when the key does not exist
+}
+
+// Keys are generated by the upload handler; anything else could escape the storage root
+const KEY_PATTERN = /^[a-z0-9]+(\.[a-z0-9]+)?$/;
+
+export function isValidStorageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+function assertValidKey(key: string): void {
+  if (!isValidStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+// Files are written as-is; the content type is kept in a sidecar so reads do not depend on the extension
+export function createLocalStorage(rootDir: string): StorageBackend {
+  const objectPath = (key: string) => path.join(rootDir, key);
+  const metadataPath = (key: string) => path.join(rootDir, `${key}.meta.json`);
+
+  return {
+    async putObject(key, body, contentType) {
+      assertValidKey(key);
+      await mkdir(rootDir, { recursive: true });
+      await writeFile(objectPath(key), body);
+      await writeFile(metadataPath(key), JSON.stringify({ contentType }));
+    },
+
+    async getObject(key) {
+      assertValidKey(key);
+      try {
+        const [body, metadata] = await Promise.all([
+          readFile(objectPath(key)),
+          readFile(metadataPath(key), 'utf8')
+        ]);
+        return { body, contentType: JSON.parse(metadata).contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      assertValidKey(key);
+      await rm(objectPath(key), { force: true });
+      await rm(metadataPath(key), { force: true });
+    }
+  };
+}
+
+let storage: StorageBackend | null = null;
+
+// Chosen by STORAGE_DRIVER on first use; only 'local' (under UPLOAD_DIR) ships today
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const driver = process.env['STORAGE_DRIVER'] || 'local';
+    if (driver !== 'local') {
+      throw new Error(`Unsupported STORAGE_DRIVER: ${driver}`);
+    }
+    storage = createLocalStorage(path.resolve(process.env['UPLOAD_DIR'] || 'uploads'));
+  }
+  return storage;
+}
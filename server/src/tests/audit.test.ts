@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatMessagesTable, auditEventsTable } from '../db/schema';
+import { type AuditEvent } from '../schema';
+import { getAuditLog } from '../handlers/audit';
+import { createChannel, joinChannel, leaveChannel, updateChannel, archiveChannel, deleteChannel } from '../handlers/channels';
+import { setMemberRole, removeChannelMember, banMember, unbanMember, muteMember, unmuteMember } from '../handlers/moderation';
+import { createInvite, revokeInvite, acceptInvite } from '../handlers/invites';
+import { createGroupChat, addUserToPrivateChat } from '../handlers/private-chat';
+import { sendMessage, deleteMessage, restoreMessage, purgeDeletedMessages } from '../handlers/messages';
+import { eq } from 'drizzle-orm';
+
+describe('Audit log', () => {
+  let ownerId: number;
+  let adminId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let channelId: number;
+
+  // Oldest first, which reads more naturally in assertions than the log's newest-first order
+  const history = async (filters: { actor_id?: number; actions?: AuditEvent['action'][]; since?: Date; until?: Date } = {}) => {
+    const page = await getAuditLog({ channel_id: channelId, limit: 100, ...filters }, ownerId);
+    return page.events.reverse();
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hash1' },
+        { username: 'admin', email: 'admin@example.com', password_hash: 'hash2' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hash3' },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hash4' }
+      ])
+      .returning()
+      .execute();
+
+    [ownerId, adminId, memberId, outsiderId] = users.map(user => user.id);
+
+    const channel = await createChannel({ name: 'general', is_private: false }, ownerId);
+    channelId = channel.id;
+    await joinChannel({ channel_id: channelId }, adminId);
+    await joinChannel({ channel_id: channelId }, memberId);
+    await setMemberRole({ channel_id: channelId, user_id: adminId, role: 'admin' }, ownerId);
+  });
+
+  afterEach(resetDB);
+
+  describe('recording', () => {
+    it('should record the channel lifecycle', async () => {
+      await updateChannel({ channel_id: channelId, name: 'lounge', topic: 'Anything goes' }, adminId);
+      await updateChannel({ channel_id: channelId, name: 'lounge' }, adminId);
+      await archiveChannel({ channel_id: channelId, archived: true }, ownerId);
+      await archiveChannel({ channel_id: channelId, archived: false }, ownerId);
+      await leaveChannel(channelId, memberId);
+
+      const events = await history();
+
+      expect(events.map(event => [event.action, event.actor.id, event.target_user?.id ?? null, event.details])).toEqual([
+        ['channel_created', ownerId, null, { name: 'general' }],
+        ['member_joined', adminId, null, null],
+        ['member_joined', memberId, null, null],
+        ['role_changed', ownerId, adminId, { from: 'member', to: 'admin' }],
+        ['channel_renamed', adminId, null, { from: 'general', to: 'lounge' }],
+        ['channel_updated', adminId, null, { topic: 'Anything goes' }],
+        ['channel_archived', ownerId, null, null],
+        ['channel_unarchived', ownerId, null, null],
+        ['member_left', memberId, null, null]
+      ]);
+    });
+
+    it('should record ownership passing on when the owner leaves', async () => {
+      await leaveChannel(channelId, ownerId);
+
+      const page = await getAuditLog({ channel_id: channelId, limit: 2 }, adminId);
+
+      expect(page.events.map(event => [event.action, event.actor.id, event.target_user?.id ?? null, event.details])).toEqual([
+        ['member_left', ownerId, null, null],
+        ['role_changed', ownerId, adminId, { from: 'admin', to: 'owner' }]
+      ]);
+    });
+
+    it('should record moderation with its target and details', async () => {
+      await muteMember({ channel_id: channelId, user_id: memberId, duration_minutes: 10 }, adminId);
+      await unmuteMember({ channel_id: channelId, user_id: memberId }, adminId);
+      await banMember({ channel_id: channelId, user_id: memberId, duration_minutes: 60 }, adminId);
+      await unbanMember({ channel_id: channelId, user_id: memberId }, adminId);
+      await joinChannel({ channel_id: channelId }, memberId);
+      await removeChannelMember(channelId, ownerId, memberId);
+      // Refused actions leave no trace
+      await banMember({ channel_id: channelId, user_id: ownerId }, adminId);
+
+      const events = await history({ actions: ['member_muted', 'member_unmuted', 'member_banned', 'member_unbanned', 'member_removed'] });
+
+      expect(events.map(event => [event.action, event.actor.id, event.target_user?.username, event.details])).toEqual([
+        ['member_muted', adminId, 'member', { duration_minutes: 10 }],
+        ['member_unmuted', adminId, 'member', null],
+        ['member_banned', adminId, 'member', { duration_minutes: 60 }],
+        ['member_unbanned', adminId, 'member', null],
+        ['member_removed', ownerId, 'member', null]
+      ]);
+    });
+
+    it('should record message deletions and restores and keep them after the purge', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'Oops', message_type: 'text' }, memberId);
+
+      await deleteMessage(message.id, adminId);
+      await restoreMessage(message.id, ownerId);
+      await deleteMessage(message.id, memberId);
+      await db.update(chatMessagesTable)
+        .set({ deleted_at: new Date(0) })
+        .where(eq(chatMessagesTable.id, message.id))
+        .execute();
+      await purgeDeletedMessages();
+
+      const events = await history({ actions: ['message_deleted', 'message_restored'] });
+
+      expect(events.map(event => [event.action, event.actor.id, event.target_user?.id, event.message_id])).toEqual([
+        ['message_deleted', adminId, memberId, message.id],
+        ['message_restored', ownerId, memberId, message.id],
+        ['message_deleted', memberId, memberId, message.id]
+      ]);
+    });
+
+    it('should record invites and the members who joined through them', async () => {
+      const invite = await createInvite({ channel_id: channelId, max_uses: 5 }, adminId);
+      await acceptInvite({ code: invite.code }, outsiderId);
+      await revokeInvite({ code: invite.code }, ownerId);
+
+      const events = await history({ actions: ['invite_created', 'member_joined', 'invite_revoked'] });
+
+      expect(events.slice(-3).map(event => [event.action, event.actor.id, event.details])).toEqual([
+        ['invite_created', adminId, { code: invite.code, max_uses: 5, expires_in_minutes: null }],
+        ['member_joined', outsiderId, { invite: invite.code }],
+        ['invite_revoked', ownerId, { code: invite.code }]
+      ]);
+    });
+
+    it('should record group DMs and the users added to them', async () => {
+      const groupChat = await createGroupChat({ userIds: [adminId, memberId] }, ownerId);
+      await addUserToPrivateChat(groupChat.id, ownerId, outsiderId);
+
+      const page = await getAuditLog({ channel_id: groupChat.id, limit: 10 }, ownerId);
+
+      expect(page.events.map(event => [event.action, event.target_user?.id ?? null])).toEqual([
+        ['member_added', outsiderId],
+        ['channel_created', null]
+      ]);
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should filter by actor, action and time', async () => {
+      await updateChannel({ channel_id: channelId, name: 'renamed' }, adminId);
+      await updateChannel({ channel_id: channelId, description: 'Described' }, ownerId);
+
+      expect((await history({ actor_id: adminId })).map(event => event.action)).toEqual(['member_joined', 'channel_renamed']);
+      expect((await history({ actions: ['channel_renamed', 'channel_updated'] })).map(event => event.actor.id)).toEqual([adminId, ownerId]);
+
+      await db.update(auditEventsTable)
+        .set({ created_at: new Date('2020-01-01T00:00:00Z') })
+        .where(eq(auditEventsTable.action, 'channel_created'))
+        .execute();
+
+      expect((await history({ until: new Date('2021-01-01T00:00:00Z') })).map(event => event.action)).toEqual(['channel_created']);
+      expect(await history({ since: new Date('2021-01-01T00:00:00Z') })).toHaveLength(5);
+    });
+
+    it('should page back through the log with the before cursor', async () => {
+      const first = await getAuditLog({ channel_id: channelId, limit: 3 }, ownerId);
+      const second = await getAuditLog({ channel_id: channelId, limit: 3, before: first.nextCursor! }, ownerId);
+
+      expect(first.events.map(event => event.action)).toEqual(['role_changed', 'member_joined', 'member_joined']);
+      expect(second.events.map(event => event.action)).toEqual(['channel_created']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should only be visible to owners and admins', async () => {
+      expect((await getAuditLog({ channel_id: channelId, limit: 10 }, adminId)).events.length).toBeGreaterThan(0);
+
+      await expect(getAuditLog({ channel_id: channelId, limit: 10 }, memberId))
+        .rejects.toThrow('Only channel owners and admins can see the audit log');
+      await expect(getAuditLog({ channel_id: channelId, limit: 10 }, outsiderId))
+        .rejects.toThrow('Only channel owners and admins can see the audit log');
+    });
+
+    it('should outlive the channel and record its deletion', async () => {
+      const before = await db.select().from(auditEventsTable).orderBy(auditEventsTable.id).execute();
+
+      await deleteChannel(channelId, ownerId);
+
+      const after = await db.select().from(auditEventsTable).orderBy(auditEventsTable.id).execute();
+      expect(after.slice(0, before.length)).toEqual(before);
+      expect(after.slice(before.length).map(event => [event.channel_id, event.action, event.actor_id, event.details])).toEqual([
+        [channelId, 'channel_deleted', ownerId, JSON.stringify({ name: 'general' })]
+      ]);
+    });
+
+    it('should record the deletion when the last member leaves', async () => {
+      await leaveChannel(channelId, memberId);
+      await leaveChannel(channelId, adminId);
+      await leaveChannel(channelId, ownerId);
+
+      const last = await db.select().from(auditEventsTable).orderBy(auditEventsTable.id).execute();
+      expect([last[last.length - 1].action, last[last.length - 1].actor_id]).toEqual(['channel_deleted', ownerId]);
+    });
+  });
+});
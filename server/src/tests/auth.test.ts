@@ -1,21 +1,23 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, sessionsTable } from '../db/schema';
 import { type SignupInput, type LoginInput } from '../schema';
 import { 
   signup, 
   login, 
+  refresh, 
   logout, 
   getCurrentUser, 
   hashPassword, 
   verifyPassword, 
   createToken, 
-  verifyToken 
+  verifyToken,
+  isSessionActive
 } from '../handlers/auth';
-import { eq } from 'drizzle-orm';
-
-const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key-here';
+import { subscribe } from '../events';
+import { eq, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
 
 // Test inputs
 const testSignupInput: SignupInput = {
@@ -64,14 +66,22 @@ describe('Auth Handlers', () => {
 
   describe('token utilities', () => {
     it('should create and verify token correctly', () => {
-      const payload = { userId: 123, username: 'testuser' };
+      const payload = { userId: 123, username: 'testuser', sessionId: 7 };
       const token = createToken(payload);
       
       expect(token).toBeDefined();
       expect(token.split('.')).toHaveLength(3); // JWT-like format
       
       const decoded = verifyToken(token);
-      expect(decoded).toEqual(payload);
+      expect(decoded).toEqual({ ...payload, expiresAt: expect.any(Date) });
+    });
+
+    it('should return when the token expires', () => {
+      const before = Date.now();
+      const decoded = verifyToken(createToken({ userId: 123, username: 'testuser', sessionId: 7 }, 60));
+
+      expect(decoded!.expiresAt.getTime()).toBeGreaterThan(before + 58 * 1000);
+      expect(decoded!.expiresAt.getTime()).toBeLessThanOrEqual(before + 61 * 1000);
     });
 
     it('should reject invalid tokens', () => {
@@ -81,12 +91,51 @@ describe('Auth Handlers', () => {
     });
 
     it('should reject tampered tokens', () => {
-      const payload = { userId: 123, username: 'testuser' };
+      const payload = { userId: 123, username: 'testuser', sessionId: 7 };
       const token = createToken(payload);
       const tamperedToken = token.slice(0, -5) + 'xxxxx';
       
       expect(verifyToken(tamperedToken)).toBeNull();
     });
+
+    it('should reject tokens with a modified payload', () => {
+      const token = createToken({ userId: 123, username: 'testuser', sessionId: 7 });
+      const [header, , signature] = token.split('.');
+      const forgedBody = Buffer.from(JSON.stringify({
+        sub: '1',
+        username: 'admin',
+        sid: 7,
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 3600
+      })).toString('base64url');
+
+      expect(verifyToken(`${header}.${forgedBody}.${signature}`)).toBeNull();
+    });
+
+    it('should reject tokens that do not use HS256', () => {
+      const token = createToken({ userId: 123, username: 'testuser', sessionId: 7 });
+      const [, body] = token.split('.');
+      const noneHeader = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+      expect(verifyToken(`${noneHeader}.${body}.`)).toBeNull();
+    });
+
+    it('should reject expired tokens', () => {
+      const token = createToken({ userId: 123, username: 'testuser', sessionId: 7 }, -1);
+
+      expect(verifyToken(token)).toBeNull();
+    });
+
+    it('should issue standard JWT claims', () => {
+      const token = createToken({ userId: 123, username: 'testuser', sessionId: 7 });
+      const [header, body] = token.split('.');
+      const headerData = JSON.parse(Buffer.from(header, 'base64url').toString());
+      const claims = JSON.parse(Buffer.from(body, 'base64url').toString());
+
+      expect(headerData).toEqual({ alg: 'HS256', typ: 'JWT' });
+      expect(claims.sub).toBe('123');
+      expect(claims.exp - claims.iat).toBe(15 * 60);
+    });
   });
 
   describe('signup', () => {
@@ -99,6 +148,7 @@ describe('Auth Handlers', () => {
       expect(result.user!.username).toBe('testuser');
       expect(result.user!.is_online).toBe(true);
       expect(result.token).toBeDefined();
+      expect(result.refresh_token).toBeDefined();
 
       // Verify user was created in database
       const users = await db.select()
@@ -142,6 +192,24 @@ describe('Auth Handlers', () => {
       expect(decoded!.username).toBe('testuser');
     });
 
+    it('should store only a hash of the refresh token', async () => {
+      const result = await signup(testSignupInput);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, result.user!.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].refresh_token_hash).not.toBe(result.refresh_token);
+      expect(sessions[0].refresh_token_hash).toBe(
+        createHash('sha256').update(result.refresh_token!).digest('hex')
+      );
+      expect(sessions[0].revoked_at).toBeNull();
+      expect(sessions[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(verifyToken(result.token!)!.sessionId).toBe(sessions[0].id);
+    });
+
     it('should reject duplicate usernames', async () => {
       // Create first user
       await signup(testSignupInput);
@@ -257,18 +325,109 @@ describe('Auth Handlers', () => {
       expect(decoded!.userId).toBe(result.user!.id);
       expect(decoded!.username).toBe('testuser');
     });
+
+    it('should open a new session for each login', async () => {
+      const first = await login(testLoginInput);
+      const second = await login(testLoginInput);
+
+      expect(first.refresh_token).not.toBe(second.refresh_token);
+      expect(verifyToken(first.token!)!.sessionId).not.toBe(verifyToken(second.token!)!.sessionId);
+    });
+  });
+
+  describe('refresh', () => {
+    let refreshToken: string;
+    let userId: number;
+
+    beforeEach(async () => {
+      const signupResult = await signup(testSignupInput);
+      refreshToken = signupResult.refresh_token!;
+      userId = signupResult.user!.id;
+    });
+
+    it('should issue a new access token for a valid refresh token', async () => {
+      const result = await refresh({ refresh_token: refreshToken });
+
+      expect(result.success).toBe(true);
+      expect(result.user!.id).toBe(userId);
+      expect(result.token).toBeDefined();
+      expect(verifyToken(result.token!)!.userId).toBe(userId);
+    });
+
+    it('should rotate the refresh token', async () => {
+      const result = await refresh({ refresh_token: refreshToken });
+
+      expect(result.refresh_token).toBeDefined();
+      expect(result.refresh_token).not.toBe(refreshToken);
+
+      // The previous refresh token is no longer accepted
+      const reused = await refresh({ refresh_token: refreshToken });
+      expect(reused.success).toBe(false);
+
+      // The rotated one is
+      const next = await refresh({ refresh_token: result.refresh_token! });
+      expect(next.success).toBe(true);
+    });
+
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      // Holding the session row locked lets both refreshes find the session before either rotates it
+      let release!: () => void;
+      const locked = new Promise<void>(resolve => { release = resolve; });
+      let lockTaken!: () => void;
+      const taken = new Promise<void>(resolve => { lockTaken = resolve; });
+      const lock = db.transaction(async (tx) => {
+        await tx.execute(sql`select id from ${sessionsTable} where ${sessionsTable.user_id} = ${userId} for update`);
+        lockTaken();
+        await locked;
+      });
+      await taken;
+
+      const refreshes = Promise.all([
+        refresh({ refresh_token: refreshToken }),
+        refresh({ refresh_token: refreshToken })
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      release();
+      await lock;
+      const results = await refreshes;
+
+      expect(results.filter(result => result.success)).toHaveLength(1);
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      const result = await refresh({ refresh_token: 'not-a-real-token' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid or expired refresh token');
+      expect(result.token).toBeUndefined();
+    });
+
+    it('should reject expired sessions', async () => {
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.user_id, userId))
+        .execute();
+
+      const result = await refresh({ refresh_token: refreshToken });
+
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('logout', () => {
     let userId: number;
+    let sessionId: number;
+    let refreshToken: string;
 
     beforeEach(async () => {
       const signupResult = await signup(testSignupInput);
       userId = signupResult.user!.id;
+      sessionId = verifyToken(signupResult.token!)!.sessionId;
+      refreshToken = signupResult.refresh_token!;
     });
 
     it('should logout user successfully', async () => {
-      const result = await logout(userId);
+      const result = await logout(userId, sessionId);
 
       expect(result.success).toBe(true);
       expect(result.message).toBe('Logout successful');
@@ -276,7 +435,7 @@ describe('Auth Handlers', () => {
 
     it('should update user status to offline and set last_seen', async () => {
       const beforeLogout = new Date();
-      await logout(userId);
+      await logout(userId, sessionId);
 
       const users = await db.select()
         .from(usersTable)
@@ -289,8 +448,42 @@ describe('Auth Handlers', () => {
       expect(user.last_seen!.getTime()).toBeGreaterThanOrEqual(beforeLogout.getTime());
     });
 
+    it('should revoke the session', async () => {
+      await logout(userId, sessionId);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, sessionId))
+        .execute();
+
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+
+      const result = await refresh({ refresh_token: refreshToken });
+      expect(result.success).toBe(false);
+    });
+
+    it('should end the session for open connections', async () => {
+      const controller = new AbortController();
+      const events = subscribe('sessionRevoked', controller.signal);
+
+      expect(await isSessionActive(sessionId)).toBe(true);
+      await logout(userId, sessionId);
+
+      expect(await isSessionActive(sessionId)).toBe(false);
+      expect((await events.next()).value).toEqual([{ session_id: sessionId }]);
+      controller.abort();
+    });
+
+    it('should not revoke sessions belonging to another user', async () => {
+      await logout(99999, sessionId);
+
+      expect(await isSessionActive(sessionId)).toBe(true);
+      const result = await refresh({ refresh_token: refreshToken });
+      expect(result.success).toBe(true);
+    });
+
     it('should handle logout for non-existent user', async () => {
-      const result = await logout(99999);
+      const result = await logout(99999, 99999);
 
       expect(result.success).toBe(true);
       expect(result.message).toBe('Logout successful');
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable, chatMessagesTable } from '../db/schema';
+import { getPublicChannels, getUserChannels } from '../handlers/channels';
+import { getPrivateChats } from '../handlers/private-chat';
+
+const PUBLIC_CHANNELS = 600;
+const PRIVATE_CHANNELS = 200;
+const DIRECT_CHATS = 200;
+
+// Listings must cost the same few queries however many channels there are
+const QUERY_BUDGET = 5;
+
+// Runs the listing while counting the queries it sends to the database
+async function countQueries<T>(run: () => Promise<T>): Promise<{ result: T; queries: number }> {
+  const client = db.$client;
+  const query = client.query;
+  const send = query.bind(client) as (...args: unknown[]) => unknown;
+  let queries = 0;
+  client.query = ((...args: unknown[]) => {
+    queries++;
+    return send(...args);
+  }) as typeof query;
+
+  try {
+    const result = await run();
+    return { result, queries };
+  } finally {
+    client.query = query;
+  }
+}
+
+describe('Channel listings with 1,000 channels', () => {
+  let userId: number;
+
+  beforeAll(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'reader', email: 'reader@example.com', password_hash: 'hash' },
+        ...Array.from({ length: DIRECT_CHATS }, (_, i) => ({ username: `peer${i}`, email: `peer${i}@example.com`, password_hash: 'hash' }))
+      ])
+      .returning({ id: usersTable.id })
+      .execute();
+    userId = users[0].id;
+    const peerIds = users.slice(1).map(user => user.id);
+
+    const channels = await db.insert(chatChannelsTable)
+      .values([
+        ...Array.from({ length: PUBLIC_CHANNELS }, (_, i) => ({ name: `public-${i}`, is_private: false, kind: 'public' as const, created_by: userId })),
+        ...Array.from({ length: PRIVATE_CHANNELS }, (_, i) => ({ name: `private-${i}`, is_private: true, kind: 'private' as const, created_by: userId })),
+        ...Array.from({ length: DIRECT_CHATS }, () => ({ name: '', is_private: true, kind: 'dm' as const, created_by: userId }))
+      ])
+      .returning({ id: chatChannelsTable.id })
+      .execute();
+
+    await db.insert(channelMembersTable)
+      .values(channels.flatMap((channel, i) => [
+        { channel_id: channel.id, user_id: userId, role: 'owner' as const },
+        { channel_id: channel.id, user_id: peerIds[i % DIRECT_CHATS], role: 'member' as const }
+      ]))
+      .execute();
+
+    await db.insert(chatMessagesTable)
+      .values(channels.map((channel, i) => ({ channel_id: channel.id, user_id: peerIds[i % DIRECT_CHATS], content: `latest in ${channel.id}` })))
+      .execute();
+  });
+
+  afterAll(resetDB);
+
+  it('should list public channels within the query budget', async () => {
+    const { result, queries } = await countQueries(() => getPublicChannels());
+
+    expect(result).toHaveLength(PUBLIC_CHANNELS);
+    expect(result.every(channel => channel.member_count === 2 && channel.members.length === 2)).toBe(true);
+    expect(queries).toBeLessThanOrEqual(QUERY_BUDGET);
+  });
+
+  it('should list the user\'s channels within the query budget', async () => {
+    const { result, queries } = await countQueries(() => getUserChannels(userId));
+
+    expect(result).toHaveLength(PUBLIC_CHANNELS + PRIVATE_CHANNELS + DIRECT_CHATS);
+    expect(result.every(channel => channel.member_count === 2 && channel.unread_count === 1)).toBe(true);
+    expect(queries).toBeLessThanOrEqual(QUERY_BUDGET);
+  });
+
+  it('should list DMs within the query budget', async () => {
+    const { result, queries } = await countQueries(() => getPrivateChats(userId));
+
+    expect(result).toHaveLength(DIRECT_CHATS);
+    expect(result.every(chat => chat.lastMessage?.content === `latest in ${chat.id}`)).toBe(true);
+    expect(queries).toBeLessThanOrEqual(QUERY_BUDGET);
+  });
+});
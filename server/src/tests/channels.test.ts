@@ -1,10 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, chatChannelsTable, channelMembersTable } from '../db/schema';
+import { usersTable, chatChannelsTable, channelMembersTable, chatMessagesTable, messageReactionsTable, notificationsTable } from '../db/schema';
 import { type CreateChannelInput, type JoinChannelInput } from '../schema';
-import { createChannel, getPublicChannels, getUserChannels, joinChannel, leaveChannel, getChannelMembers } from '../handlers/channels';
-import { eq, and } from 'drizzle-orm';
+import { createChannel, getPublicChannels, getUserChannels, joinChannel, leaveChannel, getChannelMembers, updateChannel, archiveChannel, deleteChannel } from '../handlers/channels';
+import { sendMessage, addReaction } from '../handlers/messages';
+import { createPrivateChat, createGroupChat } from '../handlers/private-chat';
+import { backfillChannelKinds, dedupeChannelMembers } from '../db/backfill';
+import { eq, and, sql } from 'drizzle-orm';
 
 // Test users data
 const testUsers = [
@@ -318,6 +321,30 @@ describe('joinChannel', () => {
     expect(result.message).toEqual('Cannot join private channel without invitation');
   });
 
+  it('should let only one of two concurrent joins through', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+
+    const results = await Promise.all([
+      joinChannel({ channel_id: channel.id }, users[1].id),
+      joinChannel({ channel_id: channel.id }, users[1].id)
+    ]);
+
+    expect(results.map(result => result.success).sort()).toEqual([false, true]);
+    const membership = await db.select()
+      .from(channelMembersTable)
+      .where(and(
+        eq(channelMembersTable.channel_id, channel.id),
+        eq(channelMembersTable.user_id, users[1].id)
+      ))
+      .execute();
+    expect(membership).toHaveLength(1);
+  });
+
   it('should prevent joining non-existent channel', async () => {
     const users = await db.insert(usersTable)
       .values(testUsers)
@@ -428,6 +455,23 @@ describe('leaveChannel', () => {
     expect(result.success).toEqual(false);
     expect(result.message).toEqual('Not a member of this channel');
   });
+
+  it('should delete the channel when the last member leaves', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    await sendMessage({ channel_id: channel.id, content: 'anyone here?', message_type: 'text' }, users[0].id);
+
+    await leaveChannel(channel.id, users[0].id);
+
+    const channels = await db.select().from(chatChannelsTable).execute();
+    const messages = await db.select().from(chatMessagesTable).execute();
+    expect(channels).toHaveLength(0);
+    expect(messages).toHaveLength(0);
+  });
 });
 
 describe('getChannelMembers', () => {
@@ -508,4 +552,250 @@ describe('getChannelMembers', () => {
     expect(result[1].role).toEqual('admin'); // testuser3
     expect(result[2].role).toEqual('member'); // testuser2
   });
-});
\ No newline at end of file
+});
+describe('updateChannel', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should let owners change every setting', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+
+    const result = await updateChannel({
+      channel_id: channel.id,
+      name: 'Renamed',
+      description: null,
+      topic: 'Release on Friday',
+      is_private: true
+    }, users[0].id);
+
+    expect(result.name).toEqual('Renamed');
+    expect(result.description).toBeNull();
+    expect(result.topic).toEqual('Release on Friday');
+    expect(result.is_private).toEqual(true);
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(channel.updated_at.getTime());
+  });
+
+  it('should leave omitted fields unchanged', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+
+    const result = await updateChannel({ channel_id: channel.id, topic: 'New topic' }, users[0].id);
+
+    expect(result.name).toEqual('Test Channel');
+    expect(result.description).toEqual('A channel for testing');
+  });
+
+  it('should let admins edit but not change visibility', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    await joinChannel({ channel_id: channel.id }, users[1].id);
+    await joinChannel({ channel_id: channel.id }, users[2].id);
+    await db.update(channelMembersTable)
+      .set({ role: 'admin' })
+      .where(eq(channelMembersTable.user_id, users[1].id))
+      .execute();
+
+    expect((await updateChannel({ channel_id: channel.id, name: 'By admin' }, users[1].id)).name).toEqual('By admin');
+    await expect(updateChannel({ channel_id: channel.id, is_private: true }, users[1].id))
+      .rejects.toThrow(/only the channel owner can change channel visibility/i);
+    await expect(updateChannel({ channel_id: channel.id, name: 'By member' }, users[2].id))
+      .rejects.toThrow(/only channel owners and admins/i);
+  });
+
+  it('should keep the kind in step with visibility and keep DMs private', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    const dm = await createPrivateChat(users[0].id, users[1].id);
+
+    expect(channel.kind).toEqual('public');
+    expect((await updateChannel({ channel_id: channel.id, is_private: true }, users[0].id)).kind).toEqual('private');
+    expect((await updateChannel({ channel_id: channel.id, is_private: false }, users[0].id)).kind).toEqual('public');
+    await expect(updateChannel({ channel_id: dm.id, is_private: false }, users[0].id))
+      .rejects.toThrow(/direct messages are always private/i);
+  });
+});
+
+describe('archiveChannel', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should hide archived channels from the directory but not from members', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+
+    const archived = await archiveChannel({ channel_id: channel.id, archived: true }, users[0].id);
+
+    expect(archived.archived_at).toBeInstanceOf(Date);
+    expect(await getPublicChannels()).toHaveLength(0);
+    expect((await getUserChannels(users[0].id))[0].archived_at).toBeInstanceOf(Date);
+  });
+
+  it('should make archived channels read-only until restored', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    const message = await sendMessage({ channel_id: channel.id, content: 'before', message_type: 'text' }, users[0].id);
+    await archiveChannel({ channel_id: channel.id, archived: true }, users[0].id);
+
+    await expect(sendMessage({ channel_id: channel.id, content: 'after', message_type: 'text' }, users[0].id))
+      .rejects.toThrow(/archived and read-only/i);
+    await expect(addReaction({ message_id: message.id, emoji: '👍' }, users[0].id))
+      .rejects.toThrow(/archived and read-only/i);
+    await expect(updateChannel({ channel_id: channel.id, topic: 'x' }, users[0].id))
+      .rejects.toThrow(/archived and read-only/i);
+    expect((await joinChannel({ channel_id: channel.id }, users[1].id)).success).toEqual(false);
+
+    await archiveChannel({ channel_id: channel.id, archived: false }, users[0].id);
+
+    expect((await sendMessage({ channel_id: channel.id, content: 'after', message_type: 'text' }, users[0].id)).content).toEqual('after');
+  });
+
+  it('should only let the owner archive', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    await joinChannel({ channel_id: channel.id }, users[1].id);
+
+    await expect(archiveChannel({ channel_id: channel.id, archived: true }, users[1].id))
+      .rejects.toThrow(/only the channel owner/i);
+  });
+});
+
+describe('deleteChannel', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the channel with its members, messages and related rows', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    const other = await createChannel({ ...testChannelInput, name: 'Other' }, users[0].id);
+    await joinChannel({ channel_id: channel.id }, users[1].id);
+    const message = await sendMessage({ channel_id: channel.id, content: 'hi @testuser2', message_type: 'text' }, users[0].id);
+    await sendMessage({ channel_id: channel.id, content: 'reply', message_type: 'text', reply_to_message_id: message.id }, users[1].id);
+    await addReaction({ message_id: message.id, emoji: '👍' }, users[1].id);
+    await sendMessage({ channel_id: other.id, content: 'elsewhere', message_type: 'text' }, users[0].id);
+
+    const result = await deleteChannel(channel.id, users[0].id);
+
+    expect(result.success).toEqual(true);
+    const channels = await db.select().from(chatChannelsTable).execute();
+    const members = await db.select().from(channelMembersTable).where(eq(channelMembersTable.channel_id, channel.id)).execute();
+    const messages = await db.select().from(chatMessagesTable).execute();
+    expect(channels.map(c => c.id)).toEqual([other.id]);
+    expect(members).toHaveLength(0);
+    expect(messages.map(m => m.content)).toEqual(['elsewhere']);
+    expect(await db.select().from(messageReactionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(notificationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should only let the owner delete', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    await joinChannel({ channel_id: channel.id }, users[1].id);
+
+    await expect(deleteChannel(channel.id, users[1].id)).rejects.toThrow(/only the channel owner/i);
+    await expect(deleteChannel(channel.id, users[2].id)).rejects.toThrow(/does not have access/i);
+  });
+});
+
+describe('backfillChannelKinds', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should sort channels created before kinds into private channels, DMs and group DMs', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const publicChannel = await createChannel(testChannelInput, users[0].id);
+    const privateChannel = await createChannel({ ...testPrivateChannelInput, member_user_ids: [users[1].id] }, users[0].id);
+    const dm = await createPrivateChat(users[0].id, users[1].id);
+    const groupDm = await createGroupChat({ userIds: [users[1].id, users[2].id] }, users[0].id);
+    // Rows pushed before the column existed all got the default
+    await db.update(chatChannelsTable).set({ kind: 'public' }).execute();
+
+    expect(await backfillChannelKinds()).toEqual(3);
+    expect(await backfillChannelKinds()).toEqual(0);
+
+    const kinds = await db.select({ id: chatChannelsTable.id, kind: chatChannelsTable.kind })
+      .from(chatChannelsTable)
+      .execute();
+    expect(Object.fromEntries(kinds.map(channel => [channel.id, channel.kind]))).toEqual({
+      [publicChannel.id]: 'public',
+      [privateChannel.id]: 'private',
+      [dm.id]: 'dm',
+      [groupDm.id]: 'group_dm'
+    });
+  });
+});
+
+describe('dedupeChannelMembers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should merge duplicate memberships into the oldest row', async () => {
+    const users = await db.insert(usersTable)
+      .values(testUsers)
+      .returning()
+      .execute();
+
+    const channel = await createChannel(testChannelInput, users[0].id);
+    // Databases from before the constraint can hold the same membership more than once
+    await db.execute(sql`alter table channel_members drop constraint channel_members_channel_id_user_id_unique`);
+    const rows = await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channel.id, user_id: users[1].id, role: 'member', last_read_message_id: 5 },
+        { channel_id: channel.id, user_id: users[1].id, role: 'admin', last_read_message_id: 3 },
+        { channel_id: channel.id, user_id: users[1].id, role: 'member', last_read_message_id: null }
+      ])
+      .returning()
+      .execute();
+
+    expect(await dedupeChannelMembers()).toEqual(2);
+    expect(await dedupeChannelMembers()).toEqual(0);
+
+    const memberships = await db.select()
+      .from(channelMembersTable)
+      .where(eq(channelMembersTable.user_id, users[1].id))
+      .execute();
+    expect(memberships.map(membership => [membership.id, membership.role, membership.last_read_message_id])).toEqual([
+      [rows[0].id, 'admin', 5]
+    ]);
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable, chatMessagesTable } from '../db/schema';
+import { executeCommand, listCommands } from '../handlers/commands';
+import { getPrivateChatUsers } from '../handlers/private-chat';
+import { eq, and } from 'drizzle-orm';
+
+describe('Command Handlers', () => {
+  let aliceId: number;
+  let bobId: number;
+  let carolId: number;
+  let channelId: number;
+  let otherChannelId: number;
+
+  const run = (text: string, userId: number = aliceId, inChannelId: number = channelId) =>
+    executeCommand({ channel_id: inChannelId, text }, userId);
+
+  const isMember = async (userId: number, inChannelId: number) => {
+    const rows = await db.select()
+      .from(channelMembersTable)
+      .where(and(eq(channelMembersTable.channel_id, inChannelId), eq(channelMembersTable.user_id, userId)))
+      .execute();
+    return rows.length > 0;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hash1' },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hash2' },
+        { username: 'carol', email: 'carol@example.com', password_hash: 'hash3' }
+      ])
+      .returning()
+      .execute();
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    carolId = users[2].id;
+
+    const channels = await db.insert(chatChannelsTable)
+      .values([
+        { name: 'general', is_private: false, created_by: aliceId },
+        { name: 'Random', is_private: false, created_by: bobId }
+      ])
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+    otherChannelId = channels[1].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: aliceId, role: 'owner' },
+        { channel_id: channelId, user_id: bobId, role: 'member' },
+        { channel_id: otherChannelId, user_id: bobId, role: 'owner' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('parsing', () => {
+    it('should list every command with its usage', () => {
+      const commands = listCommands();
+
+      expect(commands.map(command => command.name)).toEqual(['join', 'leave', 'me', 'msg', 'topic', 'nick', 'away', 'invite', 'kick', 'help']);
+      expect(commands.find(command => command.name === 'msg')!.usage).toBe('/msg <user> <text>');
+      expect(commands.find(command => command.name === 'topic')!.usage).toBe('/topic [topic]');
+    });
+
+    it('should reject unknown commands', async () => {
+      await expect(run('/dance')).rejects.toThrow(/unknown command \/dance/i);
+    });
+
+    it('should reject missing and extra arguments with the usage', async () => {
+      await expect(run('/join')).rejects.toThrow('Usage: /join <#channel>');
+      await expect(run('/kick bob carol')).rejects.toThrow('Usage: /kick <user>');
+    });
+
+    it('should explain commands', async () => {
+      const all = await run('/help');
+      const one = await run('/help /msg');
+
+      expect(all.feedback!.split('\n')).toHaveLength(listCommands().length);
+      expect(one.feedback).toBe('/msg <user> <text> - Send a direct message to a user');
+    });
+  });
+
+  describe('channels', () => {
+    it('should join a public channel by name and open it', async () => {
+      const result = await run('/join #random');
+
+      expect(result).toEqual({ feedback: 'Joined #Random', open_channel_id: otherChannelId, left_channel_id: null, user: null });
+      expect(await isMember(aliceId, otherChannelId)).toBe(true);
+    });
+
+    it('should just open channels the user is already in', async () => {
+      const result = await run('/join general');
+
+      expect(result.open_channel_id).toBe(channelId);
+      expect(result.feedback).toBe(null);
+    });
+
+    it('should not join private or unknown channels', async () => {
+      await db.insert(chatChannelsTable)
+        .values({ name: 'secret', is_private: true, kind: 'private', created_by: bobId })
+        .execute();
+
+      await expect(run('/join #secret')).rejects.toThrow(/no public channel named #secret/i);
+    });
+
+    it('should leave the current channel', async () => {
+      const result = await run('/leave', bobId);
+
+      expect(result.left_channel_id).toBe(channelId);
+      expect(await isMember(bobId, channelId)).toBe(false);
+    });
+
+    it('should show and set the topic', async () => {
+      expect((await run('/topic', bobId)).feedback).toBe('No topic is set');
+
+      await run('/topic Release day: be nice');
+
+      expect((await run('/topic', bobId)).feedback).toBe('Topic: Release day: be nice');
+      await expect(run('/topic mine now', bobId)).rejects.toThrow(/only channel owners and admins/i);
+    });
+
+    it('should let owners kick members but not members kick anyone', async () => {
+      await expect(run('/kick alice', bobId)).rejects.toThrow(/do not have permission/i);
+
+      const result = await run('/kick @bob');
+
+      expect(result.feedback).toBe('Removed bob from the channel');
+      expect(await isMember(bobId, channelId)).toBe(false);
+    });
+
+    it('should not let admins kick owners', async () => {
+      await db.update(channelMembersTable)
+        .set({ role: 'admin' })
+        .where(and(eq(channelMembersTable.channel_id, channelId), eq(channelMembersTable.user_id, bobId)))
+        .execute();
+
+      await expect(run('/kick alice', bobId)).rejects.toThrow(/equal or higher role/i);
+    });
+  });
+
+  describe('messages', () => {
+    it('should post /me as an action message', async () => {
+      await run('/me   waves at everyone');
+
+      const messages = await db.select().from(chatMessagesTable).execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].message_type).toBe('action');
+      expect(messages[0].content).toBe('waves at everyone');
+    });
+
+    it('should send direct messages and open the conversation', async () => {
+      const result = await run('/msg carol lunch at noon?');
+
+      const messages = await db.select().from(chatMessagesTable)
+        .where(eq(chatMessagesTable.channel_id, result.open_channel_id!))
+        .execute();
+      expect(messages.map(message => message.content)).toEqual(['lunch at noon?']);
+      expect(await isMember(carolId, result.open_channel_id!)).toBe(true);
+    });
+
+    it('should invite users to private conversations only', async () => {
+      const dm = await run('/msg bob hi');
+
+      const group = await run('/invite carol', aliceId, dm.open_channel_id!);
+
+      // The 1:1 DM stays as it was and a group DM opens instead
+      expect(group.open_channel_id).not.toBe(dm.open_channel_id);
+      const users = await getPrivateChatUsers(group.open_channel_id!, aliceId);
+      expect(users.map(user => user.username).sort()).toEqual(['bob', 'carol']);
+      expect(await getPrivateChatUsers(dm.open_channel_id!, aliceId)).toHaveLength(1);
+      await expect(run('/invite carol')).rejects.toThrow(/#general is public/i);
+    });
+  });
+
+  describe('users', () => {
+    it('should change the username', async () => {
+      const result = await run('/nick alicia');
+
+      expect(result.user!.username).toBe('alicia');
+      await expect(run('/nick bob')).rejects.toThrow(/bob is already taken/i);
+      await expect(run('/nick al')).rejects.toThrow(/3 to 30 characters/i);
+    });
+
+    it('should toggle away', async () => {
+      const away = await run('/away');
+      const back = await run('/away');
+
+      expect(away.feedback).toBe('You are marked as away');
+      expect(back.feedback).toBe('You are no longer away');
+
+      const user = await db.select().from(usersTable).where(eq(usersTable.id, aliceId)).execute();
+      expect(user[0].preferred_status).toBe('online');
+    });
+  });
+});
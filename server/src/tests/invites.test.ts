@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable, channelInvitesTable } from '../db/schema';
+import { createInvite, revokeInvite, listInvites, getInvitePreview, acceptInvite } from '../handlers/invites';
+import { archiveChannel, deleteChannel } from '../handlers/channels';
+import { banMember } from '../handlers/moderation';
+import { createPrivateChat } from '../handlers/private-chat';
+import { eq, and } from 'drizzle-orm';
+
+describe('Invite Handlers', () => {
+  let ownerId: number;
+  let memberId: number;
+  let guestId: number;
+  let otherGuestId: number;
+  let channelId: number;
+
+  const isMember = async (userId: number) => {
+    const rows = await db.select()
+      .from(channelMembersTable)
+      .where(and(eq(channelMembersTable.channel_id, channelId), eq(channelMembersTable.user_id, userId)))
+      .execute();
+    return rows.length > 0;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hash1' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hash2' },
+        { username: 'guest', email: 'guest@example.com', password_hash: 'hash3' },
+        { username: 'other', email: 'other@example.com', password_hash: 'hash4' }
+      ])
+      .returning()
+      .execute();
+
+    [ownerId, memberId, guestId, otherGuestId] = users.map(user => user.id);
+
+    const channels = await db.insert(chatChannelsTable)
+      .values({ name: 'secret', description: 'Invite only', is_private: true, kind: 'private', created_by: ownerId })
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: ownerId, role: 'owner' },
+        { channel_id: channelId, user_id: memberId, role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('createInvite', () => {
+    it('should create a random code with the given limits', async () => {
+      const invite = await createInvite({ channel_id: channelId, max_uses: 5, expires_in_minutes: 60 }, ownerId);
+      const another = await createInvite({ channel_id: channelId }, ownerId);
+
+      expect(invite.code).toMatch(/^[\w-]{12}$/);
+      expect(invite.code).not.toEqual(another.code);
+      expect(invite).toMatchObject({ channel_id: channelId, creator: { id: ownerId, username: 'owner' }, max_uses: 5, use_count: 0 });
+      expect(invite.expires_at!.getTime()).toBeGreaterThan(Date.now());
+      expect(another.max_uses).toBeNull();
+      expect(another.expires_at).toBeNull();
+    });
+
+    it('should only let owners and admins create invites', async () => {
+      await expect(createInvite({ channel_id: channelId }, memberId)).rejects.toThrow(/only channel owners and admins/i);
+      await expect(createInvite({ channel_id: channelId }, guestId)).rejects.toThrow(/does not have access/i);
+    });
+
+    it('should not create invites to direct messages', async () => {
+      const dm = await createPrivateChat(ownerId, memberId);
+
+      await expect(createInvite({ channel_id: dm.id }, ownerId)).rejects.toThrow(/direct messages cannot have invite links/i);
+    });
+  });
+
+  describe('acceptInvite', () => {
+    it('should preview and join the channel', async () => {
+      const invite = await createInvite({ channel_id: channelId }, ownerId);
+
+      const preview = await getInvitePreview({ code: invite.code }, guestId);
+      const channel = await acceptInvite({ code: invite.code }, guestId);
+
+      expect(preview).toMatchObject({
+        code: invite.code,
+        channel: { id: channelId, name: 'secret', description: 'Invite only', is_private: true, member_count: 2 },
+        inviter: 'owner',
+        is_member: false
+      });
+      expect(channel.id).toEqual(channelId);
+      expect(await isMember(guestId)).toBe(true);
+      expect((await getInvitePreview({ code: invite.code }, guestId)).is_member).toBe(true);
+    });
+
+    it('should stop working once max uses are reached', async () => {
+      const invite = await createInvite({ channel_id: channelId, max_uses: 1 }, ownerId);
+
+      await acceptInvite({ code: invite.code }, guestId);
+
+      await expect(acceptInvite({ code: invite.code }, otherGuestId)).rejects.toThrow(/invalid or has expired/i);
+      expect(await isMember(otherGuestId)).toBe(false);
+    });
+
+    it('should not count members accepting again as another use', async () => {
+      const invite = await createInvite({ channel_id: channelId, max_uses: 2 }, ownerId);
+
+      await acceptInvite({ code: invite.code }, guestId);
+      await acceptInvite({ code: invite.code }, guestId);
+      await acceptInvite({ code: invite.code }, memberId);
+
+      const invites = await listInvites(channelId, ownerId);
+      expect(invites[0].use_count).toEqual(1);
+    });
+
+    it('should add a member accepting twice at once only once', async () => {
+      const invite = await createInvite({ channel_id: channelId, max_uses: 5 }, ownerId);
+
+      await Promise.all([acceptInvite({ code: invite.code }, guestId), acceptInvite({ code: invite.code }, guestId)]);
+
+      const memberships = await db.select()
+        .from(channelMembersTable)
+        .where(and(eq(channelMembersTable.channel_id, channelId), eq(channelMembersTable.user_id, guestId)))
+        .execute();
+      expect(memberships).toHaveLength(1);
+      expect((await listInvites(channelId, ownerId))[0].use_count).toEqual(1);
+    });
+
+    it('should reject expired, revoked and unknown codes alike', async () => {
+      const expired = await createInvite({ channel_id: channelId, expires_in_minutes: 5 }, ownerId);
+      const revoked = await createInvite({ channel_id: channelId }, ownerId);
+      await db.update(channelInvitesTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(channelInvitesTable.code, expired.code))
+        .execute();
+      await revokeInvite({ code: revoked.code }, ownerId);
+
+      for (const code of [expired.code, revoked.code, 'not-a-code']) {
+        await expect(acceptInvite({ code }, guestId)).rejects.toThrow('This invite is invalid or has expired');
+        await expect(getInvitePreview({ code }, guestId)).rejects.toThrow('This invite is invalid or has expired');
+      }
+    });
+
+    it('should not let banned users or anyone join archived channels', async () => {
+      const invite = await createInvite({ channel_id: channelId }, ownerId);
+      await banMember({ channel_id: channelId, user_id: guestId }, ownerId);
+
+      await expect(acceptInvite({ code: invite.code }, guestId)).rejects.toThrow(/banned/i);
+
+      await archiveChannel({ channel_id: channelId, archived: true }, ownerId);
+      await expect(acceptInvite({ code: invite.code }, otherGuestId)).rejects.toThrow(/invalid or has expired/i);
+    });
+  });
+
+  describe('listInvites and revokeInvite', () => {
+    it('should list usable invites newest first', async () => {
+      const first = await createInvite({ channel_id: channelId }, ownerId);
+      const second = await createInvite({ channel_id: channelId, max_uses: 1 }, ownerId);
+      const third = await createInvite({ channel_id: channelId }, ownerId);
+      await acceptInvite({ code: second.code }, guestId);
+      await revokeInvite({ code: third.code }, ownerId);
+
+      const invites = await listInvites(channelId, ownerId);
+
+      expect(invites.map(invite => invite.code)).toEqual([first.code]);
+      await expect(listInvites(channelId, memberId)).rejects.toThrow(/only channel owners and admins/i);
+    });
+
+    it('should let only the creator and moderators revoke', async () => {
+      const invite = await createInvite({ channel_id: channelId }, ownerId);
+
+      await expect(revokeInvite({ code: invite.code }, memberId)).rejects.toThrow(/only channel owners and admins/i);
+      expect(await revokeInvite({ code: invite.code }, ownerId)).toEqual({ success: true, message: 'Invite revoked' });
+      await expect(revokeInvite({ code: invite.code }, ownerId)).rejects.toThrow('Invite not found');
+    });
+
+    it('should delete invites with their channel', async () => {
+      await createInvite({ channel_id: channelId }, ownerId);
+
+      await deleteChannel(channelId, ownerId);
+
+      expect(await db.select().from(channelInvitesTable).execute()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { normalizeContent, parseMarkdown } from '../markdown';
+import { type BlockNode, type InlineNode } from '../schema';
+
+const paragraph = (...children: InlineNode[]): BlockNode => ({ type: 'paragraph', children });
+const text = (value: string): InlineNode => ({ type: 'text', text: value });
+
+describe('Markdown', () => {
+  describe('normalizeContent', () => {
+    it('should unify line endings and drop trailing whitespace and blank edges', () => {
+      expect(normalizeContent('\r\n  one  \r\ntwo\rthree\n\n')).toBe('  one\ntwo\nthree');
+    });
+
+    it('should compose characters and strip control and bidi override characters', () => {
+      expect(normalizeContent('café ‮txt.exe\u0000')).toBe('café txt.exe');
+    });
+
+    it('should keep tabs', () => {
+      expect(normalizeContent('a\tb')).toBe('a\tb');
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse bold, italic and inline code', () => {
+      expect(parseMarkdown('**bold**, *italic*, _also_ and `code`')).toEqual([paragraph(
+        { type: 'strong', children: [text('bold')] },
+        text(', '),
+        { type: 'em', children: [text('italic')] },
+        text(', '),
+        { type: 'em', children: [text('also')] },
+        text(' and '),
+        { type: 'code', text: 'code' }
+      )]);
+    });
+
+    it('should nest emphasis', () => {
+      expect(parseMarkdown('*a **b** c*')).toEqual([paragraph({
+        type: 'em',
+        children: [text('a '), { type: 'strong', children: [text('b')] }, text(' c')]
+      })]);
+      expect(parseMarkdown('***both***')).toEqual([paragraph({
+        type: 'strong',
+        children: [{ type: 'em', children: [text('both')] }]
+      })]);
+    });
+
+    it('should leave underscores inside words, unmatched and escaped delimiters literal', () => {
+      expect(parseMarkdown('snake_case_name')).toEqual([paragraph(text('snake_case_name'))]);
+      expect(parseMarkdown('2 * 3 * 4')).toEqual([paragraph(text('2 * 3 * 4'))]);
+      expect(parseMarkdown('\\*not italic\\*')).toEqual([paragraph(text('*not italic*'))]);
+    });
+
+    it('should not format inside code spans', () => {
+      expect(parseMarkdown('`**x**` and ``a`b``')).toEqual([paragraph(
+        { type: 'code', text: '**x**' },
+        text(' and '),
+        { type: 'code', text: 'a`b' }
+      )]);
+    });
+
+    it('should parse fenced code blocks with an optional language', () => {
+      expect(parseMarkdown('```TypeScript\nconst a = 1;\n\nconst b = **2**;\n```\nafter')).toEqual([
+        { type: 'code_block', language: 'typescript', code: 'const a = 1;\n\nconst b = **2**;' },
+        paragraph(text('after'))
+      ]);
+      expect(parseMarkdown('~~~\nunclosed')).toEqual([{ type: 'code_block', language: null, code: 'unclosed' }]);
+    });
+
+    it('should parse block quotes with their own blocks', () => {
+      expect(parseMarkdown('> *quoted*\n> > nested\n\nreply')).toEqual([
+        {
+          type: 'blockquote',
+          children: [
+            paragraph({ type: 'em', children: [text('quoted')] }),
+            { type: 'blockquote', children: [paragraph(text('nested'))] }
+          ]
+        },
+        paragraph(text('reply'))
+      ]);
+    });
+
+    it('should link http(s) urls without trailing punctuation', () => {
+      expect(parseMarkdown('see https://example.com/a_(b). or (http://x.org/path)!')).toEqual([paragraph(
+        text('see '),
+        { type: 'link', url: 'https://example.com/a_(b)' },
+        text('. or ('),
+        { type: 'link', url: 'http://x.org/path' },
+        text(')!')
+      )]);
+    });
+
+    it('should not link other schemes or addresses', () => {
+      expect(parseMarkdown('javascript:alert(1) ftp://x.org user@https://x.org')).toEqual([
+        paragraph(text('javascript:alert(1) ftp://x.org user@'), { type: 'link', url: 'https://x.org' })
+      ]);
+    });
+
+    it('should keep HTML as text', () => {
+      expect(parseMarkdown('<img src=x onerror=alert(1)>')).toEqual([paragraph(text('<img src=x onerror=alert(1)>'))]);
+    });
+
+    it('should stay fast on many unmatched delimiters', () => {
+      const start = performance.now();
+      parseMarkdown('*a _b `c '.repeat(20000));
+      expect(performance.now() - start).toBeLessThan(1000);
+    });
+  });
+});
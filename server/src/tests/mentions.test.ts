@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, chatMessagesTable, channelMembersTable, messageMentionsTable } from '../db/schema';
+import { parseMentions } from '../handlers/mentions';
+import { sendMessage, updateMessage, deleteMessage, purgeDeletedMessages, getMessages } from '../handlers/messages';
+import { eq } from 'drizzle-orm';
+
+describe('Mentions', () => {
+  describe('parseMentions', () => {
+    const members = [
+      { id: 1, username: 'alice', status: 'online' as const },
+      { id: 2, username: 'bob', status: 'away' as const },
+      { id: 3, username: 'carol', status: 'offline' as const },
+      { id: 4, username: 'bo.b', status: 'online' as const }
+    ];
+
+    it('should find members mentioned by name, ignoring case', () => {
+      const mentions = parseMentions('@Bob and @carol, hi', members, 1);
+
+      expect([...mentions.entries()]).toEqual([[2, 'user'], [3, 'user']]);
+    });
+
+    it('should not match longer names, e-mail addresses or the sender', () => {
+      expect(parseMentions('@bobby mail bob@example.com @alice', members, 1).size).toBe(0);
+    });
+
+    it('should match usernames with punctuation literally', () => {
+      expect([...parseMentions('thanks @bo.b!', members, 1).keys()]).toEqual([4]);
+      expect(parseMentions('thanks @boxb', members, 1).size).toBe(0);
+    });
+
+    it('should expand @channel to every other member', () => {
+      const mentions = parseMentions('@channel heads up', members, 1);
+
+      expect([...mentions.entries()]).toEqual([[2, 'channel'], [3, 'channel'], [4, 'channel']]);
+    });
+
+    it('should expand @here to members who are not offline', () => {
+      const mentions = parseMentions('@here anyone?', members, 1);
+
+      expect([...mentions.entries()]).toEqual([[2, 'here'], [4, 'here']]);
+    });
+
+    it('should prefer a mention by name over @channel', () => {
+      const mentions = parseMentions('@channel and especially @bob', members, 1);
+
+      expect(mentions.get(2)).toBe('user');
+      expect(mentions.get(3)).toBe('channel');
+    });
+  });
+
+  describe('stored mentions', () => {
+    let aliceId: number;
+    let bobId: number;
+    let carolId: number;
+    let channelId: number;
+
+    beforeEach(async () => {
+      await createDB();
+
+      const users = await db.insert(usersTable)
+        .values([
+          { username: 'alice', email: 'alice@example.com', password_hash: 'hash1' },
+          { username: 'bob', email: 'bob@example.com', password_hash: 'hash2' },
+          { username: 'carol', email: 'carol@example.com', password_hash: 'hash3' }
+        ])
+        .returning()
+        .execute();
+
+      aliceId = users[0].id;
+      bobId = users[1].id;
+      carolId = users[2].id;
+
+      const channels = await db.insert(chatChannelsTable)
+        .values({ name: 'general', is_private: false, created_by: aliceId })
+        .returning()
+        .execute();
+
+      channelId = channels[0].id;
+
+      await db.insert(channelMembersTable)
+        .values([
+          { channel_id: channelId, user_id: aliceId, role: 'owner' },
+          { channel_id: channelId, user_id: bobId, role: 'member' }
+        ])
+        .execute();
+    });
+
+    afterEach(resetDB);
+
+    it('should store mentions of members and return them with the message', async () => {
+      // carol exists but is not a member of the channel
+      const message = await sendMessage({ channel_id: channelId, content: 'hi @bob and @carol', message_type: 'text' }, aliceId);
+
+      expect(message.mentions).toEqual([{ user_id: bobId, username: 'bob' }]);
+
+      const stored = await db.select().from(messageMentionsTable).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].message_id).toBe(message.id);
+      expect(stored[0].kind).toBe('user');
+
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, bobId);
+      expect(page.messages[0].mentions).toEqual([{ user_id: bobId, username: 'bob' }]);
+    });
+
+    it('should store @channel mentions without listing them on the message', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: '@channel lunch?', message_type: 'text' }, aliceId);
+
+      expect(message.mentions).toEqual([]);
+
+      const stored = await db.select().from(messageMentionsTable).execute();
+      expect(stored.map(mention => [mention.user_id, mention.kind])).toEqual([[bobId, 'channel']]);
+    });
+
+    it('should follow edits', async () => {
+      await db.insert(channelMembersTable)
+        .values({ channel_id: channelId, user_id: carolId, role: 'member' })
+        .execute();
+      const message = await sendMessage({ channel_id: channelId, content: 'hi @bob', message_type: 'text' }, aliceId);
+
+      const updated = await updateMessage({ message_id: message.id, content: 'hi @carol' }, aliceId);
+
+      expect(updated.mentions).toEqual([{ user_id: carolId, username: 'carol' }]);
+      const stored = await db.select().from(messageMentionsTable).execute();
+      expect(stored.map(mention => mention.user_id)).toEqual([carolId]);
+    });
+
+    it('should be removed when the deleted message is purged', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'hi @bob', message_type: 'text' }, aliceId);
+
+      await deleteMessage(message.id, aliceId);
+      await db.update(chatMessagesTable)
+        .set({ deleted_at: new Date(0) })
+        .where(eq(chatMessagesTable.id, message.id))
+        .execute();
+      await purgeDeletedMessages();
+
+      const stored = await db.select().from(messageMentionsTable)
+        .where(eq(messageMentionsTable.message_id, message.id))
+        .execute();
+      expect(stored).toHaveLength(0);
+    });
+  });
+});
@@ -1,10 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, chatChannelsTable, chatMessagesTable, channelMembersTable } from '../db/schema';
-import { type SendMessageInput, type GetMessagesInput, type UpdateMessageInput } from '../schema';
-import { sendMessage, getMessages, updateMessage, deleteMessage, unfurlLink } from '../handlers/messages';
-import { eq, and } from 'drizzle-orm';
+import { usersTable, chatChannelsTable, chatMessagesTable, channelMembersTable, messageReactionsTable, attachmentsTable, linkPreviewsTable, messageLinkPreviewsTable, messageRevisionsTable } from '../db/schema';
+import { getMessagesInputSchema, searchMessagesInputSchema, sendMessageInputSchema, reactInputSchema, type SendMessageInput, type GetMessagesInput, type UpdateMessageInput, type MessageWithUser } from '../schema';
+import { sendMessage, getMessages, getThread, getMessageHistory, searchMessages, updateMessage, deleteMessage, restoreMessage, purgeDeletedMessages, addReaction, removeReaction, onReactionChanged, onNewMessage, onMessageUpdated, onMessageDeleted, removeLinkPreview } from '../handlers/messages';
+import { unfurlLink, normalizeUrl } from '../handlers/unfurl';
+import { refreshLinkPreviews } from '../handlers/link-previews';
+import { parseMarkdown } from '../markdown';
+import { backfillLinkPreviews } from '../db/backfill';
+import { leaveChannel } from '../handlers/channels';
+import { eq, and, isNotNull, sql } from 'drizzle-orm';
+
+// Moves every deleted message past the default retention period
+const expireDeletedMessages = () => db.update(chatMessagesTable)
+  .set({ deleted_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) })
+  .where(isNotNull(chatMessagesTable.deleted_at))
+  .execute();
 
 // Test data
 const testUser = {
@@ -33,6 +44,31 @@ describe('Message Handlers', () => {
   let userId2: number;
   let channelId: number;
 
+  // Stands in for a file stored through the upload endpoint
+  const createTestAttachment = async (uploaderId: number): Promise<number> => {
+    const result = await db.insert(attachmentsTable)
+      .values({
+        user_id: uploaderId,
+        storage_key: '0a1b2c.png',
+        thumbnail_key: '3d4e5f.webp',
+        filename: 'diagram.png',
+        content_type: 'image/png',
+        size_bytes: 2048,
+        width: 640,
+        height: 480
+      })
+      .returning()
+      .execute();
+    return result[0].id;
+  };
+
+  // Unfurls are served from the cache, so no request leaves the machine
+  const cachePreview = async (url: string, title: string | null) => {
+    await db.insert(linkPreviewsTable)
+      .values({ url: normalizeUrl(url), title, expires_at: new Date(Date.now() + 60 * 1000) })
+      .execute();
+  };
+
   beforeEach(async () => {
     await createDB();
     
@@ -86,8 +122,8 @@ describe('Message Handlers', () => {
       expect(result.user_id).toBe(userId);
       expect(result.content).toBe('Hello, world!');
       expect(result.message_type).toBe('text');
-      expect(result.image_url).toBe(null);
-      expect(result.link_preview).toBe(null);
+      expect(result.attachment).toBe(null);
+      expect(result.link_previews).toEqual([]);
       expect(result.reply_to_message_id).toBe(null);
       expect(result.is_edited).toBe(false);
       expect(result.id).toBeDefined();
@@ -100,32 +136,87 @@ describe('Message Handlers', () => {
       expect(result.user.is_online).toBe(true);
     });
 
-    it('should send an image message successfully', async () => {
+    it('should send an image message with an uploaded attachment', async () => {
+      const attachmentId = await createTestAttachment(userId);
       const input: SendMessageInput = {
         channel_id: channelId,
-        content: 'Check out this image!',
+        content: '',
         message_type: 'image',
-        image_url: 'https://example.com/image.jpg'
+        attachment_id: attachmentId
       };
 
       const result = await sendMessage(input, userId);
 
       expect(result.message_type).toBe('image');
-      expect(result.image_url).toBe('https://example.com/image.jpg');
+      expect(result.attachment?.id).toBe(attachmentId);
+      expect(result.attachment?.url).toBe('/uploads/0a1b2c.png');
+      expect(result.attachment?.thumbnail_url).toBe('/uploads/3d4e5f.webp');
+      expect(result.attachment?.width).toBe(640);
+
+      const attachments = await db.select()
+        .from(attachmentsTable)
+        .where(eq(attachmentsTable.id, attachmentId))
+        .execute();
+      expect(attachments[0].message_id).toBe(result.id);
+
+      // Attachments show up wherever the message is listed
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, userId2);
+      expect(page.messages[0].attachment?.id).toBe(attachmentId);
+    });
+
+    it('should require an attachment for image messages', () => {
+      expect(sendMessageInputSchema.safeParse({ channel_id: channelId, content: 'pic', message_type: 'image' }).success).toBe(false);
+      expect(sendMessageInputSchema.safeParse({ channel_id: channelId, content: 'hi', attachment_id: 1 }).success).toBe(false);
+      expect(sendMessageInputSchema.safeParse({ channel_id: channelId, content: '' }).success).toBe(false);
+      expect(sendMessageInputSchema.safeParse({ channel_id: channelId, content: '', message_type: 'image', attachment_id: 1 }).success).toBe(true);
+    });
+
+    it("should reject another user's attachment", async () => {
+      const attachmentId = await createTestAttachment(userId2);
+
+      await expect(sendMessage({
+        channel_id: channelId,
+        content: 'Not mine',
+        message_type: 'image',
+        attachment_id: attachmentId
+      }, userId)).rejects.toThrow('Attachment not found or already used');
+
+      // The message is rolled back with the failed claim
+      const messages = await db.select().from(chatMessagesTable).execute();
+      expect(messages).toHaveLength(0);
     });
 
-    it('should send a link message with preview data', async () => {
+    it('should not attach the same upload to two messages', async () => {
+      const attachmentId = await createTestAttachment(userId);
       const input: SendMessageInput = {
         channel_id: channelId,
-        content: 'Check this out: https://example.com',
-        message_type: 'link'
+        content: 'Once',
+        message_type: 'image',
+        attachment_id: attachmentId
       };
 
-      const result = await sendMessage(input, userId);
+      await sendMessage(input, userId);
+      await expect(sendMessage(input, userId)).rejects.toThrow('Attachment not found or already used');
+    });
+
+    it('should send a link message and unfurl it afterwards', async () => {
+      await cachePreview('https://example.com', 'Example Domain');
+      const controller = new AbortController();
+      const updates = onMessageUpdated(channelId, userId, controller.signal);
+      const received = updates.next();
+
+      const result = await sendMessage({ channel_id: channelId, content: 'Check this out: https://example.com', message_type: 'link' }, userId);
 
       expect(result.message_type).toBe('link');
-      expect(result.link_preview).toBeDefined();
-      expect(result.link_preview?.url).toBe('https://example.com');
+      expect(result.link_previews).toEqual([]);
+      const { value } = await received;
+      expect(value!.id).toBe(result.id);
+      expect(value!.link_previews).toEqual([
+        { url: 'https://example.com', title: 'Example Domain', description: null, image: null, site_name: null }
+      ]);
+
+      await updates.return(undefined);
+      controller.abort();
     });
 
     it('should save message to database', async () => {
@@ -169,6 +260,44 @@ describe('Message Handlers', () => {
       const result = await sendMessage(replyInput, userId);
 
       expect(result.reply_to_message_id).toBe(parentMessage.id);
+      expect(result.thread_root_id).toBe(parentMessage.id);
+      expect(result.reply_to).toEqual({
+        id: parentMessage.id,
+        user_id: userId,
+        username: 'testuser',
+        content: 'Parent message',
+        message_type: 'text',
+        is_deleted: false
+      });
+    });
+
+    it('should keep replies to a reply in the same thread', async () => {
+      const root = await sendMessage({ channel_id: channelId, content: 'Root', message_type: 'text' }, userId);
+      const reply = await sendMessage({ channel_id: channelId, content: 'Reply', message_type: 'text', reply_to_message_id: root.id }, userId2);
+
+      const nested = await sendMessage({ channel_id: channelId, content: 'Nested', message_type: 'text', reply_to_message_id: reply.id }, userId);
+
+      expect(nested.reply_to_message_id).toBe(reply.id);
+      expect(nested.reply_to!.username).toBe('testuser2');
+      expect(nested.thread_root_id).toBe(root.id);
+    });
+
+    it('should broadcast the updated reply count of the thread root', async () => {
+      const root = await sendMessage({ channel_id: channelId, content: 'Root', message_type: 'text' }, userId);
+
+      const controller = new AbortController();
+      const updates = onMessageUpdated(channelId, userId, controller.signal);
+      const received = updates.next();
+
+      const reply = await sendMessage({ channel_id: channelId, content: 'Reply', message_type: 'text', reply_to_message_id: root.id }, userId2);
+
+      const { value } = await received;
+      expect(value!.id).toBe(root.id);
+      expect(value!.reply_count).toBe(1);
+      expect(value!.last_reply_at).toEqual(reply.created_at);
+
+      await updates.return(undefined);
+      controller.abort();
     });
 
     it('should reject message from non-member', async () => {
@@ -204,6 +333,39 @@ describe('Message Handlers', () => {
 
       await expect(sendMessage(input, userId)).rejects.toThrow(/reply target message not found/i);
     });
+
+    it('should store normalized content with its formatted form', async () => {
+      const input: SendMessageInput = {
+        channel_id: channelId,
+        content: '**Build** is\u202E green  \r\n`bun test`\r\n',
+        message_type: 'text'
+      };
+
+      const result = await sendMessage(input, userId);
+
+      expect(result.content).toBe('**Build** is green\n`bun test`');
+      expect(result.formatted_content).toEqual([{
+        type: 'paragraph',
+        children: [
+          { type: 'strong', children: [{ type: 'text', text: 'Build' }] },
+          { type: 'text', text: ' is green\n' },
+          { type: 'code', text: 'bun test' }
+        ]
+      }]);
+
+      const stored = await db.select().from(chatMessagesTable).where(eq(chatMessagesTable.id, result.id)).execute();
+      expect(stored[0].content).toBe(result.content);
+    });
+
+    it('should reject content that is empty once normalized', async () => {
+      const input: SendMessageInput = {
+        channel_id: channelId,
+        content: ' \r\n\u0007 ',
+        message_type: 'text'
+      };
+
+      await expect(sendMessage(input, userId)).rejects.toThrow(/content is required/i);
+    });
   });
 
   describe('getMessages', () => {
@@ -229,22 +391,21 @@ describe('Message Handlers', () => {
       }
     });
 
-    it('should get messages with default pagination', async () => {
+    it('should get the latest messages in chronological order', async () => {
       const input: GetMessagesInput = {
         channel_id: channelId,
-        limit: 50,
-        offset: 0
+        limit: 50
       };
 
       const result = await getMessages(input, userId);
 
-      expect(result).toHaveLength(5);
-      // Messages should be ordered by created_at desc (most recent first)
-      expect(result[0].content).toBe('Message 5');
-      expect(result[4].content).toBe('Message 1');
+      expect(result.messages).toHaveLength(5);
+      expect(result.messages[0].content).toBe('Message 1');
+      expect(result.messages[4].content).toBe('Message 5');
+      expect(result.nextCursor).toBeNull();
 
       // Check that user information is included
-      result.forEach(message => {
+      result.messages.forEach(message => {
         expect(message.user).toBeDefined();
         expect(message.user.id).toBeDefined();
         expect(message.user.username).toBeDefined();
@@ -252,19 +413,51 @@ describe('Message Handlers', () => {
       });
     });
 
-    it('should respect pagination limits', async () => {
-      const input: GetMessagesInput = {
-        channel_id: channelId,
-        limit: 2,
-        offset: 1
-      };
+    it('should page back through history with the before cursor', async () => {
+      const first = await getMessages({ channel_id: channelId, limit: 2 }, userId);
 
-      const result = await getMessages(input, userId);
+      expect(first.messages.map(m => m.content)).toEqual(['Message 4', 'Message 5']);
+      expect(first.nextCursor).toBe(first.messages[0].id);
+
+      const second = await getMessages({ channel_id: channelId, limit: 2, before: first.nextCursor! }, userId);
+
+      expect(second.messages.map(m => m.content)).toEqual(['Message 2', 'Message 3']);
+      expect(second.nextCursor).toBe(second.messages[0].id);
 
-      expect(result).toHaveLength(2);
-      // Should skip the first message and get the next 2
-      expect(result[0].content).toBe('Message 4');
-      expect(result[1].content).toBe('Message 3');
+      const last = await getMessages({ channel_id: channelId, limit: 2, before: second.nextCursor! }, userId);
+
+      expect(last.messages.map(m => m.content)).toEqual(['Message 1']);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('should keep pages stable when new messages arrive', async () => {
+      const first = await getMessages({ channel_id: channelId, limit: 2 }, userId);
+
+      await sendMessage({ channel_id: channelId, content: 'Message 6', message_type: 'text' }, userId);
+
+      const second = await getMessages({ channel_id: channelId, limit: 2, before: first.nextCursor! }, userId);
+
+      expect(second.messages.map(m => m.content)).toEqual(['Message 2', 'Message 3']);
+    });
+
+    it('should catch up on newer messages with the after cursor', async () => {
+      const all = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+
+      const result = await getMessages({ channel_id: channelId, limit: 2, after: all.messages[1].id }, userId);
+
+      expect(result.messages.map(m => m.content)).toEqual(['Message 3', 'Message 4']);
+      expect(result.nextCursor).toBe(result.messages[1].id);
+
+      const rest = await getMessages({ channel_id: channelId, limit: 2, after: result.nextCursor! }, userId);
+
+      expect(rest.messages.map(m => m.content)).toEqual(['Message 5']);
+      expect(rest.nextCursor).toBeNull();
+    });
+
+    it('should reject before and after together', () => {
+      const parsed = getMessagesInputSchema.safeParse({ channel_id: channelId, before: 5, after: 1 });
+
+      expect(parsed.success).toBe(false);
     });
 
     it('should reject access for non-members', async () => {
@@ -283,8 +476,7 @@ describe('Message Handlers', () => {
 
       const input: GetMessagesInput = {
         channel_id: channelId,
-        limit: 50,
-        offset: 0
+        limit: 50
       };
 
       await expect(getMessages(input, nonMemberId)).rejects.toThrow(/does not have access/i);
@@ -315,12 +507,177 @@ describe('Message Handlers', () => {
 
       const input: GetMessagesInput = {
         channel_id: emptyChannelId,
-        limit: 50,
-        offset: 0
+        limit: 50
       };
 
       const result = await getMessages(input, userId);
-      expect(result).toHaveLength(0);
+      expect(result.messages).toHaveLength(0);
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe('getThread', () => {
+    let rootId: number;
+
+    beforeEach(async () => {
+      const root = await sendMessage({ channel_id: channelId, content: 'Thread root', message_type: 'text' }, userId);
+      rootId = root.id;
+
+      await sendMessage({ channel_id: channelId, content: 'Unrelated', message_type: 'text' }, userId2);
+      const first = await sendMessage({ channel_id: channelId, content: 'First reply', message_type: 'text', reply_to_message_id: rootId }, userId2);
+      await sendMessage({ channel_id: channelId, content: 'Second reply', message_type: 'text', reply_to_message_id: first.id }, userId);
+    });
+
+    it('should return the root and its replies in order', async () => {
+      const thread = await getThread(rootId, userId);
+
+      expect(thread.root.content).toBe('Thread root');
+      expect(thread.root.reply_count).toBe(2);
+      expect(thread.root.last_reply_at).toEqual(thread.replies[1].created_at);
+      expect(thread.replies.map(reply => reply.content)).toEqual(['First reply', 'Second reply']);
+      expect(thread.replies[1].reply_to!.content).toBe('First reply');
+    });
+
+    it('should resolve the thread from any of its replies', async () => {
+      const root = await getThread(rootId, userId);
+      const fromReply = await getThread(root.replies[1].id, userId);
+
+      expect(fromReply.root.id).toBe(rootId);
+      expect(fromReply.replies).toHaveLength(2);
+    });
+
+    it('should include reply counts in channel history', async () => {
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+
+      const root = page.messages.find(message => message.id === rootId)!;
+      expect(root.reply_count).toBe(2);
+      expect(root.reply_to).toBeNull();
+
+      const unrelated = page.messages.find(message => message.content === 'Unrelated')!;
+      expect(unrelated.reply_count).toBe(0);
+      expect(unrelated.last_reply_at).toBeNull();
+    });
+
+    it('should reject access for non-members', async () => {
+      const outsider = await db.insert(usersTable)
+        .values({ username: 'outsider', email: 'outsider@example.com', password_hash: 'hash' })
+        .returning()
+        .execute();
+
+      await expect(getThread(rootId, outsider[0].id)).rejects.toThrow(/does not have access/i);
+    });
+
+    it('should reject unknown messages', async () => {
+      await expect(getThread(99999, userId)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('searchMessages', () => {
+    let otherChannelId: number;
+
+    // Defaults come from the schema, as they would through the router
+    const search = (input: Record<string, unknown>, asUserId = userId) =>
+      searchMessages(searchMessagesInputSchema.parse(input), asUserId);
+
+    beforeEach(async () => {
+      const otherChannel = await db.insert(chatChannelsTable)
+        .values({ name: 'Secret Channel', is_private: true, kind: 'private', created_by: userId2 })
+        .returning()
+        .execute();
+
+      otherChannelId = otherChannel[0].id;
+
+      await db.insert(channelMembersTable)
+        .values({ channel_id: otherChannelId, user_id: userId2, role: 'owner' })
+        .execute();
+
+      await db.insert(chatMessagesTable)
+        .values([
+          { channel_id: channelId, user_id: userId, content: 'Deploying the new server tonight' },
+          { channel_id: channelId, user_id: userId2, content: 'The servers are running hot' },
+          { channel_id: channelId, user_id: userId, content: 'Lunch anyone?' },
+          { channel_id: channelId, user_id: userId2, content: 'Server dashboard: https://example.com/status', message_type: 'link' },
+          { channel_id: otherChannelId, user_id: userId2, content: 'Secret server password rotation' }
+        ])
+        .execute();
+    });
+
+    it('should find messages by stemmed terms, newest first', async () => {
+      const result = await search({ query: 'server' });
+
+      expect(result.hits.map(hit => hit.content)).toEqual([
+        'Server dashboard: https://example.com/status',
+        'The servers are running hot',
+        'Deploying the new server tonight'
+      ]);
+      expect(result.hits[0].channel_name).toBe('Test Channel');
+      expect(result.hits[0].user.username).toBe('testuser2');
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should only return hits from channels the caller belongs to', async () => {
+      const result = await search({ query: 'password' });
+      expect(result.hits).toHaveLength(0);
+
+      const member = await search({ query: 'password' }, userId2);
+      expect(member.hits).toHaveLength(1);
+      expect(member.hits[0].channel_id).toBe(otherChannelId);
+    });
+
+    it('should highlight matched terms in the snippet', async () => {
+      const result = await search({ query: 'deploying' });
+
+      expect(result.hits).toHaveLength(1);
+      expect(result.hits[0].snippet).toEqual([
+        { text: 'Deploying', highlight: true },
+        { text: ' the new server tonight', highlight: false }
+      ]);
+    });
+
+    it('should filter by channel, author and message type', async () => {
+      const byAuthor = await search({ query: 'server', user_id: userId2 });
+      expect(byAuthor.hits.map(hit => hit.content)).toEqual([
+        'Server dashboard: https://example.com/status',
+        'The servers are running hot'
+      ]);
+
+      const byType = await search({ query: 'server', message_type: 'link' });
+      expect(byType.hits).toHaveLength(1);
+
+      const byChannel = await search({ query: 'server', channel_id: otherChannelId }, userId2);
+      expect(byChannel.hits.map(hit => hit.content)).toEqual(['Secret server password rotation']);
+    });
+
+    it('should filter by date range', async () => {
+      const lunch = await search({ query: 'lunch' });
+      await db.update(chatMessagesTable)
+        .set({ created_at: new Date('2020-01-15T12:00:00Z') })
+        .where(eq(chatMessagesTable.id, lunch.hits[0].id))
+        .execute();
+
+      const inRange = await search({ query: 'lunch', from: '2020-01-01', to: '2020-02-01' });
+      expect(inRange.hits).toHaveLength(1);
+
+      const outOfRange = await search({ query: 'lunch', from: '2021-01-01' });
+      expect(outOfRange.hits).toHaveLength(0);
+    });
+
+    it('should paginate with the before cursor', async () => {
+      const first = await search({ query: 'server', limit: 2 });
+
+      expect(first.hits).toHaveLength(2);
+      expect(first.nextCursor).toBe(first.hits[1].id);
+
+      const second = await search({ query: 'server', limit: 2, before: first.nextCursor });
+
+      expect(second.hits.map(hit => hit.content)).toEqual(['Deploying the new server tonight']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should tolerate search syntax in the query', async () => {
+      const result = await search({ query: '"running hot" -lunch OR (' });
+
+      expect(result.hits.map(hit => hit.content)).toEqual(['The servers are running hot']);
     });
   });
 
@@ -352,6 +709,7 @@ describe('Message Handlers', () => {
 
       expect(result.id).toBe(messageId);
       expect(result.content).toBe('Updated message content');
+      expect(result.formatted_content).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'Updated message content' }] }]);
       expect(result.is_edited).toBe(true);
       expect(result.updated_at).toBeInstanceOf(Date);
       expect(result.user.id).toBe(userId);
@@ -394,6 +752,75 @@ describe('Message Handlers', () => {
 
       await expect(updateMessage(input, userId)).rejects.toThrow(/not found/i);
     });
+
+    it('should keep every earlier version in the history', async () => {
+      await updateMessage({ message_id: messageId, content: 'First **edit**' }, userId);
+      await updateMessage({ message_id: messageId, content: 'Second edit' }, userId);
+
+      const history = await getMessageHistory(messageId, userId);
+
+      expect(history.message_id).toBe(messageId);
+      expect(history.versions.map(version => [version.content, version.is_current])).toEqual([
+        ['Original message', false],
+        ['First **edit**', false],
+        ['Second edit', true]
+      ]);
+      expect(history.versions[1].formatted_content).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'First ' }, { type: 'strong', children: [{ type: 'text', text: 'edit' }] }] }
+      ]);
+      expect(history.versions[0].written_at.getTime()).toBeLessThanOrEqual(history.versions[1].written_at.getTime());
+      expect(history.versions[1].written_at.getTime()).toBeLessThanOrEqual(history.versions[2].written_at.getTime());
+    });
+
+    it('should show the history only to the author and channel admins', async () => {
+      await updateMessage({ message_id: messageId, content: 'Edited' }, userId);
+
+      await expect(getMessageHistory(messageId, userId2)).rejects.toThrow('Only the author and channel admins can view the edit history');
+      await expect(getMessageHistory(99999, userId)).rejects.toThrow('Message not found');
+
+      await db.update(channelMembersTable)
+        .set({ role: 'admin' })
+        .where(eq(channelMembersTable.user_id, userId2))
+        .execute();
+      expect((await getMessageHistory(messageId, userId2)).versions).toHaveLength(2);
+    });
+
+    it('should only allow edits within the configured edit window', async () => {
+      const previous = process.env['MESSAGE_EDIT_WINDOW_MINUTES'];
+      process.env['MESSAGE_EDIT_WINDOW_MINUTES'] = '15';
+      try {
+        await updateMessage({ message_id: messageId, content: 'Still in time' }, userId);
+
+        await db.update(chatMessagesTable)
+          .set({ created_at: new Date(Date.now() - 16 * 60 * 1000) })
+          .where(eq(chatMessagesTable.id, messageId))
+          .execute();
+
+        await expect(updateMessage({ message_id: messageId, content: 'Too late' }, userId))
+          .rejects.toThrow('Messages can only be edited within 15 minutes of sending');
+        expect((await getMessageHistory(messageId, userId)).versions.map(version => version.content)).toEqual(['Original message', 'Still in time']);
+      } finally {
+        if (previous === undefined) {
+          delete process.env['MESSAGE_EDIT_WINDOW_MINUTES'];
+        } else {
+          process.env['MESSAGE_EDIT_WINDOW_MINUTES'] = previous;
+        }
+      }
+    });
+
+    it('should hide the history of a deleted message and purge it with the message', async () => {
+      await updateMessage({ message_id: messageId, content: 'Edited' }, userId);
+
+      await deleteMessage(messageId, userId);
+
+      await expect(getMessageHistory(messageId, userId)).rejects.toThrow('Message not found');
+      expect(await db.select().from(messageRevisionsTable).execute()).toHaveLength(1);
+
+      await expireDeletedMessages();
+      await purgeDeletedMessages();
+
+      expect(await db.select().from(messageRevisionsTable).execute()).toHaveLength(0);
+    });
   });
 
   describe('deleteMessage', () => {
@@ -433,13 +860,15 @@ describe('Message Handlers', () => {
       expect(result.success).toBe(true);
       expect(result.message).toBe('Message deleted successfully');
 
-      // Verify message was deleted from database
+      // Verify message was marked deleted, not removed
       const deletedMessage = await db.select()
         .from(chatMessagesTable)
         .where(eq(chatMessagesTable.id, messageId))
         .execute();
 
-      expect(deletedMessage).toHaveLength(0);
+      expect(deletedMessage).toHaveLength(1);
+      expect(deletedMessage[0].deleted_at).toBeInstanceOf(Date);
+      expect(deletedMessage[0].deleted_by).toBe(userId);
     });
 
     it('should allow admin to delete any message', async () => {
@@ -448,13 +877,35 @@ describe('Message Handlers', () => {
 
       expect(result.success).toBe(true);
 
-      // Verify message was deleted
+      // Verify message was marked deleted by the admin
       const deletedMessage = await db.select()
         .from(chatMessagesTable)
         .where(eq(chatMessagesTable.id, otherUserMessageId))
         .execute();
 
-      expect(deletedMessage).toHaveLength(0);
+      expect(deletedMessage[0].deleted_by).toBe(userId);
+    });
+
+    it('should leave a tombstone in place of the message', async () => {
+      const reply = await sendMessage({ channel_id: channelId, content: 'Replying', message_type: 'text', reply_to_message_id: messageId }, userId2);
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId2);
+
+      await deleteMessage(messageId, userId);
+
+      const { messages } = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+      const tombstone = messages.find(message => message.id === messageId)!;
+      expect(messages.map(message => message.id)).toEqual([messageId, otherUserMessageId, reply.id]);
+      expect(tombstone).toMatchObject({ content: '', formatted_content: [], reactions: [], deleted_by: userId });
+      expect(tombstone.deleted_at).toBeInstanceOf(Date);
+      expect(messages.find(message => message.id === reply.id)!.reply_to).toMatchObject({ id: messageId, content: '', is_deleted: true });
+    });
+
+    it('should reject editing, replying to and deleting a deleted message', async () => {
+      await deleteMessage(messageId, userId);
+
+      await expect(updateMessage({ message_id: messageId, content: 'Back' }, userId)).rejects.toThrow(/not found/i);
+      await expect(sendMessage({ channel_id: channelId, content: 'Reply', message_type: 'text', reply_to_message_id: messageId }, userId)).rejects.toThrow();
+      await expect(deleteMessage(messageId, userId)).rejects.toThrow(/message not found/i);
     });
 
     it('should reject deletion by regular member of others messages', async () => {
@@ -465,6 +916,460 @@ describe('Message Handlers', () => {
     it('should reject deletion of non-existent message', async () => {
       await expect(deleteMessage(99999, userId)).rejects.toThrow(/message not found/i);
     });
+
+    it('should remove the reactions of a purged message', async () => {
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+      await addReaction({ message_id: messageId, emoji: '🎉' }, userId2);
+      await addReaction({ message_id: otherUserMessageId, emoji: '👍' }, userId);
+
+      await deleteMessage(messageId, userId);
+      await expireDeletedMessages();
+      await purgeDeletedMessages();
+
+      const reactions = await db.select()
+        .from(messageReactionsTable)
+        .execute();
+
+      expect(reactions).toHaveLength(1);
+      expect(reactions[0].message_id).toBe(otherUserMessageId);
+    });
+
+    it('should remove the attachment of a purged message', async () => {
+      const attachmentId = await createTestAttachment(userId);
+      const imageMessage = await sendMessage({
+        channel_id: channelId,
+        content: '',
+        message_type: 'image',
+        attachment_id: attachmentId
+      }, userId);
+
+      await deleteMessage(imageMessage.id, userId);
+      await expireDeletedMessages();
+      await purgeDeletedMessages();
+
+      const attachments = await db.select()
+        .from(attachmentsTable)
+        .execute();
+
+      expect(attachments).toHaveLength(0);
+    });
+  });
+
+  describe('restoreMessage', () => {
+    let messageId: number;
+
+    beforeEach(async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'Take it back', message_type: 'text' }, userId2);
+      messageId = message.id;
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+      await deleteMessage(messageId, userId2);
+    });
+
+    it('should let channel admins restore a deleted message as it was', async () => {
+      const restored = await restoreMessage(messageId, userId);
+
+      expect(restored).toMatchObject({ id: messageId, content: 'Take it back', deleted_at: null, deleted_by: null });
+      expect(restored.reactions.map(reaction => reaction.emoji)).toEqual(['👍']);
+    });
+
+    it('should reject restores by regular members, even of their own messages', async () => {
+      await expect(restoreMessage(messageId, userId2)).rejects.toThrow('Only channel owners and admins can restore messages');
+    });
+
+    it('should reject restoring messages that are not deleted or already purged', async () => {
+      await restoreMessage(messageId, userId);
+      await expect(restoreMessage(messageId, userId)).rejects.toThrow('Deleted message not found');
+
+      await deleteMessage(messageId, userId);
+      await expireDeletedMessages();
+      await purgeDeletedMessages();
+      await expect(restoreMessage(messageId, userId)).rejects.toThrow('Deleted message not found');
+    });
+  });
+
+  describe('purgeDeletedMessages', () => {
+    it('should only purge messages deleted longer ago than the retention period', async () => {
+      const old = await sendMessage({ channel_id: channelId, content: 'Old', message_type: 'text' }, userId);
+      const recent = await sendMessage({ channel_id: channelId, content: 'Recent', message_type: 'text' }, userId);
+      const reply = await sendMessage({ channel_id: channelId, content: 'Reply', message_type: 'text', reply_to_message_id: old.id }, userId2);
+      await deleteMessage(old.id, userId);
+      await expireDeletedMessages();
+      await deleteMessage(recent.id, userId);
+
+      expect(await purgeDeletedMessages()).toBe(1);
+
+      const remaining = await db.select({ id: chatMessagesTable.id }).from(chatMessagesTable).execute();
+      expect(remaining.map(message => message.id).sort()).toEqual([recent.id, reply.id].sort());
+      const { messages } = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+      expect(messages.find(message => message.id === reply.id)!.reply_to).toBeNull();
+    });
+
+    it('should hand a purged thread root\'s replies to the earliest of them', async () => {
+      const root = await sendMessage({ channel_id: channelId, content: 'Root', message_type: 'text' }, userId);
+      const replies: MessageWithUser[] = [];
+      for (const content of ['First', 'Second', 'Third']) {
+        replies.push(await sendMessage({ channel_id: channelId, content, message_type: 'text', reply_to_message_id: root.id }, userId2));
+      }
+      await deleteMessage(root.id, userId);
+      await expireDeletedMessages();
+
+      expect(await purgeDeletedMessages()).toBe(1);
+
+      const thread = await getThread(replies[2].id, userId);
+      expect(thread.root.id).toBe(replies[0].id);
+      expect(thread.replies.map(reply => reply.id)).toEqual([replies[1].id, replies[2].id]);
+      const stored = await db.select({ reply_to_message_id: chatMessagesTable.reply_to_message_id, thread_root_id: chatMessagesTable.thread_root_id })
+        .from(chatMessagesTable)
+        .orderBy(chatMessagesTable.id)
+        .execute();
+      expect(stored).toEqual([
+        { reply_to_message_id: null, thread_root_id: null },
+        { reply_to_message_id: null, thread_root_id: replies[0].id },
+        { reply_to_message_id: null, thread_root_id: replies[0].id }
+      ]);
+    });
+
+    it('should honour DELETED_MESSAGE_RETENTION_DAYS', async () => {
+      const previous = process.env['DELETED_MESSAGE_RETENTION_DAYS'];
+      process.env['DELETED_MESSAGE_RETENTION_DAYS'] = '60';
+      try {
+        const message = await sendMessage({ channel_id: channelId, content: 'Kept longer', message_type: 'text' }, userId);
+        await deleteMessage(message.id, userId);
+        await expireDeletedMessages();
+
+        expect(await purgeDeletedMessages()).toBe(0);
+      } finally {
+        if (previous === undefined) {
+          delete process.env['DELETED_MESSAGE_RETENTION_DAYS'];
+        } else {
+          process.env['DELETED_MESSAGE_RETENTION_DAYS'] = previous;
+        }
+      }
+    });
+  });
+
+  describe('reactions', () => {
+    let messageId: number;
+
+    beforeEach(async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'React to me', message_type: 'text' }, userId);
+      messageId = message.id;
+    });
+
+    it('should aggregate reactions per emoji for the caller', async () => {
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId2);
+      await addReaction({ message_id: messageId, emoji: '🔥' }, userId2);
+
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+
+      expect(page.messages[0].reactions).toEqual([
+        { emoji: '👍', count: 2, reacted: true },
+        { emoji: '🔥', count: 1, reacted: false }
+      ]);
+    });
+
+    it('should ignore duplicate reactions', async () => {
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+      const reactions = await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+
+      expect(reactions).toEqual([{ emoji: '👍', count: 1, reacted: true }]);
+    });
+
+    it('should remove only the caller\'s reaction', async () => {
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId);
+      await addReaction({ message_id: messageId, emoji: '👍' }, userId2);
+
+      const reactions = await removeReaction({ message_id: messageId, emoji: '👍' }, userId);
+
+      expect(reactions).toEqual([{ emoji: '👍', count: 1, reacted: false }]);
+    });
+
+    it('should broadcast reaction changes to the channel', async () => {
+      const controller = new AbortController();
+      const events = onReactionChanged(channelId, userId2, controller.signal);
+      const received = events.next();
+
+      await addReaction({ message_id: messageId, emoji: '🎉' }, userId);
+
+      const { value } = await received;
+      expect(value).toEqual({
+        message_id: messageId,
+        channel_id: channelId,
+        user_id: userId,
+        emoji: '🎉',
+        added: true,
+        reactions: [{ emoji: '🎉', count: 1 }]
+      });
+
+      await events.return(undefined);
+      controller.abort();
+    });
+
+    it('should reject reactions from non-members', async () => {
+      const outsider = await db.insert(usersTable)
+        .values({ username: 'outsider', email: 'outsider@example.com', password_hash: 'hash' })
+        .returning()
+        .execute();
+
+      await expect(addReaction({ message_id: messageId, emoji: '👍' }, outsider[0].id)).rejects.toThrow(/does not have access/i);
+    });
+
+    it('should only accept emoji', () => {
+      expect(reactInputSchema.safeParse({ message_id: messageId, emoji: '🏳️‍🌈' }).success).toBe(true);
+      expect(reactInputSchema.safeParse({ message_id: messageId, emoji: 'lol' }).success).toBe(false);
+    });
+  });
+
+  describe('message subscriptions', () => {
+    let controller: AbortController;
+
+    beforeEach(() => {
+      controller = new AbortController();
+    });
+
+    afterEach(() => {
+      controller.abort();
+    });
+
+    it('should deliver new messages to channel members', async () => {
+      const events = onNewMessage(channelId, userId2, controller.signal);
+      const received = events.next();
+
+      const sent = await sendMessage({
+        channel_id: channelId,
+        content: 'Live message',
+        message_type: 'text'
+      }, userId);
+
+      const { value } = await received;
+      expect(value!.id).toBe(sent.id);
+      expect(value!.content).toBe('Live message');
+      expect(value!.user.username).toBe('testuser');
+
+      await events.return(undefined);
+    });
+
+    it('should only deliver events for the subscribed channel', async () => {
+      const otherChannel = await db.insert(chatChannelsTable)
+        .values({ ...testChannel, name: 'Other Channel', created_by: userId })
+        .returning()
+        .execute();
+      await db.insert(channelMembersTable)
+        .values({ channel_id: otherChannel[0].id, user_id: userId, role: 'owner' })
+        .execute();
+
+      const events = onNewMessage(channelId, userId2, controller.signal);
+      const received = events.next();
+
+      await sendMessage({ channel_id: otherChannel[0].id, content: 'Elsewhere', message_type: 'text' }, userId);
+      await sendMessage({ channel_id: channelId, content: 'Here', message_type: 'text' }, userId);
+
+      const { value } = await received;
+      expect(value!.content).toBe('Here');
+
+      await events.return(undefined);
+    });
+
+    it('should broadcast edits the same for everyone and answer the editor with their own view', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'Original', message_type: 'text' }, userId);
+      await addReaction({ message_id: message.id, emoji: '👍' }, userId);
+
+      const updates = onMessageUpdated(channelId, userId2, controller.signal);
+      const updated = updates.next();
+      const response = await updateMessage({ message_id: message.id, content: 'Edited' }, userId);
+
+      expect(response.reactions).toEqual([{ emoji: '👍', count: 1, reacted: true }]);
+      expect((await updated).value!.reactions).toEqual([{ emoji: '👍', count: 1, reacted: false }]);
+
+      await updates.return(undefined);
+    });
+
+    it('should broadcast restores without the restoring moderator\'s reactions', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'Back soon', message_type: 'text' }, userId2);
+      await addReaction({ message_id: message.id, emoji: '🎉' }, userId);
+      await deleteMessage(message.id, userId2);
+
+      const updates = onMessageUpdated(channelId, userId2, controller.signal);
+      const updated = updates.next();
+      const response = await restoreMessage(message.id, userId);
+
+      expect(response.reactions).toEqual([{ emoji: '🎉', count: 1, reacted: true }]);
+      expect((await updated).value!.reactions).toEqual([{ emoji: '🎉', count: 1, reacted: false }]);
+
+      await updates.return(undefined);
+    });
+
+    it('should end when the subscriber leaves the channel', async () => {
+      const events = onNewMessage(channelId, userId2, controller.signal);
+      const received = events.next();
+      await sendMessage({ channel_id: channelId, content: 'Before', message_type: 'text' }, userId);
+      expect((await received).value!.content).toBe('Before');
+
+      await leaveChannel(channelId, userId2);
+      const ended = events.next();
+      await sendMessage({ channel_id: channelId, content: 'After', message_type: 'text' }, userId);
+
+      expect(await ended).toEqual({ done: true, value: undefined });
+    });
+
+    it('should deliver edits, tombstones and purges', async () => {
+      const message = await sendMessage({ channel_id: channelId, content: 'Original', message_type: 'text' }, userId);
+
+      const updates = onMessageUpdated(channelId, userId2, controller.signal);
+      const deletions = onMessageDeleted(channelId, userId2, controller.signal);
+      const updated = updates.next();
+      const deleted = deletions.next();
+
+      await updateMessage({ message_id: message.id, content: 'Edited' }, userId);
+      expect((await updated).value!.content).toBe('Edited');
+
+      const tombstone = updates.next();
+      await deleteMessage(message.id, userId);
+      expect((await tombstone).value).toMatchObject({ id: message.id, content: '', deleted_by: userId });
+
+      await expireDeletedMessages();
+      await purgeDeletedMessages();
+      expect((await deleted).value).toEqual({ id: message.id, channel_id: channelId });
+
+      await updates.return(undefined);
+      await deletions.return(undefined);
+    });
+
+    it('should reject subscriptions from non-members', async () => {
+      const outsider = await db.insert(usersTable)
+        .values({ username: 'outsider', email: 'outsider@example.com', password_hash: 'hash' })
+        .returning()
+        .execute();
+
+      const events = onNewMessage(channelId, outsider[0].id, controller.signal);
+
+      await expect(events.next()).rejects.toThrow(/access/i);
+    });
+  });
+
+  describe('link previews', () => {
+    const previewUrls = (message: { link_previews: { url: string }[] }) => message.link_previews.map(preview => preview.url);
+
+    // Sends or edits through `run`, then waits for the pushed update that has the previews `ready` is looking for
+    const unfurled = async (run: () => Promise<unknown>, ready = (message: MessageWithUser) => message.link_previews.length > 0) => {
+      const controller = new AbortController();
+      const updates = onMessageUpdated(channelId, userId, controller.signal);
+      const received = (async () => {
+        for await (const message of updates) {
+          if (ready(message)) {
+            return message;
+          }
+        }
+        throw new Error('Subscription ended before the previews arrived');
+      })();
+      await run();
+      const message = await received;
+      controller.abort();
+      return message;
+    };
+
+    it('should unfurl every link of any message type, in order, skipping code and links without data', async () => {
+      await cachePreview('https://one.example.com/', 'One');
+      await cachePreview('https://two.example.com/page', 'Two');
+      await cachePreview('https://empty.example.com/', null);
+
+      const message = await unfurled(() => sendMessage({
+        channel_id: channelId,
+        content: 'https://two.example.com/page then https://one.example.com and https://empty.example.com `https://code.example.com` https://two.example.com/page',
+        message_type: 'text'
+      }, userId));
+
+      expect(previewUrls(message)).toEqual(['https://two.example.com/page', 'https://one.example.com']);
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+      expect(previewUrls(page.messages[0])).toEqual(['https://two.example.com/page', 'https://one.example.com']);
+    });
+
+    it('should let the author remove a preview for good', async () => {
+      await cachePreview('https://one.example.com/', 'One');
+      await cachePreview('https://two.example.com/', 'Two');
+      await cachePreview('https://three.example.com/', 'Three');
+      const sent = await unfurled(() => sendMessage({ channel_id: channelId, content: 'https://one.example.com https://two.example.com', message_type: 'text' }, userId));
+
+      await expect(removeLinkPreview({ message_id: sent.id, url: 'https://one.example.com' }, userId2)).rejects.toThrow(/permission/);
+      const removed = await removeLinkPreview({ message_id: sent.id, url: 'https://one.example.com' }, userId);
+      await expect(removeLinkPreview({ message_id: sent.id, url: 'https://one.example.com' }, userId)).rejects.toThrow('Link preview not found');
+
+      const edited = await unfurled(
+        () => updateMessage({ message_id: sent.id, content: 'https://one.example.com https://three.example.com' }, userId),
+        message => previewUrls(message).includes('https://three.example.com')
+      );
+
+      expect(previewUrls(removed)).toEqual(['https://two.example.com']);
+      expect(previewUrls(edited)).toEqual(['https://three.example.com']);
+    });
+
+    it('should keep previews in link order when an edit moves the links around', async () => {
+      await cachePreview('https://one.example.com/', 'One');
+      await cachePreview('https://two.example.com/', 'Two');
+      const sent = await unfurled(() => sendMessage({ channel_id: channelId, content: 'https://one.example.com https://two.example.com', message_type: 'text' }, userId));
+
+      const edited = await unfurled(
+        () => updateMessage({ message_id: sent.id, content: 'https://two.example.com https://one.example.com' }, userId),
+        message => previewUrls(message)[0] === 'https://two.example.com'
+      );
+
+      expect(previewUrls(edited)).toEqual(['https://two.example.com', 'https://one.example.com']);
+    });
+
+    it('should not store previews for links edited out while they were being fetched', async () => {
+      await cachePreview('https://one.example.com/', 'One');
+      const written = (content: string) => ({ content, formatted_content: JSON.stringify(parseMarkdown(content)) });
+      const message = await db.insert(chatMessagesTable)
+        .values({ channel_id: channelId, user_id: userId, message_type: 'text', ...written('https://one.example.com') })
+        .returning()
+        .execute();
+
+      // Holding the preview cache makes the unfurl wait until the message has been edited
+      let lockTaken!: () => void;
+      let release!: () => void;
+      const taken = new Promise<void>(resolve => { lockTaken = resolve; });
+      const released = new Promise<void>(resolve => { release = resolve; });
+      const locked = db.transaction(async (tx) => {
+        await tx.execute(sql`lock table link_previews in access exclusive mode`);
+        lockTaken();
+        await released;
+      });
+      await taken;
+
+      const refreshing = refreshLinkPreviews(message[0].id);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await db.update(chatMessagesTable)
+        .set(written('no links any more'))
+        .where(eq(chatMessagesTable.id, message[0].id))
+        .execute();
+      release();
+      await locked;
+
+      expect(await refreshing).toBe(false);
+      expect(await db.select().from(messageLinkPreviewsTable).execute()).toHaveLength(0);
+    });
+
+    it('should move previews stored on messages to their own table', async () => {
+      const legacy = await db.insert(chatMessagesTable)
+        .values([
+          { channel_id: channelId, user_id: userId, content: 'https://old.example.com', message_type: 'link', link_preview: JSON.stringify({ title: 'Old', description: null, image: null, url: 'https://old.example.com' }) },
+          { channel_id: channelId, user_id: userId, content: 'https://dead.example.com', message_type: 'link', link_preview: JSON.stringify({ title: null, description: null, image: null, url: 'https://dead.example.com' }) }
+        ])
+        .returning()
+        .execute();
+
+      expect(await backfillLinkPreviews()).toBe(1);
+      expect(await backfillLinkPreviews()).toBe(0);
+
+      const page = await getMessages({ channel_id: channelId, limit: 50 }, userId);
+      expect(page.messages.map(message => message.link_previews)).toEqual([
+        [{ url: 'https://old.example.com', title: 'Old', description: null, image: null, site_name: null }],
+        []
+      ]);
+      const stored = await db.select().from(chatMessagesTable).where(eq(chatMessagesTable.id, legacy[0].id)).execute();
+      expect(stored[0].link_preview).toBeNull();
+    });
   });
 
   describe('unfurlLink', () => {
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable, channelBansTable } from '../db/schema';
+import { setMemberRole, removeChannelMember, banMember, unbanMember, muteMember, unmuteMember, getChannelBans } from '../handlers/moderation';
+import { joinChannel, getChannelMembers } from '../handlers/channels';
+import { sendMessage, onNewMessage } from '../handlers/messages';
+import { createPrivateChat, addUserToPrivateChat } from '../handlers/private-chat';
+import { eq, and } from 'drizzle-orm';
+
+describe('Moderation Handlers', () => {
+  let ownerId: number;
+  let adminId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let channelId: number;
+
+  const roleOf = async (userId: number): Promise<string | null> => {
+    const rows = await db.select({ role: channelMembersTable.role })
+      .from(channelMembersTable)
+      .where(and(eq(channelMembersTable.channel_id, channelId), eq(channelMembersTable.user_id, userId)))
+      .execute();
+    return rows.length > 0 ? rows[0].role : null;
+  };
+
+  const send = (userId: number) =>
+    sendMessage({ channel_id: channelId, content: 'hello', message_type: 'text' }, userId);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'owner', email: 'owner@example.com', password_hash: 'hash1' },
+        { username: 'admin', email: 'admin@example.com', password_hash: 'hash2' },
+        { username: 'member', email: 'member@example.com', password_hash: 'hash3' },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hash4' }
+      ])
+      .returning()
+      .execute();
+
+    [ownerId, adminId, memberId, outsiderId] = users.map(user => user.id);
+
+    const channels = await db.insert(chatChannelsTable)
+      .values({ name: 'general', is_private: false, created_by: ownerId })
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: ownerId, role: 'owner' },
+        { channel_id: channelId, user_id: adminId, role: 'admin' },
+        { channel_id: channelId, user_id: memberId, role: 'member' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('setMemberRole', () => {
+    it('should let the owner promote and demote', async () => {
+      expect((await setMemberRole({ channel_id: channelId, user_id: memberId, role: 'admin' }, ownerId)).success).toBe(true);
+      expect(await roleOf(memberId)).toBe('admin');
+
+      expect((await setMemberRole({ channel_id: channelId, user_id: adminId, role: 'member' }, ownerId)).success).toBe(true);
+      expect(await roleOf(adminId)).toBe('member');
+    });
+
+    it('should refuse admins and changes to the owner', async () => {
+      const byAdmin = await setMemberRole({ channel_id: channelId, user_id: memberId, role: 'admin' }, adminId);
+      const ofOwner = await setMemberRole({ channel_id: channelId, user_id: ownerId, role: 'member' }, ownerId);
+
+      expect(byAdmin).toEqual({ success: false, message: 'Only the channel owner can change member roles' });
+      expect(ofOwner.success).toBe(false);
+      expect(await roleOf(memberId)).toBe('member');
+      expect(await roleOf(ownerId)).toBe('owner');
+    });
+  });
+
+  describe('removeChannelMember', () => {
+    it('should let moderators remove lower ranked members only', async () => {
+      expect((await removeChannelMember(channelId, adminId, ownerId)).message).toMatch(/equal or higher role/);
+      expect((await removeChannelMember(channelId, memberId, adminId)).message).toMatch(/do not have permission/);
+
+      expect((await removeChannelMember(channelId, adminId, memberId)).success).toBe(true);
+      expect(await roleOf(memberId)).toBe(null);
+    });
+
+    it('should end the removed member\'s subscriptions', async () => {
+      const controller = new AbortController();
+      const events = onNewMessage(channelId, memberId, controller.signal);
+      const received = events.next();
+      await sendMessage({ channel_id: channelId, content: 'Hello', message_type: 'text' }, ownerId);
+      await received;
+
+      await removeChannelMember(channelId, adminId, memberId);
+
+      expect(await events.next()).toEqual({ done: true, value: undefined });
+      controller.abort();
+    });
+  });
+
+  describe('bans', () => {
+    it('should remove banned members and keep them from rejoining', async () => {
+      const result = await banMember({ channel_id: channelId, user_id: memberId }, adminId);
+
+      expect(result.success).toBe(true);
+      expect(await roleOf(memberId)).toBe(null);
+      expect(await joinChannel({ channel_id: channelId }, memberId)).toEqual({ success: false, message: 'You are banned from this channel' });
+    });
+
+    it('should stop delivering messages to a subscriber once they are banned', async () => {
+      const controller = new AbortController();
+      const events = onNewMessage(channelId, memberId, controller.signal);
+      const received = events.next();
+      await sendMessage({ channel_id: channelId, content: 'Before the ban', message_type: 'text' }, ownerId);
+      expect((await received).value!.content).toBe('Before the ban');
+
+      await banMember({ channel_id: channelId, user_id: memberId }, adminId);
+      const ended = events.next();
+      await sendMessage({ channel_id: channelId, content: 'After the ban', message_type: 'text' }, ownerId);
+
+      expect(await ended).toEqual({ done: true, value: undefined });
+      controller.abort();
+    });
+
+    it('should allow banning users before they join', async () => {
+      await banMember({ channel_id: channelId, user_id: outsiderId, duration_minutes: 60 }, ownerId);
+
+      expect((await joinChannel({ channel_id: channelId }, outsiderId)).success).toBe(false);
+    });
+
+    it('should let users rejoin once the ban expires or is lifted', async () => {
+      await banMember({ channel_id: channelId, user_id: memberId, duration_minutes: 60 }, ownerId);
+      await banMember({ channel_id: channelId, user_id: outsiderId }, ownerId);
+      await db.update(channelBansTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(channelBansTable.user_id, memberId))
+        .execute();
+
+      expect((await joinChannel({ channel_id: channelId }, memberId)).success).toBe(true);
+
+      expect((await unbanMember({ channel_id: channelId, user_id: outsiderId }, adminId)).success).toBe(true);
+      expect((await unbanMember({ channel_id: channelId, user_id: outsiderId }, adminId)).success).toBe(false);
+      expect((await joinChannel({ channel_id: channelId }, outsiderId)).success).toBe(true);
+    });
+
+    it('should not let admins ban each other or the owner', async () => {
+      await setMemberRole({ channel_id: channelId, user_id: memberId, role: 'admin' }, ownerId);
+
+      expect((await banMember({ channel_id: channelId, user_id: memberId }, adminId)).success).toBe(false);
+      expect((await banMember({ channel_id: channelId, user_id: ownerId }, adminId)).success).toBe(false);
+      expect(await roleOf(ownerId)).toBe('owner');
+    });
+
+    it('should list active bans to moderators only', async () => {
+      await banMember({ channel_id: channelId, user_id: memberId, duration_minutes: 60 }, adminId);
+      await banMember({ channel_id: channelId, user_id: outsiderId }, ownerId);
+
+      const bans = await getChannelBans(channelId, adminId);
+
+      expect(bans.map(ban => ban.user.username)).toEqual(['outsider', 'member']);
+      expect(bans[0].expires_at).toBe(null);
+      expect(bans[1].banned_by).toBe(adminId);
+      expect(bans[1].expires_at!.getTime()).toBeGreaterThan(Date.now());
+      await expect(getChannelBans(channelId, outsiderId)).rejects.toThrow(/only channel owners and admins/i);
+    });
+
+    it('should keep banned users out of private chats', async () => {
+      const chat = await createPrivateChat(ownerId, adminId);
+      await banMember({ channel_id: chat.id, user_id: memberId }, ownerId);
+
+      expect(await addUserToPrivateChat(chat.id, ownerId, memberId)).toEqual({ success: false, message: 'User is banned from this chat' });
+    });
+  });
+
+  describe('mutes', () => {
+    it('should stop muted members from posting until unmuted', async () => {
+      await muteMember({ channel_id: channelId, user_id: memberId, duration_minutes: 10 }, adminId);
+
+      await expect(send(memberId)).rejects.toThrow(/you are muted in this channel/i);
+
+      await unmuteMember({ channel_id: channelId, user_id: memberId }, adminId);
+      expect((await send(memberId)).content).toBe('hello');
+    });
+
+    it('should let members post again once the mute runs out', async () => {
+      await muteMember({ channel_id: channelId, user_id: memberId, duration_minutes: 10 }, adminId);
+      await db.update(channelMembersTable)
+        .set({ muted_until: new Date(Date.now() - 1000) })
+        .where(eq(channelMembersTable.user_id, memberId))
+        .execute();
+
+      expect((await send(memberId)).content).toBe('hello');
+    });
+
+    it('should refuse muting equal or higher roles and non-members', async () => {
+      expect((await muteMember({ channel_id: channelId, user_id: ownerId, duration_minutes: 10 }, adminId)).success).toBe(false);
+      expect((await muteMember({ channel_id: channelId, user_id: outsiderId, duration_minutes: 10 }, adminId)).message).toBe('User is not a member of this channel');
+      expect((await muteMember({ channel_id: channelId, user_id: adminId, duration_minutes: 10 }, memberId)).success).toBe(false);
+    });
+  });
+
+  describe('getChannelMembers', () => {
+    it('should show roles and active mutes', async () => {
+      await muteMember({ channel_id: channelId, user_id: memberId, duration_minutes: 10 }, ownerId);
+
+      const members = await getChannelMembers(channelId, memberId);
+
+      expect(members.map(member => [member.username, member.role])).toEqual([['owner', 'owner'], ['admin', 'admin'], ['member', 'member']]);
+      expect(members[0].muted_until).toBe(null);
+      expect(members[2].muted_until!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable } from '../db/schema';
+import { listNotifications, markNotificationsRead, getUnreadNotificationCount, onNotification } from '../handlers/notifications';
+import { sendMessage, updateMessage, deleteMessage, restoreMessage } from '../handlers/messages';
+import { createPrivateChat, addUserToPrivateChat } from '../handlers/private-chat';
+
+describe('Notification Handlers', () => {
+  let aliceId: number;
+  let bobId: number;
+  let carolId: number;
+  let channelId: number;
+  let controller: AbortController;
+
+  const send = (content: string, userId: number, replyTo?: number) =>
+    sendMessage({ channel_id: channelId, content, message_type: 'text', reply_to_message_id: replyTo }, userId);
+
+  const inbox = (userId: number) =>
+    listNotifications({ limit: 20, unread_only: false }, userId);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hash1' },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hash2' },
+        { username: 'carol', email: 'carol@example.com', password_hash: 'hash3' }
+      ])
+      .returning()
+      .execute();
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    carolId = users[2].id;
+
+    const channels = await db.insert(chatChannelsTable)
+      .values({ name: 'general', is_private: false, created_by: aliceId })
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: aliceId, role: 'owner' },
+        { channel_id: channelId, user_id: bobId, role: 'member' },
+        { channel_id: channelId, user_id: carolId, role: 'member' }
+      ])
+      .execute();
+
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await resetDB();
+  });
+
+  describe('creation', () => {
+    it('should notify mentioned members', async () => {
+      const message = await send('hey @bob', aliceId);
+
+      const page = await inbox(bobId);
+
+      expect(page.nextCursor).toBe(null);
+      expect(page.notifications).toHaveLength(1);
+      expect(page.notifications[0]).toMatchObject({
+        type: 'mention',
+        actor: { id: aliceId, username: 'alice', avatar_url: null },
+        channel_id: channelId,
+        channel_name: 'general',
+        message_id: message.id,
+        excerpt: 'hey @bob',
+        is_read: false
+      });
+      expect((await inbox(carolId)).notifications).toHaveLength(0);
+    });
+
+    it('should notify the author of the message replied to', async () => {
+      const parent = await send('question', bobId);
+      const reply = await send('answer', aliceId, parent.id);
+
+      const notifications = (await inbox(bobId)).notifications;
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({ type: 'reply', message_id: reply.id });
+    });
+
+    it('should not notify about replies to your own messages or twice for a reply that mentions', async () => {
+      const parent = await send('question', bobId);
+      await send('never mind', bobId, parent.id);
+      await send('@bob answer', aliceId, parent.id);
+
+      const notifications = (await inbox(bobId)).notifications;
+
+      expect(notifications.map(notification => notification.type)).toEqual(['mention']);
+    });
+
+    it('should notify members newly mentioned by an edit only', async () => {
+      const message = await send('hey @bob', aliceId);
+      await updateMessage({ message_id: message.id, content: 'hey @bob and @carol' }, aliceId);
+
+      expect((await inbox(bobId)).notifications).toHaveLength(1);
+      expect((await inbox(carolId)).notifications).toHaveLength(1);
+    });
+
+    it('should notify the invited user of new direct messages', async () => {
+      const chat = await createPrivateChat(aliceId, bobId);
+      await createPrivateChat(aliceId, bobId);
+      const groupChat = await addUserToPrivateChat(chat.id, aliceId, carolId);
+
+      const bobNotifications = (await inbox(bobId)).notifications;
+      const carolNotifications = (await inbox(carolId)).notifications;
+
+      // Bob is invited to the 1:1 and then to the group DM it turned into
+      expect(bobNotifications.map(notification => notification.channel_id)).toEqual([groupChat.channel_id!, chat.id]);
+      expect(bobNotifications[1]).toMatchObject({ type: 'dm_invite', channel_id: chat.id, message_id: null, excerpt: null });
+      expect(carolNotifications).toHaveLength(1);
+      expect(carolNotifications[0]).toMatchObject({ channel_id: groupChat.channel_id });
+      expect(carolNotifications[0].actor.id).toBe(aliceId);
+    });
+
+    it('should hide notifications of deleted messages until they are restored', async () => {
+      const message = await send('hey @bob', aliceId);
+
+      await deleteMessage(message.id, aliceId);
+
+      expect((await inbox(bobId)).notifications).toHaveLength(0);
+      expect(await getUnreadNotificationCount(bobId)).toBe(0);
+
+      await restoreMessage(message.id, aliceId);
+
+      expect((await inbox(bobId)).notifications).toHaveLength(1);
+    });
+  });
+
+  describe('listNotifications', () => {
+    it('should page newest first', async () => {
+      const messages = [];
+      for (const content of ['@bob one', '@bob two', '@bob three']) {
+        messages.push(await send(content, aliceId));
+      }
+
+      const first = await listNotifications({ limit: 2, unread_only: false }, bobId);
+      const second = await listNotifications({ limit: 2, before: first.nextCursor!, unread_only: false }, bobId);
+
+      expect(first.notifications.map(notification => notification.message_id)).toEqual([messages[2].id, messages[1].id]);
+      expect(first.nextCursor).toBe(first.notifications[1].id);
+      expect(second.notifications.map(notification => notification.message_id)).toEqual([messages[0].id]);
+      expect(second.nextCursor).toBe(null);
+    });
+
+    it('should filter to unread notifications', async () => {
+      await send('@bob one', aliceId);
+      await send('@bob two', aliceId);
+      const [latest] = (await inbox(bobId)).notifications;
+      await markNotificationsRead({ ids: [latest.id] }, bobId);
+
+      const unread = await listNotifications({ limit: 20, unread_only: true }, bobId);
+
+      expect(unread.notifications).toHaveLength(1);
+      expect(unread.notifications[0].excerpt).toBe('@bob one');
+    });
+  });
+
+  describe('markNotificationsRead', () => {
+    it('should mark the given notifications read', async () => {
+      await send('@bob one', aliceId);
+      await send('@bob two', aliceId);
+      const [latest] = (await inbox(bobId)).notifications;
+
+      const result = await markNotificationsRead({ ids: [latest.id] }, bobId);
+
+      expect(result).toEqual({ unread_count: 1 });
+      expect((await inbox(bobId)).notifications.map(notification => notification.is_read)).toEqual([true, false]);
+    });
+
+    it('should mark everything read without ids', async () => {
+      await send('@bob one', aliceId);
+      await send('@bob two', aliceId);
+
+      expect(await getUnreadNotificationCount(bobId)).toBe(2);
+      expect(await markNotificationsRead({}, bobId)).toEqual({ unread_count: 0 });
+      expect(await getUnreadNotificationCount(bobId)).toBe(0);
+    });
+
+    it("should not touch other users' notifications", async () => {
+      await send('@bob one', aliceId);
+      const [notification] = (await inbox(bobId)).notifications;
+
+      await markNotificationsRead({ ids: [notification.id] }, carolId);
+
+      expect(await getUnreadNotificationCount(bobId)).toBe(1);
+    });
+  });
+
+  describe('onNotification', () => {
+    it('should stream new notifications to their recipient only', async () => {
+      const events = onNotification(bobId, controller.signal);
+      const received = events.next();
+
+      await send('@carol first', aliceId);
+      const message = await send('@bob second', aliceId);
+
+      expect((await received).value).toMatchObject({ type: 'mention', message_id: message.id, is_read: false });
+
+      await events.return(undefined);
+    });
+  });
+});
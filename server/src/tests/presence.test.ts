@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, presenceConnectionsTable } from '../db/schema';
+import { type HeartbeatInput } from '../schema';
+import {
+  heartbeat,
+  disconnect,
+  disconnectSession,
+  expireStalePresence,
+  refreshPresence,
+  onPresenceChange,
+  PRESENCE_TIMEOUT_MS
+} from '../handlers/presence';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  username: 'presence_user',
+  email: 'presence@example.com',
+  password_hash: 'hash1'
+};
+
+const staleTime = () => new Date(Date.now() - PRESENCE_TIMEOUT_MS - 1000);
+
+describe('Presence Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  const getUser = async () => {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    return users[0];
+  };
+
+  describe('heartbeat', () => {
+    it('should mark the user online', async () => {
+      const input: HeartbeatInput = { connection_id: 'tab-1', is_idle: false };
+
+      const result = await heartbeat(input, userId, null);
+
+      expect(result!.status).toBe('online');
+      expect(result!.is_online).toBe(true);
+
+      const user = await getUser();
+      expect(user.status).toBe('online');
+      expect(user.is_online).toBe(true);
+    });
+
+    it('should track each device separately', async () => {
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, null);
+      await heartbeat({ connection_id: 'phone', is_idle: false }, userId, null);
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, null);
+
+      const connections = await db.select()
+        .from(presenceConnectionsTable)
+        .where(eq(presenceConnectionsTable.user_id, userId))
+        .execute();
+
+      expect(connections).toHaveLength(2);
+    });
+
+    it('should show away when every device is idle', async () => {
+      await heartbeat({ connection_id: 'laptop', is_idle: true }, userId, null);
+      const result = await heartbeat({ connection_id: 'phone', is_idle: true }, userId, null);
+
+      expect(result!.status).toBe('away');
+      expect(result!.is_online).toBe(true);
+
+      const active = await heartbeat({ connection_id: 'phone', is_idle: false }, userId, null);
+      expect(active!.status).toBe('online');
+    });
+
+    it('should keep an explicitly chosen status', async () => {
+      await db.update(usersTable)
+        .set({ preferred_status: 'dnd' })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const result = await heartbeat({ connection_id: 'tab-1', is_idle: true }, userId, null);
+
+      expect(result!.status).toBe('dnd');
+    });
+
+    it('should keep invisible users offline', async () => {
+      await db.update(usersTable)
+        .set({ preferred_status: 'invisible' })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const result = await heartbeat({ connection_id: 'tab-1', is_idle: false }, userId, null);
+
+      expect(result!.status).toBe('offline');
+      expect(result!.is_online).toBe(false);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should stay online while another device is connected', async () => {
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, null);
+      await heartbeat({ connection_id: 'phone', is_idle: false }, userId, null);
+
+      const result = await disconnect('laptop', userId);
+
+      expect(result!.status).toBe('online');
+    });
+
+    it('should go offline when the last device disconnects', async () => {
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, null);
+
+      const result = await disconnect('laptop', userId);
+
+      expect(result!.status).toBe('offline');
+      expect((await getUser()).is_online).toBe(false);
+    });
+
+    it('should drop only the connections of the given session', async () => {
+      const sessions = await db.insert(sessionsTable)
+        .values([
+          { user_id: userId, refresh_token_hash: 'hash-a', expires_at: new Date(Date.now() + 60000) },
+          { user_id: userId, refresh_token_hash: 'hash-b', expires_at: new Date(Date.now() + 60000) }
+        ])
+        .returning()
+        .execute();
+
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, sessions[0].id);
+      await heartbeat({ connection_id: 'phone', is_idle: false }, userId, sessions[1].id);
+
+      const result = await disconnectSession(sessions[0].id, userId);
+      expect(result!.status).toBe('online');
+
+      const remaining = await db.select()
+        .from(presenceConnectionsTable)
+        .where(eq(presenceConnectionsTable.user_id, userId))
+        .execute();
+
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].connection_id).toBe('phone');
+    });
+  });
+
+  describe('expireStalePresence', () => {
+    it('should take users offline when heartbeats stop', async () => {
+      await heartbeat({ connection_id: 'tab-1', is_idle: false }, userId, null);
+      await db.update(presenceConnectionsTable)
+        .set({ last_heartbeat_at: staleTime() })
+        .execute();
+
+      const refreshed = await expireStalePresence();
+
+      expect(refreshed.map(user => user.id)).toEqual([userId]);
+      expect(refreshed[0].status).toBe('offline');
+
+      const connections = await db.select()
+        .from(presenceConnectionsTable)
+        .execute();
+      expect(connections).toHaveLength(0);
+      expect((await getUser()).is_online).toBe(false);
+    });
+
+    it('should keep users with a live device online', async () => {
+      await heartbeat({ connection_id: 'laptop', is_idle: false }, userId, null);
+      await heartbeat({ connection_id: 'phone', is_idle: false }, userId, null);
+      await db.update(presenceConnectionsTable)
+        .set({ last_heartbeat_at: staleTime() })
+        .where(eq(presenceConnectionsTable.connection_id, 'laptop'))
+        .execute();
+
+      await expireStalePresence();
+
+      const user = await getUser();
+      expect(user.status).toBe('online');
+    });
+
+    it('should clear users flagged online without any connection', async () => {
+      await db.update(usersTable)
+        .set({ is_online: true, status: 'online', last_seen: staleTime() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await expireStalePresence();
+
+      const user = await getUser();
+      expect(user.is_online).toBe(false);
+      expect(user.status).toBe('offline');
+    });
+
+    it('should leave freshly logged-in users alone until the timeout', async () => {
+      await db.update(usersTable)
+        .set({ is_online: true, status: 'online', last_seen: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const refreshed = await expireStalePresence();
+
+      expect(refreshed).toHaveLength(0);
+      expect((await getUser()).is_online).toBe(true);
+    });
+  });
+
+  describe('refreshPresence', () => {
+    it('should return null for non-existent users', async () => {
+      expect(await refreshPresence(99999)).toBeNull();
+    });
+  });
+
+  describe('onPresenceChange', () => {
+    it('should broadcast status changes', async () => {
+      const controller = new AbortController();
+      const events = onPresenceChange(controller.signal);
+      const received = events.next();
+
+      await heartbeat({ connection_id: 'tab-1', is_idle: false }, userId, null);
+
+      const { value } = await received;
+      expect(value!.id).toBe(userId);
+      expect(value!.status).toBe('online');
+
+      await events.return(undefined);
+      controller.abort();
+    });
+  });
+});
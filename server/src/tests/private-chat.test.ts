@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, chatChannelsTable, channelMembersTable, chatMessagesTable } from '../db/schema';
-import { createPrivateChat, getPrivateChats, getPrivateChatUsers, addUserToPrivateChat } from '../handlers/private-chat';
+import { createPrivateChat, createGroupChat, getPrivateChats, getPrivateChatUsers, addUserToPrivateChat } from '../handlers/private-chat';
 import { eq, and } from 'drizzle-orm';
 
 describe('Private Chat Handlers', () => {
@@ -134,6 +134,43 @@ describe('Private Chat Handlers', () => {
     });
   });
 
+  describe('createGroupChat', () => {
+    it('should find or create a group DM by its exact participants', async () => {
+      const users = await createTestUsers();
+      const [user1, user2, user3] = users;
+
+      const groupChat = await createGroupChat({ userIds: [user2.id, user3.id] }, user1.id);
+      const sameGroup = await createGroupChat({ userIds: [user1.id, user3.id] }, user2.id);
+      const directChat = await createPrivateChat(user1.id, user2.id);
+
+      expect(sameGroup.id).toBe(groupChat.id);
+      expect(directChat.id).not.toBe(groupChat.id);
+      expect(groupChat.is_private).toBe(true);
+
+      const members = await db.select()
+        .from(channelMembersTable)
+        .where(eq(channelMembersTable.channel_id, groupChat.id))
+        .execute();
+      expect(members.map(m => m.user_id).sort()).toEqual([user1.id, user2.id, user3.id].sort());
+    });
+
+    it('should allow 3 to 9 participants', async () => {
+      const users = await db.insert(usersTable)
+        .values(Array.from({ length: 10 }, (_, i) => ({ username: `member${i}`, email: `member${i}@test.com`, password_hash: 'hash' })))
+        .returning()
+        .execute();
+      const [creator, ...others] = users.map(user => user.id);
+
+      await expect(createGroupChat({ userIds: [others[0], creator] }, creator)).rejects.toThrow(/3 to 9 participants/);
+      await expect(createGroupChat({ userIds: others }, creator)).rejects.toThrow(/3 to 9 participants/);
+      await expect(createGroupChat({ userIds: [others[0], 999] }, creator)).rejects.toThrow(/user not found/i);
+
+      const largest = await createGroupChat({ userIds: others.slice(0, 8) }, creator);
+      const result = await addUserToPrivateChat(largest.id, creator, others[8]);
+      expect(result).toEqual({ success: false, message: 'Group DMs are limited to 9 participants' });
+    });
+  });
+
   describe('getPrivateChats', () => {
     it('should return empty array when user has no private chats', async () => {
       const users = await createTestUsers();
@@ -225,6 +262,49 @@ describe('Private Chat Handlers', () => {
       expect(privateChats[1].id).toBe(chat1.id);
       expect(privateChats[1].lastMessage?.content).toBe('Old message');
     });
+
+    it('should not list private channels as DMs', async () => {
+      const users = await createTestUsers();
+      const [user1, user2] = users;
+
+      const privateChannel = await db.insert(chatChannelsTable)
+        .values({ name: 'secret', is_private: true, kind: 'private', created_by: user1.id })
+        .returning()
+        .execute();
+      await db.insert(channelMembersTable)
+        .values([
+          { channel_id: privateChannel[0].id, user_id: user1.id, role: 'owner' },
+          { channel_id: privateChannel[0].id, user_id: user2.id, role: 'member' }
+        ])
+        .execute();
+
+      const directChat = await createPrivateChat(user1.id, user2.id);
+      const privateChats = await getPrivateChats(user1.id);
+
+      expect(directChat.id).not.toBe(privateChannel[0].id);
+      expect(directChat.kind).toBe('dm');
+      expect(privateChats.map(chat => chat.id)).toEqual([directChat.id]);
+    });
+
+    it('should name group DMs after the other participants', async () => {
+      const users = await db.insert(usersTable)
+        .values(['dora', 'bob', 'carl', 'eve', 'al'].map(username => ({ username, email: `${username}@test.com`, password_hash: 'hash' })))
+        .returning()
+        .execute();
+      const [dora, ...others] = users;
+
+      await createGroupChat({ userIds: others.slice(0, 2).map(user => user.id) }, dora.id);
+      await createGroupChat({ userIds: others.map(user => user.id) }, dora.id);
+
+      const chats = await getPrivateChats(dora.id);
+      const [large, small] = [...chats].sort((a, b) => b.member_count - a.member_count);
+
+      expect(small.display_name).toBe('bob, carl');
+      expect(small.member_count).toBe(3);
+      expect(large.display_name).toBe('al, bob, carl +1');
+      expect(large.participants.map(user => user.username)).toEqual(['al', 'bob', 'carl', 'eve']);
+      expect(large.otherUser.username).toBe('al');
+    });
   });
 
   describe('getPrivateChatUsers', () => {
@@ -249,9 +329,9 @@ describe('Private Chat Handlers', () => {
       const privateChat = await createPrivateChat(user1.id, user2.id);
       
       // Add third user to make it a group chat
-      await addUserToPrivateChat(privateChat.id, user1.id, user3.id);
+      const result = await addUserToPrivateChat(privateChat.id, user1.id, user3.id);
       
-      const otherUsers = await getPrivateChatUsers(privateChat.id, user1.id);
+      const otherUsers = await getPrivateChatUsers(result.channel_id!, user1.id);
 
       expect(otherUsers).toHaveLength(2);
       const userIds = otherUsers.map(u => u.id);
@@ -301,7 +381,7 @@ describe('Private Chat Handlers', () => {
   });
 
   describe('addUserToPrivateChat', () => {
-    it('should successfully add user when requester is owner', async () => {
+    it('should start a group DM instead of changing a 1:1 DM', async () => {
       const users = await createTestUsers();
       const [user1, user2, user3] = users;
 
@@ -309,18 +389,42 @@ describe('Private Chat Handlers', () => {
       const result = await addUserToPrivateChat(privateChat.id, user1.id, user3.id);
 
       expect(result.success).toBe(true);
-      expect(result.message).toBe('User added to private chat successfully');
+      expect(result.message).toBe('Started a group DM');
+      expect(result.channel_id).not.toBe(privateChat.id);
 
-      // Verify user3 is now a member
-      const members = await db.select()
+      // The 1:1 DM keeps its two members
+      const directMembers = await db.select()
         .from(channelMembersTable)
         .where(eq(channelMembersTable.channel_id, privateChat.id))
         .execute();
+      expect(directMembers).toHaveLength(2);
+
+      const groupMembers = await db.select()
+        .from(channelMembersTable)
+        .where(eq(channelMembersTable.channel_id, result.channel_id!))
+        .execute();
+
+      expect(groupMembers.map(m => m.user_id).sort()).toEqual([user1.id, user2.id, user3.id].sort());
+      expect(groupMembers.find(m => m.user_id === user3.id)?.role).toBe('member');
+
+      // Adding the same user again reuses the group DM
+      const again = await addUserToPrivateChat(privateChat.id, user1.id, user3.id);
+      expect(again.channel_id).toBe(result.channel_id!);
+    });
+
+    it('should add users to an existing group DM in place', async () => {
+      const users = await createTestUsers();
+      const [user1, user2, user3] = users;
+      const extra = await db.insert(usersTable)
+        .values({ username: 'user4', email: 'user4@test.com', password_hash: 'hash4' })
+        .returning()
+        .execute();
+
+      const groupChat = await createGroupChat({ userIds: [user2.id, user3.id] }, user1.id);
+      const result = await addUserToPrivateChat(groupChat.id, user1.id, extra[0].id);
 
-      expect(members).toHaveLength(3);
-      const user3Member = members.find(m => m.user_id === user3.id);
-      expect(user3Member).toBeDefined();
-      expect(user3Member?.role).toBe('member');
+      expect(result).toEqual({ success: true, message: 'User added to private chat successfully', channel_id: groupChat.id });
+      expect(await getPrivateChatUsers(groupChat.id, user1.id)).toHaveLength(3);
     });
 
     it('should fail when user does not have permission', async () => {
@@ -391,7 +495,7 @@ describe('Private Chat Handlers', () => {
       const result = await addUserToPrivateChat(privateChat.id, user2.id, user3.id);
 
       expect(result.success).toBe(true);
-      expect(result.message).toBe('User added to private chat successfully');
+      expect(result.message).toBe('Started a group DM');
     });
 
     it('should fail for non-private channel', async () => {
@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable } from '../db/schema';
+import { markRead, getUnreadCounts, getReadReceipts, onReadReceipt, onUnreadChanged } from '../handlers/read-receipts';
+import { sendMessage } from '../handlers/messages';
+import { getUserChannels, leaveChannel } from '../handlers/channels';
+import { createPrivateChat, getPrivateChats } from '../handlers/private-chat';
+import { subscribe } from '../events';
+
+describe('Read Receipt Handlers', () => {
+  let aliceId: number;
+  let bobId: number;
+  let outsiderId: number;
+  let channelId: number;
+  let controller: AbortController;
+
+  const send = (content: string, userId: number, toChannelId: number = channelId) =>
+    sendMessage({ channel_id: toChannelId, content, message_type: 'text' }, userId);
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hash1' },
+        { username: 'b.ob', email: 'bob@example.com', password_hash: 'hash2' },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hash3' }
+      ])
+      .returning()
+      .execute();
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    outsiderId = users[2].id;
+
+    const channels = await db.insert(chatChannelsTable)
+      .values({ name: 'general', is_private: false, created_by: aliceId })
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: aliceId, role: 'owner' },
+        { channel_id: channelId, user_id: bobId, role: 'member' }
+      ])
+      .execute();
+
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await resetDB();
+  });
+
+  describe('markRead', () => {
+    it('should mark up to the latest message by default', async () => {
+      await send('one', aliceId);
+      const latest = await send('two', aliceId);
+
+      const receipt = await markRead({ channel_id: channelId }, bobId);
+
+      expect(receipt).toEqual({
+        channel_id: channelId,
+        user_id: bobId,
+        username: 'b.ob',
+        last_read_message_id: latest.id
+      });
+    });
+
+    it('should never move the read position backwards', async () => {
+      const first = await send('one', aliceId);
+      const second = await send('two', aliceId);
+
+      await markRead({ channel_id: channelId, message_id: second.id }, bobId);
+      const receipt = await markRead({ channel_id: channelId, message_id: first.id }, bobId);
+
+      expect(receipt!.last_read_message_id).toBe(second.id);
+    });
+
+    it('should return null when the channel has no messages', async () => {
+      expect(await markRead({ channel_id: channelId }, bobId)).toBe(null);
+    });
+
+    it('should reject messages from another channel', async () => {
+      const otherChannel = await db.insert(chatChannelsTable)
+        .values({ name: 'other', is_private: false, created_by: aliceId })
+        .returning()
+        .execute();
+      await db.insert(channelMembersTable)
+        .values({ channel_id: otherChannel[0].id, user_id: aliceId, role: 'owner' })
+        .execute();
+      const elsewhere = await send('elsewhere', aliceId, otherChannel[0].id);
+
+      await expect(markRead({ channel_id: channelId, message_id: elsewhere.id }, aliceId))
+        .rejects.toThrow(/not found in this channel/i);
+    });
+
+    it('should reject non-members', async () => {
+      await send('one', aliceId);
+
+      await expect(markRead({ channel_id: channelId }, outsiderId)).rejects.toThrow(/access/i);
+    });
+  });
+
+  describe('unread counts', () => {
+    it('should count messages from others since the last read', async () => {
+      const first = await send('one', aliceId);
+      await send('two', aliceId);
+      await send('mine', bobId);
+
+      let counts = await getUnreadCounts(bobId, [channelId]);
+      expect(counts.get(channelId)).toEqual({ channel_id: channelId, unread_count: 2, mention_count: 0 });
+
+      await markRead({ channel_id: channelId, message_id: first.id }, bobId);
+      counts = await getUnreadCounts(bobId, [channelId]);
+      expect(counts.get(channelId)!.unread_count).toBe(1);
+
+      await markRead({ channel_id: channelId }, bobId);
+      counts = await getUnreadCounts(bobId, [channelId]);
+      expect(counts.get(channelId)!.unread_count).toBe(0);
+    });
+
+    it('should count mentions of the member by username', async () => {
+      await send('hey @b.ob, look', aliceId);
+      await send('@B.OB again', aliceId);
+      // Neither is a mention of b.ob: a longer name, and the dot matching any character
+      await send('@b.obby is someone else', aliceId);
+      await send('@bxob is not either', aliceId);
+      await send('mail b.ob@example.com', aliceId);
+
+      const counts = await getUnreadCounts(bobId, [channelId]);
+
+      expect(counts.get(channelId)).toEqual({ channel_id: channelId, unread_count: 5, mention_count: 2 });
+    });
+
+    it('should skip channels the user is not a member of', async () => {
+      const counts = await getUnreadCounts(outsiderId, [channelId]);
+
+      expect(counts.size).toBe(0);
+    });
+
+    it('should be included in the user channel list', async () => {
+      await send('hi @b.ob', aliceId);
+
+      const channels = await getUserChannels(bobId);
+
+      expect(channels).toHaveLength(1);
+      expect(channels[0].unread_count).toBe(1);
+      expect(channels[0].mention_count).toBe(1);
+      expect(channels[0].last_read_message_id).toBe(null);
+    });
+
+    it('should be included in the private chat list', async () => {
+      const chat = await createPrivateChat(aliceId, bobId);
+      await send('psst', aliceId, chat.id);
+
+      const bobChats = await getPrivateChats(bobId);
+      const aliceChats = await getPrivateChats(aliceId);
+
+      expect(bobChats[0].unread_count).toBe(1);
+      expect(aliceChats[0].unread_count).toBe(0);
+    });
+  });
+
+  describe('getReadReceipts', () => {
+    it("should list other members' read positions", async () => {
+      const message = await send('one', aliceId);
+      await markRead({ channel_id: channelId }, bobId);
+      await markRead({ channel_id: channelId }, aliceId);
+
+      const receipts = await getReadReceipts(channelId, aliceId);
+
+      expect(receipts).toEqual([{
+        channel_id: channelId,
+        user_id: bobId,
+        username: 'b.ob',
+        last_read_message_id: message.id
+      }]);
+    });
+
+    it('should leave out members who have not read anything', async () => {
+      await send('one', aliceId);
+
+      expect(await getReadReceipts(channelId, aliceId)).toEqual([]);
+    });
+
+    it('should reject non-members', async () => {
+      await expect(getReadReceipts(channelId, outsiderId)).rejects.toThrow(/access/i);
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should broadcast reads to other members', async () => {
+      const message = await send('one', aliceId);
+      const events = onReadReceipt(channelId, aliceId, controller.signal);
+      const received = events.next();
+
+      await markRead({ channel_id: channelId }, bobId);
+
+      expect((await received).value).toEqual({
+        channel_id: channelId,
+        user_id: bobId,
+        username: 'b.ob',
+        last_read_message_id: message.id
+      });
+
+      await events.return(undefined);
+    });
+
+    it('should not broadcast a read that changes nothing', async () => {
+      await send('one', aliceId);
+      await markRead({ channel_id: channelId }, bobId);
+
+      const events = onReadReceipt(channelId, aliceId, controller.signal);
+      const received = events.next();
+
+      await markRead({ channel_id: channelId }, bobId);
+      const latest = await send('two', aliceId);
+      await markRead({ channel_id: channelId }, bobId);
+
+      expect((await received).value!.last_read_message_id).toBe(latest.id);
+
+      await events.return(undefined);
+    });
+
+    it('should end read subscriptions when the member leaves', async () => {
+      await send('one', aliceId);
+      const events = onReadReceipt(channelId, bobId, controller.signal);
+      const received = events.next();
+      await markRead({ channel_id: channelId }, aliceId);
+      expect((await received).value!.user_id).toBe(aliceId);
+
+      await leaveChannel(channelId, bobId);
+      const ended = events.next();
+      await send('two', aliceId);
+      await markRead({ channel_id: channelId }, aliceId);
+
+      expect(await ended).toEqual({ done: true, value: undefined });
+    });
+
+    it('should reject read subscriptions from non-members', async () => {
+      const events = onReadReceipt(channelId, outsiderId, controller.signal);
+
+      await expect(events.next()).rejects.toThrow(/access/i);
+    });
+
+    it('should stream new unread counts to members', async () => {
+      const events = onUnreadChanged(bobId, controller.signal);
+      const received = events.next();
+
+      await send('own message', bobId);
+      await send('hello @b.ob', aliceId);
+
+      expect((await received).value).toEqual({ channel_id: channelId, unread_count: 1, mention_count: 1 });
+
+      await events.return(undefined);
+    });
+
+    it('should address new messages to the other members only', async () => {
+      const events = subscribe('unreadChanged', controller.signal);
+
+      await send('hello', aliceId);
+
+      expect((await events.next()).value).toEqual([{ channel_id: channelId, user_ids: [bobId] }]);
+    });
+
+    it('should not stream counts for channels the user is not in', async () => {
+      const events = onUnreadChanged(outsiderId, controller.signal);
+      const received = events.next();
+
+      await send('members only', aliceId);
+      const chat = await createPrivateChat(aliceId, outsiderId);
+      await send('for the outsider', aliceId, chat.id);
+
+      expect((await received).value!.channel_id).toBe(chat.id);
+
+      await events.return(undefined);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, chatChannelsTable, channelMembersTable } from '../db/schema';
+import { type TypingInput } from '../schema';
+import { setTyping, clearTyping, onTyping } from '../handlers/typing';
+import { sendMessage } from '../handlers/messages';
+import { leaveChannel } from '../handlers/channels';
+
+describe('Typing Handlers', () => {
+  let aliceId: number;
+  let bobId: number;
+  let outsiderId: number;
+  let channelId: number;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com', password_hash: 'hash1' },
+        { username: 'bob', email: 'bob@example.com', password_hash: 'hash2' },
+        { username: 'outsider', email: 'outsider@example.com', password_hash: 'hash3' }
+      ])
+      .returning()
+      .execute();
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    outsiderId = users[2].id;
+
+    const channels = await db.insert(chatChannelsTable)
+      .values({ name: 'general', is_private: false, created_by: aliceId })
+      .returning()
+      .execute();
+
+    channelId = channels[0].id;
+
+    await db.insert(channelMembersTable)
+      .values([
+        { channel_id: channelId, user_id: aliceId, role: 'owner' },
+        { channel_id: channelId, user_id: bobId, role: 'member' }
+      ])
+      .execute();
+
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    clearTyping(channelId, aliceId);
+    clearTyping(channelId, bobId);
+    await resetDB();
+  });
+
+  it('should broadcast typing to other channel members', async () => {
+    const events = onTyping(channelId, bobId, controller.signal);
+    const received = events.next();
+
+    const input: TypingInput = { channel_id: channelId, is_typing: true };
+    const result = await setTyping(input, aliceId);
+
+    expect(result.success).toBe(true);
+    expect((await received).value).toEqual({
+      channel_id: channelId,
+      user_id: aliceId,
+      username: 'alice',
+      is_typing: true
+    });
+
+    await events.return(undefined);
+  });
+
+  it('should not echo typing back to the typist', async () => {
+    const events = onTyping(channelId, aliceId, controller.signal);
+    const received = events.next();
+
+    await setTyping({ channel_id: channelId, is_typing: true }, aliceId);
+    await setTyping({ channel_id: channelId, is_typing: true }, bobId);
+
+    expect((await received).value!.user_id).toBe(bobId);
+
+    await events.return(undefined);
+  });
+
+  it('should expire typing after the TTL', async () => {
+    await setTyping({ channel_id: channelId, is_typing: true }, aliceId, 20);
+
+    const events = onTyping(channelId, bobId, controller.signal);
+    const { value } = await events.next();
+
+    expect(value!.user_id).toBe(aliceId);
+    expect(value!.is_typing).toBe(false);
+
+    await events.return(undefined);
+  });
+
+  it('should stop typing when asked', async () => {
+    await setTyping({ channel_id: channelId, is_typing: true }, aliceId);
+
+    const events = onTyping(channelId, bobId, controller.signal);
+    const received = events.next();
+
+    await setTyping({ channel_id: channelId, is_typing: false }, aliceId);
+
+    expect((await received).value!.is_typing).toBe(false);
+
+    await events.return(undefined);
+  });
+
+  it('should stop typing when the message is sent', async () => {
+    await setTyping({ channel_id: channelId, is_typing: true }, aliceId);
+
+    const events = onTyping(channelId, bobId, controller.signal);
+    const received = events.next();
+
+    await sendMessage({ channel_id: channelId, content: 'done', message_type: 'text' }, aliceId);
+
+    expect((await received).value!.is_typing).toBe(false);
+
+    await events.return(undefined);
+  });
+
+  it('should end the subscription when the member leaves', async () => {
+    const events = onTyping(channelId, bobId, controller.signal);
+    const received = events.next();
+    await setTyping({ channel_id: channelId, is_typing: true }, aliceId);
+    expect((await received).value!.is_typing).toBe(true);
+
+    await leaveChannel(channelId, bobId);
+    const ended = events.next();
+    await setTyping({ channel_id: channelId, is_typing: false }, aliceId);
+
+    expect(await ended).toEqual({ done: true, value: undefined });
+  });
+
+  it('should reject typing from non-members', async () => {
+    await expect(setTyping({ channel_id: channelId, is_typing: true }, outsiderId)).rejects.toThrow(/not a member/i);
+  });
+
+  it('should reject subscriptions from non-members', async () => {
+    const events = onTyping(channelId, outsiderId, controller.signal);
+
+    await expect(events.next()).rejects.toThrow(/access/i);
+  });
+});
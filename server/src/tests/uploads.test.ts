@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import sharp from 'sharp';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, attachmentsTable } from '../db/schema';
+import { createAttachment, readUpload, deleteStoredFiles, MAX_UPLOAD_BYTES } from '../handlers/uploads';
+
+// A landscape JPEG that is tagged to display rotated, carrying EXIF a user would not want shared
+const createTaggedJpeg = () => sharp({
+  create: { width: 400, height: 200, channels: 3, background: { r: 0, g: 128, b: 0 } }
+})
+  .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: 'Jane Doe', Software: 'Camera 1.0' } } })
+  .jpeg()
+  .toBuffer();
+
+describe('Upload Handlers', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const users = await db.insert(usersTable)
+      .values({ username: 'uploader', email: 'uploader@example.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+
+    userId = users[0].id;
+  });
+
+  afterEach(async () => {
+    const attachments = await db.select().from(attachmentsTable).execute();
+    await deleteStoredFiles(attachments);
+    await resetDB();
+  });
+
+  describe('createAttachment', () => {
+    it('should store an image and record it for the uploader', async () => {
+      const data = await createTaggedJpeg();
+
+      const result = await createAttachment({ filename: 'holiday.jpg', data }, userId);
+
+      expect(result.content_type).toBe('image/jpeg');
+      expect(result.filename).toBe('holiday.jpg');
+      expect(result.url).toMatch(/^\/uploads\/[a-f0-9]{32}\.jpg$/);
+      expect(result.thumbnail_url).toMatch(/^\/uploads\/[a-f0-9]{32}\.webp$/);
+
+      const rows = await db.select().from(attachmentsTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].user_id).toBe(userId);
+      expect(rows[0].message_id).toBe(null);
+    });
+
+    it('should strip metadata and apply the orientation', async () => {
+      const data = await createTaggedJpeg();
+      expect((await sharp(data).metadata()).exif).toBeDefined();
+
+      const result = await createAttachment({ filename: 'holiday.jpg', data }, userId);
+      expect(result.width).toBe(200);
+      expect(result.height).toBe(400);
+
+      const stored = await readUpload(result.url.split('/').pop()!);
+      expect(stored?.contentType).toBe('image/jpeg');
+      expect(stored?.body.length).toBe(result.size_bytes);
+
+      const metadata = await sharp(stored!.body).metadata();
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+      expect(metadata.width).toBe(200);
+      expect(metadata.height).toBe(400);
+    });
+
+    it('should generate a thumbnail that fits the bounding box', async () => {
+      const data = await createTaggedJpeg();
+
+      const result = await createAttachment({ filename: 'holiday.jpg', data }, userId);
+
+      const thumbnail = await readUpload(result.thumbnail_url.split('/').pop()!);
+      expect(thumbnail?.contentType).toBe('image/webp');
+
+      const metadata = await sharp(thumbnail!.body).metadata();
+      expect(metadata.format).toBe('webp');
+      expect(metadata.width).toBe(160);
+      expect(metadata.height).toBe(320);
+    });
+
+    it('should not enlarge small images for the thumbnail', async () => {
+      const data = await sharp({ create: { width: 40, height: 30, channels: 4, background: '#ffffff' } }).png().toBuffer();
+
+      const result = await createAttachment({ filename: 'icon.png', data }, userId);
+
+      expect(result.content_type).toBe('image/png');
+      const thumbnail = await readUpload(result.thumbnail_url.split('/').pop()!);
+      const metadata = await sharp(thumbnail!.body).metadata();
+      expect(metadata.width).toBe(40);
+      expect(metadata.height).toBe(30);
+    });
+
+    it('should take the type from the file contents rather than its name', async () => {
+      const data = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000000' } }).webp().toBuffer();
+
+      const result = await createAttachment({ filename: 'photo.jpg', data }, userId);
+
+      expect(result.content_type).toBe('image/webp');
+      expect(result.url).toMatch(/\.webp$/);
+    });
+
+    it('should keep only the base name of the file', async () => {
+      const data = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000000' } }).png().toBuffer();
+
+      const result = await createAttachment({ filename: 'C:\\Users\\jane\\secret.png', data }, userId);
+
+      expect(result.filename).toBe('secret.png');
+    });
+
+    it('should reject files that are not supported images', async () => {
+      const data = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+
+      await expect(createAttachment({ filename: 'image.svg', data }, userId)).rejects.toThrow(/unsupported file type/i);
+
+      const rows = await db.select().from(attachmentsTable).execute();
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should reject corrupt images', async () => {
+      const data = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('not really a png')]);
+
+      await expect(createAttachment({ filename: 'broken.png', data }, userId)).rejects.toThrow('File is not a valid image');
+    });
+
+    it('should reject empty and oversized files', async () => {
+      await expect(createAttachment({ filename: 'empty.png', data: Buffer.alloc(0) }, userId)).rejects.toThrow(/empty/i);
+      await expect(createAttachment({ filename: 'huge.png', data: Buffer.alloc(MAX_UPLOAD_BYTES + 1) }, userId))
+        .rejects.toThrow(/upload limit/i);
+    });
+  });
+
+  describe('readUpload', () => {
+    it('should return null for unknown or malformed keys', async () => {
+      expect(await readUpload('0123456789abcdef.png')).toBe(null);
+      expect(await readUpload('../package.json')).toBe(null);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, presenceConnectionsTable } from '../db/schema';
 import { type UpdateUserStatusInput } from '../schema';
 import {
   getOnlineUsers,
@@ -231,7 +231,9 @@ describe('User Handlers', () => {
   });
 
   describe('updateUserStatus', () => {
-    it('should update user online status and last_seen', async () => {
+    let userId: number;
+
+    beforeEach(async () => {
       const users = await db.insert(usersTable).values([
         {
           username: 'test_user',
@@ -242,13 +244,24 @@ describe('User Handlers', () => {
         }
       ]).returning({ id: usersTable.id }).execute();
 
-      const userId = users[0].id;
-      const input: UpdateUserStatusInput = { is_online: true };
+      userId = users[0].id;
+
+      // One live client connection
+      await db.insert(presenceConnectionsTable).values({
+        user_id: userId,
+        connection_id: 'tab-1'
+      }).execute();
+    });
+
+    it('should update the preferred status and derived presence', async () => {
+      const input: UpdateUserStatusInput = { status: 'dnd' };
 
       const result = await updateUserStatus(input, userId);
 
       expect(result.success).toBe(true);
       expect(result.message).toBe('User status updated successfully');
+      expect(result.user!.status).toBe('dnd');
+      expect(result.user!.is_online).toBe(true);
 
       // Verify database was updated
       const updatedUser = await db.select()
@@ -256,27 +269,20 @@ describe('User Handlers', () => {
         .where(eq(usersTable.id, userId))
         .execute();
 
+      expect(updatedUser[0].preferred_status).toBe('dnd');
+      expect(updatedUser[0].status).toBe('dnd');
       expect(updatedUser[0].is_online).toBe(true);
       expect(updatedUser[0].last_seen).toBeInstanceOf(Date);
       expect(updatedUser[0].updated_at).toBeInstanceOf(Date);
     });
 
-    it('should update user to offline status', async () => {
-      const users = await db.insert(usersTable).values([
-        {
-          username: 'test_user',
-          email: 'test@test.com',
-          password_hash: 'hash1',
-          is_online: true
-        }
-      ]).returning({ id: usersTable.id }).execute();
-
-      const userId = users[0].id;
-      const input: UpdateUserStatusInput = { is_online: false };
+    it('should show invisible users as offline', async () => {
+      const input: UpdateUserStatusInput = { status: 'invisible' };
 
       const result = await updateUserStatus(input, userId);
 
       expect(result.success).toBe(true);
+      expect(result.user!.status).toBe('offline');
 
       // Verify database was updated
       const updatedUser = await db.select()
@@ -284,6 +290,7 @@ describe('User Handlers', () => {
         .where(eq(usersTable.id, userId))
         .execute();
 
+      expect(updatedUser[0].preferred_status).toBe('invisible');
       expect(updatedUser[0].is_online).toBe(false);
     });
   });
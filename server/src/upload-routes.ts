@@ -0,0 +1,105 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import superjson from 'superjson';
+import { verifyToken } from './handlers/auth';
+import { createAttachment, readUpload, MAX_UPLOAD_BYTES, UPLOAD_ROUTE_PREFIX } from './handlers/uploads';
+import { uploadInputSchema } from './schema';
+
+// File bodies are not JSON, so uploads are plain HTTP routes beside tRPC:
+//   POST /uploads?filename=<name>  raw file as the body, bearer token required; responds with the attachment (superjson)
+//   GET  /uploads/<key>            the stored file or thumbnail
+export function isUploadRoute(req: IncomingMessage): boolean {
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+  return pathname === '/uploads' || pathname.startsWith(UPLOAD_ROUTE_PREFIX);
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: message }));
+}
+
+// Buffers the body, giving up as soon as it grows past the upload limit
+function readBody(req: IncomingMessage): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_UPLOAD_BYTES) {
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function handleUpload(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const authHeader = req.headers.authorization;
+  const payload = authHeader?.startsWith('Bearer ') ? verifyToken(authHeader.slice('Bearer '.length)) : null;
+  if (!payload) {
+    sendError(res, 401, 'Missing or invalid authentication token');
+    return;
+  }
+
+  if (Number(req.headers['content-length'] ?? 0) > MAX_UPLOAD_BYTES) {
+    sendError(res, 413, 'File exceeds the upload limit');
+    return;
+  }
+  const data = await readBody(req);
+  if (!data) {
+    sendError(res, 413, 'File exceeds the upload limit');
+    return;
+  }
+
+  const input = uploadInputSchema.safeParse({ filename: url.searchParams.get('filename') ?? 'upload', data });
+  if (!input.success) {
+    sendError(res, 400, 'Invalid file name');
+    return;
+  }
+
+  const attachment = await createAttachment(input.data, payload.userId);
+  res.statusCode = 201;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(superjson.stringify(attachment));
+}
+
+async function handleDownload(res: ServerResponse, key: string): Promise<void> {
+  const object = await readUpload(key);
+  if (!object) {
+    sendError(res, 404, 'File not found');
+    return;
+  }
+  res.statusCode = 200;
+  res.setHeader('Content-Type', object.contentType);
+  res.setHeader('Content-Length', object.body.length);
+  // Keys are never reused, so the content never changes
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.end(object.body);
+}
+
+export async function handleUploadRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (req.method === 'POST' && url.pathname === '/uploads') {
+      await handleUpload(req, res, url);
+    } else if (req.method === 'GET' && url.pathname.startsWith(UPLOAD_ROUTE_PREFIX)) {
+      await handleDownload(res, url.pathname.slice(UPLOAD_ROUTE_PREFIX.length));
+    } else {
+      sendError(res, 405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      sendError(res, getHTTPStatusCodeFromError(error), error.message);
+    } else {
+      sendError(res, 500, 'Upload failed');
+    }
+  }
+}